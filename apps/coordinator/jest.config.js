@@ -0,0 +1,12 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/test'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/test/tsconfig.json' }]
+  },
+  // Same source the tsconfig paths point at, so tests never run a stale proto build
+  moduleNameMapper: {
+    '^@photonx/proto$': '<rootDir>/../../packages/proto/src'
+  }
+};
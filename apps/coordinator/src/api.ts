@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import { CONSTANTS } from '@photonx/proto';
+
+// ============================================================================
+// HTTP API SCHEMAS
+// ============================================================================
+//
+// Request and response bodies of the routes PhotonXAPI (apps/web/src/lib/api.ts)
+// calls. They are the web app's simplified view; the coordinator translates
+// them into proto Quote and Fill messages, which are what actually get signed.
+
+export const ApiQuoteRequestSchema = z.object({
+  pair: z.string().regex(/^[A-Za-z0-9]+\/[A-Za-z0-9]+$/, 'Expected a pair like ETH/USDC'),
+  side: z.enum(['buy', 'sell']),
+  amount: z.string().regex(/^\d+(\.\d+)?$/, 'Expected a positive decimal amount'),
+  userAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Expected a 20-byte hex address'),
+  chainId: z.number().int().positive(),
+  // Quotes to return, best first; capped by AUCTION_MAX_QUOTES
+  topN: z.number().int().positive().optional(),
+  maxSlippageBps: z.number().int().min(0).max(CONSTANTS.MAX_SLIPPAGE_BPS).optional()
+});
+
+export type ApiQuoteRequest = z.infer<typeof ApiQuoteRequestSchema>;
+
+export interface ApiQuoteAlternative {
+  id: string;
+  pair: string;
+  side: 'buy' | 'sell';
+  amount: string; // As quoted, which may be less than requested
+  price: string; // Quote token per base token, human units
+  expires: number; // Unix ms
+  signature: string; // LP's EIP-712 signature over the proto Quote
+  gasSaved: number;
+  lp: string; // Address of the quoting LP
+  lpFeeBps: number;
+  channelId: string; // The trader's channel with this LP
+  quote: Record<string, any>; // serializeQuote output
+}
+
+export interface ApiQuoteResponse extends ApiQuoteAlternative {
+  auctionId: string;
+  alternatives: ApiQuoteAlternative[]; // Runners-up, best first; each is independently tradable
+}
+
+const SignatureStringSchema = z.string().regex(/^0x([a-fA-F0-9]{2})+$/, 'Expected a hex-encoded signature');
+
+export const ApiTradePrepareSchema = z.object({
+  quoteId: z.string().uuid(),
+  // Base token to take, human units; the whole remaining quote when omitted
+  amount: z.string().regex(/^\d+(\.\d+)?$/, 'Expected a positive decimal amount').optional()
+});
+
+export type ApiTradePrepare = z.infer<typeof ApiTradePrepareSchema>;
+
+export interface ApiPreparedTrade {
+  quoteId: string;
+  channelId: string;
+  nonce: string; // The channel's next nonce; a fill landing first makes this stale
+  fill: Record<string, any>; // serializeFill output; the trader signs this as userSignature
+  state: Record<string, any>; // serializeChannelState of the channel after the fill; signed as stateSignature
+}
+
+export const ApiTradeRequestSchema = z.object({
+  quoteId: z.string().uuid(),
+  fill: z.record(z.any()), // ApiPreparedTrade.fill, as signed
+  userSignature: SignatureStringSchema, // EIP-712 signature over `fill`
+  stateSignature: SignatureStringSchema, // Over computeChannelStateHash of the prepared state
+  // serializeSignedSessionAuthorization output, when the trader's session key signed instead of its wallet
+  authorization: z.record(z.any()).optional()
+});
+
+export type ApiTradeRequest = z.infer<typeof ApiTradeRequestSchema>;
+
+export interface ApiTradeResponse {
+  success: boolean;
+  fillId: string;
+  channelId: string;
+  nonce: string;
+  fill: Record<string, any>;
+  lpSignature: string; // LP countersignature over the same Fill
+  // The channel's new co-signed state, which either side can checkpoint or dispute with
+  state: Record<string, any>;
+  traderStateSignature: string;
+  lpStateSignature: string;
+  txHash?: string; // Fills settle off-chain; only set once a relayer submits on-chain
+}
+
+export const ApiHeartbeatRequestSchema = z.object({
+  envelope: z.unknown() // serializeEnvelope output of the trader's signed HEARTBEAT
+});
+
+export interface ApiHeartbeatResponse {
+  accepted: boolean; // False for a heartbeat the channel's monitor ignored, e.g. a replayed nonce
+}
+
+const DecimalAmountSchema = z.string().regex(/^\d+(\.\d+)?$/, 'Expected a non-negative decimal amount');
+
+// Admin-only, and the shape of each DEV_CHANNELS entry: records a channel the
+// trader opened with the internal LP. Deposits are keyed by display symbol
+// ("ETH", "USDC") in human units; a token left out is deposited as zero.
+export const ApiChannelOpenSchema = z.object({
+  trader: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Expected a 20-byte hex address'),
+  chainId: z.number().int().positive(),
+  pairs: z.array(z.string().regex(/^[A-Za-z0-9]+\/[A-Za-z0-9]+$/, 'Expected a pair like ETH/USDC')).min(1),
+  traderDeposits: z.record(DecimalAmountSchema).default({}),
+  lpDeposits: z.record(DecimalAmountSchema).default({}),
+  timeoutSeconds: z.number().int().positive().default(86_400)
+});
+
+export type ApiChannelOpen = z.infer<typeof ApiChannelOpenSchema>;
+
+export interface ApiChannelResponse {
+  channelId: string;
+  trader: string;
+  lp: string;
+  chainId: number;
+  status: string;
+  openNonce: string; // Channels the trader had already opened with this LP on the chain
+  tokens: string[];
+  traderDeposits: string[]; // Raw amounts, index-aligned with `tokens`
+  lpDeposits: string[];
+}
@@ -0,0 +1,281 @@
+import { TypedDataDomain } from 'ethers';
+import {
+  Address,
+  Clock,
+  EIP712_TYPES,
+  OrderSide,
+  PhotonXError,
+  QuoteError,
+  QuoteRequest,
+  assertWithinSlippage,
+  computeMessageHash,
+  effectivePrice,
+  serializeQuote,
+  serializeQuoteRequest,
+  systemClock,
+  validateSignature
+} from '@photonx/proto';
+import { LiquidityProvider, QuoteContext, SignedQuote } from './lps';
+import { ResolvedPair } from './market';
+
+// ============================================================================
+// AUCTION TYPES
+// ============================================================================
+//
+// One RFQ fans out to every eligible LP at once. Whatever arrives inside the
+// window is validated against the request it answers and ranked by the
+// fee-inclusive price the trader would actually get; everything else is
+// recorded with the reason it lost, so LP competitiveness can be analysed.
+
+export type BidStatus =
+  | 'WON' // Best quote, returned first
+  | 'RUNNER_UP' // Returned to the trader as an alternative
+  | 'LOST' // Valid but outranked
+  | 'LATE' // No answer inside the window
+  | 'DECLINED' // LP chose not to quote
+  | 'REJECTED' // Answer failed validation
+  | 'FAILED'; // LP errored or was unreachable
+
+export interface AuctionBid {
+  readonly lpId: string;
+  readonly lp: Address;
+  readonly request: QuoteRequest;
+  readonly status: BidStatus;
+  readonly latencyMs?: number;
+  readonly quote?: SignedQuote;
+  readonly effectivePrice?: bigint; // Fee-inclusive, 1e18-scaled
+  readonly reason?: string;
+}
+
+export interface AuctionRecord {
+  readonly auctionId: string;
+  readonly chainId: number;
+  readonly pair: string;
+  readonly side: OrderSide;
+  readonly trader: Address;
+  readonly referencePrice: bigint;
+  readonly startedAt: bigint;
+  readonly closedAt: bigint;
+  readonly bids: readonly AuctionBid[]; // Valid bids first, best to worst
+}
+
+export interface AuctionParams {
+  readonly auctionId: string;
+  readonly pair: ResolvedPair;
+  readonly pairLabel: string;
+  readonly chainId: number;
+  readonly side: OrderSide;
+  readonly trader: Address;
+  readonly domain: TypedDataDomain;
+  readonly referencePrice: bigint; // Mid the slippage bound is measured against
+  readonly invitations: readonly AuctionInvitation[];
+  readonly topN: number;
+}
+
+export interface AuctionInvitation {
+  readonly provider: LiquidityProvider;
+  readonly request: QuoteRequest; // Scoped to the trader's channel with this LP
+}
+
+export interface RfqAuctionOptions {
+  readonly windowMs: number;
+  readonly clock?: Clock;
+}
+
+const VALID_STATUSES: readonly BidStatus[] = ['WON', 'RUNNER_UP', 'LOST'];
+
+function sameAddress(a: Address, b: Address): boolean {
+  return a.value.toLowerCase() === b.value.toLowerCase();
+}
+
+/** Orders valid bids best-first: price, then larger size, then faster answer. */
+export function compareBids(side: OrderSide, a: AuctionBid, b: AuctionBid): number {
+  const priceA = a.effectivePrice!;
+  const priceB = b.effectivePrice!;
+  if (priceA !== priceB) {
+    const aBetter = side === 'BUY' ? priceA < priceB : priceA > priceB;
+    return aBetter ? -1 : 1;
+  }
+  const sizeA = a.quote!.quote.quantity;
+  const sizeB = b.quote!.quote.quantity;
+  if (sizeA !== sizeB) return sizeA > sizeB ? -1 : 1;
+  return (a.latencyMs ?? 0) - (b.latencyMs ?? 0);
+}
+
+// ============================================================================
+// RFQ AUCTION
+// ============================================================================
+
+export class RfqAuction {
+  private readonly clock: Clock;
+
+  constructor(private readonly options: RfqAuctionOptions) {
+    this.clock = options.clock ?? systemClock;
+  }
+
+  async run(params: AuctionParams): Promise<AuctionRecord> {
+    const startedAt = this.clock.now();
+    const controller = new AbortController();
+    const context: QuoteContext = {
+      chainId: params.chainId,
+      pair: params.pair,
+      domain: params.domain,
+      signal: controller.signal
+    };
+
+    const settled = new Map<string, AuctionBid>();
+    let closed = false;
+    const collect = params.invitations.map(async ({ provider, request }) => {
+      const sentAt = Date.now();
+      let bid: AuctionBid;
+      try {
+        const quote = await provider.quote(request, context);
+        const latencyMs = Date.now() - sentAt;
+        bid = quote
+          ? this.validate(provider, request, quote, params, latencyMs)
+          : { lpId: provider.id, lp: provider.address, request, status: 'DECLINED', latencyMs };
+      } catch (error) {
+        bid = {
+          lpId: provider.id,
+          lp: provider.address,
+          request,
+          status: 'FAILED',
+          latencyMs: Date.now() - sentAt,
+          reason: error instanceof Error ? error.message : String(error)
+        };
+      }
+      // Answers after the window closed are ignored; the bid stays LATE
+      if (!closed) settled.set(provider.id, bid);
+    });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    await Promise.race([
+      Promise.all(collect),
+      new Promise<void>(resolve => {
+        timer = setTimeout(resolve, this.options.windowMs);
+      })
+    ]);
+    closed = true;
+    clearTimeout(timer);
+    controller.abort();
+
+    const bids = params.invitations.map(({ provider, request }) =>
+      settled.get(provider.id) ??
+        { lpId: provider.id, lp: provider.address, request, status: 'LATE' as const });
+    return {
+      auctionId: params.auctionId,
+      chainId: params.chainId,
+      pair: params.pairLabel,
+      side: params.side,
+      trader: params.trader,
+      referencePrice: params.referencePrice,
+      startedAt,
+      closedAt: this.clock.now(),
+      bids: this.rank(bids, params.side, params.topN)
+    };
+  }
+
+  private validate(
+    provider: LiquidityProvider,
+    request: QuoteRequest,
+    signed: SignedQuote,
+    params: AuctionParams,
+    latencyMs: number
+  ): AuctionBid {
+    const base = { lpId: provider.id, lp: provider.address, request, latencyMs, quote: signed };
+    const { quote } = signed;
+    try {
+      if (!sameAddress(quote.lp, provider.address)) {
+        throw new QuoteError('Quote is not from the invited LP', { lp: quote.lp.value });
+      }
+      if (quote.channelId.value !== request.channelId.value || quote.requestNonce !== request.nonce) {
+        throw new QuoteError('Quote does not answer this request', { quoteId: quote.quoteId });
+      }
+      if (quote.expiryTimestamp <= this.clock.now()) {
+        throw new QuoteError('Quote expired on arrival', { quoteId: quote.quoteId });
+      }
+      const hash = computeMessageHash(params.domain, EIP712_TYPES, 'Quote', serializeQuote(quote));
+      if (!validateSignature(signed.signature, provider.address.value, hash)) {
+        throw new QuoteError('Invalid LP signature on quote', { quoteId: quote.quoteId });
+      }
+      assertWithinSlippage(request, quote, params.referencePrice);
+    } catch (error) {
+      if (!(error instanceof PhotonXError)) throw error;
+      return { ...base, status: 'REJECTED', reason: error.message };
+    }
+
+    // Provisionally LOST; rank() promotes the winners
+    return { ...base, status: 'LOST', effectivePrice: effectivePrice(quote.side, quote.price, quote.lpFeeBps) };
+  }
+
+  private rank(bids: AuctionBid[], side: OrderSide, topN: number): AuctionBid[] {
+    const valid = bids
+      .filter(bid => VALID_STATUSES.includes(bid.status))
+      .sort((a, b) => compareBids(side, a, b))
+      .map((bid, index): AuctionBid => ({
+        ...bid,
+        status: index === 0 ? 'WON' : index < topN ? 'RUNNER_UP' : 'LOST'
+      }));
+    return [...valid, ...bids.filter(bid => !VALID_STATUSES.includes(bid.status))];
+  }
+}
+
+export function auctionWinners(record: AuctionRecord): AuctionBid[] {
+  return record.bids.filter(bid => bid.status === 'WON' || bid.status === 'RUNNER_UP');
+}
+
+export interface SerializedAuctionBid {
+  readonly lpId: string;
+  readonly lp: string;
+  readonly status: BidStatus;
+  readonly latencyMs?: number;
+  readonly request: Record<string, any>; // serializeQuoteRequest output
+  readonly quote?: Record<string, any>; // serializeQuote output
+  readonly effectivePrice?: string;
+  readonly reason?: string;
+}
+
+export interface SerializedAuction {
+  readonly auctionId: string;
+  readonly chainId: number;
+  readonly pair: string;
+  readonly side: OrderSide;
+  readonly trader: string;
+  readonly referencePrice: string;
+  readonly startedAt: string;
+  readonly closedAt: string;
+  readonly bids: readonly SerializedAuctionBid[];
+}
+
+/**
+ * The part of an auction `lp` took part in: only its own bids, or undefined
+ * if it was not invited. Competing quotes are never shown to another LP.
+ */
+export function auctionForLp(record: AuctionRecord, lp: Address): AuctionRecord | undefined {
+  const bids = record.bids.filter(bid => sameAddress(bid.lp, lp));
+  return bids.length > 0 ? { ...record, bids } : undefined;
+}
+
+/** JSON view of an auction for the analytics endpoint. */
+export function serializeAuction(record: AuctionRecord): SerializedAuction {
+  return {
+    auctionId: record.auctionId,
+    chainId: record.chainId,
+    pair: record.pair,
+    side: record.side,
+    trader: record.trader.value,
+    referencePrice: record.referencePrice.toString(),
+    startedAt: record.startedAt.toString(),
+    closedAt: record.closedAt.toString(),
+    bids: record.bids.map(bid => ({
+      lpId: bid.lpId,
+      lp: bid.lp.value,
+      status: bid.status,
+      latencyMs: bid.latencyMs,
+      request: serializeQuoteRequest(bid.request),
+      quote: bid.quote && serializeQuote(bid.quote.quote),
+      effectivePrice: bid.effectivePrice?.toString(),
+      reason: bid.reason
+    }))
+  };
+}
@@ -0,0 +1,224 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import {
+  Address,
+  Clock,
+  SiweError,
+  SignatureProvider,
+  generateSiweNonce,
+  systemClock,
+  verifySiweMessage
+} from '@photonx/proto';
+import { HttpError } from './http';
+import { CoordinatorStore } from './store';
+
+// ============================================================================
+// AUTH TYPES
+// ============================================================================
+//
+// Traders sign in once with SIWE and then carry a short-lived HS256 access
+// token. Refresh tokens are single-use and tracked in the store, so a stolen
+// one stops working as soon as either party refreshes with it. Every route
+// that acts for a trader checks the token's address against the trader it
+// would act for; a valid token for someone else is as good as none.
+
+export const AuthLoginSchema = z.object({
+  message: z.string().min(1).max(4096),
+  signature: z.string().regex(/^0x([a-fA-F0-9]{2})+$/, 'Expected a hex-encoded signature')
+});
+
+export const AuthRefreshSchema = z.object({
+  refreshToken: z.string().min(1)
+});
+
+export type AuthLogin = z.infer<typeof AuthLoginSchema>;
+
+export type TokenType = 'access' | 'refresh';
+
+export interface AuthClaims {
+  readonly sub: string; // Lowercase address
+  readonly typ: TokenType;
+  readonly jti: string;
+  readonly iat: number; // Seconds, as JWT requires
+  readonly exp: number;
+}
+
+export interface AuthTokens {
+  readonly address: string;
+  readonly accessToken: string;
+  readonly accessTokenExpiresAt: number; // Unix ms
+  readonly refreshToken: string;
+  readonly refreshTokenExpiresAt: number;
+}
+
+export interface AuthServiceOptions {
+  readonly store: CoordinatorStore;
+  readonly secret: string;
+  readonly domains: readonly string[]; // SIWE domains accepted, i.e. the web app's hosts
+  readonly chainIds?: readonly number[]; // SIWE chain IDs accepted; any when unset
+  readonly accessTokenTtlMs: number;
+  readonly refreshTokenTtlMs: number;
+  readonly nonceTtlMs: number;
+  readonly provider?: SignatureProvider; // Enables smart-contract wallets
+  readonly clock?: Clock;
+}
+
+function unauthorized(message: string, details?: any): HttpError {
+  return new HttpError(401, message, 'UNAUTHORIZED', details);
+}
+
+/** Rejects acting for `trader` unless the authenticated caller is that trader. */
+export function assertCaller(caller: Address, trader: Address, details?: Record<string, unknown>): void {
+  if (caller.value.toLowerCase() !== trader.value.toLowerCase()) {
+    throw new HttpError(403, 'Authenticated address does not match the trader', 'ADDRESS_MISMATCH', {
+      caller: caller.value,
+      trader: trader.value,
+      ...details
+    });
+  }
+}
+
+// ============================================================================
+// JWT
+// ============================================================================
+
+const JWT_HEADER = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+
+const ClaimsSchema = z.object({
+  sub: z.string().regex(/^0x[a-f0-9]{40}$/),
+  typ: z.enum(['access', 'refresh']),
+  jti: z.string().min(1),
+  iat: z.number().int(),
+  exp: z.number().int()
+});
+
+function hmac(secret: string, data: string): Buffer {
+  return createHmac('sha256', secret).update(data).digest();
+}
+
+export function signJwt(claims: AuthClaims, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${JWT_HEADER}.${payload}.${hmac(secret, `${JWT_HEADER}.${payload}`).toString('base64url')}`;
+}
+
+/** Claims of a well-formed, correctly signed, unexpired token of type `typ`. */
+export function verifyJwt(token: string, secret: string, typ: TokenType, nowMs: number): AuthClaims {
+  const [header, payload, signature] = token.split('.');
+  // Only our own header is accepted, which rules out alg=none and key confusion
+  if (header !== JWT_HEADER || !payload || !signature) {
+    throw unauthorized('Malformed token', { reason: 'MALFORMED_TOKEN' });
+  }
+  const expected = hmac(secret, `${header}.${payload}`);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw unauthorized('Invalid token signature', { reason: 'INVALID_TOKEN' });
+  }
+
+  let claims: AuthClaims;
+  try {
+    claims = ClaimsSchema.parse(JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')));
+  } catch {
+    throw unauthorized('Malformed token claims', { reason: 'MALFORMED_TOKEN' });
+  }
+  if (claims.typ !== typ) {
+    throw unauthorized(`Expected ${typ === 'access' ? 'an' : 'a'} ${typ} token`, {
+      reason: 'WRONG_TOKEN_TYPE',
+      typ: claims.typ
+    });
+  }
+  if (claims.exp * 1000 <= nowMs) {
+    throw unauthorized('Token has expired', { reason: 'TOKEN_EXPIRED', exp: claims.exp });
+  }
+  return claims;
+}
+
+// ============================================================================
+// AUTH SERVICE
+// ============================================================================
+
+export class AuthService {
+  private readonly clock: Clock;
+
+  constructor(private readonly options: AuthServiceOptions) {
+    this.clock = options.clock ?? systemClock;
+  }
+
+  async issueNonce(): Promise<{ nonce: string; expiresAt: number }> {
+    const nonce = generateSiweNonce();
+    const expiresAt = this.clock.now() + BigInt(this.options.nonceTtlMs);
+    await this.options.store.saveAuthNonce(nonce, expiresAt);
+    return { nonce, expiresAt: Number(expiresAt) };
+  }
+
+  async login(request: AuthLogin): Promise<AuthTokens> {
+    const message = await verifySiweMessage(
+      request.message,
+      request.signature,
+      { domains: this.options.domains, chainIds: this.options.chainIds },
+      { provider: this.options.provider, clock: this.clock }
+    );
+    // Consumed only after the signature checks out, so junk cannot burn nonces
+    if (!(await this.options.store.consumeAuthNonce(message.nonce, this.clock.now()))) {
+      throw new SiweError('Unknown, used or expired sign-in nonce', {
+        reason: 'NONCE_MISMATCH',
+        nonce: message.nonce
+      });
+    }
+    return this.issueTokens(message.address.value);
+  }
+
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    const claims = verifyJwt(refreshToken, this.options.secret, 'refresh', Number(this.clock.now()));
+    const address = await this.options.store.consumeRefreshToken(claims.jti, this.clock.now());
+    if (address !== claims.sub) {
+      throw unauthorized('Refresh token was already used or revoked', { reason: 'TOKEN_REVOKED' });
+    }
+    return this.issueTokens(address);
+  }
+
+  async logout(refreshToken: string): Promise<void> {
+    const claims = verifyJwt(refreshToken, this.options.secret, 'refresh', Number(this.clock.now()));
+    await this.options.store.consumeRefreshToken(claims.jti, this.clock.now());
+  }
+
+  /** The caller behind an access token. */
+  verifyAccessToken(token: string): { address: Address; expiresAt: number } {
+    const claims = verifyJwt(token, this.options.secret, 'access', Number(this.clock.now()));
+    return { address: { value: claims.sub }, expiresAt: claims.exp * 1000 };
+  }
+
+  /** The caller behind an `Authorization: Bearer` header. */
+  authenticate(header: string | string[] | undefined): Address {
+    const value = Array.isArray(header) ? header[0] : header;
+    const match = value?.match(/^Bearer\s+(\S+)$/i);
+    if (!match) {
+      throw unauthorized('Sign in required', { reason: 'MISSING_TOKEN' });
+    }
+    return this.verifyAccessToken(match[1]).address;
+  }
+
+  private async issueTokens(address: string): Promise<AuthTokens> {
+    const now = Number(this.clock.now());
+    // JWT times are whole seconds; report the same instants in ms
+    const expiry = (ttlMs: number) => Math.floor((now + ttlMs) / 1000);
+    const claims = (typ: TokenType, jti: string, exp: number): AuthClaims => ({
+      sub: address,
+      typ,
+      jti,
+      iat: Math.floor(now / 1000),
+      exp
+    });
+
+    const accessExp = expiry(this.options.accessTokenTtlMs);
+    const refreshExp = expiry(this.options.refreshTokenTtlMs);
+    const refreshId = randomUUID();
+    await this.options.store.saveRefreshToken(refreshId, address, BigInt(refreshExp * 1000));
+    return {
+      address,
+      accessToken: signJwt(claims('access', randomUUID(), accessExp), this.options.secret),
+      accessTokenExpiresAt: accessExp * 1000,
+      refreshToken: signJwt(claims('refresh', refreshId, refreshExp), this.options.secret),
+      refreshTokenExpiresAt: refreshExp * 1000
+    };
+  }
+}
@@ -0,0 +1,242 @@
+import {
+  Address,
+  ChannelError,
+  ChannelId,
+  ChannelParams,
+  ChannelParamsSchema,
+  ChannelStateMachine,
+  ChannelStatus,
+  ChannelTransitionEvent,
+  Clock,
+  SignedChannelState,
+  TokenInfo,
+  ValidationError,
+  createChannelId,
+  createInitialChannelState,
+  decodeWith,
+  parseFixed,
+  systemClock
+} from '@photonx/proto';
+import { ApiChannelOpen, ApiChannelResponse } from './api';
+import { resolvePair } from './market';
+import { ChannelRecord, CoordinatorStore } from './store';
+
+// ============================================================================
+// CHANNEL REGISTRY
+// ============================================================================
+//
+// The channels the coordinator routes for: their opening params, latest
+// co-signed state and a ChannelStateMachine each, so quotes and fills are
+// only handled in statuses that accept them. The coordinator does not watch
+// the chain: whatever does (a relayer, an LP's own monitor) reports opens
+// through open() and checkpoints, settlements and disputes through
+// transition(), which write every change back to the store.
+
+export interface ChannelRegistryOptions {
+  readonly store: CoordinatorStore;
+  readonly clock?: Clock;
+}
+
+export interface ChannelLookup {
+  readonly trader: Address;
+  readonly lp: Address;
+  readonly chainId: number;
+  readonly tokens: readonly Address[]; // All must be in the channel's basket
+}
+
+// Called once per channel, when it is opened or first loaded from the store
+export type ChannelListener = (record: ChannelRecord, machine: ChannelStateMachine) => void;
+
+function sameAddress(a: Address, b: Address): boolean {
+  return a.value.toLowerCase() === b.value.toLowerCase();
+}
+
+/**
+ * Translates an admin or DEV_CHANNELS open request into the params the
+ * channel was opened on-chain with. Tokens are those of `pairs`, in order of
+ * first appearance.
+ */
+export function channelParamsFor(request: ApiChannelOpen, lp: Address, openNonce: bigint): ChannelParams {
+  const decimals = new Map<string, number>(); // By lowercase token address
+  const symbols = new Map<string, string>(); // Display symbol to token address
+  const addToken = (symbol: string, token: TokenInfo) => {
+    decimals.set(token.address.toLowerCase(), token.decimals);
+    symbols.set(symbol, token.address.toLowerCase());
+  };
+  const pairs = request.pairs.map(pair => {
+    const { baseSymbol, quoteSymbol, base, quote } = resolvePair(request.chainId, pair);
+    addToken(baseSymbol, base);
+    addToken(quoteSymbol, quote);
+    return {
+      baseToken: { value: base.address.toLowerCase() },
+      quoteToken: { value: quote.address.toLowerCase() }
+    };
+  });
+
+  const deposits = (amounts: Record<string, string>, side: string): bigint[] => {
+    const byToken = new Map<string, bigint>();
+    Object.entries(amounts).forEach(([symbol, amount]) => {
+      const token = symbols.get(symbol.toUpperCase());
+      if (!token) {
+        throw new ValidationError(`${side} deposit names a token outside the channel pairs`, { symbol });
+      }
+      byToken.set(token, parseFixed(amount, decimals.get(token)!));
+    });
+    return Array.from(decimals.keys()).map(token => byToken.get(token) ?? 0n);
+  };
+
+  return {
+    trader: { value: request.trader.toLowerCase() },
+    lp: { value: lp.value.toLowerCase() },
+    tokens: Array.from(decimals.keys()).map(value => ({ value })),
+    traderDeposits: deposits(request.traderDeposits, 'Trader'),
+    lpDeposits: deposits(request.lpDeposits, 'LP'),
+    pairs,
+    chainId: { value: request.chainId },
+    timeout: BigInt(request.timeoutSeconds),
+    openNonce
+  };
+}
+
+export function toApiChannel(record: ChannelRecord): ApiChannelResponse {
+  const { params } = record;
+  return {
+    channelId: record.channelId.value,
+    trader: params.trader.value,
+    lp: params.lp.value,
+    chainId: params.chainId.value,
+    status: record.status,
+    openNonce: params.openNonce.toString(),
+    tokens: params.tokens.map(token => token.value),
+    traderDeposits: params.traderDeposits.map(amount => amount.toString()),
+    lpDeposits: params.lpDeposits.map(amount => amount.toString())
+  };
+}
+
+export class ChannelRegistry {
+  private readonly machines = new Map<string, ChannelStateMachine>();
+  private readonly listeners = new Set<ChannelListener>();
+  // Each channel's latest status write, so writes land in transition order
+  private readonly statusWrites = new Map<string, Promise<void>>();
+  private readonly clock: Clock;
+
+  constructor(private readonly options: ChannelRegistryOptions) {
+    this.clock = options.clock ?? systemClock;
+  }
+
+  onLoad(listener: ChannelListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Status of a channel already loaded by get(); synchronous, for MessageRouter. */
+  status(channelId: ChannelId): ChannelStatus | undefined {
+    return this.machines.get(channelId.value)?.status;
+  }
+
+  /** Records a channel opened on-chain with `params`, at its nonce-zero state. */
+  async open(params: ChannelParams): Promise<ChannelRecord> {
+    const opened = decodeWith(ChannelParamsSchema, params, 'ChannelParams');
+    const channelId = createChannelId(opened);
+    if (await this.options.store.getChannel(channelId)) {
+      throw new ChannelError('Channel is already open', { channelId: channelId.value });
+    }
+
+    const now = this.clock.now();
+    const record: ChannelRecord = {
+      channelId,
+      params: opened,
+      status: 'ACTIVE',
+      state: createInitialChannelState(channelId, opened, now),
+      updatedAt: now
+    };
+    await this.options.store.saveChannel(record);
+    this.load(record);
+    return record;
+  }
+
+  async record(channelId: ChannelId): Promise<ChannelRecord> {
+    const record = await this.options.store.getChannel(channelId);
+    if (!record) {
+      throw new ChannelError('Unknown channel', { channelId: channelId.value });
+    }
+    return record;
+  }
+
+  async get(channelId: ChannelId): Promise<ChannelStateMachine> {
+    const loaded = this.machines.get(channelId.value);
+    if (loaded) return loaded;
+
+    const record = await this.record(channelId);
+    // Another request may have loaded the channel while the store was read
+    return this.machines.get(channelId.value) ?? this.load(record);
+  }
+
+  /** openNonce of the next channel `trader` opens with `lp` on `chainId`. */
+  async nextOpenNonce(trader: Address, lp: Address, chainId: number): Promise<bigint> {
+    const opened = (await this.options.store.listChannels(trader.value)).filter(record =>
+      sameAddress(record.params.lp, lp) && record.params.chainId.value === chainId);
+    return BigInt(opened.length);
+  }
+
+  /** The trader's most recently opened, not yet closed channel with `lp` that holds every token. */
+  async findOpen(lookup: ChannelLookup): Promise<ChannelRecord | undefined> {
+    const candidates = (await this.options.store.listChannels(lookup.trader.value)).filter(record =>
+      record.status !== 'CLOSED' &&
+      sameAddress(record.params.lp, lookup.lp) &&
+      record.params.chainId.value === lookup.chainId &&
+      lookup.tokens.every(token => record.params.tokens.some(held => sameAddress(held, token))));
+    return candidates.sort((a, b) => (a.params.openNonce < b.params.openNonce ? 1 : -1))[0];
+  }
+
+  /** Stores the co-signed state following the channel's current one. */
+  async advance(signed: SignedChannelState): Promise<ChannelRecord> {
+    const { state } = signed;
+    const current = await this.record(state.channelId);
+    if (state.nonce !== current.state.nonce + 1n) {
+      throw new ChannelError('State does not follow the latest co-signed state', {
+        channelId: state.channelId.value,
+        expectedNonce: (current.state.nonce + 1n).toString(),
+        nonce: state.nonce.toString()
+      });
+    }
+
+    const record: ChannelRecord = {
+      ...current,
+      state,
+      traderSignature: signed.traderSignature,
+      lpSignature: signed.lpSignature,
+      traderAuthorization: signed.traderAuthorization,
+      updatedAt: this.clock.now()
+    };
+    await this.options.store.saveChannel(record);
+    return record;
+  }
+
+  async transition(channelId: ChannelId, to: ChannelStatus, reason?: string): Promise<ChannelTransitionEvent> {
+    const machine = await this.get(channelId);
+    const event = machine.transition(to, reason);
+    await this.statusWrites.get(channelId.value);
+    return event;
+  }
+
+  private load(record: ChannelRecord): ChannelStateMachine {
+    const machine = new ChannelStateMachine(record.channelId, { initial: record.status, clock: this.clock });
+    this.machines.set(record.channelId.value, machine);
+    // Also persists transitions made on the machine directly, such as the liveness monitor's
+    machine.onTransition(event => this.saveStatus(event));
+    this.listeners.forEach(listener => listener(record, machine));
+    return machine;
+  }
+
+  private saveStatus({ channelId, to, at }: ChannelTransitionEvent): void {
+    const previous = this.statusWrites.get(channelId.value) ?? Promise.resolve();
+    const write = previous
+      .catch(() => undefined) // Already reported to whoever awaited it
+      .then(async () => this.options.store.saveChannel({ ...(await this.record(channelId)), status: to, updatedAt: at }));
+    this.statusWrites.set(channelId.value, write);
+    write.catch(error => console.error(`Failed to save status of channel ${channelId.value}:`, error));
+  }
+}
@@ -0,0 +1,193 @@
+import { randomBytes } from 'crypto';
+import { isIP } from 'net';
+import { z } from 'zod';
+import { Wallet } from 'ethers';
+import { CONSTANTS, DEFAULT_LIVENESS_POLICY, LivenessPolicy, ValidationError, toValidationIssues } from '@photonx/proto';
+import { ApiChannelOpen, ApiChannelOpenSchema } from './api';
+import { HttpLiquidityProviderOptions, parseLiquidityProviderEndpoints } from './lps';
+import { DEFAULT_RATE_LIMITS, RateLimits, parseRateLimits } from './ratelimit';
+
+// ============================================================================
+// COORDINATOR CONFIGURATION
+// ============================================================================
+//
+// Read once from the environment at startup. Every setting has a local
+// default so `npm run dev` works with nothing configured; docker-compose
+// supplies the real values.
+
+const AddressString = z.string().regex(/^0x[a-fA-F0-9]{40}$/);
+
+const EnvSchema = z.object({
+  PORT: z.coerce.number().int().positive().default(3001),
+  HOST: z.string().default('0.0.0.0'),
+  ALLOWED_ORIGINS: z.string().default('http://localhost:3000'),
+  // Key the coordinator quotes and countersigns fills with
+  PRIVATE_KEY: z.string().regex(/^0x[a-fA-F0-9]{64}$/).optional(),
+  SETTLEMENT_CONTRACT_ADDRESS: AddressString.default('0x5FbDB2315678afecb367f032d93F642f64180aa3'),
+  QUOTE_TTL_MS: z.coerce.number().int().positive().default(CONSTANTS.QUOTE_EXPIRY_MS),
+  QUOTE_SPREAD_BPS: z.coerce.number().int().min(0).max(CONSTANTS.MAX_SLIPPAGE_BPS).default(20),
+  LP_FEE_BPS: z.coerce.number().int().min(0).max(CONSTANTS.MAX_FEE_BPS).default(5),
+  MAX_BODY_BYTES: z.coerce.number().int().positive().default(64 * 1024),
+  // How long an RFQ waits for LP answers, and how many quotes a trader may ask for
+  AUCTION_WINDOW_MS: z.coerce.number().int().positive().default(250),
+  AUCTION_MAX_QUOTES: z.coerce.number().int().positive().default(5),
+  // External LPs, `address@url[#chainId|chainId]`, comma-separated
+  LP_ENDPOINTS: z.string().optional(),
+  // HS256 key for access and refresh tokens
+  JWT_SECRET: z.string().min(32).optional(),
+  // Hosts SIWE messages may name; defaults to the hosts of ALLOWED_ORIGINS
+  SIWE_DOMAINS: z.string().optional(),
+  // Chain IDs SIWE messages may name, comma-separated; unset, any chain signs in
+  SIWE_CHAIN_IDS: z.string().optional(),
+  ACCESS_TOKEN_TTL_MS: z.coerce.number().int().positive().default(15 * 60_000),
+  REFRESH_TOKEN_TTL_MS: z.coerce.number().int().positive().default(7 * 24 * 60 * 60_000),
+  AUTH_NONCE_TTL_MS: z.coerce.number().int().positive().default(5 * 60_000),
+  // Per-tier overrides, `action=burst/perMinute` for quotes, trades, sign-in and socket messages
+  RATE_LIMIT_RETAIL: z.string().optional(),
+  RATE_LIMIT_API: z.string().optional(),
+  RATE_LIMIT_LP: z.string().optional(),
+  // Addresses on the API client tier, comma-separated; registered LPs are on the LP tier
+  RATE_LIMIT_API_CLIENTS: z.string().optional(),
+  // Addresses that may read every auction and record channel opens, comma-separated; LPs only ever see their own bids
+  ADMIN_ADDRESSES: z.string().optional(),
+  // Proxy IPs whose X-Forwarded-For is believed, comma-separated; unset, the socket peer is the client
+  TRUSTED_PROXIES: z.string().optional(),
+  // How often the internal LP heartbeats its channels, and what a silent trader is escalated to
+  HEARTBEAT_INTERVAL_MS: z.coerce.number().int().positive().default(DEFAULT_LIVENESS_POLICY.intervalMs),
+  LIVENESS_ESCALATION: z.enum(['CHECKPOINT', 'FORCE_CLOSE', 'NONE']).default(DEFAULT_LIVENESS_POLICY.escalation),
+  // Relayer service that submits checkpoints and force-closes
+  RELAYER_URL: z.string().url().optional(),
+  // Local development only: a JSON array of channels the internal LP opens at startup,
+  // each shaped like a POST /api/channels body, since nothing watches the chain here
+  DEV_CHANNELS: z.string().optional()
+});
+
+export interface CoordinatorConfig {
+  readonly port: number;
+  readonly host: string;
+  readonly allowedOrigins: readonly string[];
+  readonly lpPrivateKey: string;
+  readonly settlementContract: string;
+  readonly quoteTtlMs: number;
+  readonly quoteSpreadBps: number;
+  readonly lpFeeBps: number;
+  readonly maxBodyBytes: number;
+  readonly auctionWindowMs: number;
+  readonly auctionMaxQuotes: number;
+  readonly liquidityProviders: readonly HttpLiquidityProviderOptions[];
+  readonly jwtSecret: string;
+  readonly siweDomains: readonly string[];
+  readonly siweChainIds?: readonly number[];
+  readonly accessTokenTtlMs: number;
+  readonly refreshTokenTtlMs: number;
+  readonly authNonceTtlMs: number;
+  readonly rateLimits: RateLimits;
+  readonly apiClients: readonly string[]; // Lowercase addresses
+  readonly adminAddresses: readonly string[]; // Lowercase addresses
+  readonly trustedProxies: readonly string[];
+  readonly liveness: LivenessPolicy;
+  readonly relayerUrl?: string;
+  readonly devChannels: readonly ApiChannelOpen[];
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function splitAddresses(value: string | undefined, label: string): string[] {
+  return splitList(value ?? '').map(entry => {
+    if (!AddressString.safeParse(entry).success) {
+      throw new ValidationError(`Invalid ${label} address: ${entry}`, { entry });
+    }
+    return entry.toLowerCase();
+  });
+}
+
+function splitChainIds(value: string): number[] {
+  return splitList(value).map(entry => {
+    if (!/^[1-9]\d*$/.test(entry)) {
+      throw new ValidationError(`Invalid SIWE chain ID: ${entry}`, { entry });
+    }
+    return Number(entry);
+  });
+}
+
+function parseDevChannels(value: string | undefined): ApiChannelOpen[] {
+  if (!value) return [];
+  let entries: unknown;
+  try {
+    entries = JSON.parse(value);
+  } catch {
+    throw new ValidationError('DEV_CHANNELS must be a JSON array', { value });
+  }
+  const parsed = z.array(ApiChannelOpenSchema).safeParse(entries);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid DEV_CHANNELS entry', { issues: toValidationIssues(parsed.error) });
+  }
+  return parsed.data;
+}
+
+export function loadConfig(env: Record<string, string | undefined> = process.env): CoordinatorConfig {
+  const parsed = EnvSchema.safeParse(env);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid coordinator configuration', { issues: toValidationIssues(parsed.error) });
+  }
+
+  const values = parsed.data;
+  if (!values.PRIVATE_KEY) {
+    console.warn('PRIVATE_KEY not set; quoting with an ephemeral key');
+  }
+  if (!values.JWT_SECRET) {
+    console.warn('JWT_SECRET not set; sessions will not survive a restart');
+  }
+  if (!values.RELAYER_URL) {
+    console.warn('RELAYER_URL not set; silent channels cannot be escalated on-chain');
+  }
+
+  const allowedOrigins = splitList(values.ALLOWED_ORIGINS);
+  const apiClients = splitAddresses(values.RATE_LIMIT_API_CLIENTS, 'API client');
+  const adminAddresses = splitAddresses(values.ADMIN_ADDRESSES, 'admin');
+
+  return {
+    port: values.PORT,
+    host: values.HOST,
+    allowedOrigins,
+    lpPrivateKey: values.PRIVATE_KEY ?? Wallet.createRandom().privateKey,
+    settlementContract: values.SETTLEMENT_CONTRACT_ADDRESS,
+    quoteTtlMs: values.QUOTE_TTL_MS,
+    quoteSpreadBps: values.QUOTE_SPREAD_BPS,
+    lpFeeBps: values.LP_FEE_BPS,
+    maxBodyBytes: values.MAX_BODY_BYTES,
+    auctionWindowMs: values.AUCTION_WINDOW_MS,
+    auctionMaxQuotes: values.AUCTION_MAX_QUOTES,
+    liquidityProviders: parseLiquidityProviderEndpoints(values.LP_ENDPOINTS),
+    jwtSecret: values.JWT_SECRET ?? randomBytes(32).toString('hex'),
+    siweDomains: values.SIWE_DOMAINS
+      ? splitList(values.SIWE_DOMAINS)
+      : allowedOrigins.map(origin => new URL(origin).host),
+    siweChainIds: values.SIWE_CHAIN_IDS ? splitChainIds(values.SIWE_CHAIN_IDS) : undefined,
+    accessTokenTtlMs: values.ACCESS_TOKEN_TTL_MS,
+    refreshTokenTtlMs: values.REFRESH_TOKEN_TTL_MS,
+    authNonceTtlMs: values.AUTH_NONCE_TTL_MS,
+    rateLimits: {
+      retail: parseRateLimits(values.RATE_LIMIT_RETAIL, DEFAULT_RATE_LIMITS.retail),
+      api: parseRateLimits(values.RATE_LIMIT_API, DEFAULT_RATE_LIMITS.api),
+      lp: parseRateLimits(values.RATE_LIMIT_LP, DEFAULT_RATE_LIMITS.lp)
+    },
+    apiClients,
+    adminAddresses,
+    trustedProxies: splitList(values.TRUSTED_PROXIES ?? '').map(entry => {
+      if (!isIP(entry)) {
+        throw new ValidationError(`Invalid trusted proxy address: ${entry}`, { entry });
+      }
+      return entry;
+    }),
+    liveness: {
+      ...DEFAULT_LIVENESS_POLICY,
+      intervalMs: values.HEARTBEAT_INTERVAL_MS,
+      escalation: values.LIVENESS_ESCALATION
+    },
+    relayerUrl: values.RELAYER_URL,
+    devChannels: parseDevChannels(values.DEV_CHANNELS)
+  };
+}
@@ -0,0 +1,216 @@
+import { IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'http';
+import { PhotonXError } from '@photonx/proto';
+
+// ============================================================================
+// HTTP TYPES
+// ============================================================================
+//
+// A deliberately small layer over node:http so the coordinator starts with
+// no framework installed. Handlers receive a parsed JSON body and return a
+// status plus a JSON-serializable body; errors are mapped to statuses here.
+
+export interface HttpRequest {
+  readonly method: string;
+  readonly path: string;
+  readonly query: URLSearchParams;
+  readonly headers: IncomingHttpHeaders;
+  readonly body: unknown;
+  readonly ip: string;
+}
+
+export interface HttpResponse {
+  readonly status: number;
+  readonly body?: unknown;
+  readonly headers?: Record<string, string>;
+}
+
+export type RouteHandler = (request: HttpRequest) => HttpResponse | Promise<HttpResponse>;
+
+export interface RouterOptions {
+  readonly allowedOrigins: readonly string[];
+  readonly maxBodyBytes: number;
+  readonly trustedProxies?: readonly string[]; // Peers whose X-Forwarded-For is believed
+}
+
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly code: string = 'HTTP_ERROR',
+    readonly details?: any,
+    readonly headers?: Record<string, string> // e.g. Retry-After on a 429
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Protocol errors are client mistakes or conflicts with current state
+const ERROR_STATUSES: Record<string, number> = {
+  VALIDATION_ERROR: 400,
+  MESSAGE_ERROR: 401,
+  SESSION_KEY_ERROR: 403,
+  QUOTE_ERROR: 409,
+  FILL_ERROR: 409,
+  CHANNEL_ERROR: 409,
+  REPLAY_ERROR: 409,
+  SOCKET_ERROR: 400,
+  SIWE_ERROR: 401,
+  RISK_ERROR: 422
+};
+
+export function ok(body: unknown, status: number = 200): HttpResponse {
+  return { status, body };
+}
+
+export interface ErrorBody {
+  readonly code: string;
+  readonly message: string;
+  readonly details?: any;
+}
+
+/** Status and `{ error }` body for anything a handler throws; shared with the socket API. */
+export function toErrorResponse(error: unknown): HttpResponse & { body: { error: ErrorBody } } {
+  if (error instanceof HttpError) {
+    return {
+      status: error.status,
+      body: { error: { code: error.code, message: error.message, details: error.details } },
+      headers: error.headers
+    };
+  }
+  if (error instanceof PhotonXError) {
+    return {
+      status: ERROR_STATUSES[error.code] ?? 400,
+      body: { error: { code: error.code, message: error.message, details: error.details } }
+    };
+  }
+
+  console.error('Unhandled coordinator error:', error);
+  return { status: 500, body: { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } } };
+}
+
+// Dual-stack sockets report IPv4 peers as IPv4-mapped IPv6 addresses
+function normalizeIp(ip: string): string {
+  return ip.trim().toLowerCase().replace(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/, '$1');
+}
+
+/**
+ * Address of the client that sent `req`, as used for per-IP rate limits.
+ * X-Forwarded-For is read only when the peer is a trusted proxy, and from the
+ * right: trusted hops are skipped and the first other address is the client.
+ * Entries further left are whatever the client chose to send.
+ */
+export function clientIp(req: IncomingMessage, trustedProxies: readonly string[] = []): string {
+  const peer = normalizeIp(req.socket.remoteAddress ?? 'unknown');
+  const trusted = new Set(trustedProxies.map(normalizeIp));
+  if (!trusted.has(peer)) return peer;
+
+  const header = req.headers['x-forwarded-for'];
+  const hops = (Array.isArray(header) ? header.join(',') : header ?? '')
+    .split(',')
+    .map(normalizeIp)
+    .filter(Boolean);
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!trusted.has(hops[i])) return hops[i];
+  }
+  // Every hop is one of ours; the leftmost is the closest to the client
+  return hops[0] ?? peer;
+}
+
+// bigint fields should already be serialized by the proto helpers; this is a backstop
+export function stringify(body: unknown): string {
+  return JSON.stringify(body, (_key, value) => (typeof value === 'bigint' ? value.toString() : value));
+}
+
+// ============================================================================
+// ROUTER
+// ============================================================================
+
+export class Router {
+  private readonly routes = new Map<string, RouteHandler>();
+
+  constructor(private readonly options: RouterOptions) {}
+
+  get(path: string, handler: RouteHandler): this {
+    this.routes.set(`GET ${path}`, handler);
+    return this;
+  }
+
+  post(path: string, handler: RouteHandler): this {
+    this.routes.set(`POST ${path}`, handler);
+    return this;
+  }
+
+  /** Request listener for `http.createServer`. */
+  listener = (req: IncomingMessage, res: ServerResponse): void => {
+    this.handle(req, res).catch(error => {
+      console.error('Failed to write response:', error);
+      if (!res.headersSent) res.writeHead(500);
+      res.end();
+    });
+  };
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const headers = this.corsHeaders(req);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, headers);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = req.method ?? 'GET';
+    let response: HttpResponse;
+    try {
+      const handler = this.routes.get(`${method} ${url.pathname}`);
+      if (!handler) {
+        throw new HttpError(404, `No route for ${method} ${url.pathname}`, 'NOT_FOUND');
+      }
+
+      response = await handler({
+        method,
+        path: url.pathname,
+        query: url.searchParams,
+        headers: req.headers,
+        body: method === 'GET' ? undefined : await this.readBody(req),
+        ip: clientIp(req, this.options.trustedProxies)
+      });
+    } catch (error) {
+      response = toErrorResponse(error);
+    }
+
+    res.writeHead(response.status, { 'Content-Type': 'application/json', ...headers, ...response.headers });
+    res.end(response.body === undefined ? undefined : stringify(response.body));
+  }
+
+  private corsHeaders(req: IncomingMessage): Record<string, string> {
+    const origin = req.headers.origin;
+    if (!origin || !this.options.allowedOrigins.includes(origin)) return {};
+    return {
+      'Access-Control-Allow-Origin': origin,
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Expose-Headers': 'Retry-After',
+      Vary: 'Origin'
+    };
+  }
+
+  private async readBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > this.options.maxBodyBytes) {
+        throw new HttpError(413, 'Request body too large', 'PAYLOAD_TOO_LARGE', { limit: this.options.maxBodyBytes });
+      }
+      chunks.push(chunk);
+    }
+
+    if (size === 0) return undefined;
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      throw new HttpError(400, 'Request body is not valid JSON', 'MALFORMED_JSON');
+    }
+  }
+}
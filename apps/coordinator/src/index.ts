@@ -0,0 +1,58 @@
+import { loadConfig } from './config';
+import { createCoordinator } from './server';
+
+export { createCoordinator } from './server';
+export type { Coordinator, CoordinatorDeps } from './server';
+export { loadConfig } from './config';
+export type { CoordinatorConfig } from './config';
+export { InMemoryStore } from './store';
+export type { CoordinatorStore, QuoteRecord, TradeRecord, ChannelRecord } from './store';
+export { ChannelRegistry, channelParamsFor, toApiChannel } from './channels';
+export type { ChannelRegistryOptions, ChannelLookup, ChannelListener } from './channels';
+export { ChannelLiveness } from './liveness';
+export type { ChannelLivenessOptions } from './liveness';
+export { HttpRelayer, unconfiguredRelayer } from './relayer';
+export type { Relayer, HttpRelayerOptions } from './relayer';
+export { MarketData, DEFAULT_REFERENCE_PRICES, resolvePair } from './market';
+export {
+  LiquidityProviderRegistry,
+  InternalLiquidityProvider,
+  HttpLiquidityProvider,
+  parseLiquidityProviderEndpoints
+} from './lps';
+export type { LiquidityProvider, SignedQuote, QuoteContext, FillContext, FillCountersignature } from './lps';
+export { RfqAuction, compareBids, auctionWinners, auctionForLp, serializeAuction } from './auction';
+export type { AuctionRecord, AuctionBid, BidStatus, SerializedAuction, SerializedAuctionBid } from './auction';
+export { SocketHub } from './socket';
+export type { EventSink, SocketConnection, SocketIdentity, MethodHandler, TopicGuard, FrameGuard } from './socket';
+export { AuthService, assertCaller, signJwt, verifyJwt } from './auth';
+export type { AuthClaims, AuthTokens, TokenType } from './auth';
+export { RateLimiter, DEFAULT_RATE_LIMITS, parseRateLimits } from './ratelimit';
+export type { RateLimitTier, RateLimitedAction, RateLimits, TierLimits, BucketLimit, RateLimitKey } from './ratelimit';
+
+async function main(): Promise<void> {
+  const config = loadConfig();
+  const coordinator = createCoordinator(config);
+  await coordinator.start();
+  console.log(`PhotonX coordinator listening on http://${config.host}:${config.port} (LP ${coordinator.lp.address})`);
+
+  const shutdown = (signal: string) => {
+    console.log(`Received ${signal}, shutting down`);
+    coordinator.stop().then(
+      () => process.exit(0),
+      error => {
+        console.error('Shutdown failed:', error);
+        process.exit(1);
+      }
+    );
+  };
+  process.once('SIGINT', () => shutdown('SIGINT'));
+  process.once('SIGTERM', () => shutdown('SIGTERM'));
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Coordinator failed to start:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,150 @@
+import { Wallet } from 'ethers';
+import {
+  Address,
+  ChannelError,
+  ChannelId,
+  ChannelStateMachine,
+  Clock,
+  DEFAULT_LIVENESS_POLICY,
+  LivenessMonitor,
+  LivenessPolicy,
+  Scheduler,
+  SignatureProvider,
+  ValidationError,
+  createDomain,
+  deserializeEnvelope,
+  participantTopics,
+  systemClock,
+  verifyEnvelope
+} from '@photonx/proto';
+import { assertCaller } from './auth';
+import { ChannelRegistry } from './channels';
+import { Relayer } from './relayer';
+import { EventSink } from './socket';
+import { ChannelRecord } from './store';
+
+// ============================================================================
+// CHANNEL LIVENESS
+// ============================================================================
+//
+// One LivenessMonitor per open channel the internal LP is on, created as the
+// registry opens or loads the channel and dropped once it closes. The
+// monitor signs the LP's heartbeats onto the channel topics, takes the
+// trader's through receive(), and moves the channel between ACTIVE and
+// DEGRADED; a trader silent past the policy is escalated to the relayer.
+// External LPs watch their own channels.
+
+export interface ChannelLivenessOptions {
+  readonly channels: ChannelRegistry;
+  readonly signer: Wallet; // The internal LP's key
+  readonly settlementContract: string;
+  readonly relayer: Relayer;
+  readonly events: EventSink;
+  readonly policy?: LivenessPolicy;
+  readonly provider?: SignatureProvider; // Lets smart-contract wallets authorize session keys
+  readonly clock?: Clock;
+  readonly scheduler?: Scheduler;
+}
+
+export class ChannelLiveness {
+  private readonly monitors = new Map<string, LivenessMonitor>();
+  private readonly clock: Clock;
+  private readonly lp: Address;
+  private readonly unsubscribe: () => void;
+  private running = false;
+
+  constructor(private readonly options: ChannelLivenessOptions) {
+    this.clock = options.clock ?? systemClock;
+    this.lp = { value: options.signer.address.toLowerCase() };
+    this.unsubscribe = options.channels.onLoad((record, machine) => this.watch(record, machine));
+  }
+
+  get size(): number {
+    return this.monitors.size;
+  }
+
+  monitor(channelId: ChannelId): LivenessMonitor | undefined {
+    return this.monitors.get(channelId.value);
+  }
+
+  start(): void {
+    this.running = true;
+    this.monitors.forEach(monitor => monitor.start());
+  }
+
+  stop(): void {
+    this.running = false;
+    this.monitors.forEach(monitor => monitor.stop());
+  }
+
+  close(): void {
+    this.stop();
+    this.unsubscribe();
+    this.monitors.clear();
+  }
+
+  /**
+   * Verifies a trader's signed HEARTBEAT envelope and records it. Returns
+   * false for one the monitor ignores, such as a replayed nonce.
+   */
+  async receive(data: unknown, caller: Address): Promise<boolean> {
+    const envelope = deserializeEnvelope(data);
+    if (envelope.type !== 'HEARTBEAT') {
+      throw new ValidationError(`Expected a HEARTBEAT envelope, got ${envelope.type}`, { type: envelope.type });
+    }
+    const { channelId } = envelope.payload;
+    const record = await this.options.channels.record(channelId);
+    assertCaller(caller, record.params.trader, { channelId: channelId.value });
+    // Loading the channel creates its monitor, e.g. after a restart
+    await this.options.channels.get(channelId);
+    const monitor = this.monitors.get(channelId.value);
+    if (!monitor) {
+      throw new ChannelError('Channel is not monitored by the coordinator', { channelId: channelId.value });
+    }
+
+    const domain = createDomain(record.params.chainId.value, this.options.settlementContract);
+    await verifyEnvelope(envelope, domain, this.options.provider, this.clock);
+    return monitor.observe(envelope.payload);
+  }
+
+  /** Any fill the trader signs on the channel also proves it is live. */
+  seen(channelId: ChannelId): void {
+    this.monitors.get(channelId.value)?.markSeen();
+  }
+
+  private watch(record: ChannelRecord, machine: ChannelStateMachine): void {
+    const { channelId, params } = record;
+    if (machine.isClosed || params.lp.value.toLowerCase() !== this.lp.value) return;
+
+    const monitor = new LivenessMonitor({
+      channelId,
+      signer: this.options.signer,
+      counterparty: params.trader,
+      domain: createDomain(params.chainId.value, this.options.settlementContract),
+      policy: this.options.policy ?? DEFAULT_LIVENESS_POLICY,
+      clock: this.clock,
+      scheduler: this.options.scheduler,
+      // Heartbeat nonces only have to increase, across restarts too, so they start from the clock
+      lastNonce: this.clock.now(),
+      channel: machine,
+      hooks: {
+        send: envelope => this.options.events(
+          participantTopics('CHANNEL', { channelId, trader: params.trader, lp: params.lp }),
+          { type: 'HEARTBEAT', envelope }
+        ),
+        checkpoint: async event => this.options.relayer.checkpoint(await this.options.channels.record(channelId), event),
+        forceClose: async event => this.options.relayer.forceClose(await this.options.channels.record(channelId), event),
+        onError: error => console.error(`Liveness of channel ${channelId.value}:`, error)
+      }
+    });
+    this.monitors.set(channelId.value, monitor);
+
+    const unsubscribe = machine.onTransition(event => {
+      if (event.to !== 'CLOSED') return;
+      monitor.stop();
+      this.monitors.delete(channelId.value);
+      unsubscribe();
+    });
+    if (this.running) monitor.start();
+  }
+}
@@ -0,0 +1,290 @@
+import { randomUUID } from 'crypto';
+import { TypedDataDomain, Wallet } from 'ethers';
+import {
+  Address,
+  CONSTANTS,
+  ChannelState,
+  Clock,
+  EIP712_TYPES,
+  Fill,
+  Quote,
+  QuoteRequest,
+  QuoteSchema,
+  SignedSessionAuthorization,
+  ValidationError,
+  computeChannelStateHash,
+  decodeWith,
+  deserializeQuote,
+  mulDiv,
+  selectTypes,
+  serializeChannelState,
+  serializeFill,
+  serializeQuote,
+  serializeQuoteRequest,
+  serializeSignedSessionAuthorization,
+  systemClock
+} from '@photonx/proto';
+import { HttpError } from './http';
+import { MarketData, ResolvedPair } from './market';
+
+// ============================================================================
+// LIQUIDITY PROVIDER TYPES
+// ============================================================================
+//
+// Every LP the coordinator can route an RFQ to, whether it quotes from this
+// process with a local key or from its own service over HTTP. The
+// coordinator never holds an external LP's key: it forwards the trader-signed
+// Fill and channel state and checks the countersignatures that come back.
+
+export interface SignedQuote {
+  readonly quote: Quote;
+  readonly signature: string; // LP's EIP-712 signature over `quote`
+}
+
+export interface QuoteContext {
+  readonly chainId: number;
+  readonly pair: ResolvedPair;
+  readonly domain: TypedDataDomain;
+  readonly signal?: AbortSignal; // Aborted when the auction window closes
+}
+
+export interface FillContext {
+  readonly chainId: number;
+  readonly domain: TypedDataDomain;
+  readonly state: ChannelState; // Channel state after the fill, already signed by the trader
+  readonly traderStateSignature: string;
+  readonly authorization?: SignedSessionAuthorization; // Set when a trader session key signed the Fill and state
+}
+
+export interface FillCountersignature {
+  readonly signature: string; // EIP-712 signature over the Fill
+  readonly stateSignature: string; // Over computeChannelStateHash(context.state)
+}
+
+export interface LiquidityProvider {
+  readonly id: string;
+  readonly address: Address;
+  supports(chainId: number, pair: ResolvedPair): boolean;
+  // Resolves undefined when the LP declines to quote
+  quote(request: QuoteRequest, context: QuoteContext): Promise<SignedQuote | undefined>;
+  countersign(fill: Fill, traderSignature: string, context: FillContext): Promise<FillCountersignature>;
+}
+
+function sameAddress(a: Address, b: Address): boolean {
+  return a.value.toLowerCase() === b.value.toLowerCase();
+}
+
+// ============================================================================
+// LIQUIDITY PROVIDER REGISTRY
+// ============================================================================
+
+export class LiquidityProviderRegistry {
+  private readonly providers = new Map<string, LiquidityProvider>();
+
+  register(provider: LiquidityProvider): void {
+    if (this.providers.has(provider.id)) {
+      throw new ValidationError('Liquidity provider already registered', { id: provider.id });
+    }
+    if (this.byAddress(provider.address)) {
+      throw new ValidationError('Another liquidity provider quotes from this address', {
+        address: provider.address.value
+      });
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  unregister(id: string): boolean {
+    return this.providers.delete(id);
+  }
+
+  get(id: string): LiquidityProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  byAddress(address: Address): LiquidityProvider | undefined {
+    return this.list().find(provider => sameAddress(provider.address, address));
+  }
+
+  eligible(chainId: number, pair: ResolvedPair): LiquidityProvider[] {
+    return this.list().filter(provider => provider.supports(chainId, pair));
+  }
+
+  list(): LiquidityProvider[] {
+    return Array.from(this.providers.values());
+  }
+}
+
+// ============================================================================
+// INTERNAL LIQUIDITY PROVIDER
+// ============================================================================
+
+export interface InternalLiquidityProviderOptions {
+  readonly id?: string;
+  readonly signer: Wallet;
+  readonly market: MarketData;
+  readonly spreadBps: number;
+  readonly lpFeeBps: number;
+  readonly quoteTtlMs: number;
+  readonly clock?: Clock;
+}
+
+const BPS = BigInt(CONSTANTS.BPS_PRECISION);
+
+/** Quotes the reference mid plus a spread with the coordinator's own key. */
+export class InternalLiquidityProvider implements LiquidityProvider {
+  readonly id: string;
+  readonly address: Address;
+  private readonly clock: Clock;
+
+  constructor(private readonly options: InternalLiquidityProviderOptions) {
+    this.id = options.id ?? 'internal';
+    this.address = { value: options.signer.address.toLowerCase() };
+    this.clock = options.clock ?? systemClock;
+  }
+
+  supports(): boolean {
+    return true;
+  }
+
+  async quote(request: QuoteRequest, context: QuoteContext): Promise<SignedQuote> {
+    // The trader pays the spread on either side
+    const mid = this.options.market.midPrice(context.pair);
+    const spread = mulDiv(mid, BigInt(this.options.spreadBps), BPS, 'UP');
+    const now = this.clock.now();
+
+    const quote: Quote = decodeWith(
+      QuoteSchema,
+      {
+        channelId: request.channelId,
+        quoteId: randomUUID(),
+        requestNonce: request.nonce,
+        price: request.side === 'BUY' ? mid + spread : mid - spread,
+        quantity: request.quantity,
+        side: request.side,
+        expiryTimestamp: now + BigInt(this.options.quoteTtlMs),
+        lpFeeBps: this.options.lpFeeBps,
+        timestamp: now,
+        lp: this.address
+      },
+      'Quote'
+    );
+    const signature = await this.options.signer.signTypedData(
+      context.domain,
+      selectTypes(EIP712_TYPES, 'Quote'),
+      serializeQuote(quote)
+    );
+    return { quote, signature };
+  }
+
+  async countersign(fill: Fill, _traderSignature: string, context: FillContext): Promise<FillCountersignature> {
+    const { signer } = this.options;
+    return {
+      signature: await signer.signTypedData(context.domain, selectTypes(EIP712_TYPES, 'Fill'), serializeFill(fill)),
+      // Raw struct hash, the form SettlementManager verifies
+      stateSignature: signer.signingKey.sign(computeChannelStateHash(context.state)).serialized
+    };
+  }
+}
+
+// ============================================================================
+// HTTP LIQUIDITY PROVIDER
+// ============================================================================
+
+export interface HttpLiquidityProviderOptions {
+  readonly id?: string;
+  readonly address: Address;
+  readonly endpoint: string; // Base URL exposing POST /quote and POST /fill
+  readonly chainIds?: readonly number[]; // All chains when omitted
+  readonly timeoutMs?: number; // For /fill; /quote is bounded by the auction window
+}
+
+/**
+ * An LP running its own quoting service. `/quote` receives the serialized
+ * QuoteRequest and answers `{ quote, signature }`, or 204 to decline;
+ * `/fill` receives the trader-signed Fill and resulting channel state, plus
+ * the session authorization when a trader session key signed them, and
+ * answers `{ signature, stateSignature }`.
+ */
+export class HttpLiquidityProvider implements LiquidityProvider {
+  readonly id: string;
+  readonly address: Address;
+
+  constructor(private readonly options: HttpLiquidityProviderOptions) {
+    this.id = options.id ?? options.address.value.toLowerCase();
+    this.address = { value: options.address.value.toLowerCase() };
+  }
+
+  supports(chainId: number): boolean {
+    return !this.options.chainIds || this.options.chainIds.includes(chainId);
+  }
+
+  async quote(request: QuoteRequest, context: QuoteContext): Promise<SignedQuote | undefined> {
+    const response = await this.post('/quote', {
+      chainId: context.chainId,
+      request: serializeQuoteRequest(request)
+    }, context.signal);
+    if (response.status === 204) return undefined;
+
+    const body = await this.json(response);
+    return { quote: deserializeQuote(body.quote), signature: String(body.signature) };
+  }
+
+  async countersign(fill: Fill, traderSignature: string, context: FillContext): Promise<FillCountersignature> {
+    const signal = AbortSignal.timeout(this.options.timeoutMs ?? 5_000);
+    const response = await this.post('/fill', {
+      chainId: context.chainId,
+      fill: serializeFill(fill),
+      traderSignature,
+      state: serializeChannelState(context.state),
+      traderStateSignature: context.traderStateSignature,
+      ...(context.authorization && { authorization: serializeSignedSessionAuthorization(context.authorization) })
+    }, signal);
+    const body = await this.json(response);
+    return { signature: String(body.signature), stateSignature: String(body.stateSignature) };
+  }
+
+  private async post(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.options.endpoint.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal
+    });
+    if (!response.ok) {
+      throw new HttpError(502, `Liquidity provider ${this.id} answered ${response.status}`, 'LP_UNAVAILABLE', {
+        lp: this.id,
+        status: response.status
+      });
+    }
+    return response;
+  }
+
+  private async json(response: Response): Promise<Record<string, any>> {
+    try {
+      return (await response.json()) as Record<string, any>;
+    } catch {
+      throw new HttpError(502, `Liquidity provider ${this.id} returned malformed JSON`, 'LP_UNAVAILABLE', {
+        lp: this.id
+      });
+    }
+  }
+}
+
+/**
+ * Parses LP_ENDPOINTS: comma-separated `address@url` entries, optionally
+ * suffixed with `#chainId|chainId` to restrict the chains routed to the LP.
+ */
+export function parseLiquidityProviderEndpoints(value: string | undefined): HttpLiquidityProviderOptions[] {
+  if (!value) return [];
+  return value.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const match = entry.match(/^(0x[a-fA-F0-9]{40})@([^#]+)(?:#([\d|]+))?$/);
+    if (!match) {
+      throw new ValidationError(`Invalid LP endpoint: ${entry}`, { entry });
+    }
+    return {
+      address: { value: match[1].toLowerCase() },
+      endpoint: match[2],
+      chainIds: match[3] ? match[3].split('|').map(Number) : undefined
+    };
+  });
+}
@@ -0,0 +1,108 @@
+import { TokenInfo, ValidationError, parseFixed, tokenRegistry } from '@photonx/proto';
+
+// ============================================================================
+// MARKET DATA
+// ============================================================================
+//
+// USD reference prices keyed by display symbol, which is what the web app
+// shows and sends in `pair` ("ETH/USDC"). Quotes are priced off these; they
+// start from the same fallback values the web app uses and are updated in
+// place by whatever feed the deployment wires in.
+
+export const DEFAULT_REFERENCE_PRICES: Readonly<Record<string, number>> = {
+  ETH: 2340.5,
+  BTC: 43250.0,
+  MATIC: 0.842,
+  ARB: 1.25,
+  USDC: 1.0
+};
+
+// Quote.price carries 18 decimals (CONSTANTS.PRICE_PRECISION)
+const PRICE_DECIMALS = 18;
+
+// Display symbols that trade as a wrapped token in the registry
+const WRAPPED_SYMBOLS: Readonly<Record<string, string>> = {
+  ETH: 'WETH',
+  BTC: 'WBTC',
+  MATIC: 'WMATIC'
+};
+
+export interface ResolvedPair {
+  readonly baseSymbol: string;
+  readonly quoteSymbol: string;
+  readonly base: TokenInfo;
+  readonly quote: TokenInfo;
+}
+
+function resolveToken(chainId: number, symbol: string): TokenInfo {
+  const token = tokenRegistry.findBySymbol(chainId, WRAPPED_SYMBOLS[symbol] ?? symbol);
+  if (!token) {
+    throw new ValidationError(`${symbol} is not supported on chain ${chainId}`, { chainId, symbol });
+  }
+  return token;
+}
+
+export function resolvePair(chainId: number, pair: string): ResolvedPair {
+  const [baseSymbol, quoteSymbol] = pair.toUpperCase().split('/');
+  if (!baseSymbol || !quoteSymbol || baseSymbol === quoteSymbol) {
+    throw new ValidationError(`Invalid trading pair: ${pair}`, { pair });
+  }
+  return {
+    baseSymbol,
+    quoteSymbol,
+    base: resolveToken(chainId, baseSymbol),
+    quote: resolveToken(chainId, quoteSymbol)
+  };
+}
+
+export type PriceListener = (symbol: string, usdPrice: number) => void;
+
+export class MarketData {
+  private readonly prices = new Map<string, number>();
+  private readonly listeners = new Set<PriceListener>();
+  private updatedAt = Date.now();
+
+  constructor(initial: Readonly<Record<string, number>> = DEFAULT_REFERENCE_PRICES) {
+    Object.entries(initial).forEach(([symbol, price]) => this.update(symbol, price));
+  }
+
+  update(symbol: string, usdPrice: number): void {
+    if (!Number.isFinite(usdPrice) || usdPrice <= 0) {
+      throw new ValidationError(`Invalid price for ${symbol}`, { symbol, usdPrice });
+    }
+    this.prices.set(symbol.toUpperCase(), usdPrice);
+    this.updatedAt = Date.now();
+    this.listeners.forEach(listener => listener(symbol.toUpperCase(), usdPrice));
+  }
+
+  /** Called after every price update; returns an unsubscribe function. */
+  onUpdate(listener: PriceListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  get lastUpdated(): number {
+    return this.updatedAt;
+  }
+
+  /** USD prices by symbol, as served on /api/market-data. */
+  snapshot(): Record<string, number> {
+    return Object.fromEntries(this.prices);
+  }
+
+  /** Mid price of `pair` as quote per base, scaled by PRICE_PRECISION like Quote.price. */
+  midPrice(pair: Pick<ResolvedPair, 'baseSymbol' | 'quoteSymbol'>): bigint {
+    const base = this.prices.get(pair.baseSymbol);
+    const quote = this.prices.get(pair.quoteSymbol);
+    if (base === undefined || quote === undefined) {
+      throw new ValidationError(`No reference price for ${pair.baseSymbol}/${pair.quoteSymbol}`, {
+        baseSymbol: pair.baseSymbol,
+        quoteSymbol: pair.quoteSymbol
+      });
+    }
+
+    return parseFixed((base / quote).toFixed(12), PRICE_DECIMALS);
+  }
+}
@@ -0,0 +1,215 @@
+import { randomUUID } from 'crypto';
+import {
+  Address,
+  ChannelError,
+  Clock,
+  CONSTANTS,
+  OrderSide,
+  QuoteRequest,
+  QuoteRequestSchema,
+  ValidationError,
+  createDomain,
+  decodeWith,
+  formatFixed,
+  openQuoteFillState,
+  parseFixed,
+  participantTopics,
+  serializeQuote,
+  systemClock
+} from '@photonx/proto';
+import { ApiQuoteAlternative, ApiQuoteRequest, ApiQuoteResponse } from './api';
+import { AuctionBid, RfqAuction, auctionWinners } from './auction';
+import { assertCaller } from './auth';
+import { ChannelRegistry } from './channels';
+import { HttpError } from './http';
+import { LiquidityProviderRegistry } from './lps';
+import { MarketData, resolvePair } from './market';
+import { EventSink } from './socket';
+import { CoordinatorStore } from './store';
+
+// ============================================================================
+// QUOTE SERVICE
+// ============================================================================
+//
+// Turns an API quote request into one proto QuoteRequest per eligible LP
+// the trader has an open channel with, and auctions them. A quote only fixes
+// the price and the most that can be taken at it: the trader picks how much
+// to fill when preparing the trade, which is also when the Fill gets its
+// channel nonce, so quotes stay valid while other fills land on the channel.
+
+export interface QuoteServiceOptions {
+  readonly store: CoordinatorStore;
+  readonly market: MarketData;
+  readonly registry: LiquidityProviderRegistry;
+  readonly channels: ChannelRegistry;
+  readonly auction: RfqAuction;
+  readonly settlementContract: string;
+  readonly maxQuotes: number; // Upper bound on the topN a trader may ask for
+  readonly events?: EventSink;
+  readonly clock?: Clock;
+}
+
+const DEFAULT_MAX_SLIPPAGE_BPS = 100;
+
+export class QuoteService {
+  private readonly clock: Clock;
+  private lastRequestNonce = 0n;
+
+  constructor(private readonly options: QuoteServiceOptions) {
+    this.clock = options.clock ?? systemClock;
+  }
+
+  // `caller` is the signed-in address; traders may only request quotes for themselves
+  async createQuote(request: ApiQuoteRequest, caller: Address): Promise<ApiQuoteResponse> {
+    const { store, market, registry } = this.options;
+    const trader = { value: request.userAddress.toLowerCase() };
+    assertCaller(caller, trader);
+
+    const pair = resolvePair(request.chainId, request.pair);
+    const quantity = parseFixed(request.amount, pair.base.decimals);
+    if (quantity === 0n) {
+      throw new ValidationError('Quote amount must be positive', { amount: request.amount });
+    }
+    const topN = request.topN ?? 1;
+    if (topN > this.options.maxQuotes) {
+      throw new ValidationError(`At most ${this.options.maxQuotes} quotes can be requested`, { topN });
+    }
+
+    const providers = registry.eligible(request.chainId, pair);
+    if (providers.length === 0) {
+      throw new HttpError(503, 'No liquidity provider quotes this pair', 'NO_LIQUIDITY', {
+        pair: request.pair,
+        chainId: request.chainId
+      });
+    }
+
+    const side: OrderSide = request.side === 'buy' ? 'BUY' : 'SELL';
+    const baseToken = { value: pair.base.address.toLowerCase() };
+    const quoteToken = { value: pair.quote.address.toLowerCase() };
+    const now = this.clock.now();
+
+    const channels = await Promise.all(providers.map(async provider => ({
+      provider,
+      record: await this.options.channels.findOpen({
+        trader,
+        lp: provider.address,
+        chainId: request.chainId,
+        tokens: [baseToken, quoteToken]
+      })
+    })));
+    const opened = channels.filter(({ record }) => record !== undefined);
+    if (opened.length === 0) {
+      throw new ChannelError('No open channel with a liquidity provider quoting this pair', {
+        trader: trader.value,
+        pair: request.pair,
+        chainId: request.chainId
+      });
+    }
+
+    const machines = await Promise.all(opened.map(async ({ provider, record }) => ({
+      provider,
+      channel: await this.options.channels.get(record!.channelId)
+    })));
+    // LPs whose channel is checkpointing, settling or disputed are not invited
+    const open = machines.filter(({ channel }) => channel.accepts('QUOTE_REQUEST'));
+    if (open.length === 0) {
+      throw new ChannelError('No channel with a quoting liquidity provider accepts quote requests', {
+        channels: machines.map(({ channel }) => ({ channelId: channel.channelId.value, status: channel.status }))
+      });
+    }
+
+    const nonce = this.nextRequestNonce(now);
+    const invitations = open.map(({ provider, channel: { channelId } }) => {
+      const quoteRequest: QuoteRequest = decodeWith(
+        QuoteRequestSchema,
+        {
+          channelId,
+          nonce,
+          side,
+          baseToken,
+          quoteToken,
+          quantity,
+          maxSlippageBps: request.maxSlippageBps ?? DEFAULT_MAX_SLIPPAGE_BPS,
+          timestamp: now,
+          trader
+        },
+        'QuoteRequest'
+      );
+      return { provider, request: quoteRequest };
+    });
+
+    const domain = createDomain(request.chainId, this.options.settlementContract);
+    const auction = await this.options.auction.run({
+      auctionId: randomUUID(),
+      pair,
+      pairLabel: request.pair,
+      chainId: request.chainId,
+      side,
+      trader,
+      domain,
+      referencePrice: market.midPrice(pair),
+      invitations,
+      topN
+    });
+    await store.saveAuction(auction);
+
+    const winners = auctionWinners(auction);
+    if (winners.length === 0) {
+      throw new HttpError(503, 'No liquidity provider returned a valid quote', 'NO_QUOTES', {
+        auctionId: auction.auctionId,
+        bids: auction.bids.map(bid => ({ lp: bid.lpId, status: bid.status, reason: bid.reason }))
+      });
+    }
+
+    const quoted = await Promise.all(winners.map(bid => this.issue(bid, request, auction.auctionId)));
+    const [best, ...alternatives] = quoted;
+    return { ...best, auctionId: auction.auctionId, alternatives };
+  }
+
+  /**
+   * Request nonces only have to increase per sender and channel, so the clock
+   * serves, bumped past the last one handed out for requests in the same ms.
+   */
+  private nextRequestNonce(now: bigint): bigint {
+    this.lastRequestNonce = now > this.lastRequestNonce ? now : this.lastRequestNonce + 1n;
+    return this.lastRequestNonce;
+  }
+
+  /** Stores a winning bid for /api/trades and renders it for the API. */
+  private async issue(bid: AuctionBid, request: ApiQuoteRequest, auctionId: string): Promise<ApiQuoteAlternative> {
+    const { quote, signature } = bid.quote!;
+    const { trader } = bid.request;
+    const pair = resolvePair(request.chainId, request.pair);
+
+    await this.options.store.saveQuote({
+      pair: request.pair,
+      chainId: request.chainId,
+      auctionId,
+      quote,
+      trader,
+      fillState: openQuoteFillState(quote),
+      quoteSignature: signature,
+      createdAt: quote.timestamp
+    });
+    this.options.events?.(
+      participantTopics('QUOTES', { channelId: quote.channelId, trader, lp: quote.lp }),
+      { type: 'QUOTE', quote, signature, auctionId }
+    );
+
+    return {
+      id: quote.quoteId,
+      pair: request.pair,
+      side: request.side,
+      // An LP may quote less than requested
+      amount: formatFixed(quote.quantity, pair.base.decimals),
+      price: formatFixed(quote.price, 18),
+      expires: Number(quote.expiryTimestamp),
+      signature,
+      gasSaved: Number(CONSTANTS.ESTIMATED_GAS_PER_TRADE),
+      lp: quote.lp.value,
+      lpFeeBps: quote.lpFeeBps,
+      channelId: quote.channelId.value,
+      quote: serializeQuote(quote)
+    };
+  }
+}
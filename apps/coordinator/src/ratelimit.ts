@@ -0,0 +1,163 @@
+import { Address, Clock, ValidationError, systemClock } from '@photonx/proto';
+import { HttpError } from './http';
+
+// ============================================================================
+// RATE LIMIT TYPES
+// ============================================================================
+//
+// Token buckets per action, one keyed by the caller's address and one by its
+// IP; a request needs a token from both. Every quote request fans out to all
+// eligible LPs, so unmetered spam costs each of them CPU and signatures.
+// Addresses are sorted into tiers so known API clients and LPs get more room
+// than retail wallets. IP buckets are kept per tier: an API client is not
+// throttled by retail traffic from its IP, while throwaway addresses signed
+// in from one IP still share a single retail allowance. Sign-in routes are
+// metered per IP only, on retail limits, since nobody is signed in yet.
+
+export type RateLimitTier = 'retail' | 'api' | 'lp';
+
+export type RateLimitedAction = 'quotes' | 'trades' | 'messages' | 'auth'; // messages: socket frames
+
+export interface BucketLimit {
+  readonly burst: number; // Bucket size
+  readonly perMinute: number; // Refill rate
+}
+
+export type TierLimits = Readonly<Record<RateLimitedAction, BucketLimit>>;
+
+export type RateLimits = Readonly<Record<RateLimitTier, TierLimits>>;
+
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  retail: {
+    quotes: { burst: 10, perMinute: 60 },
+    trades: { burst: 5, perMinute: 30 },
+    messages: { burst: 60, perMinute: 600 },
+    auth: { burst: 20, perMinute: 60 }
+  },
+  api: {
+    quotes: { burst: 50, perMinute: 600 },
+    trades: { burst: 20, perMinute: 300 },
+    messages: { burst: 300, perMinute: 6000 },
+    auth: { burst: 20, perMinute: 60 }
+  },
+  lp: {
+    quotes: { burst: 50, perMinute: 600 },
+    trades: { burst: 50, perMinute: 600 },
+    messages: { burst: 1000, perMinute: 30000 },
+    auth: { burst: 20, perMinute: 60 }
+  }
+};
+
+export interface RateLimitKey {
+  readonly ip: string;
+  readonly address?: Address; // Absent before sign-in; the IP bucket then uses retail limits
+}
+
+export interface RateLimiterOptions {
+  readonly limits: RateLimits;
+  readonly tierOf: (address: Address) => RateLimitTier;
+  readonly clock?: Clock;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number; // Unix ms of the last refill
+  limit: BucketLimit;
+}
+
+const ACTIONS: readonly RateLimitedAction[] = ['quotes', 'trades', 'messages', 'auth'];
+
+const ACTION_LABELS: Record<RateLimitedAction, string> = {
+  quotes: 'quote requests',
+  trades: 'trade requests',
+  messages: 'socket messages',
+  auth: 'sign-in requests'
+};
+
+/**
+ * Parses a RATE_LIMIT_<TIER> setting: comma-separated `action=burst/perMinute`
+ * entries, e.g. `quotes=10/60,trades=5/30`. Actions left out keep `defaults`.
+ */
+export function parseRateLimits(value: string | undefined, defaults: TierLimits): TierLimits {
+  if (!value) return defaults;
+  const limits: Record<RateLimitedAction, BucketLimit> = { ...defaults };
+  value.split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const match = entry.match(/^(\w+)=(\d+)\/(\d+)$/);
+    const action = match?.[1] as RateLimitedAction;
+    if (!match || !ACTIONS.includes(action) || Number(match[2]) < 1 || Number(match[3]) < 1) {
+      throw new ValidationError(`Invalid rate limit: ${entry}`, { entry, actions: ACTIONS });
+    }
+    limits[action] = { burst: Number(match[2]), perMinute: Number(match[3]) };
+  });
+  return limits;
+}
+
+// ============================================================================
+// RATE LIMITER
+// ============================================================================
+
+export class RateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+  private readonly clock: Clock;
+
+  constructor(private readonly options: RateLimiterOptions) {
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /** Spends a token for `action`, or throws 429 RATE_LIMITED with a Retry-After. */
+  consume(action: RateLimitedAction, key: RateLimitKey): void {
+    const tier = key.address ? this.options.tierOf(key.address) : 'retail';
+    const limit = this.options.limits[tier][action];
+    const now = Number(this.clock.now());
+
+    const scopes = [{ scope: 'ip', id: `${action}:ip:${tier}:${key.ip}` }];
+    if (key.address) {
+      scopes.push({ scope: 'address', id: `${action}:address:${key.address.value.toLowerCase()}` });
+    }
+    const buckets = scopes.map(({ scope, id }) => ({ scope, bucket: this.refill(id, limit, now) }));
+
+    // Nothing is spent unless every bucket has a token, so rejected requests are free
+    const empty = buckets.filter(({ bucket }) => bucket.tokens < 1);
+    if (empty.length > 0) {
+      const retryAfterMs = Math.max(...empty.map(({ bucket }) =>
+        Math.ceil(((1 - bucket.tokens) * 60_000) / limit.perMinute)));
+      const retryAfter = Math.ceil(retryAfterMs / 1000);
+      throw new HttpError(
+        429,
+        `Too many ${ACTION_LABELS[action]}; retry in ${retryAfter}s`,
+        'RATE_LIMITED',
+        { action, tier, scope: empty[0].scope, retryAfterMs },
+        { 'Retry-After': String(retryAfter) }
+      );
+    }
+    buckets.forEach(({ bucket }) => {
+      bucket.tokens -= 1;
+    });
+  }
+
+  /** Drops buckets that have refilled completely; they are identical to new ones. */
+  prune(): number {
+    const now = Number(this.clock.now());
+    let pruned = 0;
+    this.buckets.forEach((bucket, id) => {
+      if (this.level(bucket, now) >= bucket.limit.burst) {
+        this.buckets.delete(id);
+        pruned++;
+      }
+    });
+    return pruned;
+  }
+
+  private refill(id: string, limit: BucketLimit, now: number): Bucket {
+    const existing = this.buckets.get(id);
+    const bucket = existing
+      ? { tokens: Math.min(limit.burst, this.level(existing, now)), updatedAt: now, limit }
+      : { tokens: limit.burst, updatedAt: now, limit };
+    this.buckets.set(id, bucket);
+    return bucket;
+  }
+
+  private level(bucket: Bucket, now: number): number {
+    return bucket.tokens + (Math.max(0, now - bucket.updatedAt) * bucket.limit.perMinute) / 60_000;
+  }
+}
@@ -0,0 +1,72 @@
+import { ChannelError, LivenessEvent, serializeChannelState, serializeSignedSessionAuthorization } from '@photonx/proto';
+import { HttpError } from './http';
+import { ChannelRecord } from './store';
+
+// ============================================================================
+// RELAYER
+// ============================================================================
+//
+// The service that submits checkpoints and force-closes on-chain. The
+// coordinator hands it the channel's latest co-signed state when the
+// liveness monitor escalates; the relayer reports the outcome back through
+// ChannelRegistry.transition() like any other on-chain change.
+
+export interface Relayer {
+  checkpoint(channel: ChannelRecord, event: LivenessEvent): Promise<void>;
+  forceClose(channel: ChannelRecord, event: LivenessEvent): Promise<void>;
+}
+
+export interface HttpRelayerOptions {
+  readonly endpoint: string; // Base URL exposing POST /checkpoint and POST /force-close
+  readonly timeoutMs?: number;
+}
+
+/** Posts escalations to a relayer service; any non-2xx answer fails the escalation so it is retried. */
+export class HttpRelayer implements Relayer {
+  constructor(private readonly options: HttpRelayerOptions) {}
+
+  checkpoint(channel: ChannelRecord, event: LivenessEvent): Promise<void> {
+    return this.post('/checkpoint', channel, event);
+  }
+
+  forceClose(channel: ChannelRecord, event: LivenessEvent): Promise<void> {
+    return this.post('/force-close', channel, event);
+  }
+
+  private async post(path: string, channel: ChannelRecord, event: LivenessEvent): Promise<void> {
+    const response = await fetch(`${this.options.endpoint.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        channelId: channel.channelId.value,
+        chainId: channel.params.chainId.value,
+        state: serializeChannelState(channel.state),
+        traderSignature: channel.traderSignature,
+        lpSignature: channel.lpSignature,
+        ...(channel.traderAuthorization && {
+          traderAuthorization: serializeSignedSessionAuthorization(channel.traderAuthorization)
+        }),
+        silentMs: event.silentMs,
+        missedIntervals: event.missedIntervals
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 10_000)
+    });
+    if (!response.ok) {
+      throw new HttpError(502, `Relayer answered ${response.status}`, 'RELAYER_UNAVAILABLE', {
+        path,
+        channelId: channel.channelId.value,
+        status: response.status
+      });
+    }
+  }
+}
+
+/** Used when RELAYER_URL is unset: escalations fail loudly and stay pending instead of vanishing. */
+export const unconfiguredRelayer: Relayer = {
+  checkpoint: async channel => {
+    throw new ChannelError('No relayer configured to checkpoint the channel', { channelId: channel.channelId.value });
+  },
+  forceClose: async channel => {
+    throw new ChannelError('No relayer configured to force-close the channel', { channelId: channel.channelId.value });
+  }
+};
@@ -0,0 +1,365 @@
+import { createServer, Server } from 'http';
+import { Wallet } from 'ethers';
+import {
+  Address,
+  AddressSchema,
+  CONSTANTS,
+  Clock,
+  createTimeSyncResponse,
+  decodeWith,
+  NonceStore,
+  Scheduler,
+  SignatureProvider,
+  deserializeTimeSyncRequest,
+  serializeTimeSyncResponse,
+  systemClock
+} from '@photonx/proto';
+import { z } from 'zod';
+import {
+  ApiChannelOpen,
+  ApiChannelOpenSchema,
+  ApiHeartbeatRequestSchema,
+  ApiHeartbeatResponse,
+  ApiQuoteRequestSchema,
+  ApiTradePrepareSchema,
+  ApiTradeRequestSchema
+} from './api';
+import { AuctionRecord, RfqAuction, auctionForLp, serializeAuction } from './auction';
+import { AuthLoginSchema, AuthRefreshSchema, AuthService } from './auth';
+import { ChannelRegistry, channelParamsFor, toApiChannel } from './channels';
+import { CoordinatorConfig } from './config';
+import { HttpError, Router, ok } from './http';
+import { ChannelLiveness } from './liveness';
+import { HttpLiquidityProvider, InternalLiquidityProvider, LiquidityProviderRegistry } from './lps';
+import { MarketData } from './market';
+import { QuoteService } from './quotes';
+import { RateLimiter } from './ratelimit';
+import { HttpRelayer, Relayer, unconfiguredRelayer } from './relayer';
+import { SocketConnection, SocketHub } from './socket';
+import { CoordinatorStore, InMemoryStore } from './store';
+import { TradeService } from './trades';
+
+// ============================================================================
+// COORDINATOR SERVER
+// ============================================================================
+
+export interface CoordinatorDeps {
+  readonly store?: CoordinatorStore;
+  readonly market?: MarketData;
+  readonly registry?: LiquidityProviderRegistry; // The internal LP is always added
+  readonly provider?: SignatureProvider; // Lets smart-contract wallets sign in
+  readonly nonceStore?: NonceStore; // Consumed fill nonces; persist it whenever `store` is persistent
+  readonly relayer?: Relayer; // Defaults to an HttpRelayer on RELAYER_URL
+  readonly clock?: Clock;
+  readonly scheduler?: Scheduler; // Drives the liveness monitors' heartbeats
+}
+
+export interface Coordinator {
+  readonly server: Server;
+  readonly lp: Wallet; // Key of the internal LP
+  readonly registry: LiquidityProviderRegistry;
+  readonly channels: ChannelRegistry; // Report on-chain opens, checkpoints, settlements and disputes here
+  readonly store: CoordinatorStore;
+  readonly market: MarketData;
+  readonly sockets: SocketHub;
+  readonly liveness: ChannelLiveness;
+  start(): Promise<void>;
+  stop(): Promise<void>;
+}
+
+// Expired quotes are kept this long so late /api/trades calls get a clear error
+const QUOTE_RETENTION_MS = 5 * 60_000;
+
+const AuctionQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(500).default(50)
+});
+
+const SocketAuthSchema = z.object({ token: z.string().min(1) });
+
+/** The signed-in address behind a socket, while its token is still valid. */
+function socketCaller(connection: SocketConnection, now: number): Address {
+  const identity = connection.identity;
+  if (!identity) {
+    throw new HttpError(401, 'Sign in required', 'UNAUTHORIZED', { reason: 'MISSING_TOKEN' });
+  }
+  if (identity.expiresAt <= now) {
+    throw new HttpError(401, 'Token has expired', 'UNAUTHORIZED', { reason: 'TOKEN_EXPIRED' });
+  }
+  return identity.address;
+}
+
+export function createCoordinator(config: CoordinatorConfig, deps: CoordinatorDeps = {}): Coordinator {
+  const store = deps.store ?? new InMemoryStore();
+  const market = deps.market ?? new MarketData();
+  const clock = deps.clock ?? systemClock;
+  const lp = new Wallet(config.lpPrivateKey);
+  const startedAt = Date.now();
+
+  const registry = deps.registry ?? new LiquidityProviderRegistry();
+  registry.register(new InternalLiquidityProvider({
+    signer: lp,
+    market,
+    clock,
+    spreadBps: config.quoteSpreadBps,
+    lpFeeBps: config.lpFeeBps,
+    quoteTtlMs: config.quoteTtlMs
+  }));
+  config.liquidityProviders.forEach(options => registry.register(new HttpLiquidityProvider(options)));
+
+  const auth = new AuthService({
+    store,
+    clock,
+    provider: deps.provider,
+    secret: config.jwtSecret,
+    domains: config.siweDomains,
+    chainIds: config.siweChainIds,
+    accessTokenTtlMs: config.accessTokenTtlMs,
+    refreshTokenTtlMs: config.refreshTokenTtlMs,
+    nonceTtlMs: config.authNonceTtlMs
+  });
+
+  const apiClients = new Set(config.apiClients);
+  const admins = new Set(config.adminAddresses);
+  const limiter = new RateLimiter({
+    limits: config.rateLimits,
+    clock,
+    tierOf: address => {
+      if (registry.byAddress(address)) return 'lp';
+      return apiClients.has(address.value.toLowerCase()) ? 'api' : 'retail';
+    }
+  });
+
+  const sockets = new SocketHub({
+    allowedOrigins: config.allowedOrigins,
+    maxFrameBytes: config.maxBodyBytes,
+    trustedProxies: config.trustedProxies,
+    market,
+    clock,
+    // Market data is public; quote, fill and channel streams are the participants' own
+    authorizeTopic: (topic, connection) => {
+      if (topic.kind === 'MARKET') return;
+      const caller = socketCaller(connection, Number(clock.now()));
+      if (AddressSchema.safeParse({ value: topic.key }).success && topic.key !== caller.value) {
+        throw new HttpError(403, 'Cannot subscribe to another address', 'ADDRESS_MISMATCH', {
+          caller: caller.value,
+          topic: topic.key
+        });
+      }
+    },
+    throttle: connection => limiter.consume('messages', {
+      ip: connection.ip,
+      address: connection.identity?.address
+    })
+  });
+
+  const channels = new ChannelRegistry({ store, clock });
+  const quotes = new QuoteService({
+    store,
+    market,
+    registry,
+    channels,
+    clock,
+    auction: new RfqAuction({ windowMs: config.auctionWindowMs, clock }),
+    settlementContract: config.settlementContract,
+    maxQuotes: config.auctionMaxQuotes,
+    events: sockets.publish
+  });
+  const trades = new TradeService({
+    store,
+    registry,
+    channels,
+    clock,
+    provider: deps.provider,
+    nonceStore: deps.nonceStore,
+    settlementContract: config.settlementContract,
+    events: sockets.publish
+  });
+  const liveness = new ChannelLiveness({
+    channels,
+    signer: lp,
+    settlementContract: config.settlementContract,
+    relayer: deps.relayer ?? (config.relayerUrl ? new HttpRelayer({ endpoint: config.relayerUrl }) : unconfiguredRelayer),
+    events: sockets.publish,
+    policy: config.liveness,
+    provider: deps.provider,
+    clock,
+    scheduler: deps.scheduler
+  });
+  const executeTrade = async (body: unknown, caller: Address) => {
+    const response = await trades.execute(decodeWith(ApiTradeRequestSchema, body, 'TradeRequest'), caller);
+    liveness.seen({ value: response.channelId });
+    return response;
+  };
+  // Channels are opened on-chain; whatever watches the chain reports them, and
+  // admins or DEV_CHANNELS stand in for it where nothing does
+  const openChannel = async (request: ApiChannelOpen) => {
+    const trader = { value: request.trader.toLowerCase() };
+    const openNonce = await channels.nextOpenNonce(trader, { value: lp.address }, request.chainId);
+    return channels.open(channelParamsFor(request, { value: lp.address }, openNonce));
+  };
+  const seedDevChannels = async () => {
+    for (const request of config.devChannels) {
+      const params = channelParamsFor(request, { value: lp.address }, 0n);
+      const existing = await channels.findOpen({
+        trader: params.trader,
+        lp: params.lp,
+        chainId: request.chainId,
+        tokens: params.tokens
+      });
+      const record = existing ?? await openChannel(request);
+      console.log(`Dev channel ${record.channelId.value} open for ${record.params.trader.value}`);
+    }
+  };
+  const heartbeat = async (body: unknown, caller: Address): Promise<ApiHeartbeatResponse> => ({
+    accepted: await liveness.receive(decodeWith(ApiHeartbeatRequestSchema, body, 'HeartbeatRequest').envelope, caller)
+  });
+
+  // The socket API mirrors the HTTP routes; method names follow their paths
+  const timeSync = (body: unknown) => {
+    const receivedAt = clock.now();
+    return serializeTimeSyncResponse(createTimeSyncResponse(deserializeTimeSyncRequest(body), receivedAt, clock));
+  };
+  sockets
+    .method('auth', (params, connection) => {
+      const { token } = decodeWith(SocketAuthSchema, params, 'SocketAuth');
+      const identity = auth.verifyAccessToken(token);
+      sockets.identify(connection, identity);
+      return { address: identity.address.value, expiresAt: identity.expiresAt };
+    })
+    .method('quotes', (params, connection) => {
+      const caller = socketCaller(connection, Number(clock.now()));
+      limiter.consume('quotes', { ip: connection.ip, address: caller });
+      return quotes.createQuote(decodeWith(ApiQuoteRequestSchema, params, 'QuoteRequest'), caller);
+    })
+    .method('trades/prepare', (params, connection) => {
+      const caller = socketCaller(connection, Number(clock.now()));
+      // Prepared fills reach no LP, so they are metered like quotes
+      limiter.consume('quotes', { ip: connection.ip, address: caller });
+      return trades.prepare(decodeWith(ApiTradePrepareSchema, params, 'TradePrepare'), caller);
+    })
+    .method('trades', (params, connection) => {
+      const caller = socketCaller(connection, Number(clock.now()));
+      limiter.consume('trades', { ip: connection.ip, address: caller });
+      return executeTrade(params, caller);
+    })
+    .method('heartbeats', (params, connection) => heartbeat(params, socketCaller(connection, Number(clock.now()))))
+    .method('market-data', () => market.snapshot())
+    .method('time', timeSync);
+
+  const router = new Router({
+    allowedOrigins: config.allowedOrigins,
+    maxBodyBytes: config.maxBodyBytes,
+    trustedProxies: config.trustedProxies
+  })
+    .get('/health', async () => ok({
+      status: 'ok',
+      version: CONSTANTS.PROTOCOL_VERSION,
+      lp: lp.address,
+      liquidityProviders: registry.list().length,
+      sockets: sockets.size,
+      uptimeMs: Date.now() - startedAt,
+      ...(await store.counts())
+    }))
+    // Sign-in is metered per IP so nobody can flood the nonce store
+    .get('/api/auth/nonce', async request => {
+      limiter.consume('auth', { ip: request.ip });
+      return ok(await auth.issueNonce());
+    })
+    .post('/api/auth/verify', async request => {
+      limiter.consume('auth', { ip: request.ip });
+      return ok(await auth.login(decodeWith(AuthLoginSchema, request.body, 'AuthLogin')));
+    })
+    .post('/api/auth/refresh', async request => {
+      limiter.consume('auth', { ip: request.ip });
+      return ok(await auth.refresh(decodeWith(AuthRefreshSchema, request.body, 'AuthRefresh').refreshToken));
+    })
+    .post('/api/auth/logout', async request => {
+      limiter.consume('auth', { ip: request.ip });
+      await auth.logout(decodeWith(AuthRefreshSchema, request.body, 'AuthRefresh').refreshToken);
+      return ok(undefined, 204);
+    })
+    .post('/api/quotes', async request => {
+      const caller = auth.authenticate(request.headers.authorization);
+      limiter.consume('quotes', { ip: request.ip, address: caller });
+      return ok(await quotes.createQuote(decodeWith(ApiQuoteRequestSchema, request.body, 'QuoteRequest'), caller), 201);
+    })
+    .post('/api/trades/prepare', async request => {
+      const caller = auth.authenticate(request.headers.authorization);
+      limiter.consume('quotes', { ip: request.ip, address: caller });
+      return ok(await trades.prepare(decodeWith(ApiTradePrepareSchema, request.body, 'TradePrepare'), caller));
+    })
+    .post('/api/trades', async request => {
+      const caller = auth.authenticate(request.headers.authorization);
+      limiter.consume('trades', { ip: request.ip, address: caller });
+      return ok(await executeTrade(request.body, caller));
+    })
+    .post('/api/heartbeats', async request => {
+      const caller = auth.authenticate(request.headers.authorization);
+      limiter.consume('messages', { ip: request.ip, address: caller });
+      return ok(await heartbeat(request.body, caller));
+    })
+    .post('/api/channels', async request => {
+      const caller = auth.authenticate(request.headers.authorization);
+      if (!admins.has(caller.value)) {
+        throw new HttpError(403, 'Only admins can record channel opens', 'FORBIDDEN', { caller: caller.value });
+      }
+      const record = await openChannel(decodeWith(ApiChannelOpenSchema, request.body, 'ChannelOpen'));
+      return ok(toApiChannel(record), 201);
+    })
+    .get('/api/auctions', async request => {
+      const caller = auth.authenticate(request.headers.authorization);
+      const provider = registry.byAddress(caller);
+      if (!admins.has(caller.value) && !provider) {
+        throw new HttpError(403, 'Auction history is only available to admins and liquidity providers', 'FORBIDDEN', {
+          caller: caller.value
+        });
+      }
+      const { limit } = decodeWith(AuctionQuerySchema, Object.fromEntries(request.query), 'AuctionQuery');
+      const auctions = await store.listAuctions(limit);
+      // Of the last `limit` auctions, an LP sees the ones it was invited to, with its own bids only
+      const visible = admins.has(caller.value)
+        ? auctions
+        : auctions.map(auction => auctionForLp(auction, provider!.address))
+          .filter((auction): auction is AuctionRecord => auction !== undefined);
+      return ok(visible.map(serializeAuction));
+    })
+    .get('/api/market-data', () => ok(market.snapshot()))
+    .post('/api/time', request => ok(timeSync(request.body)));
+
+  const server = createServer(router.listener);
+  server.on('upgrade', sockets.upgrade);
+  let pruneTimer: ReturnType<typeof setInterval> | undefined;
+
+  return {
+    server,
+    lp,
+    registry,
+    channels,
+    store,
+    market,
+    sockets,
+    liveness,
+    start: () => seedDevChannels().then(() => new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(config.port, config.host, () => {
+        server.off('error', reject);
+        pruneTimer = setInterval(() => {
+          store.pruneQuotes(clock.now() - BigInt(QUOTE_RETENTION_MS))
+            .catch(error => console.error('Quote pruning failed:', error));
+          store.pruneAuth(clock.now())
+            .catch(error => console.error('Auth pruning failed:', error));
+          limiter.prune();
+        }, QUOTE_RETENTION_MS);
+        sockets.start();
+        liveness.start();
+        resolve();
+      });
+    })),
+    stop: () => new Promise((resolve, reject) => {
+      if (pruneTimer) clearInterval(pruneTimer);
+      liveness.close();
+      sockets.close();
+      server.close(error => (error ? reject(error) : resolve()));
+    })
+  };
+}
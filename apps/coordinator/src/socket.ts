@@ -0,0 +1,310 @@
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import {
+  Address,
+  Clock,
+  DEFAULT_SOCKET_POLICY,
+  SocketError,
+  SocketEvent,
+  SocketFrame,
+  SocketPolicy,
+  SocketTopic,
+  deserializeSocketFrame,
+  formatTopic,
+  parseTopic,
+  serializeSocketFrame,
+  systemClock
+} from '@photonx/proto';
+import { clientIp, stringify, toErrorResponse } from './http';
+import { MarketData } from './market';
+
+// ============================================================================
+// SOCKET TYPES
+// ============================================================================
+//
+// The coordinator's WebSocket endpoint, upgraded from the same HTTP server.
+// Services publish proto-carrying events to topics through an EventSink and
+// never see connections; the hub fans them out to subscribers. REQUEST
+// methods are registered like HTTP routes and reuse the same services.
+
+export type EventSink = (topics: readonly string[], event: SocketEvent) => void;
+
+export interface SocketIdentity {
+  readonly address: Address;
+  readonly expiresAt: number; // Unix ms; the access token's expiry
+}
+
+export interface SocketConnection {
+  readonly id: number;
+  readonly ip: string;
+  readonly topics: ReadonlySet<string>;
+  readonly identity?: SocketIdentity; // Set once the client authenticates
+}
+
+export type MethodHandler = (params: unknown, connection: SocketConnection) => unknown | Promise<unknown>;
+
+// Throws to refuse a subscription
+export type TopicGuard = (topic: SocketTopic, connection: SocketConnection) => void;
+
+// Throws to refuse a frame, e.g. when the connection is over its rate limit
+export type FrameGuard = (connection: SocketConnection) => void;
+
+export interface SocketHubOptions {
+  readonly allowedOrigins: readonly string[];
+  readonly maxFrameBytes: number;
+  readonly maxTopicsPerConnection?: number;
+  readonly trustedProxies?: readonly string[]; // Peers whose X-Forwarded-For is believed
+  readonly market?: MarketData; // Enables market:<pair> topics
+  readonly authorizeTopic?: TopicGuard;
+  readonly throttle?: FrameGuard;
+  readonly policy?: SocketPolicy;
+  readonly clock?: Clock;
+}
+
+interface Connection extends SocketConnection {
+  readonly socket: WebSocket;
+  readonly topics: Set<string>;
+  identity?: SocketIdentity;
+  seq: number;
+  lastSeen: number;
+}
+
+const DEFAULT_MAX_TOPICS = 100;
+
+// ============================================================================
+// SOCKET HUB
+// ============================================================================
+
+export class SocketHub {
+  private readonly wss: WebSocketServer;
+  private readonly methods = new Map<string, MethodHandler>();
+  private readonly connections = new Set<Connection>();
+  private readonly subscribers = new Map<string, Set<Connection>>();
+  private readonly policy: SocketPolicy;
+  private readonly clock: Clock;
+  private readonly unsubscribeMarket?: () => void;
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
+  private nextId = 1;
+
+  constructor(private readonly options: SocketHubOptions) {
+    this.policy = options.policy ?? DEFAULT_SOCKET_POLICY;
+    this.clock = options.clock ?? systemClock;
+    this.wss = new WebSocketServer({ noServer: true, maxPayload: options.maxFrameBytes });
+    this.wss.on('connection', (socket: WebSocket, req: IncomingMessage) => this.accept(socket, req));
+    this.unsubscribeMarket = options.market?.onUpdate(symbol => this.publishMarket(symbol));
+  }
+
+  method(name: string, handler: MethodHandler): this {
+    this.methods.set(name, handler);
+    return this;
+  }
+
+  /** Binds `connection` to an authenticated address until `identity.expiresAt`. */
+  identify(connection: SocketConnection, identity: SocketIdentity): void {
+    (connection as Connection).identity = identity;
+  }
+
+  /** `upgrade` listener for the HTTP server. */
+  upgrade = (req: IncomingMessage, socket: Duplex, head: Buffer): void => {
+    const origin = req.headers.origin;
+    if (origin && !this.options.allowedOrigins.includes(origin)) {
+      socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+      return;
+    }
+    this.wss.handleUpgrade(req, socket, head, ws => this.wss.emit('connection', ws, req));
+  };
+
+  publish: EventSink = (topics, event) => {
+    // A connection subscribed to several of the topics still gets the event once
+    const delivered = new Set<Connection>();
+    topics.forEach(topic => {
+      this.subscribers.get(topic)?.forEach(connection => {
+        if (delivered.has(connection)) return;
+        delivered.add(connection);
+        this.send(connection, { op: 'EVENT', topic, seq: ++connection.seq, event });
+      });
+    });
+  };
+
+  get size(): number {
+    return this.connections.size;
+  }
+
+  start(): void {
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), this.policy.heartbeatIntervalMs);
+  }
+
+  close(): void {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.unsubscribeMarket?.();
+    this.connections.forEach(connection => connection.socket.close(1001, 'Coordinator shutting down'));
+    this.wss.close();
+  }
+
+  // ==========================================================================
+  // CONNECTIONS
+  // ==========================================================================
+
+  private accept(socket: WebSocket, req: IncomingMessage): void {
+    const connection: Connection = {
+      id: this.nextId++,
+      ip: clientIp(req, this.options.trustedProxies),
+      socket,
+      topics: new Set(),
+      seq: 0,
+      lastSeen: Date.now()
+    };
+    this.connections.add(connection);
+
+    socket.on('message', (data: RawData) => {
+      connection.lastSeen = Date.now();
+      this.receive(connection, data.toString()).catch(error => {
+        console.error('Failed to handle socket frame:', error);
+      });
+    });
+    socket.on('close', () => this.drop(connection));
+    socket.on('error', (error: Error) => {
+      console.error(`Socket ${connection.id} error:`, error.message);
+      this.drop(connection);
+    });
+  }
+
+  private drop(connection: Connection): void {
+    connection.topics.forEach(topic => this.removeSubscriber(topic, connection));
+    this.connections.delete(connection);
+  }
+
+  private heartbeat(): void {
+    const cutoff = Date.now() - this.policy.heartbeatTimeoutMs;
+    this.connections.forEach(connection => {
+      if (connection.lastSeen < cutoff) {
+        connection.socket.terminate();
+        this.drop(connection);
+        return;
+      }
+      this.send(connection, { op: 'PING', timestamp: this.clock.now() });
+    });
+  }
+
+  private send(connection: Connection, frame: SocketFrame): void {
+    if (connection.socket.readyState !== WebSocket.OPEN) return;
+    connection.socket.send(stringify(serializeSocketFrame(frame)));
+  }
+
+  // ==========================================================================
+  // FRAMES
+  // ==========================================================================
+
+  private async receive(connection: Connection, text: string): Promise<void> {
+    let frame: SocketFrame | undefined;
+    let malformed: unknown;
+    try {
+      frame = deserializeSocketFrame(text);
+    } catch (error) {
+      malformed = error;
+    }
+
+    try {
+      // Malformed frames cost a token too; PONGs only answer our own PINGs
+      if (frame?.op !== 'PONG') this.options.throttle?.(connection);
+      if (!frame) throw malformed;
+      switch (frame.op) {
+        case 'SUBSCRIBE':
+          this.subscribe(connection, frame.topics);
+          this.send(connection, { op: 'ACK', id: frame.id, topics: frame.topics });
+          this.snapshot(connection, frame.topics);
+          break;
+        case 'UNSUBSCRIBE':
+          frame.topics.forEach(topic => {
+            const canonical = formatTopic(parseTopic(topic));
+            connection.topics.delete(canonical);
+            this.removeSubscriber(canonical, connection);
+          });
+          this.send(connection, { op: 'ACK', id: frame.id, topics: frame.topics });
+          break;
+        case 'REQUEST': {
+          const handler = this.methods.get(frame.method);
+          if (!handler) {
+            throw new SocketError(`Unknown method: ${frame.method}`, { reason: 'UNKNOWN_METHOD', method: frame.method });
+          }
+          const result = await handler(frame.params, connection);
+          this.send(connection, { op: 'RESPONSE', id: frame.id, result });
+          break;
+        }
+        case 'PING':
+          this.send(connection, { op: 'PONG', timestamp: frame.timestamp });
+          break;
+        case 'PONG':
+          break; // lastSeen is already refreshed
+        default:
+          throw new SocketError(`Clients may not send ${frame.op} frames`, { reason: 'MALFORMED_FRAME', op: frame.op });
+      }
+    } catch (error) {
+      const id = frame && 'id' in frame ? frame.id : undefined;
+      this.send(connection, { op: 'ERROR', id, error: toErrorResponse(error).body.error });
+    }
+  }
+
+  private subscribe(connection: Connection, topics: readonly string[]): void {
+    // Validate all topics first so a bad one leaves the subscription set untouched
+    const canonical = topics.map(topic => {
+      const parsed = parseTopic(topic);
+      if (parsed.kind === 'MARKET' && !this.options.market) {
+        throw new SocketError('Market data topics are not available', { reason: 'INVALID_TOPIC', topic });
+      }
+      this.options.authorizeTopic?.(parsed, connection);
+      return formatTopic(parsed);
+    });
+    const added = canonical.filter(topic => !connection.topics.has(topic));
+    const limit = this.options.maxTopicsPerConnection ?? DEFAULT_MAX_TOPICS;
+    if (connection.topics.size + added.length > limit) {
+      throw new SocketError(`At most ${limit} topics per connection`, { reason: 'INVALID_TOPIC', limit });
+    }
+
+    added.forEach(topic => {
+      connection.topics.add(topic);
+      const set = this.subscribers.get(topic) ?? new Set<Connection>();
+      set.add(connection);
+      this.subscribers.set(topic, set);
+    });
+  }
+
+  private removeSubscriber(topic: string, connection: Connection): void {
+    const set = this.subscribers.get(topic);
+    if (!set) return;
+    set.delete(connection);
+    if (set.size === 0) this.subscribers.delete(topic);
+  }
+
+  // ==========================================================================
+  // MARKET DATA
+  // ==========================================================================
+
+  /** New market subscribers get the current price right away instead of at the next update. */
+  private snapshot(connection: Connection, topics: readonly string[]): void {
+    topics.map(parseTopic).filter(topic => topic.kind === 'MARKET').forEach(topic => {
+      const event = this.marketEvent(topic.key);
+      if (event) this.send(connection, { op: 'EVENT', topic: formatTopic(topic), seq: ++connection.seq, event });
+    });
+  }
+
+  private publishMarket(symbol: string): void {
+    this.subscribers.forEach((_set, topic) => {
+      const parsed = parseTopic(topic);
+      if (parsed.kind !== 'MARKET' || !parsed.key.split('/').includes(symbol)) return;
+      const event = this.marketEvent(parsed.key);
+      if (event) this.publish([topic], event);
+    });
+  }
+
+  private marketEvent(pair: string): SocketEvent | undefined {
+    const [baseSymbol, quoteSymbol] = pair.split('/');
+    try {
+      const price = this.options.market!.midPrice({ baseSymbol, quoteSymbol });
+      return { type: 'MARKET_DATA', pair, price, timestamp: this.clock.now() };
+    } catch {
+      return undefined; // No reference price yet; the first update publishes it
+    }
+  }
+}
@@ -0,0 +1,200 @@
+import {
+  Address,
+  ChannelId,
+  ChannelParams,
+  ChannelState,
+  ChannelStatus,
+  Fill,
+  Quote,
+  QuoteFillState,
+  SignedSessionAuthorization
+} from '@photonx/proto';
+import { AuctionRecord } from './auction';
+
+// ============================================================================
+// STORE TYPES
+// ============================================================================
+//
+// Everything the coordinator keeps between requests. The in-memory store is
+// the default so the service runs standalone; a persistent implementation
+// only has to satisfy CoordinatorStore.
+
+export interface QuoteRecord {
+  readonly pair: string; // As requested, e.g. "ETH/USDC"
+  readonly chainId: number;
+  readonly auctionId: string; // Auction the quote won or placed in
+  readonly quote: Quote;
+  readonly trader: Address; // The only address that may fill the quote
+  readonly fillState: QuoteFillState;
+  readonly quoteSignature: string; // LP signature over `quote`
+  readonly createdAt: bigint;
+}
+
+export interface TradeRecord {
+  readonly fill: Fill;
+  readonly pair: string;
+  readonly chainId: number;
+  readonly traderSignature: string;
+  readonly traderAuthorization?: SignedSessionAuthorization; // Set when a trader session key signed
+  readonly lpSignature: string;
+  readonly executedAt: bigint;
+}
+
+export interface ChannelRecord {
+  readonly channelId: ChannelId;
+  readonly params: ChannelParams; // As opened on-chain
+  readonly status: ChannelStatus;
+  readonly state: ChannelState; // Latest co-signed state; the opening state at nonce 0
+  // Both over computeChannelStateHash(state); unset for the opening state, which the deposits define
+  readonly traderSignature?: string;
+  readonly lpSignature?: string;
+  readonly traderAuthorization?: SignedSessionAuthorization; // Set when a trader session key signed
+  readonly updatedAt: bigint;
+}
+
+export interface CoordinatorStore {
+  saveQuote(record: QuoteRecord): Promise<void>;
+  getQuote(quoteId: string): Promise<QuoteRecord | undefined>;
+  saveTrade(record: TradeRecord): Promise<void>;
+  listTrades(trader?: string): Promise<TradeRecord[]>;
+  getChannel(channelId: ChannelId): Promise<ChannelRecord | undefined>;
+  saveChannel(record: ChannelRecord): Promise<void>;
+  // Every channel the trader has opened, closed ones included
+  listChannels(trader: string): Promise<ChannelRecord[]>;
+  saveAuction(record: AuctionRecord): Promise<void>;
+  getAuction(auctionId: string): Promise<AuctionRecord | undefined>;
+  // Most recent first
+  listAuctions(limit: number): Promise<AuctionRecord[]>;
+  // Drops quote records that expired before `cutoff`
+  pruneQuotes(cutoff: bigint): Promise<number>;
+  // Sign-in nonces are single-use: consuming reports whether it was outstanding and unexpired
+  saveAuthNonce(nonce: string, expiresAt: bigint): Promise<void>;
+  consumeAuthNonce(nonce: string, now: bigint): Promise<boolean>;
+  // Refresh tokens rotate on use; consuming returns the address the token was issued to
+  saveRefreshToken(tokenId: string, address: string, expiresAt: bigint): Promise<void>;
+  consumeRefreshToken(tokenId: string, now: bigint): Promise<string | undefined>;
+  // Drops nonces and refresh tokens that expired before `now`
+  pruneAuth(now: bigint): Promise<number>;
+  counts(): Promise<{ quotes: number; trades: number; channels: number; auctions: number }>;
+}
+
+// ============================================================================
+// IN-MEMORY STORE
+// ============================================================================
+
+// Auctions are analytics, not state; the in-memory store keeps only the tail
+const DEFAULT_AUCTION_HISTORY = 1_000;
+
+export class InMemoryStore implements CoordinatorStore {
+  private readonly quotes = new Map<string, QuoteRecord>();
+  private readonly trades: TradeRecord[] = [];
+  private readonly channels = new Map<string, ChannelRecord>();
+  private readonly auctions = new Map<string, AuctionRecord>();
+  private readonly authNonces = new Map<string, bigint>();
+  private readonly refreshTokens = new Map<string, { address: string; expiresAt: bigint }>();
+
+  constructor(private readonly auctionHistory = DEFAULT_AUCTION_HISTORY) {}
+
+  async saveQuote(record: QuoteRecord): Promise<void> {
+    this.quotes.set(record.quote.quoteId, record);
+  }
+
+  async getQuote(quoteId: string): Promise<QuoteRecord | undefined> {
+    return this.quotes.get(quoteId);
+  }
+
+  async saveTrade(record: TradeRecord): Promise<void> {
+    this.trades.push(record);
+  }
+
+  async listTrades(trader?: string): Promise<TradeRecord[]> {
+    if (!trader) return [...this.trades];
+    return this.trades.filter(trade => trade.fill.trader.value.toLowerCase() === trader.toLowerCase());
+  }
+
+  async getChannel(channelId: ChannelId): Promise<ChannelRecord | undefined> {
+    return this.channels.get(channelId.value);
+  }
+
+  async saveChannel(record: ChannelRecord): Promise<void> {
+    this.channels.set(record.channelId.value, record);
+  }
+
+  async listChannels(trader: string): Promise<ChannelRecord[]> {
+    return Array.from(this.channels.values())
+      .filter(record => record.params.trader.value.toLowerCase() === trader.toLowerCase());
+  }
+
+  async saveAuction(record: AuctionRecord): Promise<void> {
+    this.auctions.set(record.auctionId, record);
+    if (this.auctions.size > this.auctionHistory) {
+      // Maps iterate in insertion order, so the first key is the oldest
+      this.auctions.delete(this.auctions.keys().next().value!);
+    }
+  }
+
+  async getAuction(auctionId: string): Promise<AuctionRecord | undefined> {
+    return this.auctions.get(auctionId);
+  }
+
+  async listAuctions(limit: number): Promise<AuctionRecord[]> {
+    return Array.from(this.auctions.values()).slice(-limit).reverse();
+  }
+
+  async pruneQuotes(cutoff: bigint): Promise<number> {
+    let pruned = 0;
+    this.quotes.forEach((record, quoteId) => {
+      if (record.quote.expiryTimestamp < cutoff) {
+        this.quotes.delete(quoteId);
+        pruned++;
+      }
+    });
+    return pruned;
+  }
+
+  async saveAuthNonce(nonce: string, expiresAt: bigint): Promise<void> {
+    this.authNonces.set(nonce, expiresAt);
+  }
+
+  async consumeAuthNonce(nonce: string, now: bigint): Promise<boolean> {
+    const expiresAt = this.authNonces.get(nonce);
+    this.authNonces.delete(nonce);
+    return expiresAt !== undefined && expiresAt > now;
+  }
+
+  async saveRefreshToken(tokenId: string, address: string, expiresAt: bigint): Promise<void> {
+    this.refreshTokens.set(tokenId, { address, expiresAt });
+  }
+
+  async consumeRefreshToken(tokenId: string, now: bigint): Promise<string | undefined> {
+    const token = this.refreshTokens.get(tokenId);
+    this.refreshTokens.delete(tokenId);
+    return token && token.expiresAt > now ? token.address : undefined;
+  }
+
+  async pruneAuth(now: bigint): Promise<number> {
+    let pruned = 0;
+    this.authNonces.forEach((expiresAt, nonce) => {
+      if (expiresAt <= now) {
+        this.authNonces.delete(nonce);
+        pruned++;
+      }
+    });
+    this.refreshTokens.forEach((token, tokenId) => {
+      if (token.expiresAt <= now) {
+        this.refreshTokens.delete(tokenId);
+        pruned++;
+      }
+    });
+    return pruned;
+  }
+
+  async counts(): Promise<{ quotes: number; trades: number; channels: number; auctions: number }> {
+    return {
+      quotes: this.quotes.size,
+      trades: this.trades.length,
+      channels: this.channels.size,
+      auctions: this.auctions.size
+    };
+  }
+}
@@ -0,0 +1,319 @@
+import { randomUUID } from 'crypto';
+import {
+  Address,
+  CONSTANTS,
+  Clock,
+  EIP712_TYPES,
+  EnvelopeOf,
+  Fill,
+  FillError,
+  FillSchema,
+  FillTerms,
+  MessageError,
+  MessageRouter,
+  NonceManager,
+  NonceStore,
+  QuoteError,
+  SessionKeyLedger,
+  SignatureProvider,
+  applyPartialFill,
+  computeChannelStateHash,
+  computeMessageHash,
+  computeRemainingQuantity,
+  createDomain,
+  decodeWith,
+  deserializeFill,
+  deserializeSignedSessionAuthorization,
+  isQuoteExpired,
+  parseFixed,
+  participantTopics,
+  serializeChannelState,
+  serializeFill,
+  systemClock,
+  validateSignature
+} from '@photonx/proto';
+import { ApiPreparedTrade, ApiTradePrepare, ApiTradeRequest, ApiTradeResponse } from './api';
+import { assertCaller } from './auth';
+import { ChannelRegistry } from './channels';
+import { HttpError } from './http';
+import { LiquidityProviderRegistry } from './lps';
+import { resolvePair } from './market';
+import { EventSink } from './socket';
+import { ChannelRecord, CoordinatorStore, QuoteRecord } from './store';
+
+// ============================================================================
+// TRADE SERVICE
+// ============================================================================
+//
+// A trade takes two calls. prepare() builds the Fill for the quantity the
+// trader wants, at the channel's next nonce, and the channel state it leads
+// to. The trader signs both and execute() dispatches the Fill as a FILL
+// envelope through a MessageRouter, whose NonceManager admits one fill per
+// channel nonce; a fill prepared before another landed is rejected as stale
+// and has to be prepared again. Inside that guard the fill is re-applied to
+// the latest co-signed state, the LP that quoted countersigns the Fill and
+// the new state, and the co-signed state is stored and returned.
+//
+// The trader may sign through a session key instead of its wallet. The FILL
+// envelope then carries its authorization, which the router checks and
+// charges the fill against its notional cap.
+
+export interface TradeServiceOptions {
+  readonly store: CoordinatorStore;
+  readonly registry: LiquidityProviderRegistry;
+  readonly channels: ChannelRegistry;
+  readonly settlementContract: string;
+  // Consumed fill nonces and ids; must be as durable as `store`, which holds the states they advance
+  readonly nonceStore?: NonceStore;
+  readonly sessionKeys?: SessionKeyLedger;
+  readonly provider?: SignatureProvider; // Lets smart-contract wallets authorize session keys
+  readonly events?: EventSink;
+  readonly clock?: Clock;
+}
+
+function sameAddress(a: Address, b: Address): boolean {
+  return a.value.toLowerCase() === b.value.toLowerCase();
+}
+
+export class TradeService {
+  private readonly clock: Clock;
+  private readonly sessionKeys: SessionKeyLedger;
+  private readonly nonces: NonceManager;
+  private loaded: Promise<void> | undefined;
+  // One router per chain, since each verifies against its chain's domain
+  private readonly routers = new Map<number, MessageRouter>();
+
+  constructor(private readonly options: TradeServiceOptions) {
+    this.clock = options.clock ?? systemClock;
+    this.sessionKeys = options.sessionKeys ?? new SessionKeyLedger();
+    this.nonces = new NonceManager(options.nonceStore);
+  }
+
+  /** Builds the Fill taking `amount` of a quote and the state it leads to, for the trader to sign. */
+  async prepare(request: ApiTradePrepare, caller: Address): Promise<ApiPreparedTrade> {
+    const record = await this.liveQuote(request.quoteId, caller);
+    const { quote, fillState } = record;
+    const channel = await this.options.channels.record(quote.channelId);
+    (await this.options.channels.get(quote.channelId)).assertAccepts('FILL');
+
+    const { base } = resolvePair(record.chainId, record.pair);
+    const quantity = request.amount === undefined ? fillState.remainingQuantity : parseFixed(request.amount, base.decimals);
+    const fill: Fill = decodeWith(
+      FillSchema,
+      {
+        channelId: quote.channelId,
+        quoteId: quote.quoteId,
+        fillId: randomUUID(),
+        nonce: channel.state.nonce + 1n,
+        quantity,
+        remainingQuantity: computeRemainingQuantity(fillState, quantity),
+        price: quote.price,
+        timestamp: this.clock.now(),
+        trader: record.trader,
+        lp: quote.lp
+      },
+      'Fill'
+    );
+    // Rejects overdrafts before the trader signs anything
+    const { channelState } = applyPartialFill(channel.state, fillState, fill, this.fillTerms(record, channel));
+
+    return {
+      quoteId: quote.quoteId,
+      channelId: quote.channelId.value,
+      nonce: fill.nonce.toString(),
+      fill: serializeFill(fill),
+      state: serializeChannelState(channelState)
+    };
+  }
+
+  // `caller` is the signed-in address; only the quote's trader may execute it
+  async execute(request: ApiTradeRequest, caller: Address): Promise<ApiTradeResponse> {
+    const record = await this.liveQuote(request.quoteId, caller);
+    const fill = deserializeFill(request.fill);
+    if (fill.quoteId !== record.quote.quoteId || !sameAddress(fill.trader, record.trader)) {
+      throw new FillError('Fill does not take this quote', { quoteId: record.quote.quoteId, fillQuoteId: fill.quoteId });
+    }
+
+    // Fills name both participants as signers; only the trader's own key may stand in here
+    const authorization = request.authorization && deserializeSignedSessionAuthorization(request.authorization);
+    if (authorization && !sameAddress(authorization.authorization.owner, fill.trader)) {
+      throw new MessageError('Session key was not authorized by the trader', {
+        reason: 'UNAUTHORIZED_SENDER',
+        quoteId: record.quote.quoteId,
+        owner: authorization.authorization.owner.value
+      });
+    }
+
+    // Loaded so the router can gate the FILL on the channel's status
+    await this.options.channels.get(fill.channelId);
+    this.loaded ??= this.nonces.load();
+    await this.loaded;
+
+    const response = await this.router(record.chainId).dispatchTo(
+      'FILL',
+      {
+        version: CONSTANTS.PROTOCOL_VERSION,
+        type: 'FILL',
+        sender: (authorization ? authorization.authorization.delegate : fill.trader).value,
+        signature: request.userSignature,
+        payload: serializeFill(fill),
+        ...(request.authorization && { authorization: request.authorization })
+      },
+      envelope => this.apply(envelope, request.stateSignature)
+    );
+    return response as ApiTradeResponse;
+  }
+
+  private router(chainId: number): MessageRouter {
+    let router = this.routers.get(chainId);
+    if (!router) {
+      router = new MessageRouter({
+        domain: createDomain(chainId, this.options.settlementContract),
+        provider: this.options.provider,
+        nonces: this.nonces,
+        sessionKeys: this.sessionKeys,
+        fillTerms: async fill => this.fillTerms(
+          await this.quoteRecord(fill.quoteId),
+          await this.options.channels.record(fill.channelId)
+        ),
+        channelStatus: channelId => this.options.channels.status(channelId),
+        clock: this.clock
+      });
+      this.routers.set(chainId, router);
+    }
+    return router;
+  }
+
+  private async quoteRecord(quoteId: string): Promise<QuoteRecord> {
+    const record = await this.options.store.getQuote(quoteId);
+    if (!record) {
+      throw new HttpError(404, 'Unknown or pruned quote', 'QUOTE_NOT_FOUND', { quoteId });
+    }
+    return record;
+  }
+
+  private async liveQuote(quoteId: string, caller: Address): Promise<QuoteRecord> {
+    const record = await this.quoteRecord(quoteId);
+    const { quote } = record;
+    assertCaller(caller, record.trader, { quoteId });
+    if (isQuoteExpired(quote.expiryTimestamp, this.clock.now())) {
+      throw new QuoteError('Quote has expired', {
+        quoteId,
+        expiryTimestamp: quote.expiryTimestamp.toString()
+      });
+    }
+    return record;
+  }
+
+  private fillTerms({ quote, chainId, pair }: QuoteRecord, channel: ChannelRecord): FillTerms {
+    const { base, quote: quoteToken } = resolvePair(chainId, pair);
+    return {
+      side: quote.side,
+      baseToken: { value: base.address.toLowerCase() },
+      quoteToken: { value: quoteToken.address.toLowerCase() },
+      lpFeeBps: quote.lpFeeBps,
+      baseDecimals: base.decimals,
+      quoteDecimals: quoteToken.decimals,
+      pairs: channel.params.pairs
+    };
+  }
+
+  /**
+   * FILL handler: runs once the trader's (or its session key's) signature
+   * checked out and the fill's nonce is the channel's next.
+   */
+  private async apply(envelope: EnvelopeOf<'FILL'>, traderStateSignature: string): Promise<ApiTradeResponse> {
+    const { store, registry, channels } = this.options;
+    const fill = envelope.payload;
+    const record = await this.quoteRecord(fill.quoteId);
+    const traderSignature = envelope.signature;
+    const now = this.clock.now();
+
+    const provider = registry.byAddress(fill.lp);
+    if (!provider) {
+      throw new HttpError(503, 'Quoting liquidity provider is no longer available', 'LP_UNAVAILABLE', {
+        quoteId: fill.quoteId,
+        lp: fill.lp.value
+      });
+    }
+
+    // Overdrafts and fills past the quote's remaining quantity are rejected here
+    const channel = await channels.record(fill.channelId);
+    const { channelState: state, quoteState: fillState } =
+      applyPartialFill(channel.state, record.fillState, fill, this.fillTerms(record, channel));
+    const stateHash = computeChannelStateHash(state);
+    const signer = envelope.authorization ? envelope.authorization.authorization.delegate : fill.trader;
+    if (!validateSignature(traderStateSignature, signer.value, stateHash)) {
+      throw new MessageError('State signature does not cover the channel state this fill leads to', {
+        reason: 'INVALID_SIGNATURE',
+        fillId: fill.fillId,
+        nonce: fill.nonce.toString()
+      });
+    }
+
+    const domain = createDomain(record.chainId, this.options.settlementContract);
+    const message = serializeFill(fill);
+    const countersigned = await provider.countersign(fill, traderSignature, {
+      chainId: record.chainId,
+      domain,
+      state,
+      traderStateSignature,
+      authorization: envelope.authorization
+    });
+    const fillHash = computeMessageHash(domain, EIP712_TYPES, 'Fill', message);
+    if (!validateSignature(countersigned.signature, fill.lp.value, fillHash) ||
+      !validateSignature(countersigned.stateSignature, fill.lp.value, stateHash)) {
+      throw new HttpError(502, 'Liquidity provider returned an invalid countersignature', 'LP_UNAVAILABLE', {
+        lp: provider.id,
+        fillId: fill.fillId
+      });
+    }
+    // The channel may have left ACTIVE while the LP was signing
+    (await channels.get(fill.channelId)).assertAccepts('FILL');
+
+    await channels.advance({
+      state,
+      traderSignature: traderStateSignature,
+      lpSignature: countersigned.stateSignature,
+      traderAuthorization: envelope.authorization
+    });
+    await store.saveQuote({ ...record, fillState });
+    await store.saveTrade({
+      fill,
+      pair: record.pair,
+      chainId: record.chainId,
+      traderSignature,
+      traderAuthorization: envelope.authorization,
+      lpSignature: countersigned.signature,
+      executedAt: now
+    });
+    this.publish(fill, traderSignature, countersigned.signature, now);
+
+    return {
+      success: true,
+      fillId: fill.fillId,
+      channelId: fill.channelId.value,
+      nonce: fill.nonce.toString(),
+      fill: message,
+      lpSignature: countersigned.signature,
+      state: serializeChannelState(state),
+      traderStateSignature,
+      lpStateSignature: countersigned.stateSignature
+    };
+  }
+
+  private publish(fill: Fill, traderSignature: string, lpSignature: string, at: bigint): void {
+    const { events } = this.options;
+    if (!events) return;
+    events(participantTopics('FILLS', fill), { type: 'FILL', fill, traderSignature, lpSignature });
+    events(participantTopics('CHANNEL', fill), {
+      type: 'CHANNEL_STATE',
+      channelId: fill.channelId,
+      trader: fill.trader,
+      lp: fill.lp,
+      nonce: fill.nonce,
+      lastFillId: fill.fillId,
+      updatedAt: at
+    });
+  }
+}
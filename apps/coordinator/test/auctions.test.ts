@@ -0,0 +1,61 @@
+import { Wallet } from 'ethers';
+import { LiquidityProvider, LiquidityProviderRegistry } from '../src/lps';
+import { CHAIN_ID, TestCoordinator, channelParams, otherWallet, startCoordinator, traderWallet } from './fixtures';
+
+const admin = new Wallet('0x' + '44'.repeat(32));
+
+// An external LP that is invited to every auction and never quotes
+const decliningLp: LiquidityProvider = {
+  id: 'declining',
+  address: { value: otherWallet.address.toLowerCase() },
+  supports: () => true,
+  quote: async () => undefined,
+  countersign: async () => {
+    throw new Error('never filled');
+  }
+};
+
+describe('GET /api/auctions', () => {
+  let harness: TestCoordinator;
+
+  beforeEach(async () => {
+    const registry = new LiquidityProviderRegistry();
+    registry.register(decliningLp);
+    harness = await startCoordinator({ ADMIN_ADDRESSES: admin.address }, { registry });
+
+    await harness.coordinator.channels.open(channelParams(traderWallet));
+    await harness.coordinator.channels.open(channelParams(traderWallet, { lp: decliningLp.address }));
+    const token = await harness.signIn(traderWallet);
+    const quoted = await harness.request('POST', '/api/quotes', {
+      token,
+      body: { pair: 'ETH/USDC', side: 'buy', amount: '1', userAddress: traderWallet.address, chainId: CHAIN_ID }
+    });
+    expect(quoted.status).toBe(201);
+  });
+
+  afterEach(() => harness.stop());
+
+  it('requires a signed-in admin or liquidity provider', async () => {
+    expect((await harness.request('GET', '/api/auctions')).status).toBe(401);
+
+    const trader = await harness.request('GET', '/api/auctions', { token: await harness.signIn(traderWallet) });
+    expect(trader.status).toBe(403);
+    expect(trader.body.error.code).toBe('FORBIDDEN');
+  });
+
+  it('shows admins every bid', async () => {
+    const response = await harness.request('GET', '/api/auctions', { token: await harness.signIn(admin) });
+    expect(response.status).toBe(200);
+    expect(response.body).toHaveLength(1);
+    expect(response.body[0].bids.map((bid: any) => bid.status).sort()).toEqual(['DECLINED', 'WON']);
+  });
+
+  it('shows an LP only its own bids', async () => {
+    const response = await harness.request('GET', '/api/auctions', { token: await harness.signIn(otherWallet) });
+    expect(response.status).toBe(200);
+    expect(response.body).toHaveLength(1);
+    expect(response.body[0].bids).toEqual([
+      expect.objectContaining({ lpId: 'declining', status: 'DECLINED' })
+    ]);
+  });
+});
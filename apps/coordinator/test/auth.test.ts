@@ -0,0 +1,246 @@
+import { Wallet } from 'ethers';
+import {
+  EIP712_TYPES,
+  SiweMessage,
+  computeChannelStateHash,
+  createDomain,
+  createSiweMessage,
+  deserializeChannelState,
+  formatSiweMessage,
+  selectTypes
+} from '@photonx/proto';
+import { AuthClaims, assertCaller, signJwt, verifyJwt } from '../src/auth';
+import {
+  CHAIN_ID,
+  ManualClock,
+  ORIGIN,
+  SETTLEMENT,
+  TestCoordinator,
+  channelParams,
+  otherWallet,
+  startCoordinator,
+  traderWallet
+} from './fixtures';
+
+const SECRET = 'x'.repeat(32);
+const NOW_MS = 1_700_000_000_000;
+
+const claims: AuthClaims = {
+  sub: traderWallet.address.toLowerCase(),
+  typ: 'access',
+  jti: 'token-1',
+  iat: NOW_MS / 1000,
+  exp: NOW_MS / 1000 + 900
+};
+
+function reason(verify: () => unknown): string | undefined {
+  try {
+    verify();
+    return undefined;
+  } catch (error: any) {
+    return error.details?.reason;
+  }
+}
+
+const base64url = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+describe('verifyJwt', () => {
+  it('returns the claims of a token it signed', () => {
+    expect(verifyJwt(signJwt(claims, SECRET), SECRET, 'access', NOW_MS)).toEqual(claims);
+  });
+
+  it('rejects a token whose payload or signature was tampered with', () => {
+    const [header, , signature] = signJwt(claims, SECRET).split('.');
+    const forged = base64url({ ...claims, sub: otherWallet.address.toLowerCase() });
+    expect(reason(() => verifyJwt(`${header}.${forged}.${signature}`, SECRET, 'access', NOW_MS))).toBe('INVALID_TOKEN');
+
+    const [, payload] = signJwt(claims, SECRET).split('.');
+    const flipped = `${signature[0] === 'A' ? 'B' : 'A'}${signature.slice(1)}`;
+    expect(reason(() => verifyJwt(`${header}.${payload}.${flipped}`, SECRET, 'access', NOW_MS))).toBe('INVALID_TOKEN');
+    expect(reason(() => verifyJwt(signJwt(claims, 'y'.repeat(32)), SECRET, 'access', NOW_MS))).toBe('INVALID_TOKEN');
+  });
+
+  it('only accepts HS256', () => {
+    const [, payload, signature] = signJwt(claims, SECRET).split('.');
+    for (const alg of ['none', 'HS512', 'RS256']) {
+      const header = base64url({ alg, typ: 'JWT' });
+      expect(reason(() => verifyJwt(`${header}.${payload}.${signature}`, SECRET, 'access', NOW_MS))).toBe('MALFORMED_TOKEN');
+    }
+    expect(reason(() => verifyJwt(`${base64url({ alg: 'none' })}.${payload}.`, SECRET, 'access', NOW_MS))).toBe('MALFORMED_TOKEN');
+  });
+
+  it('rejects expired tokens and tokens of the other type', () => {
+    const token = signJwt(claims, SECRET);
+    // Expiry is exclusive
+    expect(reason(() => verifyJwt(token, SECRET, 'access', claims.exp * 1000 - 1))).toBeUndefined();
+    expect(reason(() => verifyJwt(token, SECRET, 'access', claims.exp * 1000))).toBe('TOKEN_EXPIRED');
+    expect(reason(() => verifyJwt(token, SECRET, 'refresh', NOW_MS))).toBe('WRONG_TOKEN_TYPE');
+  });
+});
+
+describe('assertCaller', () => {
+  it('compares addresses regardless of case', () => {
+    const caller = { value: traderWallet.address.toLowerCase() };
+    expect(() => assertCaller(caller, { value: traderWallet.address })).not.toThrow();
+    expect(() => assertCaller(caller, { value: otherWallet.address }, { quoteId: 'q1' })).toThrow(
+      expect.objectContaining({ status: 403, code: 'ADDRESS_MISMATCH', details: expect.objectContaining({ quoteId: 'q1' }) })
+    );
+  });
+});
+
+describe('sign-in routes', () => {
+  let harness: TestCoordinator;
+  let clock: ManualClock;
+
+  beforeEach(async () => {
+    clock = new ManualClock();
+    harness = await startCoordinator({ SIWE_CHAIN_IDS: String(CHAIN_ID) }, { clock });
+  });
+
+  afterEach(() => harness.stop());
+
+  async function issueNonce(): Promise<string> {
+    return (await harness.request('GET', '/api/auth/nonce')).body.nonce;
+  }
+
+  async function verify(overrides: Partial<SiweMessage> = {}, nonce?: string, signer: Wallet = traderWallet) {
+    const message = formatSiweMessage({
+      ...createSiweMessage({
+        domain: new URL(ORIGIN).host,
+        address: traderWallet.address,
+        uri: ORIGIN,
+        chainId: CHAIN_ID,
+        nonce: nonce ?? await issueNonce(),
+        ttlMs: 5 * 60_000
+      }, clock),
+      ...overrides
+    });
+    return harness.request('POST', '/api/auth/verify', {
+      body: { message, signature: await signer.signMessage(message) }
+    });
+  }
+
+  async function rejection(response: Promise<{ status: number; body: any }>) {
+    const { status, body } = await response;
+    expect(status).toBe(401);
+    return body.error.details.reason;
+  }
+
+  it('issues tokens for the signed-in address', async () => {
+    const response = await verify();
+    expect(response.status).toBe(200);
+    expect(response.body.address).toBe(traderWallet.address.toLowerCase());
+    const quotes = await harness.request('POST', '/api/quotes', {
+      token: response.body.accessToken,
+      body: { pair: 'ETH/USDC', side: 'buy', amount: '1', userAddress: traderWallet.address, chainId: CHAIN_ID }
+    });
+    // Past auth: there is just no channel to quote on
+    expect(quotes.status).toBe(409);
+  });
+
+  it('rejects messages for another domain or chain', async () => {
+    expect(await rejection(verify({ domain: 'evil.example' }))).toBe('DOMAIN_MISMATCH');
+    expect(await rejection(verify({ chainId: 137 }))).toBe('CHAIN_MISMATCH');
+  });
+
+  it('rejects messages outside their validity window', async () => {
+    const nonce = await issueNonce();
+    const message = formatSiweMessage(createSiweMessage({
+      domain: new URL(ORIGIN).host,
+      address: traderWallet.address,
+      uri: ORIGIN,
+      chainId: CHAIN_ID,
+      nonce,
+      ttlMs: 60_000
+    }, clock));
+    const signature = await traderWallet.signMessage(message);
+    clock.advance(60_000);
+    expect(await rejection(harness.request('POST', '/api/auth/verify', { body: { message, signature } }))).toBe('EXPIRED');
+
+    expect(await rejection(verify({ notBefore: clock.now() + 60_000n }))).toBe('NOT_YET_VALID');
+  });
+
+  it('only accepts each issued nonce once', async () => {
+    expect(await rejection(verify({}, 'a1b2c3d4e5f60718'))).toBe('NONCE_MISMATCH');
+
+    const nonce = await issueNonce();
+    expect((await verify({}, nonce)).status).toBe(200);
+    expect(await rejection(verify({}, nonce))).toBe('NONCE_MISMATCH');
+  });
+
+  it('rejects a signature from another address', async () => {
+    expect(await rejection(verify({}, undefined, otherWallet))).toBe('INVALID_SIGNATURE');
+  });
+
+  it('rotates refresh tokens and refuses an already-used one', async () => {
+    const { body: first } = await verify();
+    const rotated = await harness.request('POST', '/api/auth/refresh', { body: { refreshToken: first.refreshToken } });
+    expect(rotated.status).toBe(200);
+    expect(rotated.body.refreshToken).not.toBe(first.refreshToken);
+
+    expect(await rejection(harness.request('POST', '/api/auth/refresh', { body: { refreshToken: first.refreshToken } })))
+      .toBe('TOKEN_REVOKED');
+    expect(await rejection(harness.request('POST', '/api/auth/refresh', { body: { refreshToken: first.accessToken } })))
+      .toBe('WRONG_TOKEN_TYPE');
+    expect((await harness.request('POST', '/api/auth/refresh', { body: { refreshToken: rotated.body.refreshToken } })).status)
+      .toBe(200);
+  });
+
+  it('revokes the refresh token on logout', async () => {
+    const { body: tokens } = await verify();
+    const logout = await harness.request('POST', '/api/auth/logout', { body: { refreshToken: tokens.refreshToken } });
+    expect(logout.status).toBe(204);
+    expect(await rejection(harness.request('POST', '/api/auth/refresh', { body: { refreshToken: tokens.refreshToken } })))
+      .toBe('TOKEN_REVOKED');
+  });
+
+  it('refuses access tokens once they expire', async () => {
+    const { body: tokens } = await verify();
+    clock.advance(tokens.accessTokenExpiresAt - Number(clock.now()));
+    expect(await rejection(harness.request('POST', '/api/quotes', {
+      token: tokens.accessToken,
+      body: { pair: 'ETH/USDC', side: 'buy', amount: '1', userAddress: traderWallet.address, chainId: CHAIN_ID }
+    }))).toBe('TOKEN_EXPIRED');
+  });
+});
+
+describe('acting for another trader', () => {
+  let harness: TestCoordinator;
+
+  beforeEach(async () => {
+    harness = await startCoordinator();
+    await harness.coordinator.channels.open(channelParams(traderWallet));
+  });
+
+  afterEach(() => harness.stop());
+
+  it('refuses a quote for another trader', async () => {
+    const response = await harness.request('POST', '/api/quotes', {
+      token: await harness.signIn(otherWallet),
+      body: { pair: 'ETH/USDC', side: 'buy', amount: '1', userAddress: traderWallet.address, chainId: CHAIN_ID }
+    });
+    expect(response.status).toBe(403);
+    expect(response.body.error.code).toBe('ADDRESS_MISMATCH');
+  });
+
+  it('refuses to execute a fill prepared for another trader', async () => {
+    const token = await harness.signIn(traderWallet);
+    const quoted = await harness.request('POST', '/api/quotes', {
+      token,
+      body: { pair: 'ETH/USDC', side: 'buy', amount: '1', userAddress: traderWallet.address, chainId: CHAIN_ID }
+    });
+    const { body: prepared } = await harness.request('POST', '/api/trades/prepare', { token, body: { quoteId: quoted.body.id } });
+
+    // Even fully signed by the trader, the fill is not the other caller's to submit
+    const domain = createDomain(CHAIN_ID, SETTLEMENT);
+    const signed = {
+      quoteId: prepared.quoteId,
+      fill: prepared.fill,
+      userSignature: await traderWallet.signTypedData(domain, selectTypes(EIP712_TYPES, 'Fill'), prepared.fill),
+      stateSignature: traderWallet.signingKey.sign(computeChannelStateHash(deserializeChannelState(prepared.state))).serialized
+    };
+    const response = await harness.request('POST', '/api/trades', { token: await harness.signIn(otherWallet), body: signed });
+    expect(response.status).toBe(403);
+    expect(response.body.error.code).toBe('ADDRESS_MISMATCH');
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  CHAIN_ID,
+  DOLLAR,
+  ETH,
+  TestCoordinator,
+  USDC,
+  WETH,
+  lpWallet,
+  otherWallet,
+  startCoordinator,
+  traderWallet
+} from './fixtures';
+
+const openRequest = {
+  trader: traderWallet.address,
+  chainId: CHAIN_ID,
+  pairs: ['ETH/USDC'],
+  traderDeposits: { USDC: '10000' },
+  lpDeposits: { ETH: '10', USDC: '5000' }
+};
+
+function quoteRequest(harness: TestCoordinator, token: string) {
+  return harness.request('POST', '/api/quotes', {
+    token,
+    body: { pair: 'ETH/USDC', side: 'buy', amount: '1', userAddress: traderWallet.address, chainId: CHAIN_ID }
+  });
+}
+
+describe('channel opening', () => {
+  let harness: TestCoordinator | undefined;
+
+  afterEach(async () => {
+    await harness?.stop();
+    harness = undefined;
+  });
+
+  it('lets admins record a channel the trader can then quote on', async () => {
+    harness = await startCoordinator({ ADMIN_ADDRESSES: otherWallet.address });
+    const token = await harness.signIn(traderWallet);
+    expect((await quoteRequest(harness, token)).status).toBe(409);
+
+    const opened = await harness.request('POST', '/api/channels', {
+      token: await harness.signIn(otherWallet),
+      body: openRequest
+    });
+    expect(opened.status).toBe(201);
+    expect(opened.body).toMatchObject({
+      trader: traderWallet.address.toLowerCase(),
+      lp: lpWallet.address.toLowerCase(),
+      chainId: CHAIN_ID,
+      status: 'ACTIVE',
+      openNonce: '0',
+      tokens: [WETH, USDC],
+      traderDeposits: ['0', (10_000n * DOLLAR).toString()],
+      lpDeposits: [(10n * ETH).toString(), (5_000n * DOLLAR).toString()]
+    });
+
+    const quoted = await quoteRequest(harness, token);
+    expect(quoted.status).toBe(201);
+    expect(quoted.body.channelId).toBe(opened.body.channelId);
+
+    // A second channel with the same LP gets the next open nonce, and so its own ID
+    const again = await harness.request('POST', '/api/channels', {
+      token: await harness.signIn(otherWallet),
+      body: openRequest
+    });
+    expect(again.body.openNonce).toBe('1');
+    expect(again.body.channelId).not.toBe(opened.body.channelId);
+  });
+
+  it('refuses channel opens from anyone but an admin', async () => {
+    harness = await startCoordinator({ ADMIN_ADDRESSES: otherWallet.address });
+    const response = await harness.request('POST', '/api/channels', {
+      token: await harness.signIn(traderWallet),
+      body: openRequest
+    });
+    expect(response.status).toBe(403);
+    expect(response.body.error.code).toBe('FORBIDDEN');
+  });
+
+  it('rejects deposits of tokens outside the channel pairs', async () => {
+    harness = await startCoordinator({ ADMIN_ADDRESSES: otherWallet.address });
+    const response = await harness.request('POST', '/api/channels', {
+      token: await harness.signIn(otherWallet),
+      body: { ...openRequest, lpDeposits: { BTC: '1' } }
+    });
+    expect(response.status).toBe(400);
+    expect(response.body.error.details.symbol).toBe('BTC');
+  });
+
+  it('opens DEV_CHANNELS at startup, once', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    harness = await startCoordinator({ DEV_CHANNELS: JSON.stringify([openRequest]) });
+    const quoted = await quoteRequest(harness, await harness.signIn(traderWallet));
+    expect(quoted.status).toBe(201);
+
+    // Restarting on the same store finds the channel instead of opening another
+    const { store } = harness.coordinator;
+    await harness.stop();
+    harness = await startCoordinator({ DEV_CHANNELS: JSON.stringify([openRequest]) }, { store });
+    const channels = await store.listChannels(traderWallet.address.toLowerCase());
+    expect(channels).toHaveLength(1);
+    expect(channels[0].channelId.value).toBe(quoted.body.channelId);
+    expect(log).toHaveBeenCalledWith(`Dev channel ${quoted.body.channelId} open for ${traderWallet.address.toLowerCase()}`);
+    log.mockRestore();
+  });
+
+  it('rejects malformed DEV_CHANNELS', async () => {
+    await expect(startCoordinator({ DEV_CHANNELS: '{"trader":' })).rejects.toThrow('DEV_CHANNELS must be a JSON array');
+    await expect(startCoordinator({ DEV_CHANNELS: JSON.stringify([{ ...openRequest, pairs: [] }]) }))
+      .rejects.toThrow('Invalid DEV_CHANNELS entry');
+  });
+});
@@ -0,0 +1,169 @@
+import { AddressInfo } from 'net';
+import { Wallet } from 'ethers';
+import { WebSocket } from 'ws';
+import { ChannelParams, Clock, createSiweMessage, formatSiweMessage } from '@photonx/proto';
+import { loadConfig } from '../src/config';
+import { Coordinator, CoordinatorDeps, createCoordinator } from '../src/server';
+
+// ============================================================================
+// SHARED FIXTURES
+// ============================================================================
+
+export const ORIGIN = 'http://localhost:3000';
+export const CHAIN_ID = 1;
+export const SETTLEMENT = '0x5fbdb2315678afecb367f032d93f642f64180aa3';
+export const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+export const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+
+export const lpWallet = new Wallet('0x' + '22'.repeat(32));
+export const traderWallet = new Wallet('0x' + '11'.repeat(32));
+export const otherWallet = new Wallet('0x' + '33'.repeat(32));
+
+export const ETH = 10n ** 18n;
+export const DOLLAR = 10n ** 6n;
+
+/** Starts at the real time and only moves when the test advances it. */
+export class ManualClock implements Clock {
+  time = BigInt(Date.now());
+  now(): bigint {
+    return this.time;
+  }
+  advance(ms: number): void {
+    this.time += BigInt(ms);
+  }
+}
+
+export interface TestCoordinator {
+  readonly coordinator: Coordinator;
+  readonly baseUrl: string;
+  request(method: 'GET' | 'POST', path: string, options?: RequestOptions): Promise<TestResponse>;
+  signIn(wallet: Wallet): Promise<string>; // Access token
+  stop(): Promise<void>;
+}
+
+export interface RequestOptions {
+  readonly body?: unknown;
+  readonly token?: string;
+  readonly headers?: Record<string, string>;
+}
+
+export interface TestResponse {
+  readonly status: number;
+  readonly body: any;
+  readonly headers: Headers;
+}
+
+/** A coordinator on a random local port; `env` overrides the test defaults. */
+export async function startCoordinator(
+  env: Record<string, string> = {},
+  deps: CoordinatorDeps = {}
+): Promise<TestCoordinator> {
+  const config = loadConfig({
+    HOST: '127.0.0.1',
+    ALLOWED_ORIGINS: ORIGIN,
+    PRIVATE_KEY: lpWallet.privateKey,
+    SETTLEMENT_CONTRACT_ADDRESS: SETTLEMENT,
+    JWT_SECRET: 'x'.repeat(32),
+    AUCTION_WINDOW_MS: '50',
+    RELAYER_URL: 'http://127.0.0.1:3003',
+    ...env
+  });
+  // PORT must be positive, so the random port is set past the parser
+  const coordinator = createCoordinator({ ...config, port: 0 }, deps);
+  await coordinator.start();
+  const { port } = coordinator.server.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+
+  const request = async (method: 'GET' | 'POST', path: string, options: RequestOptions = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.token && { Authorization: `Bearer ${options.token}` }),
+        ...options.headers
+      },
+      body: options.body === undefined ? undefined : JSON.stringify(options.body)
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : undefined, headers: response.headers };
+  };
+
+  const signIn = async (wallet: Wallet) => {
+    const { body: { nonce } } = await request('GET', '/api/auth/nonce');
+    const message = formatSiweMessage(createSiweMessage({
+      domain: new URL(ORIGIN).host,
+      address: wallet.address,
+      uri: ORIGIN,
+      chainId: CHAIN_ID,
+      nonce
+    }));
+    const response = await request('POST', '/api/auth/verify', {
+      body: { message, signature: await wallet.signMessage(message) }
+    });
+    if (response.status !== 200) throw new Error(`Sign-in failed: ${JSON.stringify(response.body)}`);
+    return response.body.accessToken as string;
+  };
+
+  return { coordinator, baseUrl, request, signIn, stop: () => coordinator.stop() };
+}
+
+export interface TestSocket {
+  send(frame: Record<string, unknown>): void;
+  // Resolves with the first frame, already received or not, that `match` accepts
+  next(match: (frame: any) => boolean, timeoutMs?: number): Promise<any>;
+  close(): void;
+}
+
+/** A WebSocket client on the coordinator, from the allowed origin. */
+export async function connectSocket(harness: TestCoordinator): Promise<TestSocket> {
+  const socket = new WebSocket(harness.baseUrl.replace(/^http/, 'ws'), { headers: { Origin: ORIGIN } });
+  const frames: any[] = [];
+  const waiters = new Set<() => void>();
+  socket.on('message', data => {
+    frames.push(JSON.parse(data.toString()));
+    waiters.forEach(wake => wake());
+  });
+  await new Promise((resolve, reject) => {
+    socket.once('open', resolve);
+    socket.once('error', reject);
+  });
+
+  const next = (match: (frame: any) => boolean, timeoutMs = 2_000) => new Promise<any>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      waiters.delete(check);
+      reject(new Error('No matching socket frame'));
+    }, timeoutMs);
+    function check() {
+      const index = frames.findIndex(match);
+      if (index === -1) return;
+      const [frame] = frames.splice(index, 1);
+      clearTimeout(timer);
+      waiters.delete(check);
+      resolve(frame);
+    }
+    waiters.add(check);
+    check();
+  });
+
+  return {
+    send: frame => socket.send(JSON.stringify(frame)),
+    next,
+    close: () => socket.close()
+  };
+}
+
+/** WETH/USDC channel between `trader` and the internal LP, as opened on-chain. */
+export function channelParams(trader: Wallet, overrides: Partial<ChannelParams> = {}): ChannelParams {
+  return {
+    trader: { value: trader.address.toLowerCase() },
+    lp: { value: lpWallet.address.toLowerCase() },
+    tokens: [{ value: WETH }, { value: USDC }],
+    traderDeposits: [0n, 10_000n * DOLLAR],
+    lpDeposits: [10n * ETH, 0n],
+    pairs: [{ baseToken: { value: WETH }, quoteToken: { value: USDC } }],
+    chainId: { value: CHAIN_ID },
+    timeout: 86_400n,
+    openNonce: 0n,
+    ...overrides
+  };
+}
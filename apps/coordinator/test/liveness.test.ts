@@ -0,0 +1,146 @@
+import {
+  LivenessEvent,
+  Scheduler,
+  createDomain,
+  deserializeSocketEvent,
+  serializeEnvelope,
+  signEnvelope,
+  verifyEnvelope
+} from '@photonx/proto';
+import { Wallet } from 'ethers';
+import { ChannelRecord } from '../src/store';
+import {
+  CHAIN_ID,
+  ManualClock,
+  SETTLEMENT,
+  TestCoordinator,
+  channelParams,
+  connectSocket,
+  lpWallet,
+  otherWallet,
+  startCoordinator,
+  traderWallet
+} from './fixtures';
+
+const INTERVAL = 1_000;
+const domain = createDomain(CHAIN_ID, SETTLEMENT);
+
+// Monitors only tick when the test says so
+const manualScheduler: Scheduler = { setInterval: () => 1, clearInterval: () => undefined };
+
+// Status changes the monitor makes are written to the store in the background
+const flushWrites = () => new Promise(resolve => setImmediate(resolve));
+
+describe('channel liveness', () => {
+  let harness: TestCoordinator;
+  let clock: ManualClock;
+  let escalations: { action: string; channel: ChannelRecord; event: LivenessEvent }[];
+
+  beforeEach(async () => {
+    clock = new ManualClock();
+    escalations = [];
+    harness = await startCoordinator({ HEARTBEAT_INTERVAL_MS: String(INTERVAL) }, {
+      clock,
+      scheduler: manualScheduler,
+      relayer: {
+        checkpoint: async (channel, event) => void escalations.push({ action: 'CHECKPOINT', channel, event }),
+        forceClose: async (channel, event) => void escalations.push({ action: 'FORCE_CLOSE', channel, event })
+      }
+    });
+  });
+
+  afterEach(() => harness.stop());
+
+  async function heartbeat(wallet: Wallet, channelId: string, nonce: bigint) {
+    const envelope = await signEnvelope('HEARTBEAT', {
+      channelId: { value: channelId },
+      nonce,
+      timestamp: clock.now(),
+      sender: { value: wallet.address.toLowerCase() }
+    }, wallet, domain);
+    return serializeEnvelope(envelope);
+  }
+
+  it('signs the internal LP heartbeats onto the channel topic', async () => {
+    const { channelId } = await harness.coordinator.channels.open(channelParams(traderWallet));
+    const socket = await connectSocket(harness);
+    try {
+      socket.send({ op: 'REQUEST', id: 'auth', method: 'auth', params: { token: await harness.signIn(traderWallet) } });
+      await socket.next(frame => frame.id === 'auth');
+      socket.send({ op: 'SUBSCRIBE', id: 'sub', topics: [`channel:${channelId.value}`] });
+      await socket.next(frame => frame.op === 'ACK');
+
+      await harness.coordinator.liveness.monitor(channelId)!.tick();
+      const { event } = await socket.next(frame => frame.op === 'EVENT');
+      const { envelope } = deserializeSocketEvent(event) as any;
+      expect(envelope.sender.value).toBe(lpWallet.address.toLowerCase());
+      expect(envelope.payload.channelId).toEqual(channelId);
+      await expect(verifyEnvelope(envelope, domain)).resolves.toBeUndefined();
+    } finally {
+      socket.close();
+    }
+  });
+
+  it('degrades a silent trader, escalates to the relayer and recovers on its heartbeat', async () => {
+    const { channelId } = await harness.coordinator.channels.open(channelParams(traderWallet));
+    const monitor = harness.coordinator.liveness.monitor(channelId)!;
+    const token = await harness.signIn(traderWallet);
+
+    clock.advance(3 * INTERVAL);
+    await monitor.tick();
+    expect(harness.coordinator.channels.status(channelId)).toBe('DEGRADED');
+    await flushWrites();
+    expect((await harness.coordinator.channels.record(channelId)).status).toBe('DEGRADED');
+
+    clock.advance(3 * INTERVAL);
+    await monitor.tick();
+    expect(escalations).toHaveLength(1);
+    expect(escalations[0]).toMatchObject({ action: 'CHECKPOINT', channel: { channelId }, event: { missedIntervals: 6 } });
+
+    const response = await harness.request('POST', '/api/heartbeats', {
+      token,
+      body: { envelope: await heartbeat(traderWallet, channelId.value, 1n) }
+    });
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ accepted: true });
+    expect(harness.coordinator.channels.status(channelId)).toBe('ACTIVE');
+    await flushWrites();
+    expect((await harness.coordinator.channels.record(channelId)).status).toBe('ACTIVE');
+
+    // Replays are ignored
+    const replay = await harness.request('POST', '/api/heartbeats', {
+      token,
+      body: { envelope: await heartbeat(traderWallet, channelId.value, 1n) }
+    });
+    expect(replay.body).toEqual({ accepted: false });
+  });
+
+  it('only takes heartbeats the channel trader signed and sent', async () => {
+    const { channelId } = await harness.coordinator.channels.open(channelParams(traderWallet));
+
+    const foreign = await harness.request('POST', '/api/heartbeats', {
+      token: await harness.signIn(otherWallet),
+      body: { envelope: await heartbeat(traderWallet, channelId.value, 1n) }
+    });
+    expect(foreign.status).toBe(403);
+    expect(foreign.body.error.code).toBe('ADDRESS_MISMATCH');
+
+    const forged = await harness.request('POST', '/api/heartbeats', {
+      token: await harness.signIn(traderWallet),
+      body: { envelope: { ...(await heartbeat(traderWallet, channelId.value, 1n)), signature: '0x' + '11'.repeat(65) } }
+    });
+    expect(forged.status).toBe(401);
+    expect(forged.body.error.details.reason).toBe('INVALID_SIGNATURE');
+  });
+
+  it('watches only open channels of the internal LP', async () => {
+    const external = channelParams(traderWallet, { lp: { value: otherWallet.address.toLowerCase() } });
+    const { channelId: externalId } = await harness.coordinator.channels.open(external);
+    expect(harness.coordinator.liveness.monitor(externalId)).toBeUndefined();
+
+    const { channelId } = await harness.coordinator.channels.open(channelParams(traderWallet));
+    expect(harness.coordinator.liveness.size).toBe(1);
+    await harness.coordinator.channels.transition(channelId, 'CLOSED', 'Force-closed on-chain');
+    expect(harness.coordinator.liveness.monitor(channelId)).toBeUndefined();
+  });
+});
@@ -0,0 +1,40 @@
+import { TestCoordinator, startCoordinator } from './fixtures';
+
+describe('per-IP rate limits', () => {
+  let harness: TestCoordinator;
+
+  afterEach(() => harness.stop());
+
+  async function nonce(forwardedFor?: string) {
+    return harness.request('GET', '/api/auth/nonce', {
+      headers: forwardedFor ? { 'X-Forwarded-For': forwardedFor } : {}
+    });
+  }
+
+  it('throttles sign-in requests', async () => {
+    harness = await startCoordinator({ RATE_LIMIT_RETAIL: 'auth=2/1' });
+
+    expect((await nonce()).status).toBe(200);
+    expect((await harness.request('POST', '/api/auth/refresh', { body: { refreshToken: 'bogus' } })).status).toBe(401);
+    const limited = await harness.request('POST', '/api/auth/logout', { body: { refreshToken: 'bogus' } });
+    expect(limited.status).toBe(429);
+    expect(limited.body.error.code).toBe('RATE_LIMITED');
+    expect(limited.headers.get('retry-after')).toBeTruthy();
+  });
+
+  it('ignores X-Forwarded-For from untrusted peers', async () => {
+    harness = await startCoordinator({ RATE_LIMIT_RETAIL: 'auth=1/1' });
+
+    expect((await nonce('203.0.113.1')).status).toBe(200);
+    expect((await nonce('203.0.113.2')).status).toBe(429);
+  });
+
+  it('keys clients behind a trusted proxy by their forwarded address', async () => {
+    harness = await startCoordinator({ RATE_LIMIT_RETAIL: 'auth=1/1', TRUSTED_PROXIES: '127.0.0.1' });
+
+    expect((await nonce('203.0.113.1')).status).toBe(200);
+    expect((await nonce('203.0.113.2')).status).toBe(200);
+    // A spoofed leftmost entry does not buy a fresh bucket
+    expect((await nonce('198.51.100.7, 203.0.113.1')).status).toBe(429);
+  });
+});
@@ -0,0 +1,113 @@
+import { WebSocket } from 'ws';
+import { TestCoordinator, connectSocket, otherWallet, startCoordinator, traderWallet } from './fixtures';
+
+describe('socket protocol', () => {
+  let harness: TestCoordinator;
+
+  beforeEach(async () => {
+    harness = await startCoordinator();
+  });
+
+  afterEach(() => harness.stop());
+
+  it('answers each REQUEST under its own id, whatever order they finish in', async () => {
+    const socket = await connectSocket(harness);
+    try {
+      socket.send({ op: 'REQUEST', id: 'market', method: 'market-data' });
+      socket.send({ op: 'REQUEST', id: 'time', method: 'time', params: { type: 'TIME_SYNC_REQUEST', clientSendTime: '1' } });
+
+      const time = await socket.next(frame => frame.id === 'time');
+      expect(time).toMatchObject({ op: 'RESPONSE', result: { type: 'TIME_SYNC_RESPONSE', clientSendTime: '1' } });
+      const market = await socket.next(frame => frame.id === 'market');
+      expect(market.op).toBe('RESPONSE');
+      expect(market.result.ETH).toBeGreaterThan(0);
+    } finally {
+      socket.close();
+    }
+  });
+
+  it('reports failures as ERROR frames carrying the request id', async () => {
+    const socket = await connectSocket(harness);
+    try {
+      socket.send({ op: 'REQUEST', id: 'unknown', method: 'withdraw' });
+      const unknown = await socket.next(frame => frame.id === 'unknown');
+      expect(unknown).toMatchObject({ op: 'ERROR', error: { code: 'SOCKET_ERROR', details: { reason: 'UNKNOWN_METHOD' } } });
+
+      // Signed-in methods need the auth method first
+      socket.send({ op: 'REQUEST', id: 'quote', method: 'quotes', params: {} });
+      const unauthenticated = await socket.next(frame => frame.id === 'quote');
+      expect(unauthenticated).toMatchObject({ op: 'ERROR', error: { code: 'UNAUTHORIZED', details: { reason: 'MISSING_TOKEN' } } });
+
+      // Malformed frames have no id to answer under
+      socket.send({ op: 'EVENT', topic: 'market:ETH/USDC' });
+      const malformed = await socket.next(frame => frame.op === 'ERROR');
+      expect(malformed.id).toBeUndefined();
+      expect(malformed.error.details.reason).toBe('MALFORMED_FRAME');
+    } finally {
+      socket.close();
+    }
+  });
+
+  it('acks subscriptions, sends a market snapshot and stops after UNSUBSCRIBE', async () => {
+    const socket = await connectSocket(harness);
+    try {
+      socket.send({ op: 'SUBSCRIBE', id: 's1', topics: ['market:eth/usdc'] });
+      expect(await socket.next(frame => frame.op === 'ACK')).toEqual({ op: 'ACK', id: 's1', topics: ['market:eth/usdc'] });
+      const snapshot = await socket.next(frame => frame.op === 'EVENT');
+      expect(snapshot).toMatchObject({ topic: 'market:ETH/USDC', seq: 1, event: { type: 'MARKET_DATA', pair: 'ETH/USDC' } });
+
+      harness.coordinator.market.update('ETH', 2_500);
+      expect(await socket.next(frame => frame.op === 'EVENT')).toMatchObject({ seq: 2, event: { pair: 'ETH/USDC' } });
+
+      socket.send({ op: 'UNSUBSCRIBE', id: 's2', topics: ['market:ETH/USDC'] });
+      expect(await socket.next(frame => frame.op === 'ACK')).toEqual({ op: 'ACK', id: 's2', topics: ['market:ETH/USDC'] });
+      harness.coordinator.market.update('ETH', 2_600);
+      await expect(socket.next(frame => frame.op === 'EVENT', 200)).rejects.toThrow('No matching socket frame');
+    } finally {
+      socket.close();
+    }
+  });
+
+  it('keeps private topics to their own signed-in address', async () => {
+    const socket = await connectSocket(harness);
+    const fills = `fills:${traderWallet.address.toLowerCase()}`;
+    try {
+      socket.send({ op: 'SUBSCRIBE', id: 'anonymous', topics: [fills] });
+      expect(await socket.next(frame => frame.id === 'anonymous')).toMatchObject({ op: 'ERROR', error: { code: 'UNAUTHORIZED' } });
+
+      socket.send({ op: 'REQUEST', id: 'auth', method: 'auth', params: { token: await harness.signIn(otherWallet) } });
+      expect(await socket.next(frame => frame.id === 'auth')).toMatchObject({
+        op: 'RESPONSE',
+        result: { address: otherWallet.address.toLowerCase() }
+      });
+
+      // Refused whole: the allowed market topic is not subscribed either
+      socket.send({ op: 'SUBSCRIBE', id: 'foreign', topics: ['market:ETH/USDC', fills] });
+      expect(await socket.next(frame => frame.id === 'foreign')).toMatchObject({
+        op: 'ERROR',
+        error: { code: 'ADDRESS_MISMATCH' }
+      });
+      await expect(socket.next(frame => frame.op === 'EVENT', 200)).rejects.toThrow('No matching socket frame');
+    } finally {
+      socket.close();
+    }
+  });
+
+  it('answers PING with a PONG of the same timestamp', async () => {
+    const socket = await connectSocket(harness);
+    try {
+      socket.send({ op: 'PING', timestamp: '1700000000000' });
+      expect(await socket.next(frame => frame.op === 'PONG')).toEqual({ op: 'PONG', timestamp: '1700000000000' });
+    } finally {
+      socket.close();
+    }
+  });
+
+  it('refuses upgrades from origins that are not allowed', async () => {
+    const socket = new WebSocket(harness.baseUrl.replace(/^http/, 'ws'), { headers: { Origin: 'https://evil.example' } });
+    await expect(new Promise((resolve, reject) => {
+      socket.once('open', resolve);
+      socket.once('error', reject);
+    })).rejects.toThrow('403');
+  });
+});
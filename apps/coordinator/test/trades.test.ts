@@ -0,0 +1,158 @@
+import {
+  EIP712_TYPES,
+  computeChannelStateHash,
+  checkStateSignatures,
+  createDomain,
+  deserializeChannelState,
+  selectTypes
+} from '@photonx/proto';
+import {
+  CHAIN_ID,
+  DOLLAR,
+  ETH,
+  SETTLEMENT,
+  TestCoordinator,
+  USDC,
+  WETH,
+  channelParams,
+  otherWallet,
+  startCoordinator,
+  traderWallet
+} from './fixtures';
+
+const domain = createDomain(CHAIN_ID, SETTLEMENT);
+
+async function sign(prepared: any) {
+  const state = deserializeChannelState(prepared.state);
+  return {
+    quoteId: prepared.quoteId,
+    fill: prepared.fill,
+    userSignature: await traderWallet.signTypedData(domain, selectTypes(EIP712_TYPES, 'Fill'), prepared.fill),
+    stateSignature: traderWallet.signingKey.sign(computeChannelStateHash(state)).serialized
+  };
+}
+
+function balance(balances: any[], token: string): bigint {
+  return BigInt(balances.find(entry => entry.token === token).amount);
+}
+
+describe('quote and trade routes', () => {
+  let harness: TestCoordinator;
+  let token: string;
+
+  beforeEach(async () => {
+    harness = await startCoordinator();
+    token = await harness.signIn(traderWallet);
+  });
+
+  afterEach(() => harness.stop());
+
+  async function quote(amount: string) {
+    const response = await harness.request('POST', '/api/quotes', {
+      token,
+      body: { pair: 'ETH/USDC', side: 'buy', amount, userAddress: traderWallet.address, chainId: CHAIN_ID }
+    });
+    expect(response.status).toBe(201);
+    return response.body;
+  }
+
+  async function prepare(quoteId: string, amount?: string) {
+    return harness.request('POST', '/api/trades/prepare', { token, body: { quoteId, amount } });
+  }
+
+  it('rejects quotes without an open channel', async () => {
+    const response = await harness.request('POST', '/api/quotes', {
+      token,
+      body: { pair: 'ETH/USDC', side: 'buy', amount: '1', userAddress: traderWallet.address, chainId: CHAIN_ID }
+    });
+    expect(response.status).toBe(409);
+    expect(response.body.error.code).toBe('CHANNEL_ERROR');
+  });
+
+  it('quotes on the open channel and fills it in parts, returning each co-signed state', async () => {
+    const channel = await harness.coordinator.channels.open(channelParams(traderWallet));
+    const quoted = await quote('2');
+    expect(quoted.channelId).toBe(channel.channelId.value);
+    expect(quoted.fill).toBeUndefined();
+
+    const first = await prepare(quoted.id, '0.5');
+    expect(first.status).toBe(200);
+    expect(first.body.nonce).toBe('1');
+    expect(first.body.fill.remainingQuantity).toBe((3n * ETH / 2n).toString());
+
+    const executed = await harness.request('POST', '/api/trades', { token, body: await sign(first.body) });
+    expect(executed.status).toBe(200);
+    const state = deserializeChannelState(executed.body.state);
+    expect(state.nonce).toBe(1n);
+    expect(balance(executed.body.state.traderBalances, WETH)).toBe(ETH / 2n);
+    expect(balance(executed.body.state.traderBalances, USDC)).toBeLessThan(10_000n * DOLLAR);
+    expect(checkStateSignatures({
+      state,
+      traderSignature: executed.body.traderStateSignature,
+      lpSignature: executed.body.lpStateSignature
+    })).toBeUndefined();
+
+    // The same quote stays tradable for what is left, at the next nonce
+    const second = await prepare(quoted.id);
+    expect(second.body.nonce).toBe('2');
+    expect(second.body.fill.quantity).toBe((3n * ETH / 2n).toString());
+    const rest = await harness.request('POST', '/api/trades', { token, body: await sign(second.body) });
+    expect(rest.status).toBe(200);
+    expect(balance(rest.body.state.traderBalances, WETH)).toBe(2n * ETH);
+
+    const stored = await harness.coordinator.channels.record(channel.channelId);
+    expect(stored.state.nonce).toBe(2n);
+  });
+
+  it('rejects a fill prepared before another one landed on the channel', async () => {
+    await harness.coordinator.channels.open(channelParams(traderWallet));
+    const quoted = await quote('2');
+    const stale = await prepare(quoted.id, '0.5');
+    const landed = await prepare(quoted.id, '0.5');
+
+    expect((await harness.request('POST', '/api/trades', { token, body: await sign(landed.body) })).status).toBe(200);
+    const rejected = await harness.request('POST', '/api/trades', { token, body: await sign(stale.body) });
+    expect(rejected.status).toBe(409);
+    expect(rejected.body.error.code).toBe('REPLAY_ERROR');
+
+    // Only the fill that landed counts against the quote
+    const next = await prepare(quoted.id);
+    expect(next.body.fill.quantity).toBe((3n * ETH / 2n).toString());
+  });
+
+  it('rejects fills the trader cannot pay for before anything is signed', async () => {
+    await harness.coordinator.channels.open(channelParams(traderWallet, { traderDeposits: [0n, 1_000n * DOLLAR] }));
+    const quoted = await quote('1');
+
+    const response = await prepare(quoted.id);
+    expect(response.status).toBe(409);
+    expect(response.body.error.message).toBe('Insufficient trader balance');
+  });
+
+  it('rejects a state signature that does not cover the fill', async () => {
+    await harness.coordinator.channels.open(channelParams(traderWallet));
+    const quoted = await quote('1');
+    const prepared = await prepare(quoted.id);
+    const signed = await sign(prepared.body);
+
+    const response = await harness.request('POST', '/api/trades', {
+      token,
+      body: { ...signed, stateSignature: traderWallet.signingKey.sign('0x' + '00'.repeat(32)).serialized }
+    });
+    expect(response.status).toBe(401);
+    expect(response.body.error.details.reason).toBe('INVALID_SIGNATURE');
+
+    // The nonce was released, so the same fill still goes through
+    expect((await harness.request('POST', '/api/trades', { token, body: signed })).status).toBe(200);
+  });
+
+  it('only lets the quoted trader prepare and execute', async () => {
+    await harness.coordinator.channels.open(channelParams(traderWallet));
+    const quoted = await quote('1');
+    const other = await harness.signIn(otherWallet);
+
+    const response = await harness.request('POST', '/api/trades/prepare', { token: other, body: { quoteId: quoted.id } });
+    expect(response.status).toBe(403);
+    expect(response.body.error.code).toBe('ADDRESS_MISMATCH');
+  });
+});
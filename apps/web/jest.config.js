@@ -0,0 +1,13 @@
+const nextJest = require('next/jest');
+
+const createJestConfig = nextJest({ dir: './' });
+
+/** @type {import('jest').Config} */
+module.exports = createJestConfig({
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  // Same mapping as the tsconfig path: proto is consumed from source
+  moduleNameMapper: {
+    '^@photonx/proto$': '<rootDir>/../../packages/proto/src'
+  }
+});
@@ -2,7 +2,9 @@
 const nextConfig = {
   experimental: {
     appDir: true,
+    externalDir: true,
   },
+  transpilePackages: ['@photonx/proto'],
   env: {
     CUSTOM_KEY: process.env.CUSTOM_KEY,
   },
@@ -77,7 +77,7 @@ export function WalletButton() {
         fontSize: '12px',
         fontWeight: 'bold'
       }} className="hidden-mobile">
-        💰 {parseFloat(balance || '0').toFixed(3)} ETH
+        💰 {balance ?? '0'} ETH
       </div>
       
       {/* Network switch button */}
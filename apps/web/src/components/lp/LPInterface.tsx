@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from 'react';
 import { Icons } from '../Icons';
+import { useWallet } from '../../hooks/useWallet';
+import { formatTokenBalance, getPairTokens, parseTokenInput } from '../../lib/contracts';
 
 interface LPPosition {
   pair: string;
@@ -34,6 +36,10 @@ export function LPInterface() {
   
   const [selectedPair, setSelectedPair] = useState('ETH/USDC');
   const [amount, setAmount] = useState('');
+  const { isConnected, chainId, getTokenBalance } = useWallet();
+  const [usdcBalance, setUsdcBalance] = useState<bigint | null>(null);
+  const tokenChainId = chainId ?? 1;
+  const usdc = getPairTokens(tokenChainId, selectedPair)?.quote;
   const [totalStats, setTotalStats] = useState({
     totalLiquidity: 12500000,
     totalFees: 4680,
@@ -41,6 +47,36 @@ export function LPInterface() {
     activePositions: 156
   });
 
+  // Deposits are USDC, scaled by its 6 decimals rather than 18
+  const parseDeposit = (): { deposit?: bigint; error?: string } => {
+    if (!usdc) return { error: `${selectedPair} is not available on this network` };
+    if (!amount) return {};
+    try {
+      const deposit = parseTokenInput(tokenChainId, usdc.symbol, amount);
+      return deposit > 0n ? { deposit } : { error: 'Amount must be positive' };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  };
+  const { deposit, error: depositError } = parseDeposit();
+
+  useEffect(() => {
+    if (!isConnected || !usdc) {
+      setUsdcBalance(null);
+      return;
+    }
+    let cancelled = false;
+    getTokenBalance(usdc.address)
+      .then(raw => !cancelled && setUsdcBalance(raw))
+      .catch(error => {
+        console.error('Failed to read USDC balance:', error);
+        if (!cancelled) setUsdcBalance(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isConnected, usdc?.address]);
+
   useEffect(() => {
     const interval = setInterval(() => {
       setPositions(prev => prev.map(pos => ({
@@ -191,9 +227,18 @@ export function LPInterface() {
                   fontSize: '16px'
                 }}
               />
+              <div style={{
+                marginTop: '6px',
+                fontSize: '12px',
+                color: depositError ? '#ff6b6b' : 'rgba(255, 255, 255, 0.6)'
+              }}>
+                {depositError ?? (usdc && usdcBalance !== null
+                  ? `Balance: ${formatTokenBalance(tokenChainId, usdc.address, usdcBalance)} ${usdc.symbol}`
+                  : '\u00a0')}
+              </div>
             </div>
             
-            <button style={{
+            <button disabled={deposit === undefined} style={{
               width: '100%',
               padding: '16px',
               borderRadius: '12px',
@@ -202,7 +247,8 @@ export function LPInterface() {
               color: '#fff',
               fontSize: '16px',
               fontWeight: 'bold',
-              cursor: 'pointer'
+              cursor: deposit === undefined ? 'not-allowed' : 'pointer',
+              opacity: deposit === undefined ? 0.5 : 1
             }}>
               Add Liquidity
             </button>
@@ -3,25 +3,40 @@
 import { useState, useEffect } from 'react';
 import { Icons } from '../Icons';
 import { useWallet } from '../../hooks/useWallet';
+import { computeFillAmounts, parseFixed } from '@photonx/proto';
+import { QuoteResponse, photonxAPI, serverClock } from '../../lib/api';
+import { formatPrice, formatTokenBalance, getPairTokens, parseTokenInput } from '../../lib/contracts';
+
+const CLOCK_SYNC_INTERVAL_MS = 5 * 60_000;
 
 interface Quote {
+  response: QuoteResponse; // As the coordinator issued it; prepared and executed by id
   pair: string;
-  price: number;
-  amount: number;
+  price: bigint; // 1e18-scaled quote per base, spread included
+  amount: string; // Formatted with the base token's display precision
+  total: string; // Quote-token amount paid (buy) or received (sell), LP fee included, formatted
   side: 'buy' | 'sell';
-  timestamp: Date;
   expires: Date;
   gasSaved: number;
 }
 
+interface TradeStatus {
+  kind: 'error' | 'filled';
+  message: string;
+}
+
 export function TradingInterface() {
   const [selectedPair, setSelectedPair] = useState('ETH/USDC');
   const [amount, setAmount] = useState('');
   const [side, setSide] = useState<'buy' | 'sell'>('buy');
   const [quotes, setQuotes] = useState<Quote[]>([]);
   const [isRequesting, setIsRequesting] = useState(false);
-  const { isConnected, address, balance, chainId, connectWallet: connect, disconnectWallet, switchNetwork, isConnecting } = useWallet();
+  const [executingId, setExecutingId] = useState<string | null>(null);
+  const [tradeStatus, setTradeStatus] = useState<TradeStatus | null>(null);
+  const { isConnected, address, balance, chainId, connectWallet: connect, disconnectWallet, switchNetwork, isConnecting, getTokenBalance, signFill } = useWallet();
+  const [spendBalance, setSpendBalance] = useState<bigint | null>(null);
   const [realPrices, setRealPrices] = useState<{[key: string]: number}>({});
+  const [now, setNow] = useState(() => Number(serverClock.now()));
 
   const pairs = ['ETH/USDC', 'BTC/USDC', 'MATIC/USDC', 'ARB/USDC'];
   
@@ -58,34 +73,93 @@ export function TradingInterface() {
     }
   };
 
+  const tokenChainId = chainId ?? 1;
+  const pairTokens = getPairTokens(tokenChainId, selectedPair);
+  // BUY spends the quote token, SELL the base token
+  const spendToken = pairTokens && (side === 'buy' ? pairTokens.quote : pairTokens.base);
+
+  // Amounts are raw base-token units, scaled by the token's own decimals
+  const parseAmount = (): { quantity?: bigint; error?: string } => {
+    if (!pairTokens) return { error: `${selectedPair} is not available on this network` };
+    if (!amount) return {};
+    try {
+      const quantity = parseTokenInput(tokenChainId, pairTokens.base.symbol, amount);
+      return quantity > 0n ? { quantity } : { error: 'Amount must be positive' };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  };
+  const { quantity, error: amountError } = parseAmount();
+
+  const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+  // The coordinator's quote, with what it costs (buy) or pays (sell) once the LP fee is taken
+  const toQuote = (response: QuoteResponse): Quote => {
+    const tokens = getPairTokens(tokenChainId, response.pair)!;
+    const quantity = parseTokenInput(tokenChainId, tokens.base.symbol, response.amount);
+    const price = parseFixed(response.price, 18);
+    const { traderQuoteAmount } = computeFillAmounts(response.side === 'buy' ? 'BUY' : 'SELL', {
+      quantity,
+      price,
+      baseDecimals: tokens.base.decimals,
+      quoteDecimals: tokens.quote.decimals
+    }, response.lpFeeBps ?? 0);
+
+    return {
+      response,
+      pair: response.pair,
+      price,
+      amount: formatTokenBalance(tokenChainId, tokens.base.address, quantity),
+      total: `${formatTokenBalance(tokenChainId, tokens.quote.address, traderQuoteAmount)} ${tokens.quote.symbol}`,
+      side: response.side,
+      expires: new Date(response.expires),
+      gasSaved: response.gasSaved
+    };
+  };
+
   const requestQuote = async () => {
-    if (!amount || parseFloat(amount) <= 0) return;
-    
+    if (!pairTokens || quantity === undefined || !address) return;
+
     setIsRequesting(true);
-    
-    // Fetch latest prices before generating quote
-    await fetchRealPrices();
-    
-    setTimeout(() => {
-      const tokenSymbol = selectedPair.split('/')[0];
-      const basePrice = realPrices[tokenSymbol] || 1;
-      
-      const spread = 0.002;
-      const price = side === 'buy' ? basePrice * (1 + spread) : basePrice * (1 - spread);
-      
-      const newQuote: Quote = {
+    setTradeStatus(null);
+    try {
+      const response = await photonxAPI.requestQuote({
         pair: selectedPair,
-        price,
-        amount: parseFloat(amount),
         side,
-        timestamp: new Date(),
-        expires: new Date(Date.now() + 30000),
-        gasSaved: Math.floor(Math.random() * 500000) + 200000
-      };
-      
-      setQuotes(prev => [newQuote, ...prev.slice(0, 4)]);
+        amount,
+        userAddress: address,
+        chainId: tokenChainId
+      });
+      setQuotes(prev => [toQuote(response), ...prev.slice(0, 4)]);
+    } catch (error) {
+      console.error('Quote request error:', error);
+      setTradeStatus({ kind: 'error', message: errorMessage(error) });
+    } finally {
       setIsRequesting(false);
-    }, 150 + Math.random() * 100);
+    }
+  };
+
+  // Prepare the fill, sign it and the state it leads to, then have the LP countersign
+  const executeQuote = async (quote: Quote) => {
+    setExecutingId(quote.response.id);
+    setTradeStatus(null);
+    try {
+      const prepared = await photonxAPI.prepareTrade({ quoteId: quote.response.id });
+      const result = await photonxAPI.executeTrade(await signFill(quote.response, prepared));
+      if (!result.success) {
+        throw new Error(result.error || 'Trade execution failed');
+      }
+      setQuotes(prev => prev.filter(candidate => candidate.response.id !== quote.response.id));
+      setTradeStatus({
+        kind: 'filled',
+        message: `${quote.side === 'buy' ? 'Bought' : 'Sold'} ${quote.amount} ${quote.pair.split('/')[0]} at $${formatPrice(quote.price)} (channel nonce ${result.nonce})`
+      });
+    } catch (error) {
+      console.error('Trade execution error:', error);
+      setTradeStatus({ kind: 'error', message: errorMessage(error) });
+    } finally {
+      setExecutingId(null);
+    }
   };
 
   const handleNetworkSwitch = async () => {
@@ -94,6 +168,23 @@ export function TradingInterface() {
     }
   };
 
+  useEffect(() => {
+    if (!isConnected || !spendToken) {
+      setSpendBalance(null);
+      return;
+    }
+    let cancelled = false;
+    getTokenBalance(spendToken.address)
+      .then(raw => !cancelled && setSpendBalance(raw))
+      .catch(error => {
+        console.error('Failed to read token balance:', error);
+        if (!cancelled) setSpendBalance(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isConnected, address, spendToken?.address]);
+
   useEffect(() => {
     // Fetch initial prices
     fetchRealPrices();
@@ -104,6 +195,18 @@ export function TradingInterface() {
     return () => clearInterval(priceInterval);
   }, []);
 
+  useEffect(() => {
+    // Keep quote countdowns on coordinator time, not this browser's clock
+    photonxAPI.syncClock(serverClock);
+    const syncInterval = setInterval(() => photonxAPI.syncClock(serverClock), CLOCK_SYNC_INTERVAL_MS);
+    const tickInterval = setInterval(() => setNow(Number(serverClock.now())), 1000);
+
+    return () => {
+      clearInterval(syncInterval);
+      clearInterval(tickInterval);
+    };
+  }, []);
+
   return (
     <div style={{
       background: 'linear-gradient(135deg, #0f0f23 0%, #1a1a2e 50%, #16213e 100%)',
@@ -359,15 +462,27 @@ export function TradingInterface() {
                     </div>
                   </div>
                 </div>
+                <div style={{
+                  marginTop: '8px',
+                  fontSize: '12px',
+                  color: amountError ? '#ff6b6b' : 'rgba(255, 255, 255, 0.6)'
+                }}>
+                  {amountError ?? (spendToken && spendBalance !== null
+                    ? `Balance: ${formatTokenBalance(tokenChainId, spendToken.address, spendBalance)} ${spendToken.symbol}`
+                    : '\u00a0')}
+                </div>
                 <div style={{
                   display: 'flex',
                   gap: '8px',
                   marginTop: '12px'
                 }}>
-                  {['0.1', '0.5', '1.0', 'MAX'].map(preset => (
+                  {/* MAX sells the whole base-token balance; a BUY is sized in the base token, so it has no MAX */}
+                  {['0.1', '0.5', '1.0', ...(side === 'sell' && spendBalance !== null ? ['MAX'] : [])].map(preset => (
                     <button
                       key={preset}
-                      onClick={() => setAmount(preset === 'MAX' ? '10.0' : preset)}
+                      onClick={() => setAmount(preset === 'MAX' && pairTokens && spendBalance !== null
+                        ? formatTokenBalance(tokenChainId, pairTokens.base.address, spendBalance)
+                        : preset)}
                       style={{
                         padding: '8px 16px',
                         borderRadius: '8px',
@@ -388,28 +503,28 @@ export function TradingInterface() {
               
               <button
                 onClick={requestQuote}
-                disabled={isRequesting || !isConnected || !amount}
+                disabled={isRequesting || !isConnected || quantity === undefined}
                 style={{
                   width: '100%',
                   padding: '20px',
                   borderRadius: '16px',
                   border: 'none',
-                  background: isRequesting || !isConnected || !amount 
+                  background: isRequesting || !isConnected || quantity === undefined 
                     ? 'linear-gradient(135deg, rgba(255, 255, 255, 0.1), rgba(255, 255, 255, 0.05))' 
                     : 'linear-gradient(135deg, #00d2d3, #54a0ff, #00d2d3)',
                   backgroundSize: '200% 100%',
                   color: '#fff',
                   fontSize: '18px',
                   fontWeight: 'bold',
-                  cursor: isRequesting || !isConnected || !amount ? 'not-allowed' : 'pointer',
-                  opacity: isRequesting || !isConnected || !amount ? 0.5 : 1,
+                  cursor: isRequesting || !isConnected || quantity === undefined ? 'not-allowed' : 'pointer',
+                  opacity: isRequesting || !isConnected || quantity === undefined ? 0.5 : 1,
                   transition: 'all 0.3s ease',
                   textTransform: 'uppercase',
                   letterSpacing: '1px',
-                  boxShadow: isRequesting || !isConnected || !amount 
+                  boxShadow: isRequesting || !isConnected || quantity === undefined 
                     ? 'none' 
                     : '0 15px 35px rgba(0, 210, 211, 0.4)',
-                  animation: isRequesting || !isConnected || !amount ? 'none' : 'shimmer 3s ease-in-out infinite'
+                  animation: isRequesting || !isConnected || quantity === undefined ? 'none' : 'shimmer 3s ease-in-out infinite'
                 }}
                 className="trading-button"
               >
@@ -429,6 +544,20 @@ export function TradingInterface() {
                   '⚡ Request Quote'
                 )}
               </button>
+
+              {tradeStatus && (
+                <div style={{
+                  marginTop: '16px',
+                  padding: '12px 16px',
+                  borderRadius: '12px',
+                  fontSize: '14px',
+                  color: tradeStatus.kind === 'error' ? '#ff6b6b' : '#00ff88',
+                  background: tradeStatus.kind === 'error' ? 'rgba(255, 107, 107, 0.1)' : 'rgba(0, 255, 136, 0.1)',
+                  border: `1px solid ${tradeStatus.kind === 'error' ? 'rgba(255, 107, 107, 0.3)' : 'rgba(0, 255, 136, 0.3)'}`
+                }}>
+                  {tradeStatus.kind === 'error' ? '⚠️' : '✅'} {tradeStatus.message}
+                </div>
+              )}
             </div>
             
             {/* Live Quotes */}
@@ -518,8 +647,8 @@ export function TradingInterface() {
                 </div>
               ) : (
                 <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
-                  {quotes.map((quote, index) => (
-                    <div key={index} style={{
+                  {quotes.map(quote => (
+                    <div key={quote.response.id} style={{
                       background: 'linear-gradient(135deg, rgba(255, 255, 255, 0.1), rgba(255, 255, 255, 0.05))',
                       borderRadius: '16px',
                       padding: '24px',
@@ -538,36 +667,45 @@ export function TradingInterface() {
                           fontSize: '18px',
                           fontWeight: 'bold'
                         }}>
-                          ${quote.price.toLocaleString()}
+                          ${formatPrice(quote.price)}
                         </div>
                       </div>
                       
+                      <div style={{ color: 'rgba(255, 255, 255, 0.7)', fontSize: '12px', marginBottom: '8px' }}>
+                        {quote.side === 'buy' ? 'Total cost' : 'You receive'}: {quote.total}
+                      </div>
+                      
                       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '12px' }}>
                         <div style={{ color: 'rgba(255, 255, 255, 0.7)' }}>
                           Gas saved: {quote.gasSaved.toLocaleString()}
                         </div>
                         <div style={{ color: '#54a0ff' }}>
-                          Expires: {Math.max(0, Math.floor((quote.expires.getTime() - Date.now()) / 1000))}s
+                          Expires: {Math.max(0, Math.floor((quote.expires.getTime() - now) / 1000))}s
                         </div>
                       </div>
                       
-                      <button style={{
-                        width: '100%',
-                        marginTop: '16px',
-                        padding: '12px 20px',
-                        borderRadius: '12px',
-                        border: 'none',
-                        background: 'linear-gradient(135deg, #00ff88, #00d2d3)',
-                        color: '#000',
-                        fontSize: '16px',
-                        fontWeight: 'bold',
-                        cursor: 'pointer',
-                        transition: 'all 0.3s ease',
-                        textTransform: 'uppercase',
-                        letterSpacing: '0.5px',
-                        boxShadow: '0 8px 20px rgba(0, 255, 136, 0.3)'
-                      }}>
-                        🚀 Execute Trade
+                      <button
+                        onClick={() => executeQuote(quote)}
+                        disabled={executingId !== null || quote.expires.getTime() <= now}
+                        style={{
+                          width: '100%',
+                          marginTop: '16px',
+                          padding: '12px 20px',
+                          borderRadius: '12px',
+                          border: 'none',
+                          background: 'linear-gradient(135deg, #00ff88, #00d2d3)',
+                          color: '#000',
+                          fontSize: '16px',
+                          fontWeight: 'bold',
+                          cursor: executingId !== null || quote.expires.getTime() <= now ? 'not-allowed' : 'pointer',
+                          opacity: executingId !== null || quote.expires.getTime() <= now ? 0.5 : 1,
+                          transition: 'all 0.3s ease',
+                          textTransform: 'uppercase',
+                          letterSpacing: '0.5px',
+                          boxShadow: '0 8px 20px rgba(0, 255, 136, 0.3)'
+                        }}
+                      >
+                        {executingId === quote.response.id ? 'Executing...' : '🚀 Execute Trade'}
                       </button>
                     </div>
                   ))}
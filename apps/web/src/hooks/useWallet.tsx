@@ -2,11 +2,29 @@
 
 import { useState, useEffect } from 'react';
 import { ethers } from 'ethers';
+import { computeNotional, formatFixed, serializeSignedSessionAuthorization } from '@photonx/proto';
+import { PreparedTrade, QuoteResponse, TradeRequest } from '../lib/api';
+import { getAuthAddress, onAuthChange, signIn, signOut } from '../lib/auth';
+import { getPairTokens, parseTokenInput } from '../lib/contracts';
+import {
+  SessionKey,
+  SessionKeyRequest,
+  chargeSessionKey,
+  clearSessionKeys,
+  getOrCreateSessionKey,
+  signFillWithSession,
+  signStateWithSession
+} from '../lib/session';
+
+const ERC20_BALANCE_ABI = ['function balanceOf(address owner) view returns (uint256)'];
+
+// Quote-token notional a new session key may fill before the wallet is asked again
+const SESSION_MAX_NOTIONAL = '10000';
 
 interface WalletState {
   isConnected: boolean;
   address: string | null;
-  balance: string | null;
+  balance: string | null; // Native balance, formatted to 4 decimals
   chainId: number | null;
   provider: ethers.BrowserProvider | null;
 }
@@ -20,6 +38,23 @@ export function useWallet() {
     provider: null
   });
   const [isConnecting, setIsConnecting] = useState(false);
+  const [authAddress, setAuthAddress] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAuthAddress(getAuthAddress());
+    return onAuthChange(session => setAuthAddress(session?.address ?? null));
+  }, []);
+
+  // Quotes and trades need a signed-in address; a live session is reused without a prompt
+  const authenticate = async (provider: ethers.BrowserProvider) => {
+    try {
+      const signer = await provider.getSigner();
+      const network = await provider.getNetwork();
+      await signIn(signer, Number(network.chainId));
+    } catch (error) {
+      console.error('Failed to sign in:', error);
+    }
+  };
 
   const connectWallet = async () => {
     if (typeof window === 'undefined' || !window.ethereum) {
@@ -40,19 +75,24 @@ export function useWallet() {
       setWallet({
         isConnected: true,
         address,
-        balance: ethers.formatEther(balance),
+        balance: formatFixed(balance, 18, 4),
         chainId: Number(network.chainId),
         provider
       });
     } catch (error) {
       console.error('Failed to connect wallet:', error);
       alert('Failed to connect wallet. Please try again.');
+      return;
     } finally {
       setIsConnecting(false);
     }
+    // A declined sign-in leaves the wallet connected; signIn() can be retried
+    await authenticate(new ethers.BrowserProvider(window.ethereum));
   };
 
   const disconnectWallet = () => {
+    clearSessionKeys();
+    void signOut();
     setWallet({
       isConnected: false,
       address: null,
@@ -62,6 +102,62 @@ export function useWallet() {
     });
   };
 
+  // Raw ERC-20 balance of the connected account; format it with formatTokenBalance
+  const getTokenBalance = async (tokenAddress: string): Promise<bigint> => {
+    if (!wallet.provider || !wallet.address) {
+      throw new Error('Connect a wallet before reading token balances');
+    }
+    const token = new ethers.Contract(tokenAddress, ERC20_BALANCE_ABI, wallet.provider);
+    return token.balanceOf(wallet.address);
+  };
+
+  // Reuses the channel's session key while it can sign `notional`, or asks the wallet to authorize a new one
+  const authorizeSession = async (
+    request: Omit<SessionKeyRequest, 'chainId'>,
+    notional?: bigint
+  ): Promise<SessionKey> => {
+    if (!wallet.provider || wallet.chainId === null) {
+      throw new Error('Connect a wallet before authorizing a session key');
+    }
+    const signer = await wallet.provider.getSigner();
+    return getOrCreateSessionKey(signer, { ...request, chainId: wallet.chainId }, notional);
+  };
+
+  // Signs a prepared fill of `quote` and the state it leads to with the channel's session key,
+  // so the wallet is only prompted for the first fill and whenever the key's cap runs out
+  const signFill = async (quote: QuoteResponse, prepared: PreparedTrade): Promise<TradeRequest> => {
+    if (!quote.channelId || prepared.quoteId !== quote.id) {
+      throw new Error('Prepared fill does not take this quote');
+    }
+    const { chainId } = wallet;
+    const pairTokens = chainId !== null ? getPairTokens(chainId, quote.pair) : undefined;
+    if (chainId === null || !pairTokens) {
+      throw new Error(`${quote.pair} is not available on this network`);
+    }
+
+    // Counted like the coordinator's ledger: before fees, never rounded down
+    const notional = computeNotional({
+      quantity: BigInt(prepared.fill.quantity),
+      price: BigInt(prepared.fill.price),
+      baseDecimals: pairTokens.base.decimals,
+      quoteDecimals: pairTokens.quote.decimals
+    }, 'UP');
+    const sessionCap = parseTokenInput(chainId, pairTokens.quote.symbol, SESSION_MAX_NOTIONAL);
+    const session = await authorizeSession({
+      channelId: { value: quote.channelId },
+      notionalToken: { value: pairTokens.quote.address.toLowerCase() },
+      maxNotional: notional > sessionCap ? notional : sessionCap
+    }, notional);
+    chargeSessionKey(session, notional);
+    return {
+      quoteId: quote.id,
+      fill: prepared.fill,
+      userSignature: await signFillWithSession(session, prepared.fill, chainId),
+      stateSignature: signStateWithSession(session, prepared.state),
+      authorization: serializeSignedSessionAuthorization(session.authorization)
+    };
+  };
+
   const switchNetwork = async (chainId: number) => {
     if (!window.ethereum) return;
 
@@ -158,8 +254,13 @@ export function useWallet() {
   return {
     ...wallet,
     isConnecting,
+    isAuthenticated: !!wallet.address && authAddress === wallet.address.toLowerCase(),
     connectWallet,
+    signIn: () => (wallet.provider ? authenticate(wallet.provider) : Promise.resolve()),
     disconnectWallet,
+    getTokenBalance,
+    authorizeSession,
+    signFill,
     switchNetwork
   };
 }
\ No newline at end of file
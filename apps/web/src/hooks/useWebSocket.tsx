@@ -1,20 +1,43 @@
 'use client';
 
-'use client';
-
-import { createContext, useContext, ReactNode } from 'react';
+import { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { SocketFrame } from '@photonx/proto';
+import { getAccessToken, onAuthChange } from '../lib/auth';
+import { EventListener, PhotonXSocket, SocketStatus } from '../lib/socket';
 
 interface WebSocketContextType {
   isConnected: boolean;
-  send: (message: any) => void;
+  status: SocketStatus;
+  send: (frame: SocketFrame) => void;
+  request: <T = unknown>(method: string, params?: unknown) => Promise<T>;
+  subscribe: (topics: string[], listener: EventListener) => () => void;
 }
 
 const WebSocketContext = createContext<WebSocketContextType | undefined>(undefined);
 
-export function WebSocketProvider({ children }: { children: ReactNode }) {
+export function WebSocketProvider({ children, url }: { children: ReactNode; url?: string }) {
+  const [socket] = useState(() => new PhotonXSocket(url));
+  const [status, setStatus] = useState<SocketStatus>(socket.currentStatus);
+
+  useEffect(() => {
+    const unsubscribe = socket.onStatus(setStatus);
+    socket.setAuth(getAccessToken);
+    // Signing out reconnects so the coordinator forgets the old identity
+    const unsubscribeAuth = onAuthChange(session => (session ? socket.authenticate() : socket.reconnect()));
+    socket.connect();
+    return () => {
+      unsubscribe();
+      unsubscribeAuth();
+      socket.disconnect();
+    };
+  }, [socket]);
+
   const value: WebSocketContextType = {
-    isConnected: false,
-    send: () => {}
+    isConnected: status === 'open',
+    status,
+    send: frame => socket.send(frame),
+    request: (method, params) => socket.request(method, params),
+    subscribe: (topics, listener) => socket.subscribe(topics, listener)
   };
 
   return (
@@ -30,4 +53,21 @@ export function useWebSocket() {
     throw new Error('useWebSocket must be used within WebSocketProvider');
   }
   return context;
-}
\ No newline at end of file
+}
+
+/**
+ * Subscribes to `topics` for the lifetime of the component. The latest
+ * `listener` is always called, so it does not need to be memoized.
+ */
+export function useSubscription(topics: string[], listener: EventListener) {
+  const { subscribe } = useWebSocket();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+  const key = topics.join(',');
+
+  useEffect(() => {
+    if (!key) return;
+    return subscribe(key.split(','), (event, topic) => listenerRef.current(event, topic));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+}
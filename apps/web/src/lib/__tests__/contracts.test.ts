@@ -0,0 +1,48 @@
+import {
+  TOKENS,
+  formatPrice,
+  formatTokenBalance,
+  getPairTokens,
+  getTokenAddress,
+  getTokenInfo,
+  parseTokenInput,
+  toFixedPrice
+} from '../contracts';
+
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+
+describe('token helpers', () => {
+  it('hand out checksummed addresses', () => {
+    expect(TOKENS[1].USDC).toBe(USDC);
+    expect(getTokenAddress(1, 'weth')).toBe(WETH);
+    expect(getTokenInfo(1, USDC.toLowerCase())?.address).toBe(USDC);
+    expect(getTokenAddress(1, 'NOPE')).toBe('');
+  });
+
+  it('resolve display pairs to wrapped registry tokens', () => {
+    const tokens = getPairTokens(1, 'ETH/USDC');
+    expect(tokens?.base).toMatchObject({ symbol: 'WETH', address: WETH, decimals: 18 });
+    expect(tokens?.quote).toMatchObject({ symbol: 'USDC', decimals: 6 });
+    expect(getPairTokens(8453, 'BTC/USDC')).toBeUndefined();
+  });
+
+  it('scale input and balances by each token’s own decimals', () => {
+    expect(parseTokenInput(1, 'USDC', '12.5')).toBe(12_500_000n);
+    expect(parseTokenInput(1, 'WETH', '0.000000000000000001')).toBe(1n);
+    expect(() => parseTokenInput(1, 'USDC', '0.0000001')).toThrow('more than 6 decimal places');
+    expect(() => parseTokenInput(1, 'DOGE', '1')).toThrow('Unknown token DOGE on chain 1');
+
+    expect(formatTokenBalance(1, USDC, 1_234_567_891n)).toBe('1234.56');
+    expect(formatTokenBalance(1, WETH, 1_234_567_891_000_000_000n)).toBe('1.2345');
+  });
+});
+
+describe('price helpers', () => {
+  it('convert feed prices to 1e18 fixed point once', () => {
+    expect(toFixedPrice(2340.5)).toBe(2_340_500_000_000_000_000_000n);
+    expect(toFixedPrice(0.842)).toBe(842_000_000_000_000_000n);
+    expect(formatPrice(2_340_512_345_000_000_000_000n)).toBe('2340.51');
+    expect(formatPrice(1n, 18)).toBe('0.000000000000000001');
+  });
+});
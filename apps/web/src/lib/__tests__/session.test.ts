@@ -0,0 +1,140 @@
+import { ethers } from 'ethers';
+import { EIP712_TYPES, computeChannelStateHash, deserializeChannelState, selectTypes } from '@photonx/proto';
+import {
+  chargeSessionKey,
+  clearSessionKeys,
+  createSessionKey,
+  getOrCreateSessionKey,
+  getSessionDomain,
+  signFillWithSession,
+  signStateWithSession
+} from '../session';
+
+const CHAIN_ID = 1;
+const owner = new ethers.Wallet('0x' + '11'.repeat(32));
+const channelId = { value: '0x' + 'ab'.repeat(32) };
+
+// PreparedTrade.fill and .state as the coordinator sends them
+const fill = {
+  channelId: channelId.value,
+  quoteId: '6f1c2a34-5b6d-4e7f-8a9b-0c1d2e3f4a5b',
+  fillId: '00000000-0000-4000-8000-000000000001',
+  nonce: '1',
+  quantity: '500000000000000000',
+  remainingQuantity: '0',
+  price: '2000000000000000000000',
+  timestamp: '1700000001000',
+  trader: owner.address.toLowerCase(),
+  lp: '0x' + '22'.repeat(20)
+};
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const state = {
+  channelId: channelId.value,
+  nonce: '1',
+  trader: fill.trader,
+  lp: fill.lp,
+  traderBalances: [{ token: USDC, amount: '9000000000' }],
+  lpBalances: [{ token: USDC, amount: '11000000000' }],
+  timestamp: fill.timestamp,
+  chainId: String(CHAIN_ID)
+};
+
+describe('session key fill signing', () => {
+  it('signs fills with the delegate the wallet authorized', async () => {
+    const session = await createSessionKey(owner, {
+      chainId: CHAIN_ID,
+      channelId,
+      notionalToken: { value: USDC },
+      maxNotional: 10_000n * 10n ** 6n
+    });
+    expect(session.authorization.authorization.owner.value).toBe(owner.address.toLowerCase());
+
+    const signature = await signFillWithSession(session, fill, CHAIN_ID);
+    const signer = ethers.verifyTypedData(getSessionDomain(CHAIN_ID), selectTypes(EIP712_TYPES, 'Fill'), fill, signature);
+    expect(signer).toBe(session.signer.address);
+    expect(signer.toLowerCase()).toBe(session.authorization.authorization.delegate.value);
+  });
+
+  it('signs the resulting state over its raw struct hash', async () => {
+    const session = await createSessionKey(owner, {
+      chainId: CHAIN_ID,
+      channelId,
+      notionalToken: { value: USDC },
+      maxNotional: 10_000n * 10n ** 6n
+    });
+
+    const signature = signStateWithSession(session, state);
+    const hash = computeChannelStateHash(deserializeChannelState(state));
+    expect(ethers.recoverAddress(hash, signature)).toBe(session.signer.address);
+  });
+});
+
+// sessionStorage for the node test environment
+class MemoryStorage {
+  private readonly items = new Map<string, string>();
+  get length() {
+    return this.items.size;
+  }
+  key(index: number) {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+describe('session key reuse', () => {
+  const request = {
+    chainId: CHAIN_ID,
+    channelId,
+    notionalToken: { value: USDC },
+    maxNotional: 10_000n * 10n ** 6n
+  };
+  let prompts: number;
+  let wallet: ethers.Signer;
+
+  beforeEach(() => {
+    (global as any).window = { sessionStorage: new MemoryStorage() };
+    prompts = 0;
+    // Counts the wallet prompts: only authorizing a session key asks the owner to sign
+    wallet = Object.assign(Object.create(owner), {
+      signTypedData: (...args: Parameters<ethers.Wallet['signTypedData']>) => {
+        prompts++;
+        return owner.signTypedData(...args);
+      }
+    });
+  });
+
+  afterEach(() => {
+    clearSessionKeys();
+    delete (global as any).window;
+  });
+
+  it('signs ten fills with a single wallet prompt', async () => {
+    const delegates = new Set<string>();
+    for (let i = 0; i < 10; i++) {
+      const session = await getOrCreateSessionKey(wallet, request, 900n * 10n ** 6n);
+      chargeSessionKey(session, 900n * 10n ** 6n);
+      await signFillWithSession(session, { ...fill, nonce: String(i + 1) }, CHAIN_ID);
+      delegates.add(session.signer.address);
+    }
+    expect(prompts).toBe(1);
+    expect(delegates.size).toBe(1);
+  });
+
+  it('asks for a new key once the fill would pass the notional cap', async () => {
+    const first = await getOrCreateSessionKey(wallet, request, 6_000n * 10n ** 6n);
+    chargeSessionKey(first, 6_000n * 10n ** 6n);
+
+    const second = await getOrCreateSessionKey(wallet, request, 6_000n * 10n ** 6n);
+    expect(prompts).toBe(2);
+    expect(second.signer.address).not.toBe(first.signer.address);
+    expect(second.spent).toBe(0n);
+  });
+});
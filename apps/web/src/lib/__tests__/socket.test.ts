@@ -0,0 +1,201 @@
+import { DEFAULT_SOCKET_POLICY, SocketError, SocketPolicy } from '@photonx/proto';
+import { CoordinatorError, PhotonXSocket, SocketStatus } from '../socket';
+
+// Stands in for the browser WebSocket; the test opens, feeds and drops it
+class FakeWebSocket {
+  static readonly OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  sent: any[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((message: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.drop();
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  deliver(frame: Record<string, unknown>) {
+    this.onmessage?.({ data: JSON.stringify(frame) });
+  }
+
+  drop() {
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  take(op: string) {
+    const frames = this.sent.filter(frame => frame.op === op);
+    this.sent = this.sent.filter(frame => frame.op !== op);
+    return frames;
+  }
+}
+
+// No jitter, so the backoff delays are exact
+const policy: SocketPolicy = {
+  ...DEFAULT_SOCKET_POLICY,
+  heartbeatIntervalMs: 60_000,
+  heartbeatTimeoutMs: 180_000,
+  requestTimeoutMs: 1_000,
+  reconnect: { initialDelayMs: 500, maxDelayMs: 2_000, multiplier: 2, jitter: 0 }
+};
+
+const latest = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+describe('PhotonXSocket', () => {
+  let client: PhotonXSocket;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeWebSocket.instances = [];
+    (global as any).WebSocket = FakeWebSocket;
+    client = new PhotonXSocket('ws://coordinator.test', policy);
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    delete (global as any).WebSocket;
+    jest.useRealTimers();
+  });
+
+  it('matches responses and errors to requests by id', async () => {
+    client.connect();
+    latest().open();
+
+    const time = client.request('time', { clientSendTime: '1' });
+    const quote = client.request('quotes', {});
+    const [timeFrame, quoteFrame] = latest().take('REQUEST');
+    expect(timeFrame).toMatchObject({ method: 'time', params: { clientSendTime: '1' } });
+    expect(timeFrame.id).not.toBe(quoteFrame.id);
+
+    latest().deliver({
+      op: 'ERROR',
+      id: quoteFrame.id,
+      error: { code: 'CHANNEL_ERROR', message: 'No open channel', details: { reason: 'NO_CHANNEL' } }
+    });
+    latest().deliver({ op: 'RESPONSE', id: timeFrame.id, result: { serverSendTime: '2' } });
+
+    await expect(time).resolves.toEqual({ serverSendTime: '2' });
+    const error = await quote.catch(caught => caught);
+    expect(error).toBeInstanceOf(CoordinatorError);
+    expect(error).toMatchObject({ code: 'CHANNEL_ERROR', message: 'No open channel' });
+  });
+
+  it('times out requests nobody answers', async () => {
+    client.connect();
+    latest().open();
+
+    const pending = client.request('market-data');
+    jest.advanceTimersByTime(policy.requestTimeoutMs);
+    await expect(pending).rejects.toThrow('Request market-data timed out');
+  });
+
+  it('answers PING with a PONG of the same timestamp', () => {
+    client.connect();
+    latest().open();
+
+    latest().deliver({ op: 'PING', timestamp: '42' });
+    expect(latest().take('PONG')).toEqual([{ op: 'PONG', timestamp: '42' }]);
+  });
+
+  it('delivers events to subscribers and unsubscribes with the last listener', () => {
+    client.connect();
+    latest().open();
+
+    const first = jest.fn();
+    const second = jest.fn();
+    const stopFirst = client.subscribe(['market:eth/usdc'], first);
+    const stopSecond = client.subscribe(['market:ETH/USDC'], second);
+    // Topics are canonicalized, so the second listener shares the first subscription
+    expect(latest().take('SUBSCRIBE')).toEqual([
+      expect.objectContaining({ topics: ['market:ETH/USDC'] })
+    ]);
+
+    latest().deliver({
+      op: 'EVENT',
+      topic: 'market:ETH/USDC',
+      seq: 1,
+      event: { type: 'MARKET_DATA', pair: 'ETH/USDC', price: '2000000000000000000000', timestamp: '1' }
+    });
+    expect(first).toHaveBeenCalledWith(expect.objectContaining({ type: 'MARKET_DATA', price: 2_000n * 10n ** 18n }), 'market:ETH/USDC');
+    expect(second).toHaveBeenCalledTimes(1);
+
+    stopFirst();
+    expect(latest().take('UNSUBSCRIBE')).toEqual([]);
+    stopSecond();
+    expect(latest().take('UNSUBSCRIBE')).toEqual([expect.objectContaining({ topics: ['market:ETH/USDC'] })]);
+  });
+
+  it('re-authenticates and resubscribes every topic after a reconnect', async () => {
+    const fills = 'fills:0x1111111111111111111111111111111111111111';
+    client.setAuth(async () => 'access-token');
+    client.subscribe(['market:ETH/USDC', fills], jest.fn());
+    client.connect();
+
+    const handshake = async (socket: FakeWebSocket) => {
+      socket.open();
+      await Promise.resolve();
+      const [auth] = socket.take('REQUEST');
+      expect(auth).toMatchObject({ method: 'auth', params: { token: 'access-token' } });
+      socket.deliver({ op: 'RESPONSE', id: auth.id, result: { address: fills.slice('fills:'.length) } });
+      await Promise.resolve();
+      await Promise.resolve();
+      // One SUBSCRIBE per topic, so a refused private topic cannot take the others down
+      expect(socket.take('SUBSCRIBE').map(frame => frame.topics)).toEqual([['market:ETH/USDC'], [fills]]);
+    };
+
+    await handshake(latest());
+    latest().drop();
+    jest.advanceTimersByTime(policy.reconnect.initialDelayMs);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    await handshake(latest());
+  });
+
+  it('rejects pending requests when the connection drops', async () => {
+    client.connect();
+    latest().open();
+
+    const pending = client.request('market-data');
+    latest().drop();
+    await expect(pending).rejects.toBeInstanceOf(SocketError);
+    await expect(pending).rejects.toMatchObject({ details: { reason: 'DISCONNECTED' } });
+  });
+
+  it('backs off exponentially up to the cap and starts over once connected', () => {
+    const statuses: SocketStatus[] = [];
+    client.onStatus(status => statuses.push(status));
+    client.connect();
+
+    const reconnectAfter = (delay: number) => {
+      latest().drop();
+      const count = FakeWebSocket.instances.length;
+      jest.advanceTimersByTime(delay - 1);
+      expect(FakeWebSocket.instances).toHaveLength(count);
+      jest.advanceTimersByTime(1);
+      expect(FakeWebSocket.instances).toHaveLength(count + 1);
+    };
+
+    // Never opened: 500, 1000, 2000, then capped at 2000
+    [500, 1_000, 2_000, 2_000].forEach(reconnectAfter);
+
+    latest().open();
+    reconnectAfter(500);
+    expect(statuses).toEqual(['connecting', 'reconnecting', 'open', 'reconnecting']);
+  });
+});
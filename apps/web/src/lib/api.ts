@@ -1,3 +1,11 @@
+import {
+  SyncedClock,
+  TimeSyncSample,
+  serializeTimeSyncRequest,
+  deserializeTimeSyncResponse
+} from '@photonx/proto';
+import { authHeaders } from './auth';
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_COORDINATOR_URL || 'http://localhost:3001';
 
 export interface QuoteRequest {
@@ -6,6 +14,8 @@ export interface QuoteRequest {
   amount: string;
   userAddress: string;
   chainId: number;
+  topN?: number; // Also return up to topN - 1 runner-up quotes
+  maxSlippageBps?: number;
 }
 
 export interface QuoteResponse {
@@ -17,11 +27,51 @@ export interface QuoteResponse {
   expires: number;
   signature: string;
   gasSaved: number;
+  // Set by the coordinator: the proto Quote, filled through prepareTrade
+  lp?: string;
+  lpFeeBps?: number;
+  channelId?: string;
+  quote?: Record<string, any>;
+  // RFQ auction the quote won; runners-up are tradable quotes from other LPs
+  auctionId?: string;
+  alternatives?: QuoteResponse[];
+}
+
+export interface TradePrepareRequest {
+  quoteId: string;
+  amount?: string; // Base token to take; the whole remaining quote when omitted
+}
+
+// The Fill at the channel's next nonce and the state it leads to, both to be signed
+export interface PreparedTrade {
+  quoteId: string;
+  channelId: string;
+  nonce: string;
+  fill: Record<string, any>;
+  state: Record<string, any>;
 }
 
 export interface TradeRequest {
   quoteId: string;
-  userSignature: string;
+  fill: Record<string, any>; // PreparedTrade.fill
+  userSignature: string; // EIP-712 signature over `fill`, by the trader or its session key
+  stateSignature: string; // Signature over PreparedTrade.state's struct hash, by the same key
+  authorization?: Record<string, any>; // Serialized session authorization, when a session key signed
+}
+
+export interface TradeResponse {
+  success: boolean;
+  fillId?: string;
+  channelId?: string;
+  nonce?: string;
+  fill?: Record<string, any>;
+  lpSignature?: string;
+  // The channel's new co-signed state
+  state?: Record<string, any>;
+  traderStateSignature?: string;
+  lpStateSignature?: string;
+  txHash?: string;
+  error?: string;
 }
 
 export class PhotonXAPI {
@@ -32,49 +82,88 @@ export class PhotonXAPI {
   }
 
   async requestQuote(request: QuoteRequest): Promise<QuoteResponse> {
+    const response = await fetch(`${this.baseUrl}/api/quotes`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await authHeaders()),
+      },
+      body: JSON.stringify(request),
+    });
+
+    // No offline fallback: only a quote the coordinator issued can be prepared
+    if (!response.ok) {
+      const body = await response.json().catch(() => undefined);
+      throw new Error(body?.error?.message || `Quote request failed: ${response.statusText}`);
+    }
+    return await response.json();
+  }
+
+  async prepareTrade(request: TradePrepareRequest): Promise<PreparedTrade> {
+    const response = await fetch(`${this.baseUrl}/api/trades/prepare`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await authHeaders()),
+      },
+      body: JSON.stringify(request),
+    });
+
+    // No offline fallback: a made-up fill could never be executed
+    if (!response.ok) {
+      const body = await response.json().catch(() => undefined);
+      throw new Error(body?.error?.message || `Trade preparation failed: ${response.statusText}`);
+    }
+    return await response.json();
+  }
+
+  async executeTrade(request: TradeRequest): Promise<TradeResponse> {
     try {
-      const response = await fetch(`${this.baseUrl}/api/quotes`, {
+      const response = await fetch(`${this.baseUrl}/api/trades`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(await authHeaders()),
         },
         body: JSON.stringify(request),
       });
 
       if (!response.ok) {
-        throw new Error(`Quote request failed: ${response.statusText}`);
+        const body = await response.json().catch(() => undefined);
+        throw new Error(body?.error?.message || `Trade execution failed: ${response.statusText}`);
       }
 
       return await response.json();
     } catch (error) {
-      console.error('Quote request error:', error);
-      // Fallback to mock data for demo
-      return this.getMockQuote(request);
+      console.error('Trade execution error:', error);
+      // Never report a fill the coordinator did not countersign
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
     }
   }
 
-  async executeTrade(request: TradeRequest): Promise<{ success: boolean; txHash?: string }> {
+  // Estimates the offset between this browser's clock and the coordinator's
+  async syncClock(clock: SyncedClock): Promise<TimeSyncSample | undefined> {
     try {
-      const response = await fetch(`${this.baseUrl}/api/trades`, {
+      const response = await fetch(`${this.baseUrl}/api/time`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(request),
+        body: JSON.stringify(serializeTimeSyncRequest(clock.createRequest())),
       });
 
       if (!response.ok) {
-        throw new Error(`Trade execution failed: ${response.statusText}`);
+        throw new Error(`Time sync failed: ${response.statusText}`);
       }
 
-      return await response.json();
+      return clock.addResponse(deserializeTimeSyncResponse(await response.json()));
     } catch (error) {
-      console.error('Trade execution error:', error);
-      // Return mock success for demo
-      return {
-        success: true,
-        txHash: `0x${Math.random().toString(16).slice(2, 66)}`
-      };
+      console.error('Time sync error:', error);
+      // Keep the previous offset (or the local clock if never synced)
+      return undefined;
     }
   }
 
@@ -114,30 +203,9 @@ export class PhotonXAPI {
       };
     }
   }
-
-  private getMockQuote(request: QuoteRequest): QuoteResponse {
-    const prices: {[key: string]: number} = {
-      'ETH': 2340.50,
-      'BTC': 43250.00,
-      'MATIC': 0.8420,
-      'ARB': 1.25
-    };
-
-    const basePrice = prices[request.pair.split('/')[0]] || 1;
-    const spread = 0.002;
-    const price = request.side === 'buy' ? basePrice * (1 + spread) : basePrice * (1 - spread);
-
-    return {
-      id: `quote_${Date.now()}_${Math.random().toString(36).slice(2)}`,
-      pair: request.pair,
-      side: request.side,
-      amount: request.amount,
-      price: price.toString(),
-      expires: Date.now() + 30000, // 30 seconds
-      signature: `0x${Math.random().toString(16).slice(2, 130)}`,
-      gasSaved: Math.floor(Math.random() * 500000) + 200000
-    };
-  }
 }
 
-export const photonxAPI = new PhotonXAPI();
\ No newline at end of file
+export const photonxAPI = new PhotonXAPI();
+
+// Coordinator-corrected clock for quote expiry and countdowns
+export const serverClock = new SyncedClock();
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { ethers } from 'ethers';
+import { createSiweMessage, signSiweMessage } from '@photonx/proto';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_COORDINATOR_URL || 'http://localhost:3001';
+
+// Tokens live in sessionStorage like session keys: gone with the tab, and the
+// refresh token rotates on every use so a copied one is soon worthless.
+const STORAGE_KEY = 'photonx:auth';
+
+// Refresh this long before the access token actually expires
+const REFRESH_MARGIN_MS = 60_000;
+
+const SIGN_IN_STATEMENT = 'Sign in to PhotonX to request quotes and trade.';
+
+export interface AuthSession {
+  address: string;
+  accessToken: string;
+  accessTokenExpiresAt: number;
+  refreshToken: string;
+  refreshTokenExpiresAt: number;
+}
+
+type AuthListener = (session: AuthSession | null) => void;
+
+let session: AuthSession | null = null;
+let refreshing: Promise<AuthSession | null> | null = null;
+const listeners = new Set<AuthListener>();
+
+function getStorage(): Storage | null {
+  return typeof window === 'undefined' ? null : window.sessionStorage;
+}
+
+function setSession(next: AuthSession | null): void {
+  session = next;
+  const storage = getStorage();
+  if (next) storage?.setItem(STORAGE_KEY, JSON.stringify(next));
+  else storage?.removeItem(STORAGE_KEY);
+  listeners.forEach(listener => listener(next));
+}
+
+function loadSession(): AuthSession | null {
+  if (session) return session;
+  const stored = getStorage()?.getItem(STORAGE_KEY);
+  if (!stored) return null;
+  try {
+    session = JSON.parse(stored) as AuthSession;
+    return session;
+  } catch {
+    getStorage()?.removeItem(STORAGE_KEY);
+    return null;
+  }
+}
+
+async function post<T>(path: string, body: unknown): Promise<T> {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => undefined);
+    throw new Error(error?.error?.message || `${path} failed: ${response.statusText}`);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+export function onAuthChange(listener: AuthListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** The signed-in address, if its session can still be refreshed. */
+export function getAuthAddress(): string | null {
+  const current = loadSession();
+  return current && current.refreshTokenExpiresAt > Date.now() ? current.address : null;
+}
+
+/**
+ * Signs in with Ethereum: fetches a nonce, has the wallet sign the EIP-4361
+ * message and exchanges it for tokens. Reuses a live session for the same
+ * address instead of prompting again.
+ */
+export async function signIn(signer: ethers.Signer, chainId: number): Promise<AuthSession> {
+  const address = await signer.getAddress();
+  const current = loadSession();
+  if (current && current.address === address.toLowerCase() && current.refreshTokenExpiresAt > Date.now()) {
+    return current;
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/auth/nonce`);
+  if (!response.ok) {
+    throw new Error(`Sign-in nonce request failed: ${response.statusText}`);
+  }
+  const { nonce } = await response.json();
+
+  const message = createSiweMessage({
+    domain: window.location.host,
+    uri: window.location.origin,
+    address,
+    chainId,
+    nonce,
+    statement: SIGN_IN_STATEMENT,
+    ttlMs: 5 * 60_000
+  });
+  const signed = await signSiweMessage(message, signer);
+  const next = await post<AuthSession>('/api/auth/verify', signed);
+  setSession(next);
+  return next;
+}
+
+export async function signOut(): Promise<void> {
+  const current = loadSession();
+  setSession(null);
+  if (current && current.refreshTokenExpiresAt > Date.now()) {
+    // Best effort: the refresh token expires on its own anyway
+    await post('/api/auth/logout', { refreshToken: current.refreshToken }).catch(() => undefined);
+  }
+}
+
+/** A valid access token, refreshing it first if it is about to expire; null when signed out. */
+export async function getAccessToken(): Promise<string | null> {
+  const current = loadSession();
+  if (!current) return null;
+  if (current.accessTokenExpiresAt - REFRESH_MARGIN_MS > Date.now()) {
+    return current.accessToken;
+  }
+  if (current.refreshTokenExpiresAt <= Date.now()) {
+    setSession(null);
+    return null;
+  }
+
+  // Refresh tokens are single-use, so concurrent callers must share one refresh
+  refreshing ??= post<AuthSession>('/api/auth/refresh', { refreshToken: current.refreshToken })
+    .then(next => {
+      setSession(next);
+      return next;
+    })
+    .catch(error => {
+      console.error('Session refresh failed:', error);
+      setSession(null);
+      return null;
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+  return (await refreshing)?.accessToken ?? null;
+}
+
+export async function authHeaders(): Promise<Record<string, string>> {
+  const token = await getAccessToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
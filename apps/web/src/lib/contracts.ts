@@ -1,4 +1,5 @@
 import { ethers } from 'ethers';
+import { formatFixed, parseFixed, tokenRegistry, TokenInfo } from '@photonx/proto';
 
 // Contract addresses for different networks
 export const CONTRACTS = {
@@ -24,29 +25,27 @@ export const CONTRACTS = {
   }
 };
 
-// ERC-20 Token addresses
-export const TOKENS = {
-  1: { // Ethereum
-    USDC: '0xA0b86a33E6441b8435b662303c0f479c6E1C4c8e',
-    WETH: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
-    WBTC: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599'
-  },
-  137: { // Polygon
-    USDC: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
-    WETH: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619',
-    WMATIC: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270'
-  },
-  42161: { // Arbitrum
-    USDC: '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8',
-    WETH: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
-    ARB: '0x912CE59144191C1204E64559FE8253a0e49E6548'
-  },
-  8453: { // Base
-    USDC: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
-    WETH: '0x4200000000000000000000000000000000000006'
-  }
+// ERC-20 Token addresses, keyed by chain then symbol (metadata lives in the proto token registry).
+// The registry keys on lowercase addresses; everything handed out here is EIP-55 checksummed.
+export const TOKENS: Record<number, Record<string, string>> = tokenRegistry
+  .list()
+  .reduce((byChain, token) => {
+    byChain[token.chainId] = { ...byChain[token.chainId], [token.symbol]: ethers.getAddress(token.address) };
+    return byChain;
+  }, {} as Record<number, Record<string, string>>);
+
+// Display symbols (as in "ETH/USDC") that trade as a wrapped token
+const WRAPPED_SYMBOLS: Record<string, string> = {
+  ETH: 'WETH',
+  BTC: 'WBTC',
+  MATIC: 'WMATIC'
 };
 
+export interface PairTokens {
+  base: TokenInfo;
+  quote: TokenInfo;
+}
+
 // Network configurations
 export const NETWORKS = {
   1: {
@@ -79,10 +78,49 @@ export function getContractAddress(chainId: number, contract: 'SETTLEMENT' | 'CU
   return CONTRACTS[chainId as keyof typeof CONTRACTS]?.[contract] || CONTRACTS[1][contract];
 }
 
+function checksummed(token: TokenInfo | undefined): TokenInfo | undefined {
+  return token && { ...token, address: ethers.getAddress(token.address) };
+}
+
 export function getTokenAddress(chainId: number, token: string): string {
-  const networkTokens = TOKENS[chainId as keyof typeof TOKENS];
-  if (!networkTokens) return '';
-  return (networkTokens as any)[token] || '';
+  return checksummed(tokenRegistry.findBySymbol(chainId, token))?.address || '';
+}
+
+export function getTokenInfo(chainId: number, tokenAddress: string): TokenInfo | undefined {
+  return checksummed(tokenRegistry.find(chainId, tokenAddress));
+}
+
+// Resolves a display pair like "ETH/USDC"; undefined if either side is not on `chainId`
+export function getPairTokens(chainId: number, pair: string): PairTokens | undefined {
+  const [base, quote] = pair.toUpperCase().split('/')
+    .map(symbol => checksummed(tokenRegistry.findBySymbol(chainId, WRAPPED_SYMBOLS[symbol] ?? symbol)));
+  return base && quote ? { base, quote } : undefined;
+}
+
+// Raw on-chain amount -> display string, using the token's own decimals
+export function formatTokenBalance(chainId: number, tokenAddress: string, amount: bigint): string {
+  return tokenRegistry.format(chainId, { token: { value: tokenAddress }, amount }, 'display');
+}
+
+// User input -> raw on-chain amount; throws if the input has too many decimals
+export function parseTokenInput(chainId: number, symbol: string, value: string): bigint {
+  const token = tokenRegistry.findBySymbol(chainId, symbol);
+  if (!token) {
+    throw new Error(`Unknown token ${symbol} on chain ${chainId}`);
+  }
+  return tokenRegistry.parse(chainId, token.address, value).amount;
+}
+
+// Quote.price is quote-token units per whole base token, scaled by 1e18
+const PRICE_DECIMALS = 18;
+
+// Feed prices arrive as floats; they become fixed-point here and all later math is bigint
+export function toFixedPrice(usdPrice: number): bigint {
+  return parseFixed(usdPrice.toFixed(12), PRICE_DECIMALS);
+}
+
+export function formatPrice(price: bigint, maxFractionDigits = 2): string {
+  return formatFixed(price, PRICE_DECIMALS, maxFractionDigits);
 }
 
 export function getNetworkInfo(chainId: number) {
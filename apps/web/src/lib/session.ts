@@ -0,0 +1,163 @@
+import { ethers } from 'ethers';
+import {
+  Address,
+  ChannelId,
+  EIP712_TYPES,
+  SignedSessionAuthorization,
+  computeChannelStateHash,
+  createDomain,
+  selectTypes,
+  createSessionAuthorization,
+  signSessionAuthorization,
+  serializeSignedSessionAuthorization,
+  deserializeChannelState,
+  deserializeSignedSessionAuthorization
+} from '@photonx/proto';
+import { getContractAddress } from './contracts';
+import { serverClock } from './api';
+
+// Session keys are kept in sessionStorage so they go away with the tab; a
+// leaked key is still bounded by its authorization's channel, cap and expiry.
+const STORAGE_PREFIX = 'photonx:session:';
+
+export interface SessionKey {
+  signer: ethers.Wallet;
+  authorization: SignedSessionAuthorization;
+  spent: bigint; // Notional signed so far, counted like the coordinator's SessionKeyLedger
+}
+
+export interface SessionKeyRequest {
+  chainId: number;
+  channelId: ChannelId;
+  notionalToken: Address;
+  maxNotional: bigint;
+  ttlMs?: number;
+}
+
+interface StoredSessionKey {
+  privateKey: string;
+  authorization: Record<string, any>;
+  spent?: string;
+}
+
+function storageKey(channelId: ChannelId): string {
+  return `${STORAGE_PREFIX}${channelId.value}`;
+}
+
+function getStorage(): Storage | null {
+  return typeof window === 'undefined' ? null : window.sessionStorage;
+}
+
+export function getSessionDomain(chainId: number): ethers.TypedDataDomain {
+  return createDomain(chainId, getContractAddress(chainId, 'SETTLEMENT'));
+}
+
+/**
+ * Generates an ephemeral key and has the main wallet authorize it for one
+ * channel. This is the only signature prompt the wallet sees for that channel.
+ */
+export async function createSessionKey(owner: ethers.Signer, request: SessionKeyRequest): Promise<SessionKey> {
+  const signer = new ethers.Wallet(ethers.Wallet.createRandom().privateKey);
+  const authorization = createSessionAuthorization(
+    {
+      owner: { value: (await owner.getAddress()).toLowerCase() },
+      delegate: { value: signer.address.toLowerCase() },
+      channelId: request.channelId,
+      notionalToken: request.notionalToken,
+      maxNotional: request.maxNotional,
+      ttlMs: request.ttlMs
+    },
+    serverClock
+  );
+  const signed = await signSessionAuthorization(authorization, owner, getSessionDomain(request.chainId));
+
+  const session = { signer, authorization: signed, spent: 0n };
+  saveSessionKey(session);
+  return session;
+}
+
+function saveSessionKey(session: SessionKey): void {
+  const stored: StoredSessionKey = {
+    privateKey: session.signer.privateKey,
+    authorization: serializeSignedSessionAuthorization(session.authorization),
+    spent: session.spent.toString()
+  };
+  getStorage()?.setItem(storageKey(session.authorization.authorization.channelId), JSON.stringify(stored));
+}
+
+/**
+ * Returns the stored session key for `channelId` while it is still usable,
+ * with at least `notional` of its cap left.
+ */
+export function loadSessionKey(channelId: ChannelId, owner?: string, notional: bigint = 0n): SessionKey | null {
+  const raw = getStorage()?.getItem(storageKey(channelId));
+  if (!raw) return null;
+
+  try {
+    const stored: StoredSessionKey = JSON.parse(raw);
+    const authorization = deserializeSignedSessionAuthorization(stored.authorization);
+    const signer = new ethers.Wallet(stored.privateKey);
+    const spent = BigInt(stored.spent ?? '0');
+
+    const usable =
+      authorization.authorization.expiry > serverClock.now() &&
+      authorization.authorization.delegate.value.toLowerCase() === signer.address.toLowerCase() &&
+      (!owner || authorization.authorization.owner.value.toLowerCase() === owner.toLowerCase());
+    if (usable && authorization.authorization.maxNotional - spent >= notional) return { signer, authorization, spent };
+  } catch (error) {
+    console.error('Discarding unreadable session key:', error);
+  }
+
+  clearSessionKey(channelId);
+  return null;
+}
+
+/** The channel's session key if it can still sign `notional`; otherwise the wallet authorizes a new one. */
+export async function getOrCreateSessionKey(
+  owner: ethers.Signer,
+  request: SessionKeyRequest,
+  notional: bigint = 0n
+): Promise<SessionKey> {
+  return loadSessionKey(request.channelId, await owner.getAddress(), notional) ?? createSessionKey(owner, request);
+}
+
+/**
+ * Counts a fill's notional against the session's cap as it is signed, so the
+ * wallet is asked for a new key before the coordinator would refuse one. A
+ * fill that then fails still counts, which only brings that prompt forward.
+ */
+export function chargeSessionKey(session: SessionKey, notional: bigint): void {
+  session.spent += notional;
+  saveSessionKey(session);
+}
+
+/**
+ * Signs a prepared Fill (PreparedTrade.fill, already in wire form) with the
+ * session key; send the result as TradeRequest.userSignature along with the
+ * serialized authorization.
+ */
+export async function signFillWithSession(session: SessionKey, fill: Record<string, any>, chainId: number): Promise<string> {
+  return session.signer.signTypedData(getSessionDomain(chainId), selectTypes(EIP712_TYPES, 'Fill'), fill);
+}
+
+/**
+ * Signs the channel state a prepared Fill leads to (PreparedTrade.state) for
+ * TradeRequest.stateSignature. Channel states are signed over their raw
+ * struct hash, which wallets will not sign but a session key can.
+ */
+export function signStateWithSession(session: SessionKey, state: Record<string, any>): string {
+  return session.signer.signingKey.sign(computeChannelStateHash(deserializeChannelState(state))).serialized;
+}
+
+export function clearSessionKey(channelId: ChannelId): void {
+  getStorage()?.removeItem(storageKey(channelId));
+}
+
+export function clearSessionKeys(): void {
+  const storage = getStorage();
+  if (!storage) return;
+
+  const keys = Array.from({ length: storage.length }, (_, i) => storage.key(i))
+    .filter((key): key is string => key !== null && key.startsWith(STORAGE_PREFIX));
+  keys.forEach(key => storage.removeItem(key));
+}
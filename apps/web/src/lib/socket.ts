@@ -0,0 +1,283 @@
+import {
+  DEFAULT_SOCKET_POLICY,
+  SocketError,
+  SocketEvent,
+  SocketFrame,
+  SocketPolicy,
+  deserializeSocketFrame,
+  formatTopic,
+  parseTopic,
+  reconnectDelay,
+  serializeSocketFrame
+} from '@photonx/proto';
+
+const WS_URL = process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:3001';
+
+export type SocketStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export type EventListener = (event: SocketEvent, topic: string) => void;
+
+/** An ERROR frame answering a request, with the coordinator's error code. */
+export class CoordinatorError extends Error {
+  constructor(message: string, readonly code: string, readonly details?: any) {
+    super(message);
+    this.name = 'CoordinatorError';
+  }
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Client for the coordinator's WebSocket. Subscriptions are reference-counted
+ * and outlive the connection: after every reconnect the full topic set is
+ * re-sent, so callers subscribe once and keep receiving events.
+ */
+export class PhotonXSocket {
+  private socket: WebSocket | null = null;
+  private status: SocketStatus = 'idle';
+  private attempt = 0;
+  private nextId = 1;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private lastSeen = 0;
+  private getToken: (() => Promise<string | null>) | null = null;
+  private readonly listeners = new Map<string, Set<EventListener>>();
+  private readonly pending = new Map<string, PendingRequest>();
+  private readonly statusListeners = new Set<(status: SocketStatus) => void>();
+
+  constructor(
+    private readonly url: string = WS_URL,
+    private readonly policy: SocketPolicy = DEFAULT_SOCKET_POLICY
+  ) {}
+
+  get currentStatus(): SocketStatus {
+    return this.status;
+  }
+
+  connect(): void {
+    if (this.socket || typeof WebSocket === 'undefined') return;
+    this.setStatus(this.attempt === 0 ? 'connecting' : 'reconnecting');
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+    socket.onopen = () => {
+      this.attempt = 0;
+      this.lastSeen = Date.now();
+      this.setStatus('open');
+      this.startHeartbeat();
+      void this.authenticate();
+    };
+    socket.onmessage = message => this.receive(message.data);
+    socket.onclose = () => this.handleClose(socket);
+    // onclose always follows onerror; reconnecting is handled there
+    socket.onerror = () => undefined;
+  }
+
+  /** Closes the connection for good; call connect() to start over. */
+  disconnect(): void {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.stopHeartbeat();
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close(1000);
+    this.rejectPending('Socket disconnected');
+    this.attempt = 0;
+    this.setStatus('closed');
+  }
+
+  /** Drops the connection, and with it any server-side identity, and connects afresh. */
+  reconnect(): void {
+    this.disconnect();
+    this.connect();
+  }
+
+  /** Authenticates every connection with the access token `getToken` provides. */
+  setAuth(getToken: () => Promise<string | null>): void {
+    this.getToken = getToken;
+  }
+
+  /**
+   * Sends the current access token, then re-sends every subscription. Runs on
+   * each (re)connect; call it again after signing in or refreshing.
+   */
+  async authenticate(): Promise<void> {
+    if (this.status !== 'open') return;
+    const token = this.getToken ? await this.getToken() : null;
+    if (token) {
+      await this.call('auth', { token }).catch(error => console.warn('Socket authentication failed:', error));
+    }
+    // One frame per topic: the server refuses a SUBSCRIBE whole, and a private
+    // topic refused while signed out must not take public ones down with it
+    this.listeners.forEach((_set, topic) => {
+      this.send({ op: 'SUBSCRIBE', id: this.frameId(), topics: [topic] });
+    });
+  }
+
+  onStatus(listener: (status: SocketStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  subscribe(topics: string[], listener: EventListener): () => void {
+    const canonical = topics.map(topic => formatTopic(parseTopic(topic)));
+    const added = canonical.filter(topic => !this.listeners.has(topic));
+    canonical.forEach(topic => {
+      const set = this.listeners.get(topic) ?? new Set<EventListener>();
+      set.add(listener);
+      this.listeners.set(topic, set);
+    });
+    if (added.length > 0 && this.status === 'open') {
+      this.send({ op: 'SUBSCRIBE', id: this.frameId(), topics: added });
+    }
+
+    return () => {
+      const removed = canonical.filter(topic => {
+        const set = this.listeners.get(topic);
+        if (!set) return false;
+        set.delete(listener);
+        if (set.size > 0) return false;
+        this.listeners.delete(topic);
+        return true;
+      });
+      if (removed.length > 0 && this.status === 'open') {
+        this.send({ op: 'UNSUBSCRIBE', id: this.frameId(), topics: removed });
+      }
+    };
+  }
+
+  /** Sends a REQUEST and resolves with the matching RESPONSE, re-authenticating once if the token expired. */
+  async request<T = unknown>(method: string, params?: unknown): Promise<T> {
+    try {
+      return await this.call<T>(method, params);
+    } catch (error) {
+      const expired = error instanceof CoordinatorError && error.details?.reason === 'TOKEN_EXPIRED';
+      const token = expired && this.getToken ? await this.getToken() : null;
+      if (!token) throw error;
+      await this.call('auth', { token });
+      return this.call<T>(method, params);
+    }
+  }
+
+  private call<T>(method: string, params?: unknown): Promise<T> {
+    if (this.status !== 'open') {
+      return Promise.reject(new SocketError('Socket is not connected', { reason: 'DISCONNECTED', method }));
+    }
+
+    const id = this.frameId();
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new SocketError(`Request ${method} timed out`, { reason: 'TIMEOUT', method }));
+      }, this.policy.requestTimeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+      this.send({ op: 'REQUEST', id, method, params });
+    });
+  }
+
+  send(frame: SocketFrame): void {
+    if (this.socket?.readyState !== WebSocket.OPEN) return;
+    this.socket.send(JSON.stringify(serializeSocketFrame(frame)));
+  }
+
+  private receive(data: unknown): void {
+    this.lastSeen = Date.now();
+    let frame: SocketFrame;
+    try {
+      frame = deserializeSocketFrame(data);
+    } catch (error) {
+      console.error('Malformed socket frame:', error);
+      return;
+    }
+
+    switch (frame.op) {
+      case 'EVENT':
+        this.listeners.get(frame.topic)?.forEach(listener => listener(frame.event, frame.topic));
+        break;
+      case 'RESPONSE':
+        this.settle(frame.id, pending => pending.resolve(frame.result));
+        break;
+      case 'ERROR':
+        if (frame.id && this.pending.has(frame.id)) {
+          const { message, code, details } = frame.error;
+          this.settle(frame.id, pending => pending.reject(new CoordinatorError(message, code, details)));
+        } else {
+          console.warn('Coordinator socket error:', frame.error);
+        }
+        break;
+      case 'PING':
+        this.send({ op: 'PONG', timestamp: frame.timestamp });
+        break;
+      default:
+        break; // ACK and PONG only refresh lastSeen
+    }
+  }
+
+  private settle(id: string, action: (pending: PendingRequest) => void): void {
+    const pending = this.pending.get(id);
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    this.pending.delete(id);
+    action(pending);
+  }
+
+  private handleClose(socket: WebSocket): void {
+    // A socket replaced by disconnect() or a newer connection is already forgotten
+    if (this.socket !== socket) return;
+    this.socket = null;
+    this.stopHeartbeat();
+    this.rejectPending('Socket connection lost');
+
+    const delay = reconnectDelay(this.attempt++, this.policy.reconnect);
+    this.setStatus('reconnecting');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      if (Date.now() - this.lastSeen > this.policy.heartbeatTimeoutMs) {
+        // Half-open connection: the close handshake may never finish, so reconnect now
+        const socket = this.socket;
+        if (socket) {
+          socket.close(4000, 'Heartbeat timeout');
+          this.handleClose(socket);
+        }
+        return;
+      }
+      this.send({ op: 'PING', timestamp: BigInt(Date.now()) });
+    }, this.policy.heartbeatIntervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+  }
+
+  private rejectPending(message: string): void {
+    this.pending.forEach(pending => {
+      clearTimeout(pending.timer);
+      pending.reject(new SocketError(message, { reason: 'DISCONNECTED' }));
+    });
+    this.pending.clear();
+  }
+
+  private setStatus(status: SocketStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  private frameId(): string {
+    return `c${this.nextId++}`;
+  }
+}
@@ -41,12 +41,8 @@ contract SettlementManager is ReentrancyGuard, Pausable, AccessControl, EIP712 {
         "TokenAmount(address token,uint256 amount)"
     );
 
-    bytes32 public constant SETTLEMENT_REQUEST_TYPEHASH = keccak256(
-        "SettlementRequest(string channelId,ChannelState finalState,bytes traderSignature,bytes lpSignature)ChannelState(string channelId,uint256 nonce,address trader,address lp,TokenAmount[] traderBalances,TokenAmount[] lpBalances,uint256 timestamp,uint256 chainId)TokenAmount(address token,uint256 amount)"
-    );
-
-    bytes32 public constant CHECKPOINT_REQUEST_TYPEHASH = keccak256(
-        "CheckpointRequest(string channelId,ChannelState state,bytes traderSignature,bytes lpSignature)ChannelState(string channelId,uint256 nonce,address trader,address lp,TokenAmount[] traderBalances,TokenAmount[] lpBalances,uint256 timestamp,uint256 chainId)TokenAmount(address token,uint256 amount)"
+    bytes32 public constant SESSION_AUTHORIZATION_TYPEHASH = keccak256(
+        "SessionAuthorization(address owner,address delegate,string channelId,address notionalToken,uint256 maxNotional,uint256 expiry,uint256 nonce)"
     );
 
     // ============================================================================
@@ -86,11 +82,33 @@ contract SettlementManager is ReentrancyGuard, Pausable, AccessControl, EIP712 {
         address challenger;
     }
 
+    // Lets a participant's session key sign states in its place. Revocation
+    // and the notional cap are enforced off-chain: the counterparty stops
+    // co-signing, so no state past them exists to submit.
+    struct SessionAuthorization {
+        address owner;
+        address delegate;
+        string channelId;
+        address notionalToken;
+        uint256 maxNotional;
+        uint256 expiry;
+        uint256 nonce;
+    }
+
+    // An empty `signature` means the participant signed the state itself
+    struct SignedSessionAuthorization {
+        SessionAuthorization authorization;
+        bytes signature; // Owner's EIP-712 signature over `authorization`
+    }
+
+    // State signatures are over the raw struct hash (_hashChannelState)
     struct SettlementRequest {
         string channelId;
         ChannelState finalState;
         bytes traderSignature;
         bytes lpSignature;
+        SignedSessionAuthorization traderAuthorization;
+        SignedSessionAuthorization lpAuthorization;
     }
 
     struct CheckpointRequest {
@@ -98,6 +116,8 @@ contract SettlementManager is ReentrancyGuard, Pausable, AccessControl, EIP712 {
         ChannelState state;
         bytes traderSignature;
         bytes lpSignature;
+        SignedSessionAuthorization traderAuthorization;
+        SignedSessionAuthorization lpAuthorization;
     }
 
     struct DisputeChallenge {
@@ -105,6 +125,8 @@ contract SettlementManager is ReentrancyGuard, Pausable, AccessControl, EIP712 {
         ChannelState challengeState;
         bytes challengerSignature;
         bytes counterpartySignature;
+        SignedSessionAuthorization challengerAuthorization;
+        SignedSessionAuthorization counterpartyAuthorization;
     }
 
     enum ChannelStatus {
@@ -394,16 +416,14 @@ contract SettlementManager is ReentrancyGuard, Pausable, AccessControl, EIP712 {
 
         // Verify signatures
         bytes32 stateHash = _hashChannelState(request.state);
-        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
-            CHECKPOINT_REQUEST_TYPEHASH,
-            keccak256(bytes(request.channelId)),
-            stateHash,
-            keccak256(request.traderSignature),
-            keccak256(request.lpSignature)
-        )));
-
-        require(_verifySignature(digest, request.traderSignature, channel.trader), "Invalid trader signature");
-        require(_verifySignature(digest, request.lpSignature, channel.lp), "Invalid LP signature");
+        require(
+            _verifyStateSignature(request.state, stateHash, request.traderSignature, request.traderAuthorization, channel.trader),
+            "Invalid trader signature"
+        );
+        require(
+            _verifyStateSignature(request.state, stateHash, request.lpSignature, request.lpAuthorization, channel.lp),
+            "Invalid LP signature"
+        );
 
         // Update channel state
         channel.nonce = request.state.nonce;
@@ -452,16 +472,20 @@ contract SettlementManager is ReentrancyGuard, Pausable, AccessControl, EIP712 {
 
         // Verify signatures
         bytes32 stateHash = _hashChannelState(request.finalState);
-        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
-            SETTLEMENT_REQUEST_TYPEHASH,
-            keccak256(bytes(request.channelId)),
-            stateHash,
-            keccak256(request.traderSignature),
-            keccak256(request.lpSignature)
-        )));
-
-        require(_verifySignature(digest, request.traderSignature, channel.trader), "Invalid trader signature");
-        require(_verifySignature(digest, request.lpSignature, channel.lp), "Invalid LP signature");
+        require(
+            _verifyStateSignature(
+                request.finalState,
+                stateHash,
+                request.traderSignature,
+                request.traderAuthorization,
+                channel.trader
+            ),
+            "Invalid trader signature"
+        );
+        require(
+            _verifyStateSignature(request.finalState, stateHash, request.lpSignature, request.lpAuthorization, channel.lp),
+            "Invalid LP signature"
+        );
 
         // Update channel status
         channel.status = ChannelStatus.SETTLING;
@@ -511,13 +535,25 @@ contract SettlementManager is ReentrancyGuard, Pausable, AccessControl, EIP712 {
         // Verify signatures
         bytes32 stateHash = _hashChannelState(challenge.challengeState);
         require(
-            _verifySignature(stateHash, challenge.challengerSignature, msg.sender),
+            _verifyStateSignature(
+                challenge.challengeState,
+                stateHash,
+                challenge.challengerSignature,
+                challenge.challengerAuthorization,
+                msg.sender
+            ),
             "Invalid challenger signature"
         );
 
         address counterparty = msg.sender == channel.trader ? channel.lp : channel.trader;
         require(
-            _verifySignature(stateHash, challenge.counterpartySignature, counterparty),
+            _verifyStateSignature(
+                challenge.challengeState,
+                stateHash,
+                challenge.counterpartySignature,
+                challenge.counterpartyAuthorization,
+                counterparty
+            ),
             "Invalid counterparty signature"
         );
 
@@ -696,6 +732,49 @@ contract SettlementManager is ReentrancyGuard, Pausable, AccessControl, EIP712 {
         ));
     }
 
+    /**
+     * @dev Hashes a session authorization; the owner signs it under this contract's domain
+     */
+    function _hashSessionAuthorization(SessionAuthorization memory authorization) internal pure returns (bytes32) {
+        return keccak256(abi.encode(
+            SESSION_AUTHORIZATION_TYPEHASH,
+            authorization.owner,
+            authorization.delegate,
+            keccak256(bytes(authorization.channelId)),
+            authorization.notionalToken,
+            authorization.maxNotional,
+            authorization.expiry,
+            authorization.nonce
+        ));
+    }
+
+    /**
+     * @dev Verifies a participant's signature over a state hash, made either by the
+     * participant or by a session key it authorized for this channel. The state's
+     * own timestamp must fall within the authorization, which matches the
+     * off-chain check in proto's checkStateSignatures.
+     */
+    function _verifyStateSignature(
+        ChannelState memory state,
+        bytes32 stateHash,
+        bytes memory signature,
+        SignedSessionAuthorization memory signed,
+        address participant
+    ) internal view returns (bool) {
+        if (signed.signature.length == 0) {
+            return _verifySignature(stateHash, signature, participant);
+        }
+
+        SessionAuthorization memory authorization = signed.authorization;
+        if (authorization.owner != participant || authorization.delegate == participant) return false;
+        if (keccak256(bytes(authorization.channelId)) != keccak256(bytes(state.channelId))) return false;
+        if (state.timestamp > authorization.expiry) return false;
+
+        bytes32 authorizationDigest = _hashTypedDataV4(_hashSessionAuthorization(authorization));
+        return _verifySignature(authorizationDigest, signed.signature, participant) &&
+            _verifySignature(stateHash, signature, authorization.delegate);
+    }
+
     /**
      * @dev Verifies a signature against a hash and expected signer
      */
@@ -0,0 +1,77 @@
+// Compares the JSON (serialize*) and binary wire codecs on the RFQ hot path.
+// Run with `npm run bench`.
+import { Wallet } from 'ethers';
+import {
+  Envelope,
+  MessageType,
+  MessagePayloads,
+  WireCodec,
+  jsonCodec,
+  binaryCodec,
+  createDomain,
+  signEnvelope,
+  createMockQuoteRequest,
+  createMockQuote,
+  createAddress
+} from '../src';
+
+const ITERATIONS = 20_000;
+
+function time(iterations: number, fn: () => void): number {
+  for (let i = 0; i < 1_000; i++) fn(); // warm up
+  const start = performance.now();
+  for (let i = 0; i < iterations; i++) fn();
+  return ((performance.now() - start) * 1000) / iterations; // µs per op
+}
+
+function bench(label: string, envelope: Envelope, codecs: WireCodec[]) {
+  for (const codec of codecs) {
+    const encoded = codec.encode(envelope);
+    const encodeUs = time(ITERATIONS, () => codec.encode(envelope));
+    const decodeUs = time(ITERATIONS, () => codec.decode(encoded));
+    console.log(
+      `${label.padEnd(14)} ${codec.name.padEnd(7)} ${String(encoded.length).padStart(5)} B` +
+        `   encode ${encodeUs.toFixed(2).padStart(7)} µs   decode ${decodeUs.toFixed(2).padStart(7)} µs`
+    );
+  }
+}
+
+async function main() {
+  const trader = Wallet.createRandom();
+  const lp = Wallet.createRandom();
+  const domain = createDomain(1, '0x0000000000000000000000000000000000000001');
+
+  const request = createMockQuoteRequest({ trader: createAddress(trader.address) });
+  const quote = createMockQuote({ channelId: request.channelId, lp: createAddress(lp.address) });
+  const fill = {
+    channelId: request.channelId,
+    quoteId: quote.quoteId,
+    fillId: crypto.randomUUID(),
+    nonce: 2n,
+    quantity: quote.quantity,
+    remainingQuantity: 0n,
+    price: quote.price,
+    timestamp: quote.timestamp,
+    trader: request.trader,
+    lp: quote.lp
+  };
+
+  const sign = <T extends MessageType>(type: T, payload: MessagePayloads[T], wallet: Wallet) =>
+    signEnvelope(type, payload, wallet, domain);
+
+  const envelopes: Array<[string, Envelope]> = [
+    ['QUOTE_REQUEST', await sign('QUOTE_REQUEST', request, trader)],
+    ['QUOTE', await sign('QUOTE', quote, lp)],
+    ['FILL', await sign('FILL', fill, trader)]
+  ];
+
+  console.log(`${ITERATIONS} iterations per measurement\n`);
+  for (const [label, envelope] of envelopes) {
+    bench(label, envelope, [jsonCodec, binaryCodec]);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,153 @@
+import { ChannelId, ChannelStatus, MessageType, ChannelError } from './types';
+import { Clock, systemClock } from './time';
+
+// ============================================================================
+// CHANNEL STATUS TRANSITIONS
+// ============================================================================
+//
+// OPENING -> ACTIVE <-> CHECKPOINTING
+//              |  ^          |
+//              v  |          v
+//           DEGRADED ---> SETTLING -> CLOSED
+//
+// and DISPUTED (-> CLOSED) from any open status once a challenge lands
+// on-chain. ACTIVE and DEGRADED may also go straight to CLOSED through a
+// force-close after the channel timeout.
+
+export const CHANNEL_STATUS_TRANSITIONS: Readonly<Record<ChannelStatus, readonly ChannelStatus[]>> = {
+  OPENING: ['ACTIVE', 'CLOSED'],
+  ACTIVE: ['CHECKPOINTING', 'DEGRADED', 'SETTLING', 'DISPUTED', 'CLOSED'],
+  DEGRADED: ['ACTIVE', 'CHECKPOINTING', 'SETTLING', 'DISPUTED', 'CLOSED'],
+  CHECKPOINTING: ['ACTIVE', 'SETTLING', 'DISPUTED'],
+  SETTLING: ['CLOSED', 'DISPUTED'],
+  DISPUTED: ['CLOSED'],
+  CLOSED: []
+};
+
+// Protocol messages a participant may act on in each status
+export const CHANNEL_STATUS_MESSAGES: Readonly<Record<ChannelStatus, readonly MessageType[]>> = {
+  OPENING: ['HEARTBEAT'],
+  ACTIVE: ['QUOTE_REQUEST', 'QUOTE', 'FILL', 'CANCEL', 'REPLACE', 'HEARTBEAT', 'CHECKPOINT', 'SETTLEMENT'],
+  // No new risk while the counterparty is unresponsive, but funds can still be secured
+  DEGRADED: ['CANCEL', 'HEARTBEAT', 'CHECKPOINT', 'SETTLEMENT'],
+  // The state being checkpointed must not move under the relayer, and CANCEL
+  // advances the channel nonce like any other co-signed state
+  CHECKPOINTING: ['HEARTBEAT', 'CHECKPOINT'],
+  SETTLING: ['HEARTBEAT', 'SETTLEMENT'],
+  DISPUTED: [],
+  CLOSED: []
+};
+
+export function canTransition(from: ChannelStatus, to: ChannelStatus): boolean {
+  return CHANNEL_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function assertTransition(from: ChannelStatus, to: ChannelStatus): void {
+  if (!canTransition(from, to)) {
+    throw new ChannelError(`Invalid channel status transition: ${from} -> ${to}`, { from, to });
+  }
+}
+
+export function acceptsMessage(status: ChannelStatus, type: MessageType): boolean {
+  return CHANNEL_STATUS_MESSAGES[status].includes(type);
+}
+
+export function assertAcceptsMessage(status: ChannelStatus, type: MessageType): void {
+  if (!acceptsMessage(status, type)) {
+    throw new ChannelError(`${type} not accepted while channel is ${status}`, { status, type });
+  }
+}
+
+// ============================================================================
+// CHANNEL STATE MACHINE
+// ============================================================================
+
+export interface ChannelTransitionEvent {
+  readonly channelId: ChannelId;
+  readonly from: ChannelStatus;
+  readonly to: ChannelStatus;
+  readonly reason?: string;
+  readonly at: bigint;
+}
+
+// Returns true to allow the transition, or a string explaining the refusal
+export type TransitionGuard = (event: ChannelTransitionEvent) => true | string;
+
+export type TransitionListener = (event: ChannelTransitionEvent) => void;
+
+export interface ChannelStateMachineOptions {
+  readonly initial?: ChannelStatus;
+  // Guards keyed by the status being entered; checked after the transition table
+  readonly guards?: Partial<Record<ChannelStatus, TransitionGuard>>;
+  readonly clock?: Clock;
+}
+
+export class ChannelStateMachine {
+  private current: ChannelStatus;
+  private readonly listeners = new Set<TransitionListener>();
+  private readonly guards: Partial<Record<ChannelStatus, TransitionGuard>>;
+  private readonly clock: Clock;
+
+  constructor(
+    readonly channelId: ChannelId,
+    options: ChannelStateMachineOptions = {}
+  ) {
+    this.current = options.initial ?? 'OPENING';
+    this.guards = options.guards ?? {};
+    this.clock = options.clock ?? systemClock;
+  }
+
+  get status(): ChannelStatus {
+    return this.current;
+  }
+
+  get isClosed(): boolean {
+    return this.current === 'CLOSED';
+  }
+
+  can(to: ChannelStatus): boolean {
+    return canTransition(this.current, to) && this.guardResult(this.event(to)) === true;
+  }
+
+  transition(to: ChannelStatus, reason?: string): ChannelTransitionEvent {
+    const event = this.event(to, reason);
+    assertTransition(event.from, to);
+
+    const verdict = this.guardResult(event);
+    if (verdict !== true) {
+      throw new ChannelError(`Channel status transition refused: ${event.from} -> ${to}`, {
+        from: event.from,
+        to,
+        reason: verdict
+      });
+    }
+
+    this.current = to;
+    this.listeners.forEach(listener => listener(event));
+    return event;
+  }
+
+  accepts(type: MessageType): boolean {
+    return acceptsMessage(this.current, type);
+  }
+
+  assertAccepts(type: MessageType): void {
+    assertAcceptsMessage(this.current, type);
+  }
+
+  onTransition(listener: TransitionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private event(to: ChannelStatus, reason?: string): ChannelTransitionEvent {
+    return { channelId: this.channelId, from: this.current, to, reason, at: this.clock.now() };
+  }
+
+  private guardResult(event: ChannelTransitionEvent): true | string {
+    const guard = this.guards[event.to];
+    return guard ? guard(event) : true;
+  }
+}
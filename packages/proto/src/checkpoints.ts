@@ -0,0 +1,264 @@
+import { z } from 'zod';
+import { Address, AddressSchema, ChannelId, ChannelState, ChannelStatus, TokenAmount, ChannelError, CONSTANTS } from './types';
+import { FillDeltas, FillTerms } from './transitions';
+import { Clock, systemClock } from './time';
+import { decodeWith } from './wire';
+import { acceptsMessage } from './channel-status';
+
+// ============================================================================
+// CHECKPOINT POLICY
+// ============================================================================
+//
+// A policy is plain configuration: any rule that matches triggers a
+// checkpoint of the latest co-signed state. Policies load from JSON through
+// parseCheckpointPolicy, so limits can be tuned per deployment.
+
+export const CheckpointRuleSchema = z.discriminatedUnion('type', [
+  // Every `fills` fills since the last checkpoint
+  z.object({ type: z.literal('FILL_COUNT'), fills: z.number().int().positive() }),
+  // Unsettled notional in `token` (raw units, summed over fills quoted in it) reaches `threshold`
+  z.object({ type: z.literal('UNSETTLED_NOTIONAL'), token: AddressSchema, threshold: z.bigint().positive() }),
+  // `intervalMs` since the last checkpoint, provided anything happened since
+  z.object({ type: z.literal('INTERVAL'), intervalMs: z.number().int().positive() }),
+  // Within `marginMs` of the channel timeout
+  z.object({ type: z.literal('TIMEOUT'), marginMs: z.number().int().nonnegative() })
+]);
+
+export const CheckpointPolicySchema = z.object({
+  rules: z.array(CheckpointRuleSchema).min(1),
+  // Re-emit an intent the relayer has not confirmed after this long
+  retryAfterMs: z.number().int().positive()
+}).readonly();
+
+export type CheckpointRule = z.infer<typeof CheckpointRuleSchema>;
+
+export type CheckpointPolicy = z.infer<typeof CheckpointPolicySchema>;
+
+export type CheckpointRuleType = CheckpointRule['type'];
+
+export const DEFAULT_CHECKPOINT_POLICY: CheckpointPolicy = {
+  rules: [
+    { type: 'FILL_COUNT', fills: 100 },
+    { type: 'INTERVAL', intervalMs: 15 * 60_000 },
+    { type: 'TIMEOUT', marginMs: 5 * 60_000 }
+  ],
+  retryAfterMs: 60_000
+};
+
+const WireCheckpointRuleSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('FILL_COUNT'), fills: z.number() }),
+  z.object({
+    type: z.literal('UNSETTLED_NOTIONAL'),
+    token: z.string().transform(value => ({ value })),
+    threshold: z.string().regex(/^\d+$/).transform(value => BigInt(value))
+  }),
+  z.object({ type: z.literal('INTERVAL'), intervalMs: z.number() }),
+  z.object({ type: z.literal('TIMEOUT'), marginMs: z.number() })
+]);
+
+const WireCheckpointPolicySchema = z
+  .object({
+    rules: z.array(WireCheckpointRuleSchema),
+    retryAfterMs: z.number().default(DEFAULT_CHECKPOINT_POLICY.retryAfterMs)
+  })
+  .pipe(CheckpointPolicySchema);
+
+/** Parses a JSON policy; `threshold` amounts are decimal strings of raw units. */
+export function parseCheckpointPolicy(data: unknown): CheckpointPolicy {
+  return decodeWith(WireCheckpointPolicySchema, data, 'CheckpointPolicy');
+}
+
+// ============================================================================
+// CHECKPOINT ENGINE
+// ============================================================================
+
+export interface CheckpointTrigger {
+  readonly rule: CheckpointRule;
+  readonly detail: string;
+}
+
+// Handed to the relayer, which collects signatures and submits the checkpoint
+export interface CheckpointIntent {
+  readonly channelId: ChannelId;
+  readonly state: ChannelState; // Latest co-signed state
+  readonly triggers: readonly CheckpointTrigger[];
+  readonly createdAt: bigint;
+}
+
+export interface ChannelCheckpointStatus {
+  readonly channelId: ChannelId;
+  readonly latestState: ChannelState;
+  readonly lastCheckpointNonce: bigint;
+  readonly lastCheckpointAt: bigint;
+  readonly timeoutAt: bigint;
+  readonly fillsSinceCheckpoint: number;
+  readonly unsettledNotional: readonly TokenAmount[];
+  readonly pendingSince: bigint | undefined;
+}
+
+export interface CheckpointEngineOptions {
+  readonly policy?: CheckpointPolicy;
+  readonly clock?: Clock;
+  readonly onIntent?: (intent: CheckpointIntent) => void;
+  // Intents are held back while a channel's status does not accept CHECKPOINT
+  readonly channelStatus?: (channelId: ChannelId) => ChannelStatus | undefined;
+}
+
+function sameAddress(a: Address, b: Address): boolean {
+  return a.value.toLowerCase() === b.value.toLowerCase();
+}
+
+function addNotional(totals: readonly TokenAmount[], token: Address, amount: bigint): TokenAmount[] {
+  const index = totals.findIndex(total => sameAddress(total.token, token));
+  if (index === -1) return [...totals, { token, amount }];
+  return totals.map((total, i) => (i === index ? { token: total.token, amount: total.amount + amount } : total));
+}
+
+export class CheckpointPolicyEngine {
+  private readonly channels = new Map<string, ChannelCheckpointStatus>();
+  private readonly clock: Clock;
+  private policy: CheckpointPolicy;
+
+  constructor(private readonly options: CheckpointEngineOptions = {}) {
+    this.policy = options.policy ?? DEFAULT_CHECKPOINT_POLICY;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /** Swaps the policy at runtime; counters are kept. */
+  setPolicy(policy: CheckpointPolicy): void {
+    this.policy = CheckpointPolicySchema.parse(policy);
+  }
+
+  /**
+   * Starts tracking a channel from its opening (or last checkpointed) state.
+   * `timeoutAt` defaults to CHANNEL_TIMEOUT_MS after `checkpointedAt`.
+   */
+  track(state: ChannelState, checkpointedAt: bigint = this.clock.now(), timeoutAt?: bigint): void {
+    this.channels.set(state.channelId.value, {
+      channelId: state.channelId,
+      latestState: state,
+      lastCheckpointNonce: state.nonce,
+      lastCheckpointAt: checkpointedAt,
+      timeoutAt: timeoutAt ?? checkpointedAt + BigInt(CONSTANTS.CHANNEL_TIMEOUT_MS),
+      fillsSinceCheckpoint: 0,
+      unsettledNotional: [],
+      pendingSince: undefined
+    });
+  }
+
+  untrack(channelId: ChannelId): void {
+    this.channels.delete(channelId.value);
+  }
+
+  status(channelId: ChannelId): ChannelCheckpointStatus | undefined {
+    return this.channels.get(channelId.value);
+  }
+
+  /** Records the co-signed state produced by a fill and evaluates the policy. */
+  recordFill(state: ChannelState, terms: FillTerms, deltas: FillDeltas): CheckpointIntent | undefined {
+    const current = this.require(state.channelId);
+    this.channels.set(state.channelId.value, {
+      ...current,
+      latestState: state,
+      fillsSinceCheckpoint: current.fillsSinceCheckpoint + 1,
+      unsettledNotional: addNotional(current.unsettledNotional, terms.quoteToken, deltas.quoteAmount)
+    });
+    return this.evaluate(state.channelId);
+  }
+
+  /** Records any other state advance (cancel, replace) without counting a fill. */
+  recordState(state: ChannelState): void {
+    const current = this.require(state.channelId);
+    this.channels.set(state.channelId.value, { ...current, latestState: state });
+  }
+
+  /**
+   * Resets counters once the relayer confirms a checkpoint on-chain. A
+   * checkpoint restarts the channel timeout, so `timeoutAt` moves to
+   * CHANNEL_TIMEOUT_MS after `at` unless the contract reported it.
+   */
+  markCheckpointed(channelId: ChannelId, nonce: bigint, at: bigint = this.clock.now(), timeoutAt?: bigint): void {
+    const current = this.require(channelId);
+    if (nonce < current.lastCheckpointNonce) return;
+
+    const caughtUp = nonce >= current.latestState.nonce;
+    this.channels.set(channelId.value, {
+      ...current,
+      lastCheckpointNonce: nonce,
+      lastCheckpointAt: at,
+      timeoutAt: timeoutAt ?? at + BigInt(CONSTANTS.CHANNEL_TIMEOUT_MS),
+      fillsSinceCheckpoint: caughtUp ? 0 : current.fillsSinceCheckpoint,
+      unsettledNotional: caughtUp ? [] : current.unsettledNotional,
+      pendingSince: undefined
+    });
+  }
+
+  /** Time-based rules only fire from here; call it on a timer for every channel. */
+  evaluate(channelId: ChannelId): CheckpointIntent | undefined {
+    const current = this.require(channelId);
+    const now = this.clock.now();
+
+    if (current.latestState.nonce <= current.lastCheckpointNonce) return undefined;
+    const status = this.options.channelStatus?.(channelId);
+    if (status && !acceptsMessage(status, 'CHECKPOINT')) return undefined;
+    if (current.pendingSince !== undefined && now - current.pendingSince < BigInt(this.policy.retryAfterMs)) {
+      return undefined;
+    }
+
+    const triggers = this.policy.rules
+      .map(rule => this.matchRule(rule, current, now))
+      .filter((trigger): trigger is CheckpointTrigger => trigger !== undefined);
+    if (triggers.length === 0) return undefined;
+
+    this.channels.set(channelId.value, { ...current, pendingSince: now });
+    const intent: CheckpointIntent = {
+      channelId: current.channelId,
+      state: current.latestState,
+      triggers,
+      createdAt: now
+    };
+    this.options.onIntent?.(intent);
+    return intent;
+  }
+
+  evaluateAll(): CheckpointIntent[] {
+    return Array.from(this.channels.values())
+      .map(status => this.evaluate(status.channelId))
+      .filter((intent): intent is CheckpointIntent => intent !== undefined);
+  }
+
+  private matchRule(rule: CheckpointRule, status: ChannelCheckpointStatus, now: bigint): CheckpointTrigger | undefined {
+    switch (rule.type) {
+      case 'FILL_COUNT':
+        return status.fillsSinceCheckpoint >= rule.fills
+          ? { rule, detail: `${status.fillsSinceCheckpoint} fills since last checkpoint` }
+          : undefined;
+      case 'UNSETTLED_NOTIONAL': {
+        const unsettled = status.unsettledNotional.find(total => sameAddress(total.token, rule.token));
+        return unsettled && unsettled.amount >= rule.threshold
+          ? { rule, detail: `${unsettled.amount} unsettled in ${rule.token.value}` }
+          : undefined;
+      }
+      case 'INTERVAL': {
+        const elapsed = now - status.lastCheckpointAt;
+        return elapsed >= BigInt(rule.intervalMs)
+          ? { rule, detail: `${elapsed}ms since last checkpoint` }
+          : undefined;
+      }
+      case 'TIMEOUT': {
+        const remaining = status.timeoutAt - now;
+        return remaining <= BigInt(rule.marginMs)
+          ? { rule, detail: `${remaining > 0n ? remaining : 0n}ms until channel timeout` }
+          : undefined;
+      }
+    }
+  }
+
+  private require(channelId: ChannelId): ChannelCheckpointStatus {
+    const status = this.channels.get(channelId.value);
+    if (!status) {
+      throw new ChannelError('Channel is not tracked by the checkpoint engine', { channelId: channelId.value });
+    }
+    return status;
+  }
+}
@@ -0,0 +1,414 @@
+import { toUtf8Bytes, toUtf8String, getBytes, hexlify } from 'ethers';
+import { z } from 'zod';
+import { MessageType, ValidationError } from './types';
+import { Envelope, serializeEnvelope, deserializeEnvelope } from './envelope';
+
+// ============================================================================
+// CODEC INTERFACE
+// ============================================================================
+
+export const CodecNameSchema = z.enum(['json', 'binary']);
+
+export type CodecName = z.infer<typeof CodecNameSchema>;
+
+export interface WireCodec {
+  readonly name: CodecName;
+  encode(envelope: Envelope): Uint8Array;
+  decode(data: Uint8Array): Envelope;
+}
+
+export const jsonCodec: WireCodec = {
+  name: 'json',
+  encode: envelope => toUtf8Bytes(JSON.stringify(serializeEnvelope(envelope))),
+  decode: data => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(toUtf8String(data));
+    } catch (error) {
+      throw new ValidationError('Envelope is not valid JSON', { codec: 'json' });
+    }
+    return deserializeEnvelope(parsed);
+  }
+};
+
+// ============================================================================
+// BINARY CODEC
+// ============================================================================
+//
+// Frame layout (all integers big-endian):
+//   u8  schema version
+//   u8  message type tag
+//   str protocol version
+//   20  sender address
+//   bin signature
+//   u8  1 if a session authorization follows, else 0
+//   ... authorization fields and owner signature (bin), if present
+//   ... payload fields in EIP-712 declaration order
+//
+// `str`/`bin` are u16 length-prefixed. Addresses are packed to 20 raw bytes,
+// so they decode lowercased. Amounts and prices take the full 32 bytes of a
+// uint256; nonces and timestamps take 8, which is all the shared schemas
+// allow. Decoded frames go through deserializeEnvelope like JSON ones, so
+// both codecs accept the same messages; only `str`/`bin` fields longer than
+// 65535 bytes cannot be encoded.
+
+export const BINARY_SCHEMA_VERSION = 4;
+
+const MESSAGE_TYPE_TAGS: Record<MessageType, number> = {
+  QUOTE_REQUEST: 1,
+  QUOTE: 2,
+  FILL: 3,
+  CANCEL: 4,
+  REPLACE: 5,
+  HEARTBEAT: 6,
+  CHECKPOINT: 7,
+  SETTLEMENT: 8
+};
+
+const TAG_MESSAGE_TYPES = Object.fromEntries(
+  Object.entries(MESSAGE_TYPE_TAGS).map(([type, tag]) => [tag, type])
+) as Record<number, MessageType>;
+
+class BinaryWriter {
+  private readonly chunks: Uint8Array[] = [];
+  private length = 0;
+
+  bytes(value: Uint8Array): void {
+    this.chunks.push(value);
+    this.length += value.length;
+  }
+
+  uint(value: bigint | number, width: number, field: string): void {
+    const remaining = BigInt(value);
+    if (remaining < 0n || remaining >= 1n << BigInt(width * 8)) {
+      throw new ValidationError(`${field} does not fit in ${width * 8} bits`, { field, value: remaining.toString() });
+    }
+    this.bytes(getBytes('0x' + remaining.toString(16).padStart(width * 2, '0')));
+  }
+
+  sized(value: Uint8Array, field: string): void {
+    this.uint(value.length, 2, `${field}.length`);
+    this.bytes(value);
+  }
+
+  finish(): Uint8Array {
+    const out = new Uint8Array(this.length);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      out.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return out;
+  }
+}
+
+class BinaryReader {
+  private offset = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  bytes(length: number, field: string): Uint8Array {
+    if (this.offset + length > this.data.length) {
+      throw new ValidationError(`Truncated binary message at ${field}`, { field, offset: this.offset });
+    }
+    const out = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return out;
+  }
+
+  uint(width: number, field: string): bigint {
+    return BigInt(hexlify(this.bytes(width, field)));
+  }
+
+  sized(field: string): Uint8Array {
+    return this.bytes(Number(this.uint(2, `${field}.length`)), field);
+  }
+
+  assertDone(): void {
+    if (this.offset !== this.data.length) {
+      throw new ValidationError('Trailing bytes after binary message', {
+        expected: this.offset,
+        received: this.data.length
+      });
+    }
+  }
+}
+
+type FieldKind =
+  | 'u16'
+  | 'u64'
+  | 'u256'
+  | 'chainId'
+  | 'address'
+  | 'side'
+  | 'string'
+  | 'id'
+  | 'bytes'
+  | 'tokenAmounts'
+  | 'quoteRequest'
+  | 'channelState';
+
+type Layout = ReadonlyArray<readonly [string, FieldKind]>;
+
+const UINT_WIDTHS: Record<string, number> = { u16: 2, u64: 8, u256: 32 };
+
+const SIDE_BYTES: Record<string, number> = { BUY: 0, SELL: 1 };
+
+const QUOTE_REQUEST_LAYOUT: Layout = [
+  ['channelId', 'id'],
+  ['nonce', 'u64'],
+  ['side', 'side'],
+  ['baseToken', 'address'],
+  ['quoteToken', 'address'],
+  ['quantity', 'u256'],
+  ['maxSlippageBps', 'u16'],
+  ['timestamp', 'u64'],
+  ['trader', 'address']
+];
+
+const CHANNEL_STATE_LAYOUT: Layout = [
+  ['channelId', 'id'],
+  ['nonce', 'u64'],
+  ['trader', 'address'],
+  ['lp', 'address'],
+  ['traderBalances', 'tokenAmounts'],
+  ['lpBalances', 'tokenAmounts'],
+  ['timestamp', 'u64'],
+  ['chainId', 'chainId']
+];
+
+const SESSION_AUTHORIZATION_LAYOUT: Layout = [
+  ['owner', 'address'],
+  ['delegate', 'address'],
+  ['channelId', 'id'],
+  ['notionalToken', 'address'],
+  ['maxNotional', 'u256'],
+  ['expiry', 'u64'],
+  ['nonce', 'u64']
+];
+
+const PAYLOAD_LAYOUTS: Record<MessageType, Layout> = {
+  QUOTE_REQUEST: QUOTE_REQUEST_LAYOUT,
+  QUOTE: [
+    ['channelId', 'id'],
+    ['quoteId', 'string'],
+    ['requestNonce', 'u64'],
+    ['price', 'u256'],
+    ['quantity', 'u256'],
+    ['side', 'side'],
+    ['expiryTimestamp', 'u64'],
+    ['lpFeeBps', 'u16'],
+    ['timestamp', 'u64'],
+    ['lp', 'address']
+  ],
+  FILL: [
+    ['channelId', 'id'],
+    ['quoteId', 'string'],
+    ['fillId', 'string'],
+    ['nonce', 'u64'],
+    ['quantity', 'u256'],
+    ['remainingQuantity', 'u256'],
+    ['price', 'u256'],
+    ['timestamp', 'u64'],
+    ['trader', 'address'],
+    ['lp', 'address']
+  ],
+  CANCEL: [
+    ['channelId', 'id'],
+    ['quoteId', 'string'],
+    ['nonce', 'u64'],
+    ['timestamp', 'u64'],
+    ['trader', 'address']
+  ],
+  REPLACE: [
+    ['channelId', 'id'],
+    ['originalQuoteId', 'string'],
+    ['newQuoteRequest', 'quoteRequest'],
+    ['nonce', 'u64'],
+    ['timestamp', 'u64'],
+    ['trader', 'address']
+  ],
+  HEARTBEAT: [
+    ['channelId', 'id'],
+    ['nonce', 'u64'],
+    ['timestamp', 'u64'],
+    ['sender', 'address']
+  ],
+  CHECKPOINT: [
+    ['channelId', 'id'],
+    ['state', 'channelState'],
+    ['traderSignature', 'bytes'],
+    ['lpSignature', 'bytes']
+  ],
+  SETTLEMENT: [
+    ['channelId', 'id'],
+    ['finalState', 'channelState'],
+    ['traderSignature', 'bytes'],
+    ['lpSignature', 'bytes']
+  ]
+};
+
+function writeFields(writer: BinaryWriter, layout: Layout, value: Record<string, any>): void {
+  for (const [field, kind] of layout) {
+    const fieldValue = value[field];
+    switch (kind) {
+      case 'u16':
+      case 'u64':
+      case 'u256':
+        writer.uint(fieldValue, UINT_WIDTHS[kind], field);
+        break;
+      case 'chainId':
+        writer.uint(fieldValue.value, 8, field);
+        break;
+      case 'address':
+        writer.bytes(getBytes(fieldValue.value));
+        break;
+      case 'side':
+        if (SIDE_BYTES[fieldValue] === undefined) {
+          throw new ValidationError(`Unknown order side: ${fieldValue}`, { field, side: fieldValue });
+        }
+        writer.uint(SIDE_BYTES[fieldValue], 1, field);
+        break;
+      case 'id':
+        writer.sized(toUtf8Bytes(fieldValue.value), field);
+        break;
+      case 'string':
+        writer.sized(toUtf8Bytes(fieldValue), field);
+        break;
+      case 'bytes':
+        writer.sized(getBytes(fieldValue), field);
+        break;
+      case 'tokenAmounts':
+        writer.uint(fieldValue.length, 1, `${field}.length`);
+        for (const balance of fieldValue) {
+          writer.bytes(getBytes(balance.token.value));
+          writer.uint(balance.amount, 32, `${field}.amount`);
+        }
+        break;
+      case 'quoteRequest':
+        writeFields(writer, QUOTE_REQUEST_LAYOUT, fieldValue);
+        break;
+      case 'channelState':
+        writeFields(writer, CHANNEL_STATE_LAYOUT, fieldValue);
+        break;
+    }
+  }
+}
+
+// Decodes into the wire shapes the serialize* helpers produce, so the frame
+// can be validated by deserializeEnvelope exactly like a JSON one
+function readFields(reader: BinaryReader, layout: Layout): Record<string, any> {
+  const value: Record<string, any> = {};
+  for (const [field, kind] of layout) {
+    switch (kind) {
+      case 'u16':
+      case 'u64':
+      case 'u256':
+        value[field] = reader.uint(UINT_WIDTHS[kind], field).toString();
+        break;
+      case 'chainId':
+        value[field] = reader.uint(8, field).toString();
+        break;
+      case 'address':
+        value[field] = hexlify(reader.bytes(20, field));
+        break;
+      case 'side': {
+        const byte = Number(reader.uint(1, field));
+        const side = Object.keys(SIDE_BYTES).find(name => SIDE_BYTES[name] === byte);
+        if (!side) {
+          throw new ValidationError(`Unknown order side byte: ${byte}`, { field, byte });
+        }
+        value[field] = side;
+        break;
+      }
+      case 'id':
+      case 'string':
+        value[field] = toUtf8String(reader.sized(field));
+        break;
+      case 'bytes':
+        value[field] = hexlify(reader.sized(field));
+        break;
+      case 'tokenAmounts': {
+        const count = Number(reader.uint(1, `${field}.length`));
+        value[field] = Array.from({ length: count }, () => ({
+          token: hexlify(reader.bytes(20, `${field}.token`)),
+          amount: reader.uint(32, `${field}.amount`).toString()
+        }));
+        break;
+      }
+      case 'quoteRequest':
+        value[field] = readFields(reader, QUOTE_REQUEST_LAYOUT);
+        break;
+      case 'channelState':
+        value[field] = readFields(reader, CHANNEL_STATE_LAYOUT);
+        break;
+    }
+  }
+  return value;
+}
+
+export const binaryCodec: WireCodec = {
+  name: 'binary',
+  encode: envelope => {
+    const writer = new BinaryWriter();
+    writer.uint(BINARY_SCHEMA_VERSION, 1, 'schemaVersion');
+    writer.uint(MESSAGE_TYPE_TAGS[envelope.type], 1, 'type');
+    writer.sized(toUtf8Bytes(envelope.version), 'version');
+    writer.bytes(getBytes(envelope.sender.value));
+    writer.sized(getBytes(envelope.signature || '0x'), 'signature');
+    writer.uint(envelope.authorization ? 1 : 0, 1, 'hasAuthorization');
+    if (envelope.authorization) {
+      writeFields(writer, SESSION_AUTHORIZATION_LAYOUT, envelope.authorization.authorization);
+      writer.sized(getBytes(envelope.authorization.signature), 'authorization.signature');
+    }
+    writeFields(writer, PAYLOAD_LAYOUTS[envelope.type], envelope.payload);
+    return writer.finish();
+  },
+  decode: data => {
+    const reader = new BinaryReader(data);
+    const schemaVersion = Number(reader.uint(1, 'schemaVersion'));
+    if (schemaVersion !== BINARY_SCHEMA_VERSION) {
+      throw new ValidationError(`Unsupported binary schema version: ${schemaVersion}`, {
+        schemaVersion,
+        supported: BINARY_SCHEMA_VERSION
+      });
+    }
+
+    const tag = Number(reader.uint(1, 'type'));
+    const type = TAG_MESSAGE_TYPES[tag];
+    if (!type) {
+      throw new ValidationError(`Unknown binary message tag: ${tag}`, { tag });
+    }
+
+    const version = toUtf8String(reader.sized('version'));
+    const sender = hexlify(reader.bytes(20, 'sender'));
+    const signature = hexlify(reader.sized('signature'));
+    const authorization = reader.uint(1, 'hasAuthorization') === 1n
+      ? {
+        authorization: readFields(reader, SESSION_AUTHORIZATION_LAYOUT),
+        signature: hexlify(reader.sized('authorization.signature'))
+      }
+      : undefined;
+    const payload = readFields(reader, PAYLOAD_LAYOUTS[type]);
+    reader.assertDone();
+
+    return deserializeEnvelope({ version, type, sender, signature, payload, ...(authorization && { authorization }) });
+  }
+};
+
+// ============================================================================
+// CODEC REGISTRY
+// ============================================================================
+
+export const CODECS: Record<CodecName, WireCodec> = {
+  json: jsonCodec,
+  binary: binaryCodec
+};
+
+export function getCodec(name: CodecName): WireCodec {
+  const codec = CODECS[name];
+  if (!codec) {
+    throw new ValidationError(`Unknown codec: ${name}`, { codec: name });
+  }
+  return codec;
+}
@@ -0,0 +1,200 @@
+import { TypedDataDomain } from 'ethers';
+import { Address, ChannelId, ChannelState, DisputeChallenge, ChannelError } from './types';
+import { computeChannelStateHash, validateSignature } from './eip712';
+import { SignedSessionAuthorization, SessionKeyError, assertSessionScope, validateSessionAuthorization } from './session-keys';
+
+// ============================================================================
+// DISPUTE EVIDENCE
+// ============================================================================
+//
+// SettlementManager.challenge accepts a state with a higher nonce than the
+// one a channel was closed or checkpointed at, provided both participants
+// signed its raw struct hash (computeChannelStateHash). Each side therefore
+// keeps every co-signed state it has seen and, when a stale close appears
+// on-chain, submits the newest one that still verifies.
+//
+// A side that signed through a session key attaches its authorization, and
+// the challenge carries it to the contract, which checks the owner's
+// signature, the channel and expiry against the state's timestamp, then
+// recovers the delegate instead of the participant.
+
+export interface SignedChannelState {
+  readonly state: ChannelState;
+  readonly traderSignature: string;
+  readonly lpSignature: string;
+  readonly traderAuthorization?: SignedSessionAuthorization; // Set when a trader session key signed
+  readonly lpAuthorization?: SignedSessionAuthorization; // Set when an LP session key signed
+}
+
+export type RejectedStateReason = 'INVALID_TRADER_SIGNATURE' | 'INVALID_LP_SIGNATURE';
+
+export interface RejectedState {
+  readonly nonce: bigint;
+  readonly reason: RejectedStateReason;
+}
+
+export type DisputeEvidence =
+  | {
+    readonly status: 'CHALLENGE';
+    readonly challenge: DisputeChallenge; // Pass serializeDisputeChallenge(challenge) to the contract
+    readonly evidence: SignedChannelState;
+    readonly rejected: readonly RejectedState[];
+  }
+  | {
+    readonly status: 'NO_BETTER_STATE';
+    readonly closedNonce: bigint;
+    readonly latestNonce: bigint | undefined; // Highest nonce held, valid or not
+    readonly rejected: readonly RejectedState[];
+  };
+
+function sameAddress(a: Address, b: Address): boolean {
+  return a.value.toLowerCase() === b.value.toLowerCase();
+}
+
+function isParticipantSignature(
+  state: ChannelState,
+  hash: string,
+  signature: string,
+  participant: Address,
+  authorization: SignedSessionAuthorization | undefined,
+  domain: TypedDataDomain | undefined
+): boolean {
+  if (!authorization) return validateSignature(signature, participant.value, hash);
+  // The authorization's own signature can only be checked under the domain it was signed in
+  if (!domain) return false;
+
+  try {
+    assertSessionScope(authorization.authorization, {
+      channelId: state.channelId,
+      owners: [participant],
+      at: state.timestamp
+    });
+  } catch (error) {
+    if (error instanceof SessionKeyError) return false;
+    throw error;
+  }
+  return validateSessionAuthorization(authorization, domain) &&
+    validateSignature(signature, authorization.authorization.delegate.value, hash);
+}
+
+/**
+ * Returns why `signed` would fail the contract's signature checks, if it
+ * would. Session key signatures need `domain` to verify.
+ */
+export function checkStateSignatures(
+  signed: SignedChannelState,
+  domain?: TypedDataDomain
+): RejectedStateReason | undefined {
+  const { state } = signed;
+  const hash = computeChannelStateHash(state);
+  if (!isParticipantSignature(state, hash, signed.traderSignature, state.trader, signed.traderAuthorization, domain)) {
+    return 'INVALID_TRADER_SIGNATURE';
+  }
+  if (!isParticipantSignature(state, hash, signed.lpSignature, state.lp, signed.lpAuthorization, domain)) {
+    return 'INVALID_LP_SIGNATURE';
+  }
+  return undefined;
+}
+
+export function buildDisputeChallenge(signed: SignedChannelState, challenger: Address): DisputeChallenge {
+  const { state } = signed;
+  const isTrader = sameAddress(challenger, state.trader);
+  if (!isTrader && !sameAddress(challenger, state.lp)) {
+    throw new ChannelError('Challenger is not a channel participant', { challenger: challenger.value });
+  }
+
+  return {
+    channelId: state.channelId,
+    challengeState: state,
+    challengerSignature: isTrader ? signed.traderSignature : signed.lpSignature,
+    counterpartySignature: isTrader ? signed.lpSignature : signed.traderSignature,
+    challengerAuthorization: isTrader ? signed.traderAuthorization : signed.lpAuthorization,
+    counterpartyAuthorization: isTrader ? signed.lpAuthorization : signed.traderAuthorization
+  };
+}
+
+// ============================================================================
+// STATE HISTORY
+// ============================================================================
+
+export class StateHistory {
+  private readonly states = new Map<bigint, SignedChannelState>();
+
+  constructor(
+    private readonly channelId: ChannelId,
+    initial: readonly SignedChannelState[] = [],
+    private readonly domain?: TypedDataDomain // Needed to verify session key signatures
+  ) {
+    initial.forEach(signed => this.record(signed));
+  }
+
+  /**
+   * Stores a co-signed state. Recording the same state twice is a no-op; two
+   * different states at one nonce are rejected since only one can be genuine.
+   */
+  record(signed: SignedChannelState): void {
+    const { state } = signed;
+    if (state.channelId.value !== this.channelId.value) {
+      throw new ChannelError('State belongs to a different channel', {
+        expected: this.channelId.value,
+        received: state.channelId.value
+      });
+    }
+
+    const existing = this.states.get(state.nonce);
+    if (existing) {
+      if (computeChannelStateHash(existing.state) !== computeChannelStateHash(state)) {
+        throw new ChannelError('Conflicting states recorded at the same nonce', { nonce: state.nonce.toString() });
+      }
+      // Keep whichever copy the contract would accept
+      if (checkStateSignatures(existing, this.domain) === undefined) return;
+    }
+    this.states.set(state.nonce, signed);
+  }
+
+  get(nonce: bigint): SignedChannelState | undefined {
+    return this.states.get(nonce);
+  }
+
+  list(): SignedChannelState[] {
+    return Array.from(this.states.values()).sort((a, b) => (a.state.nonce < b.state.nonce ? -1 : 1));
+  }
+
+  latest(): SignedChannelState | undefined {
+    const all = this.list();
+    return all[all.length - 1];
+  }
+
+  /**
+   * Finds the newest state above `closedNonce` whose signatures verify and
+   * builds `challenger`'s challenge from it, or reports that none exists.
+   */
+  buildEvidence(closedNonce: bigint, challenger: Address): DisputeEvidence {
+    const rejected: RejectedState[] = [];
+    const candidates = this.list().reverse();
+
+    for (const signed of candidates) {
+      if (signed.state.nonce <= closedNonce) break;
+
+      const reason = checkStateSignatures(signed, this.domain);
+      if (reason) {
+        rejected.push({ nonce: signed.state.nonce, reason });
+        continue;
+      }
+
+      return {
+        status: 'CHALLENGE',
+        challenge: buildDisputeChallenge(signed, challenger),
+        evidence: signed,
+        rejected
+      };
+    }
+
+    return {
+      status: 'NO_BETTER_STATE',
+      closedNonce,
+      latestNonce: candidates[0]?.state.nonce,
+      rejected
+    };
+  }
+}
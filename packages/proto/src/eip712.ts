@@ -1,4 +1,14 @@
-import { TypedDataDomain, TypedDataField } from 'ethers';
+import {
+  Interface,
+  Provider,
+  TypedDataDomain,
+  TypedDataEncoder,
+  TypedDataField,
+  ZeroAddress,
+  isHexString,
+  recoverAddress
+} from 'ethers';
+import { Clock, systemClock, isFresh } from './time';
 import { 
   QuoteRequest, 
   Quote, 
@@ -10,6 +20,8 @@ import {
   SettlementRequest,
   CheckpointRequest,
   DisputeChallenge,
+  SessionAuthorization,
+  ValidationError,
   CONSTANTS 
 } from './types';
 
@@ -80,6 +92,7 @@ export const EIP712_TYPES = {
     { name: 'fillId', type: 'string' },
     { name: 'nonce', type: 'uint256' },
     { name: 'quantity', type: 'uint256' },
+    { name: 'remainingQuantity', type: 'uint256' },
     { name: 'price', type: 'uint256' },
     { name: 'timestamp', type: 'uint256' },
     { name: 'trader', type: 'address' },
@@ -130,6 +143,17 @@ export const EIP712_TYPES = {
     { name: 'challengeState', type: 'ChannelState' },
     { name: 'challengerSignature', type: 'bytes' },
     { name: 'counterpartySignature', type: 'bytes' }
+  ] as TypedDataField[],
+
+  // Session Types
+  SessionAuthorization: [
+    { name: 'owner', type: 'address' },
+    { name: 'delegate', type: 'address' },
+    { name: 'channelId', type: 'string' },
+    { name: 'notionalToken', type: 'address' },
+    { name: 'maxNotional', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' }
   ] as TypedDataField[]
 };
 
@@ -173,6 +197,7 @@ export function serializeFill(fill: Fill): Record<string, any> {
     fillId: fill.fillId,
     nonce: fill.nonce.toString(),
     quantity: fill.quantity.toString(),
+    remainingQuantity: fill.remainingQuantity.toString(),
     price: fill.price.toString(),
     timestamp: fill.timestamp.toString(),
     trader: fill.trader.value,
@@ -247,12 +272,48 @@ export function serializeCheckpointRequest(request: CheckpointRequest): Record<s
   };
 }
 
+// SettlementManager takes a SignedSessionAuthorization for each side; an
+// empty signature tells it that side signed the state itself
+const UNSIGNED_SESSION_AUTHORIZATION = {
+  authorization: {
+    owner: ZeroAddress,
+    delegate: ZeroAddress,
+    channelId: '',
+    notionalToken: ZeroAddress,
+    maxNotional: '0',
+    expiry: '0',
+    nonce: '0'
+  },
+  signature: '0x'
+};
+
+function serializeChallengeAuthorization(
+  signed: DisputeChallenge['challengerAuthorization']
+): Record<string, any> {
+  if (!signed) return UNSIGNED_SESSION_AUTHORIZATION;
+  return { authorization: serializeSessionAuthorization(signed.authorization), signature: signed.signature };
+}
+
 export function serializeDisputeChallenge(challenge: DisputeChallenge): Record<string, any> {
   return {
     channelId: challenge.channelId.value,
     challengeState: serializeChannelState(challenge.challengeState),
     challengerSignature: challenge.challengerSignature,
-    counterpartySignature: challenge.counterpartySignature
+    counterpartySignature: challenge.counterpartySignature,
+    challengerAuthorization: serializeChallengeAuthorization(challenge.challengerAuthorization),
+    counterpartyAuthorization: serializeChallengeAuthorization(challenge.counterpartyAuthorization)
+  };
+}
+
+export function serializeSessionAuthorization(authorization: SessionAuthorization): Record<string, any> {
+  return {
+    owner: authorization.owner.value,
+    delegate: authorization.delegate.value,
+    channelId: authorization.channelId.value,
+    notionalToken: authorization.notionalToken.value,
+    maxNotional: authorization.maxNotional.toString(),
+    expiry: authorization.expiry.toString(),
+    nonce: authorization.nonce.toString()
   };
 }
 
@@ -286,7 +347,37 @@ export function joinSignature(components: SignatureComponents): string {
 // HASH COMPUTATION HELPERS
 // ============================================================================
 
-import { keccak256, toUtf8Bytes } from 'ethers';
+/**
+ * Returns the subset of `types` reachable from `primaryType`, which is what
+ * EIP-712 encoders (and wallets) expect: a single root plus its dependencies.
+ */
+export function selectTypes(
+  types: Record<string, TypedDataField[]>,
+  primaryType: string
+): Record<string, TypedDataField[]> {
+  if (!types[primaryType]) {
+    throw new ValidationError(`Unknown EIP-712 primary type: ${primaryType}`, { primaryType });
+  }
+
+  const selected: Record<string, TypedDataField[]> = {};
+  const visit = (typeName: string) => {
+    const baseType = typeName.replace(/(\[\d*\])+$/, '');
+    if (selected[baseType] || !types[baseType]) return;
+    selected[baseType] = types[baseType];
+    types[baseType].forEach(field => visit(field.type));
+  };
+  visit(primaryType);
+
+  return selected;
+}
+
+export function computeStructHash(
+  types: Record<string, TypedDataField[]>,
+  primaryType: string,
+  message: Record<string, any>
+): string {
+  return TypedDataEncoder.from(selectTypes(types, primaryType)).hashStruct(primaryType, message);
+}
 
 export function computeMessageHash(
   domain: TypedDataDomain,
@@ -294,29 +385,106 @@ export function computeMessageHash(
   primaryType: string,
   message: Record<string, any>
 ): string {
-  // This is a simplified version - in production, use ethers.utils._TypedDataEncoder
-  const domainHash = keccak256(toUtf8Bytes(JSON.stringify(domain)));
-  const messageHash = keccak256(toUtf8Bytes(JSON.stringify(message)));
-  return keccak256(toUtf8Bytes(domainHash + messageHash));
+  return TypedDataEncoder.hash(domain, selectTypes(types, primaryType), message);
 }
 
+// Matches SettlementManager._hashChannelState (the struct hash, no domain)
 export function computeChannelStateHash(state: ChannelState): string {
-  const serialized = serializeChannelState(state);
-  return keccak256(toUtf8Bytes(JSON.stringify(serialized)));
+  return computeStructHash(EIP712_TYPES, 'ChannelState', serializeChannelState(state));
+}
+
+// The digest a wallet produces for `eth_signTypedData_v4` over a ChannelState
+export function computeChannelStateDigest(state: ChannelState, verifyingContract: string): string {
+  return computeMessageHash(
+    createDomain(state.chainId.value, verifyingContract),
+    EIP712_TYPES,
+    'ChannelState',
+    serializeChannelState(state)
+  );
 }
 
 // ============================================================================
 // VALIDATION HELPERS
 // ============================================================================
 
+// secp256k1 group order / 2; signatures with a larger `s` are malleable (EIP-2)
+const SECP256K1_HALF_ORDER = BigInt('0x7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0');
+
+export const EIP1271_MAGIC_VALUE = '0x1626ba7e';
+
+const EIP1271_INTERFACE = new Interface([
+  'function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)'
+]);
+
+/**
+ * The slice of an ethers `Provider` needed to check EIP-1271 contract
+ * signers. Injected so callers control which chain is queried.
+ */
+export type SignatureProvider = Pick<Provider, 'getCode' | 'call'>;
+
+export function recoverSigner(messageHash: string, signature: string): string {
+  if (!isHexString(messageHash, 32)) {
+    throw new ValidationError('Message hash must be 32 bytes', { messageHash });
+  }
+  if (!isHexString(signature, 65)) {
+    throw new ValidationError('Signature must be 65 bytes', { signature });
+  }
+
+  const { v, s } = splitSignature(signature);
+  if (v !== 27 && v !== 28 && v !== 0 && v !== 1) {
+    throw new ValidationError(`Invalid signature recovery id: ${v}`, { v });
+  }
+  if (BigInt(s) > SECP256K1_HALF_ORDER) {
+    throw new ValidationError('Non-canonical signature: s is in the upper half order', { s });
+  }
+
+  return recoverAddress(messageHash, signature).toLowerCase();
+}
+
 export function validateSignature(
   signature: string,
   expectedSigner: string,
   messageHash: string
 ): boolean {
-  // Implementation would use ethers.utils.verifyMessage or similar
-  // This is a placeholder for the actual signature verification logic
-  return signature.length === 132 && expectedSigner.length === 42;
+  try {
+    return recoverSigner(messageHash, signature) === expectedSigner.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Like `validateSignature`, but falls back to EIP-1271 `isValidSignature`
+ * when the expected signer is a contract (e.g. a Safe) and a provider is given.
+ */
+export async function verifySignature(
+  signature: string,
+  expectedSigner: string,
+  messageHash: string,
+  provider?: SignatureProvider
+): Promise<boolean> {
+  if (validateSignature(signature, expectedSigner, messageHash)) {
+    return true;
+  }
+  if (!provider || !isHexString(signature) || !isHexString(messageHash, 32)) {
+    return false;
+  }
+
+  const code = await provider.getCode(expectedSigner);
+  if (code === '0x') {
+    return false;
+  }
+
+  try {
+    const result = await provider.call({
+      to: expectedSigner,
+      data: EIP1271_INTERFACE.encodeFunctionData('isValidSignature', [messageHash, signature])
+    });
+    return result.slice(0, 10).toLowerCase() === EIP1271_MAGIC_VALUE;
+  } catch {
+    // Reverting wallets are treated as rejecting the signature
+    return false;
+  }
 }
 
 export function validateNonceSequence(
@@ -328,11 +496,11 @@ export function validateNonceSequence(
 
 export function validateTimestamp(
   timestamp: bigint,
-  maxAge: number = CONSTANTS.QUOTE_EXPIRY_MS
+  maxAge: number = CONSTANTS.QUOTE_EXPIRY_MS,
+  maxSkewMs: number = CONSTANTS.MAX_CLOCK_SKEW_MS,
+  clock: Clock = systemClock
 ): boolean {
-  const now = BigInt(Date.now());
-  const age = Number(now - timestamp);
-  return age >= 0 && age <= maxAge;
+  return isFresh(timestamp, clock.now(), { maxAgeMs: maxAge, maxSkewMs });
 }
 
 export function validateChannelParticipant(
@@ -380,6 +548,7 @@ export function isFill(message: any): message is Fill {
     typeof message.fillId === 'string' &&
     typeof message.nonce === 'bigint' &&
     typeof message.quantity === 'bigint' &&
+    typeof message.remainingQuantity === 'bigint' &&
     typeof message.price === 'bigint' &&
     typeof message.timestamp === 'bigint' &&
     typeof message.trader === 'object' &&
@@ -417,7 +586,7 @@ export function isHeartbeat(message: any): message is Heartbeat {
 // EXPORT ALL TYPES FOR EXTERNAL USE
 // ============================================================================
 
-export {
+export type {
   QuoteRequest,
   Quote,
   Fill,
@@ -427,5 +596,6 @@ export {
   ChannelState,
   SettlementRequest,
   CheckpointRequest,
-  DisputeChallenge
+  DisputeChallenge,
+  SessionAuthorization
 } from './types';
\ No newline at end of file
@@ -0,0 +1,458 @@
+import { Signer, TypedDataDomain } from 'ethers';
+import { z } from 'zod';
+import {
+  Address,
+  ChannelId,
+  ChannelStatus,
+  QuoteRequest,
+  Quote,
+  Fill,
+  Cancel,
+  Replace,
+  Heartbeat,
+  CheckpointRequest,
+  SettlementRequest,
+  MessageType,
+  MessageTypeSchema,
+  MessageError,
+  SessionAuthorization,
+  SignatureSchema,
+  CONSTANTS
+} from './types';
+import {
+  EIP712_TYPES,
+  selectTypes,
+  computeMessageHash,
+  verifySignature,
+  SignatureProvider,
+  serializeQuoteRequest,
+  serializeQuote,
+  serializeFill,
+  serializeCancel,
+  serializeReplace,
+  serializeHeartbeat,
+  serializeCheckpointRequest,
+  serializeSettlementRequest
+} from './eip712';
+import {
+  deserializeQuoteRequest,
+  deserializeQuote,
+  deserializeFill,
+  deserializeCancel,
+  deserializeReplace,
+  deserializeHeartbeat,
+  deserializeCheckpointRequest,
+  deserializeSettlementRequest
+} from './wire';
+import { NonceManager, replayKeyOf } from './nonces';
+import { assertAcceptsMessage } from './channel-status';
+import { FillDeltas, FillTerms, computeFillDeltas } from './transitions';
+import {
+  SignedSessionAuthorization,
+  SessionKeyError,
+  SessionKeyLedger,
+  assertSessionScope,
+  verifySessionAuthorization,
+  serializeSignedSessionAuthorization,
+  deserializeSignedSessionAuthorization
+} from './session-keys';
+import { Clock, systemClock } from './time';
+
+// ============================================================================
+// ENVELOPE TYPES
+// ============================================================================
+
+export interface MessagePayloads {
+  QUOTE_REQUEST: QuoteRequest;
+  QUOTE: Quote;
+  FILL: Fill;
+  CANCEL: Cancel;
+  REPLACE: Replace;
+  HEARTBEAT: Heartbeat;
+  CHECKPOINT: CheckpointRequest;
+  SETTLEMENT: SettlementRequest;
+}
+
+export type Envelope = {
+  [T in MessageType]: {
+    readonly version: string;
+    readonly type: T;
+    readonly sender: Address;
+    readonly signature: string;
+    readonly payload: MessagePayloads[T];
+    // Present when `sender` is a session key signing for one of the payload's signers
+    readonly authorization?: SignedSessionAuthorization;
+  };
+}[MessageType];
+
+export type EnvelopeOf<T extends MessageType> = Extract<Envelope, { type: T }>;
+
+export type MessageErrorReason =
+  | 'MALFORMED_ENVELOPE'
+  | 'UNKNOWN_MESSAGE_TYPE'
+  | 'UNSUPPORTED_VERSION'
+  | 'MISSING_SIGNATURE'
+  | 'UNAUTHORIZED_SENDER'
+  | 'INVALID_SIGNATURE'
+  | 'NO_HANDLER';
+
+interface MessageCodec<T extends MessageType> {
+  readonly primaryType: string;
+  serialize(payload: MessagePayloads[T]): Record<string, any>;
+  deserialize(data: unknown): MessagePayloads[T];
+  // Addresses allowed to sign this payload
+  signers(payload: MessagePayloads[T]): Address[];
+}
+
+const MESSAGE_CODECS: { [T in MessageType]: MessageCodec<T> } = {
+  QUOTE_REQUEST: {
+    primaryType: 'QuoteRequest',
+    serialize: serializeQuoteRequest,
+    deserialize: deserializeQuoteRequest,
+    signers: request => [request.trader]
+  },
+  QUOTE: {
+    primaryType: 'Quote',
+    serialize: serializeQuote,
+    deserialize: deserializeQuote,
+    signers: quote => [quote.lp]
+  },
+  FILL: {
+    primaryType: 'Fill',
+    serialize: serializeFill,
+    deserialize: deserializeFill,
+    signers: fill => [fill.trader, fill.lp]
+  },
+  CANCEL: {
+    primaryType: 'Cancel',
+    serialize: serializeCancel,
+    deserialize: deserializeCancel,
+    signers: cancel => [cancel.trader]
+  },
+  REPLACE: {
+    primaryType: 'Replace',
+    serialize: serializeReplace,
+    deserialize: deserializeReplace,
+    signers: replace => [replace.trader]
+  },
+  HEARTBEAT: {
+    primaryType: 'Heartbeat',
+    serialize: serializeHeartbeat,
+    deserialize: deserializeHeartbeat,
+    signers: heartbeat => [heartbeat.sender]
+  },
+  CHECKPOINT: {
+    primaryType: 'CheckpointRequest',
+    serialize: serializeCheckpointRequest,
+    deserialize: deserializeCheckpointRequest,
+    signers: request => [request.state.trader, request.state.lp]
+  },
+  SETTLEMENT: {
+    primaryType: 'SettlementRequest',
+    serialize: serializeSettlementRequest,
+    deserialize: deserializeSettlementRequest,
+    signers: request => [request.finalState.trader, request.finalState.lp]
+  }
+};
+
+function codecFor<T extends MessageType>(type: T): MessageCodec<T> {
+  return MESSAGE_CODECS[type];
+}
+
+function messageError(reason: MessageErrorReason, message: string, details: Record<string, any> = {}): MessageError {
+  return new MessageError(message, { reason, ...details });
+}
+
+// ============================================================================
+// ENVELOPE ENCODING
+// ============================================================================
+
+const WireEnvelopeSchema = z.object({
+  version: z.string().min(1),
+  type: z.string(),
+  sender: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+  signature: SignatureSchema,
+  payload: z.record(z.any()),
+  authorization: z.unknown().optional()
+});
+
+export function getPrimaryType(type: MessageType): string {
+  return codecFor(type).primaryType;
+}
+
+export function serializeEnvelope(envelope: Envelope): Record<string, any> {
+  const codec = codecFor(envelope.type) as MessageCodec<MessageType>;
+  return {
+    version: envelope.version,
+    type: envelope.type,
+    sender: envelope.sender.value,
+    signature: envelope.signature,
+    payload: codec.serialize(envelope.payload),
+    ...(envelope.authorization && { authorization: serializeSignedSessionAuthorization(envelope.authorization) })
+  };
+}
+
+export function deserializeEnvelope(data: unknown): Envelope {
+  const parsed = WireEnvelopeSchema.safeParse(data);
+  if (!parsed.success) {
+    throw messageError('MALFORMED_ENVELOPE', 'Malformed message envelope', {
+      issues: parsed.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+    });
+  }
+
+  const type = MessageTypeSchema.safeParse(parsed.data.type);
+  if (!type.success) {
+    throw messageError('UNKNOWN_MESSAGE_TYPE', `Unknown message type: ${parsed.data.type}`, {
+      type: parsed.data.type
+    });
+  }
+
+  const codec = codecFor(type.data) as MessageCodec<MessageType>;
+  return {
+    version: parsed.data.version,
+    type: type.data,
+    sender: { value: parsed.data.sender },
+    signature: parsed.data.signature,
+    payload: codec.deserialize(parsed.data.payload),
+    ...(parsed.data.authorization !== undefined && {
+      authorization: deserializeSignedSessionAuthorization(parsed.data.authorization)
+    })
+  } as Envelope;
+}
+
+// ============================================================================
+// SIGNING AND VERIFICATION
+// ============================================================================
+
+export function computeEnvelopeHash(envelope: Envelope, domain: TypedDataDomain): string {
+  const codec = codecFor(envelope.type) as MessageCodec<MessageType>;
+  return computeMessageHash(domain, EIP712_TYPES, codec.primaryType, codec.serialize(envelope.payload));
+}
+
+export async function signEnvelope<T extends MessageType>(
+  type: T,
+  payload: MessagePayloads[T],
+  signer: Pick<Signer, 'getAddress' | 'signTypedData'>,
+  domain: TypedDataDomain,
+  authorization?: SignedSessionAuthorization // Pass when `signer` is a session key
+): Promise<EnvelopeOf<T>> {
+  const codec = codecFor(type);
+  const sender = (await signer.getAddress()).toLowerCase();
+  if (authorization && authorization.authorization.delegate.value.toLowerCase() !== sender) {
+    throw new SessionKeyError('Signer is not the authorized delegate', {
+      reason: 'SCOPE_MISMATCH',
+      delegate: authorization.authorization.delegate.value,
+      signer: sender
+    });
+  }
+
+  const signature = await signer.signTypedData(
+    domain,
+    selectTypes(EIP712_TYPES, codec.primaryType),
+    codec.serialize(payload)
+  );
+
+  return {
+    version: CONSTANTS.PROTOCOL_VERSION,
+    type,
+    sender: { value: sender },
+    signature,
+    payload,
+    ...(authorization && { authorization })
+  } as EnvelopeOf<T>;
+}
+
+/**
+ * Checks that a session key envelope's authorization was signed by one of
+ * the payload's signers, names the sender and still covers the channel.
+ * Expiry is checked against the local clock less the tolerated skew.
+ */
+async function verifyDelegation(
+  envelope: Envelope,
+  signers: Address[],
+  domain: TypedDataDomain,
+  provider: SignatureProvider | undefined,
+  clock: Clock
+): Promise<void> {
+  const signed = envelope.authorization!;
+  try {
+    assertSessionScope(signed.authorization, {
+      channelId: envelope.payload.channelId,
+      owners: signers,
+      delegate: envelope.sender,
+      at: clock.now() - BigInt(CONSTANTS.MAX_CLOCK_SKEW_MS)
+    });
+  } catch (error) {
+    if (!(error instanceof SessionKeyError)) throw error;
+    throw messageError('UNAUTHORIZED_SENDER', `Session key may not sign ${envelope.type}: ${error.message}`, {
+      type: envelope.type,
+      sender: envelope.sender.value,
+      session: error.details
+    });
+  }
+
+  if (!(await verifySessionAuthorization(signed, domain, provider))) {
+    throw messageError('UNAUTHORIZED_SENDER', `Invalid session authorization on ${envelope.type} message`, {
+      type: envelope.type,
+      sender: envelope.sender.value,
+      owner: signed.authorization.owner.value
+    });
+  }
+}
+
+export async function verifyEnvelope(
+  envelope: Envelope,
+  domain: TypedDataDomain,
+  provider?: SignatureProvider,
+  clock: Clock = systemClock
+): Promise<void> {
+  if (!envelope.signature || envelope.signature === '0x') {
+    throw messageError('MISSING_SIGNATURE', `Unsigned ${envelope.type} message`, { type: envelope.type });
+  }
+
+  const codec = codecFor(envelope.type) as MessageCodec<MessageType>;
+  const sender = envelope.sender.value.toLowerCase();
+  const signers = codec.signers(envelope.payload);
+  const allowed = signers.map(signer => signer.value.toLowerCase());
+  if (envelope.authorization) {
+    await verifyDelegation(envelope, signers, domain, provider, clock);
+  } else if (!allowed.includes(sender)) {
+    throw messageError('UNAUTHORIZED_SENDER', `${envelope.sender.value} may not sign ${envelope.type} messages`, {
+      type: envelope.type,
+      sender: envelope.sender.value,
+      allowed
+    });
+  }
+
+  const hash = computeEnvelopeHash(envelope, domain);
+  if (!(await verifySignature(envelope.signature, sender, hash, provider))) {
+    throw messageError('INVALID_SIGNATURE', `Invalid signature on ${envelope.type} message`, {
+      type: envelope.type,
+      sender: envelope.sender.value
+    });
+  }
+}
+
+// ============================================================================
+// MESSAGE ROUTER
+// ============================================================================
+
+export type EnvelopeHandler<T extends MessageType> = (envelope: EnvelopeOf<T>) => unknown | Promise<unknown>;
+
+export interface MessageRouterOptions {
+  readonly domain: TypedDataDomain;
+  readonly supportedVersions?: readonly string[];
+  readonly provider?: SignatureProvider; // Enables EIP-1271 contract signers
+  readonly nonces?: NonceManager; // Rejects replayed messages; must already be loaded
+  readonly sessionKeys?: SessionKeyLedger; // Rejects revoked session keys and charges their fills
+  // Terms a FILL executes under; needed to charge session key fills against their notional cap
+  readonly fillTerms?: (fill: Fill) => FillTerms | undefined | Promise<FillTerms | undefined>;
+  readonly clock?: Clock;
+  // Current status of a channel, or undefined if unknown; gates which messages are handled
+  readonly channelStatus?: (channelId: ChannelId) => ChannelStatus | undefined;
+}
+
+/**
+ * Shared parse -> authenticate -> dispatch path for inbound protocol
+ * messages. Handlers only ever see envelopes whose payload validated and
+ * whose signature belongs to an authorized participant. With a session key
+ * ledger, a FILL signed by a session key is charged against the key's
+ * notional cap before its handler runs, and refunded if the handler throws.
+ */
+export class MessageRouter {
+  private readonly handlers: { [T in MessageType]?: EnvelopeHandler<T> } = {};
+  private readonly supportedVersions: readonly string[];
+
+  constructor(private readonly options: MessageRouterOptions) {
+    this.supportedVersions = options.supportedVersions ?? [CONSTANTS.PROTOCOL_VERSION];
+  }
+
+  on<T extends MessageType>(type: T, handler: EnvelopeHandler<T>): this {
+    (this.handlers as Record<string, unknown>)[type] = handler;
+    return this;
+  }
+
+  async open(data: unknown): Promise<Envelope> {
+    const envelope = deserializeEnvelope(data);
+
+    if (!this.supportedVersions.includes(envelope.version)) {
+      throw messageError('UNSUPPORTED_VERSION', `Unsupported protocol version: ${envelope.version}`, {
+        version: envelope.version,
+        supportedVersions: this.supportedVersions
+      });
+    }
+
+    await verifyEnvelope(envelope, this.options.domain, this.options.provider, this.options.clock);
+    if (envelope.authorization) {
+      this.options.sessionKeys?.assertActive(envelope.authorization.authorization);
+    }
+    return envelope;
+  }
+
+  async dispatch(data: unknown): Promise<unknown> {
+    const envelope = await this.open(data);
+    const handler = this.handlers[envelope.type] as EnvelopeHandler<MessageType> | undefined;
+
+    if (!handler) {
+      throw messageError('NO_HANDLER', `No handler registered for ${envelope.type}`, { type: envelope.type });
+    }
+    return this.route(envelope, handler);
+  }
+
+  /**
+   * Dispatches a message that must be of `type` to `handler` instead of the
+   * registered one, for callers answering it with context that travels
+   * outside the envelope (such as the trader's signature over the new state).
+   */
+  async dispatchTo<T extends MessageType>(type: T, data: unknown, handler: EnvelopeHandler<T>): Promise<unknown> {
+    const envelope = await this.open(data);
+    if (envelope.type !== type) {
+      throw messageError('NO_HANDLER', `Expected a ${type} message, got ${envelope.type}`, { type: envelope.type });
+    }
+    return this.route(envelope, checked => handler(checked as EnvelopeOf<T>));
+  }
+
+  private async route(envelope: Envelope, handler: EnvelopeHandler<MessageType>): Promise<unknown> {
+    const status = this.options.channelStatus?.(envelope.payload.channelId);
+    if (status) {
+      assertAcceptsMessage(status, envelope.type);
+    }
+
+    const replayKey = this.options.nonces ? replayKeyOf(envelope) : undefined;
+    // Charged inside the replay guard, so a replayed fill is never charged twice
+    return replayKey
+      ? this.options.nonces!.guard(replayKey, () => this.handle(envelope, handler))
+      : this.handle(envelope, handler);
+  }
+
+  private async handle(envelope: Envelope, handler: EnvelopeHandler<MessageType>): Promise<unknown> {
+    const charge = await this.chargeSession(envelope);
+    try {
+      return await handler(envelope);
+    } catch (error) {
+      if (charge) this.options.sessionKeys!.refund(charge.authorization, charge.deltas);
+      throw error;
+    }
+  }
+
+  private async chargeSession(
+    envelope: Envelope
+  ): Promise<{ authorization: SessionAuthorization; deltas: FillDeltas } | undefined> {
+    const { sessionKeys, fillTerms, domain } = this.options;
+    if (envelope.type !== 'FILL' || !envelope.authorization || !sessionKeys) return undefined;
+
+    const terms = await fillTerms?.(envelope.payload);
+    if (!terms) {
+      throw messageError('UNAUTHORIZED_SENDER', 'Session key FILL cannot be checked against its notional cap', {
+        type: envelope.type,
+        sender: envelope.sender.value,
+        fillId: envelope.payload.fillId
+      });
+    }
+
+    const { authorization } = envelope.authorization;
+    const deltas = computeFillDeltas(envelope.payload, terms, { value: Number(domain.chainId) });
+    sessionKeys.charge(authorization, terms, deltas);
+    return { authorization, deltas };
+  }
+}
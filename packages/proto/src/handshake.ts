@@ -0,0 +1,165 @@
+import { z } from 'zod';
+import { AddressSchema, PhotonXError, CONSTANTS } from './types';
+import { CodecName, CodecNameSchema } from './codec';
+import { decodeWith } from './wire';
+
+// ============================================================================
+// HANDSHAKE TYPES
+// ============================================================================
+//
+// Each side sends a HELLO when a session opens and then runs
+// `negotiateSession(local, remote)`. Negotiation is symmetric, so both peers
+// agree on the same version, codec and chains without a further round trip.
+
+const SemverSchema = z.string().regex(/^\d+\.\d+\.\d+$/);
+
+export const HelloSchema = z.object({
+  type: z.literal('HELLO'),
+  peer: AddressSchema,
+  protocolVersions: z.array(SemverSchema).min(1),
+  eip712DomainVersion: z.string().min(1),
+  codecs: z.array(CodecNameSchema).min(1),
+  chainIds: z.array(z.number().int().positive()).min(1),
+  timestamp: z.bigint().positive()
+}).readonly();
+
+export type Hello = z.infer<typeof HelloSchema>;
+
+export interface SessionAgreement {
+  readonly protocolVersion: string;
+  readonly codec: CodecName;
+  readonly chainIds: number[];
+}
+
+export type HandshakeErrorReason =
+  | 'MALFORMED_HELLO'
+  | 'DOMAIN_VERSION_MISMATCH'
+  | 'NO_COMMON_PROTOCOL_VERSION'
+  | 'NO_COMMON_CODEC'
+  | 'NO_COMMON_CHAIN';
+
+export class HandshakeError extends PhotonXError {
+  constructor(message: string, details?: any) {
+    super(message, 'HANDSHAKE_ERROR', details);
+  }
+}
+
+// Global preference order; must be identical on every peer
+const CODEC_PREFERENCE: readonly CodecName[] = ['binary', 'json'];
+
+// ============================================================================
+// HELLO ENCODING
+// ============================================================================
+
+export interface HelloOptions {
+  readonly peer: string;
+  readonly chainIds?: number[];
+  readonly protocolVersions?: string[];
+  readonly codecs?: CodecName[];
+  readonly timestamp?: bigint;
+}
+
+export function createHello(options: HelloOptions): Hello {
+  return {
+    type: 'HELLO',
+    peer: { value: options.peer.toLowerCase() },
+    protocolVersions: options.protocolVersions ?? [CONSTANTS.PROTOCOL_VERSION],
+    eip712DomainVersion: CONSTANTS.EIP712_DOMAIN_VERSION,
+    codecs: options.codecs ?? [...CODEC_PREFERENCE],
+    chainIds: options.chainIds ?? [...CONSTANTS.SUPPORTED_CHAINS],
+    timestamp: options.timestamp ?? BigInt(Date.now())
+  };
+}
+
+export function serializeHello(hello: Hello): Record<string, any> {
+  return {
+    type: hello.type,
+    peer: hello.peer.value,
+    protocolVersions: [...hello.protocolVersions],
+    eip712DomainVersion: hello.eip712DomainVersion,
+    codecs: [...hello.codecs],
+    chainIds: [...hello.chainIds],
+    timestamp: hello.timestamp.toString()
+  };
+}
+
+const WireHelloSchema = z
+  .object({
+    type: z.literal('HELLO'),
+    peer: z.string().transform(value => ({ value })),
+    protocolVersions: z.array(z.string()),
+    eip712DomainVersion: z.string(),
+    codecs: z.array(z.string()),
+    chainIds: z.array(z.number()),
+    timestamp: z.string().regex(/^\d+$/).transform(value => BigInt(value))
+  })
+  .pipe(HelloSchema);
+
+export function deserializeHello(data: unknown): Hello {
+  try {
+    return decodeWith(WireHelloSchema, data, 'Hello');
+  } catch (error) {
+    throw new HandshakeError('Malformed HELLO message', {
+      reason: 'MALFORMED_HELLO',
+      issues: error instanceof PhotonXError ? error.details?.issues : undefined
+    });
+  }
+}
+
+// ============================================================================
+// NEGOTIATION
+// ============================================================================
+
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return 0;
+}
+
+export function negotiateSession(local: Hello, remote: Hello): SessionAgreement {
+  if (local.eip712DomainVersion !== remote.eip712DomainVersion) {
+    throw new HandshakeError('EIP-712 domain version mismatch', {
+      reason: 'DOMAIN_VERSION_MISMATCH',
+      local: local.eip712DomainVersion,
+      remote: remote.eip712DomainVersion
+    });
+  }
+
+  const versions = local.protocolVersions
+    .filter(version => remote.protocolVersions.includes(version))
+    .sort(compareVersions);
+  if (versions.length === 0) {
+    throw new HandshakeError('No common protocol version', {
+      reason: 'NO_COMMON_PROTOCOL_VERSION',
+      local: local.protocolVersions,
+      remote: remote.protocolVersions
+    });
+  }
+
+  const codec = CODEC_PREFERENCE.find(name => local.codecs.includes(name) && remote.codecs.includes(name));
+  if (!codec) {
+    throw new HandshakeError('No common codec', {
+      reason: 'NO_COMMON_CODEC',
+      local: local.codecs,
+      remote: remote.codecs
+    });
+  }
+
+  const chainIds = local.chainIds.filter(chainId => remote.chainIds.includes(chainId)).sort((a, b) => a - b);
+  if (chainIds.length === 0) {
+    throw new HandshakeError('No common chain', {
+      reason: 'NO_COMMON_CHAIN',
+      local: local.chainIds,
+      remote: remote.chainIds
+    });
+  }
+
+  return {
+    protocolVersion: versions[versions.length - 1],
+    codec,
+    chainIds
+  };
+}
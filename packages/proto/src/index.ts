@@ -2,9 +2,32 @@
 // PHOTONX PROTOCOL TYPES AND SCHEMAS
 // ============================================================================
 
+import { AbiCoder, keccak256 } from 'ethers';
+import type { ChannelParams } from './types';
+import { formatFixed, parseFixed } from './tokens';
+import { Clock, ExpiryPolicy, DEFAULT_EXPIRY_POLICY, isQuoteExpired, systemClock } from './time';
+
 // Core Types
 export * from './types';
 export * from './eip712';
+export * from './transitions';
+export * from './wire';
+export * from './envelope';
+export * from './codec';
+export * from './handshake';
+export * from './tokens';
+export * from './pricing';
+export * from './quotes';
+export * from './netting';
+export * from './nonces';
+export * from './time';
+export * from './liveness';
+export * from './disputes';
+export * from './checkpoints';
+export * from './channel-status';
+export * from './session-keys';
+export * from './socket';
+export * from './siwe';
 
 // Re-export commonly used types for convenience
 export type {
@@ -14,6 +37,7 @@ export type {
   ChannelId,
   ChannelState,
   ChannelParams,
+  TradingPair,
   QuoteRequest,
   Quote,
   Fill,
@@ -23,6 +47,7 @@ export type {
   SettlementRequest,
   CheckpointRequest,
   DisputeChallenge,
+  SessionAuthorization,
   OpenChannelRequest,
   OpenChannelResponse,
   QuoteResponse,
@@ -47,7 +72,8 @@ export {
   QuoteError,
   FillError,
   RiskError,
-  ValidationError
+  ValidationError,
+  MessageError
 } from './types';
 
 // Re-export constants
@@ -59,9 +85,27 @@ export {
   ChainIdSchema,
   TokenAmountSchema,
   ChannelIdSchema,
+  SignatureSchema,
+  OrderSideSchema,
+  BpsSchema,
+  ChannelStateSchema,
+  ChannelParamsSchema,
+  TradingPairSchema,
   QuoteRequestSchema,
   QuoteSchema,
-  FillSchema
+  FillSchema,
+  CancelSchema,
+  ReplaceSchema,
+  HeartbeatSchema,
+  SettlementRequestSchema,
+  CheckpointRequestSchema,
+  DisputeChallengeSchema,
+  SessionAuthorizationSchema,
+  SignedSessionAuthorizationSchema,
+  OpenChannelRequestSchema,
+  RiskParamsSchema,
+  MessageTypeSchema,
+  ChannelStatusSchema
 } from './types';
 
 // Re-export EIP-712 utilities
@@ -78,11 +122,18 @@ export {
   serializeSettlementRequest,
   serializeCheckpointRequest,
   serializeDisputeChallenge,
+  serializeSessionAuthorization,
   splitSignature,
   joinSignature,
+  selectTypes,
+  computeStructHash,
   computeMessageHash,
   computeChannelStateHash,
+  computeChannelStateDigest,
+  recoverSigner,
   validateSignature,
+  verifySignature,
+  EIP1271_MAGIC_VALUE,
   validateNonceSequence,
   validateTimestamp,
   validateChannelParticipant,
@@ -94,6 +145,275 @@ export {
   isHeartbeat
 } from './eip712';
 
+// Re-export wire deserializers
+export {
+  deserializeQuoteRequest,
+  deserializeQuote,
+  deserializeFill,
+  deserializeCancel,
+  deserializeReplace,
+  deserializeHeartbeat,
+  deserializeChannelState,
+  deserializeSettlementRequest,
+  deserializeCheckpointRequest,
+  deserializeDisputeChallenge,
+  deserializeSessionAuthorization,
+  decodeWith,
+  toValidationIssues
+} from './wire';
+export type { ValidationIssue } from './wire';
+
+// Re-export message envelope and router
+export {
+  MessageRouter,
+  getPrimaryType,
+  serializeEnvelope,
+  deserializeEnvelope,
+  computeEnvelopeHash,
+  signEnvelope,
+  verifyEnvelope
+} from './envelope';
+export type {
+  Envelope,
+  EnvelopeOf,
+  EnvelopeHandler,
+  MessagePayloads,
+  MessageErrorReason,
+  MessageRouterOptions
+} from './envelope';
+
+// Re-export wire codecs
+export {
+  jsonCodec,
+  binaryCodec,
+  CODECS,
+  getCodec,
+  BINARY_SCHEMA_VERSION,
+  CodecNameSchema
+} from './codec';
+export type { CodecName, WireCodec } from './codec';
+
+// Re-export session handshake
+export {
+  HelloSchema,
+  HandshakeError,
+  createHello,
+  serializeHello,
+  deserializeHello,
+  compareVersions,
+  negotiateSession
+} from './handshake';
+export type { Hello, HelloOptions, SessionAgreement, HandshakeErrorReason } from './handshake';
+
+// Re-export token registry
+export {
+  TokenRegistry,
+  tokenRegistry,
+  DEFAULT_TOKENS,
+  formatFixed,
+  parseFixed
+} from './tokens';
+export type { TokenInfo } from './tokens';
+
+// Re-export fixed-point pricing
+export {
+  mulDiv,
+  roundingFor,
+  computeNotional,
+  applyFeeBps,
+  computeFillAmounts,
+  effectivePrice,
+  calculateSlippageBps,
+  assertWithinSlippage
+} from './pricing';
+export type { RoundingMode, RoundingFavour, NotionalParams, FillAmounts } from './pricing';
+
+// Re-export partial fill tracking
+export {
+  openQuoteFillState,
+  computeRemainingQuantity,
+  recordPartialFill,
+  cancelQuoteFillState,
+  applyPartialFill,
+  QuoteBook
+} from './quotes';
+export type { QuoteFillState, PartialFillResult } from './quotes';
+
+// Re-export multi-asset netting
+export {
+  channelDeposits,
+  createInitialChannelState,
+  netFillsByPair,
+  netPairsByToken,
+  computeSettlementNetting
+} from './netting';
+export type { NettedFill, PairNet, TokenDelta, TokenSettlement } from './netting';
+
+// Re-export replay protection
+export {
+  ReplayError,
+  NonceManager,
+  InMemoryNonceStore,
+  channelStream,
+  senderStream,
+  replayKeyOf
+} from './nonces';
+export type { ReplayKey, ConsumedEntry, NonceStore, ReplayErrorReason } from './nonces';
+
+// Re-export clock skew handling and time sync
+export {
+  systemClock,
+  DEFAULT_FRESHNESS_POLICY,
+  DEFAULT_EXPIRY_POLICY,
+  isFresh,
+  isQuoteExpired,
+  remainingMs,
+  TimeSyncRequestSchema,
+  TimeSyncResponseSchema,
+  createTimeSyncRequest,
+  createTimeSyncResponse,
+  serializeTimeSyncRequest,
+  serializeTimeSyncResponse,
+  deserializeTimeSyncRequest,
+  deserializeTimeSyncResponse,
+  computeTimeSyncSample,
+  SyncedClock
+} from './time';
+export type {
+  Clock,
+  FreshnessPolicy,
+  ExpiryPolicy,
+  TimeSyncRequest,
+  TimeSyncResponse,
+  TimeSyncSample
+} from './time';
+
+// Re-export heartbeat liveness monitoring
+export {
+  DEFAULT_LIVENESS_POLICY,
+  LivenessMonitor
+} from './liveness';
+export type {
+  LivenessStatus,
+  EscalationAction,
+  LivenessPolicy,
+  LivenessEvent,
+  LivenessHooks,
+  LivenessMonitorOptions,
+  Scheduler
+} from './liveness';
+
+// Re-export dispute evidence
+export {
+  checkStateSignatures,
+  buildDisputeChallenge,
+  StateHistory
+} from './disputes';
+export type { SignedChannelState, RejectedStateReason, RejectedState, DisputeEvidence } from './disputes';
+
+// Re-export checkpoint policy engine
+export {
+  CheckpointRuleSchema,
+  CheckpointPolicySchema,
+  DEFAULT_CHECKPOINT_POLICY,
+  parseCheckpointPolicy,
+  CheckpointPolicyEngine
+} from './checkpoints';
+export type {
+  CheckpointRule,
+  CheckpointRuleType,
+  CheckpointPolicy,
+  CheckpointTrigger,
+  CheckpointIntent,
+  ChannelCheckpointStatus,
+  CheckpointEngineOptions
+} from './checkpoints';
+
+// Re-export channel status state machine
+export {
+  CHANNEL_STATUS_TRANSITIONS,
+  CHANNEL_STATUS_MESSAGES,
+  canTransition,
+  assertTransition,
+  acceptsMessage,
+  assertAcceptsMessage,
+  ChannelStateMachine
+} from './channel-status';
+export type {
+  ChannelTransitionEvent,
+  TransitionGuard,
+  TransitionListener,
+  ChannelStateMachineOptions
+} from './channel-status';
+
+// Re-export delegated session keys
+export {
+  SessionKeyError,
+  createSessionAuthorization,
+  computeSessionAuthorizationId,
+  computeSessionAuthorizationHash,
+  signSessionAuthorization,
+  serializeSignedSessionAuthorization,
+  deserializeSignedSessionAuthorization,
+  validateSessionAuthorization,
+  verifySessionAuthorization,
+  assertSessionScope,
+  SessionKeyLedger
+} from './session-keys';
+export type {
+  SignedSessionAuthorization,
+  SessionAuthorizationParams,
+  SessionScope,
+  SessionKeyErrorReason
+} from './session-keys';
+
+// Re-export WebSocket frame protocol
+export {
+  SocketError,
+  DEFAULT_SOCKET_POLICY,
+  reconnectDelay,
+  formatTopic,
+  parseTopic,
+  participantTopics,
+  serializeSocketEvent,
+  deserializeSocketEvent,
+  serializeSocketFrame,
+  deserializeSocketFrame
+} from './socket';
+export type {
+  SocketTopicKind,
+  SocketTopic,
+  SocketEvent,
+  SocketErrorBody,
+  SocketFrame,
+  SocketFrameOf,
+  SocketErrorReason,
+  ReconnectPolicy,
+  SocketPolicy
+} from './socket';
+
+// Re-export Sign-In with Ethereum
+export {
+  SiweMessageSchema,
+  SiweError,
+  generateSiweNonce,
+  createSiweMessage,
+  formatSiweMessage,
+  parseSiweMessage,
+  signSiweMessage,
+  verifySiweMessage
+} from './siwe';
+export type { SiweMessage, SiweMessageParams, SiweExpectations, SiweErrorReason } from './siwe';
+
+// Re-export state transition engine
+export {
+  computeFillDeltas,
+  applyFill,
+  applyCancel,
+  applyReplace
+} from './transitions';
+export type { FillTerms, FillDeltas } from './transitions';
+
 // Version information
 export const VERSION = '1.0.0';
 export const PROTOCOL_NAME = 'PhotonX';
@@ -113,14 +433,29 @@ export function createChainId(value: number) {
   return { value };
 }
 
-export function createChannelId() {
-  // Generate UUID v4
-  const uuid = 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-    const r = Math.random() * 16 | 0;
-    const v = c === 'x' ? r : (r & 0x3 | 0x8);
-    return v.toString(16);
-  });
-  return { value: uuid };
+export type ChannelIdParams = Pick<ChannelParams, 'trader' | 'lp' | 'tokens' | 'chainId' | 'openNonce'>;
+
+/**
+ * Derives the channel ID both parties (and SettlementManager.openChannel)
+ * agree on: keccak256(abi.encode(trader, lp, tokens, chainId, openNonce)),
+ * where `tokens` is the array passed to openChannel.
+ */
+export function createChannelId(params: ChannelIdParams) {
+  const encoded = AbiCoder.defaultAbiCoder().encode(
+    ['address', 'address', 'address[]', 'uint256', 'uint256'],
+    [
+      params.trader.value.toLowerCase(),
+      params.lp.value.toLowerCase(),
+      params.tokens.map(token => token.value.toLowerCase()),
+      params.chainId.value,
+      params.openNonce
+    ]
+  );
+  return { value: keccak256(encoded) };
+}
+
+export function verifyChannelId(channelId: { value: string }, params: ChannelIdParams): boolean {
+  return channelId.value === createChannelId(params).value;
 }
 
 export function createTokenAmount(token: string, amount: bigint) {
@@ -130,28 +465,13 @@ export function createTokenAmount(token: string, amount: bigint) {
   };
 }
 
+// Prefer tokenRegistry.format / tokenRegistry.parse, which resolve decimals per token
 export function formatTokenAmount(amount: any, decimals: number = 18): string {
-  const divisor = BigInt(10 ** decimals);
-  const whole = amount.amount / divisor;
-  const fractional = amount.amount % divisor;
-  
-  if (fractional === 0n) {
-    return whole.toString();
-  }
-  
-  const fractionalStr = fractional.toString().padStart(decimals, '0');
-  const trimmed = fractionalStr.replace(/0+$/, '');
-  return `${whole}.${trimmed}`;
+  return formatFixed(amount.amount, decimals);
 }
 
 export function parseTokenAmount(value: string, decimals: number = 18): bigint {
-  const [whole, fractional = ''] = value.split('.');
-  const wholeBigInt = BigInt(whole || '0');
-  const fractionalPadded = fractional.padEnd(decimals, '0').slice(0, decimals);
-  const fractionalBigInt = BigInt(fractionalPadded || '0');
-  const multiplier = BigInt(10 ** decimals);
-  
-  return wholeBigInt * multiplier + fractionalBigInt;
+  return parseFixed(value, decimals);
 }
 
 export function calculatePriceImpact(
@@ -173,10 +493,13 @@ export function calculateFee(amount: bigint, feeBps: number): bigint {
   return amount * BigInt(feeBps) / BigInt(10000);
 }
 
-export function isExpired(timestamp: bigint, expiryMs: number = 30000): boolean {
-  const now = BigInt(Date.now());
-  const age = Number(now - timestamp);
-  return age > expiryMs;
+export function isExpired(
+  timestamp: bigint,
+  expiryMs: number = 30000,
+  policy: ExpiryPolicy = DEFAULT_EXPIRY_POLICY,
+  clock: Clock = systemClock
+): boolean {
+  return isQuoteExpired(timestamp + BigInt(expiryMs), clock.now(), policy);
 }
 
 export function getCurrentTimestamp(): bigint {
@@ -226,7 +549,8 @@ export function isValidChannelId(value: any): boolean {
   return value && 
     typeof value === 'object' && 
     typeof value.value === 'string' &&
-    /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(value.value);
+    (/^0x[0-9a-f]{64}$/.test(value.value) ||
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(value.value));
 }
 
 export function isValidTokenAmount(value: any): boolean {
@@ -238,9 +562,22 @@ export function isValidTokenAmount(value: any): boolean {
 }
 
 // Helper for creating mock data in tests
+function createMockChannelId() {
+  return createChannelId({
+    trader: createAddress('0x1234567890123456789012345678901234567890'),
+    lp: createAddress('0x0987654321098765432109876543210987654321'),
+    tokens: [
+      createAddress('0xA0b86a33E6441e6e80A7181a0a2d0b4B0a0b86a3'),
+      createAddress('0xB0b86a33E6441e6e80A7181a0a2d0b4B0a0b86a3')
+    ],
+    chainId: createChainId(1),
+    openNonce: 0n
+  });
+}
+
 export function createMockChannelState(overrides: any = {}): any {
   const defaultState: any = {
-    channelId: createChannelId(),
+    channelId: createMockChannelId(),
     nonce: 0n,
     trader: createAddress('0x1234567890123456789012345678901234567890'),
     lp: createAddress('0x0987654321098765432109876543210987654321'),
@@ -259,7 +596,7 @@ export function createMockChannelState(overrides: any = {}): any {
 
 export function createMockQuoteRequest(overrides: any = {}): any {
   const defaultRequest: any = {
-    channelId: createChannelId(),
+    channelId: createMockChannelId(),
     nonce: 1n,
     side: 'BUY',
     baseToken: createAddress('0xA0b86a33E6441e6e80A7181a0a2d0b4B0a0b86a3'),
@@ -275,7 +612,7 @@ export function createMockQuoteRequest(overrides: any = {}): any {
 
 export function createMockQuote(overrides: any = {}): any {
   const defaultQuote: any = {
-    channelId: createChannelId(),
+    channelId: createMockChannelId(),
     quoteId: crypto.randomUUID(),
     requestNonce: 1n,
     price: BigInt(2000e18), // 2000 quote tokens per base token
@@ -0,0 +1,274 @@
+import { Signer, TypedDataDomain } from 'ethers';
+import { Address, ChannelId, ChannelStatus, Heartbeat, MessageType, ChannelError, ValidationError, CONSTANTS } from './types';
+import { EnvelopeOf, signEnvelope } from './envelope';
+import { ChannelStateMachine } from './channel-status';
+import { Clock, systemClock } from './time';
+
+// ============================================================================
+// LIVENESS TYPES
+// ============================================================================
+//
+// Each side signs a HEARTBEAT every interval and watches for the
+// counterparty's. Silence is measured on the local clock from the moment the
+// last heartbeat arrived, never from its signed timestamp, so clock skew
+// cannot hide an outage. Wire inbound heartbeats with
+// `router.on('HEARTBEAT', envelope => monitor.observe(envelope.payload))`.
+//
+// Given the channel's ChannelStateMachine, the monitor moves it between
+// ACTIVE and DEGRADED itself, stops heartbeating once the channel no longer
+// accepts HEARTBEAT, and holds an escalation the channel's status forbids
+// (a force-close while a checkpoint is in flight, say) until it allows it.
+
+export type LivenessStatus = 'LIVE' | 'DEGRADED' | 'ESCALATED';
+
+export type EscalationAction = 'CHECKPOINT' | 'FORCE_CLOSE' | 'NONE';
+
+export interface LivenessPolicy {
+  readonly intervalMs: number;
+  readonly degradeAfterMissed: number; // Silent intervals before the channel is DEGRADED
+  readonly escalateAfterMissed: number; // Silent intervals before `escalation` runs
+  readonly escalation: EscalationAction;
+}
+
+// Message each escalation puts on the channel
+const ESCALATION_MESSAGES: Readonly<Record<EscalationAction, MessageType | undefined>> = {
+  CHECKPOINT: 'CHECKPOINT',
+  FORCE_CLOSE: 'SETTLEMENT',
+  NONE: undefined
+};
+
+export const DEFAULT_LIVENESS_POLICY: LivenessPolicy = {
+  intervalMs: CONSTANTS.HEARTBEAT_INTERVAL_MS,
+  degradeAfterMissed: 3,
+  escalateAfterMissed: 6,
+  escalation: 'CHECKPOINT'
+};
+
+export interface LivenessEvent {
+  readonly channelId: ChannelId;
+  readonly counterparty: Address;
+  readonly status: LivenessStatus;
+  readonly channelStatus: ChannelStatus; // What the channel should be marked as
+  readonly lastSeen: bigint;
+  readonly silentMs: number;
+  readonly missedIntervals: number;
+}
+
+export interface LivenessHooks {
+  send(heartbeat: EnvelopeOf<'HEARTBEAT'>): unknown | Promise<unknown>;
+  onStatusChange?(event: LivenessEvent): void;
+  // Escalation actions; a missing hook for the configured action is an error
+  checkpoint?(event: LivenessEvent): Promise<void>;
+  forceClose?(event: LivenessEvent): Promise<void>;
+  // Failures raised while running on the timer (send or escalation)
+  onError?(error: unknown): void;
+}
+
+export interface Scheduler {
+  setInterval(callback: () => void, ms: number): unknown;
+  clearInterval(handle: unknown): void;
+}
+
+const defaultScheduler: Scheduler = {
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: handle => clearInterval(handle as ReturnType<typeof setInterval>)
+};
+
+export interface LivenessMonitorOptions {
+  readonly channelId: ChannelId;
+  readonly signer: Pick<Signer, 'getAddress' | 'signTypedData'>;
+  readonly counterparty: Address;
+  readonly domain: TypedDataDomain;
+  readonly hooks: LivenessHooks;
+  readonly policy?: LivenessPolicy;
+  readonly clock?: Clock;
+  readonly scheduler?: Scheduler;
+  readonly lastNonce?: bigint; // Last heartbeat nonce this signer used on the channel
+  readonly channel?: ChannelStateMachine; // Gates heartbeats and escalation on the channel's status
+}
+
+// ============================================================================
+// LIVENESS MONITOR
+// ============================================================================
+
+export class LivenessMonitor {
+  private readonly policy: LivenessPolicy;
+  private readonly clock: Clock;
+  private readonly scheduler: Scheduler;
+  private currentStatus: LivenessStatus = 'LIVE';
+  private lastSeenAt: bigint;
+  private lastSentNonce: bigint;
+  private lastReceivedNonce: bigint | undefined;
+  private timer: unknown;
+  private escalating = false;
+
+  constructor(private readonly options: LivenessMonitorOptions) {
+    this.policy = options.policy ?? DEFAULT_LIVENESS_POLICY;
+    this.clock = options.clock ?? systemClock;
+    this.scheduler = options.scheduler ?? defaultScheduler;
+    this.lastSeenAt = this.clock.now();
+    this.lastSentNonce = options.lastNonce ?? 0n;
+
+    if (this.policy.escalateAfterMissed < this.policy.degradeAfterMissed) {
+      throw new ValidationError('escalateAfterMissed must not be below degradeAfterMissed', {
+        policy: this.policy
+      });
+    }
+  }
+
+  get status(): LivenessStatus {
+    return this.currentStatus;
+  }
+
+  get lastSeen(): bigint {
+    return this.lastSeenAt;
+  }
+
+  start(): void {
+    if (this.timer !== undefined) return;
+    // Silence is only counted from when we started listening
+    this.lastSeenAt = this.clock.now();
+    this.timer = this.scheduler.setInterval(() => {
+      this.tick().catch(error => this.options.hooks.onError?.(error));
+    }, this.policy.intervalMs);
+    this.beat().catch(error => this.options.hooks.onError?.(error));
+  }
+
+  stop(): void {
+    if (this.timer === undefined) return;
+    this.scheduler.clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /** Sends a heartbeat, then checks the counterparty; a failed send never skips the check. */
+  async tick(): Promise<void> {
+    if (!this.accepts('HEARTBEAT')) return;
+    try {
+      await this.beat();
+    } catch (error) {
+      this.options.hooks.onError?.(error);
+    }
+    await this.check();
+  }
+
+  async beat(): Promise<EnvelopeOf<'HEARTBEAT'>> {
+    this.options.channel?.assertAccepts('HEARTBEAT');
+    const sender = (await this.options.signer.getAddress()).toLowerCase();
+    const heartbeat: Heartbeat = {
+      channelId: this.options.channelId,
+      nonce: ++this.lastSentNonce,
+      timestamp: this.clock.now(),
+      sender: { value: sender }
+    };
+
+    const envelope = await signEnvelope('HEARTBEAT', heartbeat, this.options.signer, this.options.domain);
+    await this.options.hooks.send(envelope);
+    return envelope;
+  }
+
+  /**
+   * Records an authenticated heartbeat. Returns false for heartbeats that are
+   * not from the counterparty on this channel, that are stale, or that arrive
+   * once the channel no longer accepts HEARTBEAT.
+   */
+  observe(heartbeat: Heartbeat): boolean {
+    if (!this.accepts('HEARTBEAT')) return false;
+    if (heartbeat.channelId.value !== this.options.channelId.value) return false;
+    if (heartbeat.sender.value.toLowerCase() !== this.options.counterparty.value.toLowerCase()) return false;
+    if (this.lastReceivedNonce !== undefined && heartbeat.nonce <= this.lastReceivedNonce) return false;
+
+    this.lastReceivedNonce = heartbeat.nonce;
+    this.markSeen();
+    return true;
+  }
+
+  /** Any other authenticated message from the counterparty also proves liveness. */
+  markSeen(): void {
+    this.lastSeenAt = this.clock.now();
+
+    // A force-close cannot be undone by the counterparty coming back
+    const forceClosed = this.currentStatus === 'ESCALATED' && this.policy.escalation === 'FORCE_CLOSE';
+    if (this.currentStatus !== 'LIVE' && !forceClosed) {
+      this.transition('LIVE');
+    }
+  }
+
+  async check(): Promise<LivenessStatus> {
+    const missed = this.missedIntervals();
+    const escalationDue = missed >= this.policy.escalateAfterMissed && this.currentStatus !== 'ESCALATED';
+    // Held, not dropped, while the channel's status forbids the escalation's message
+    const escalationMessage = ESCALATION_MESSAGES[this.policy.escalation];
+    const canEscalate = escalationMessage === undefined || this.accepts(escalationMessage);
+
+    if (escalationDue && !this.escalating && canEscalate) {
+      if (this.currentStatus === 'LIVE') this.transition('DEGRADED');
+      // Only marked ESCALATED once the action succeeds, so a failure is retried next tick
+      this.escalating = true;
+      try {
+        await this.escalate();
+      } finally {
+        this.escalating = false;
+      }
+      this.transition('ESCALATED');
+    } else if (missed >= this.policy.degradeAfterMissed && this.currentStatus === 'LIVE') {
+      this.transition('DEGRADED');
+    }
+
+    return this.currentStatus;
+  }
+
+  private accepts(type: MessageType): boolean {
+    return this.options.channel?.accepts(type) ?? true;
+  }
+
+  private missedIntervals(): number {
+    return Math.floor(this.silentMs() / this.policy.intervalMs);
+  }
+
+  private silentMs(): number {
+    return Math.max(0, Number(this.clock.now() - this.lastSeenAt));
+  }
+
+  private event(): LivenessEvent {
+    return {
+      channelId: this.options.channelId,
+      counterparty: this.options.counterparty,
+      status: this.currentStatus,
+      channelStatus: this.currentStatus === 'LIVE' ? 'ACTIVE' : 'DEGRADED',
+      lastSeen: this.lastSeenAt,
+      silentMs: this.silentMs(),
+      missedIntervals: this.missedIntervals()
+    };
+  }
+
+  private transition(status: LivenessStatus): void {
+    this.currentStatus = status;
+    const event = this.event();
+
+    // Only toggles ACTIVE and DEGRADED; other statuses belong to whoever entered them
+    const { channel } = this.options;
+    const from: ChannelStatus = event.channelStatus === 'ACTIVE' ? 'DEGRADED' : 'ACTIVE';
+    if (channel && channel.status === from && channel.can(event.channelStatus)) {
+      channel.transition(event.channelStatus, `Counterparty ${status === 'LIVE' ? 'live' : 'silent'}`);
+    }
+    this.options.hooks.onStatusChange?.(event);
+  }
+
+  private async escalate(): Promise<void> {
+    const { hooks } = this.options;
+    const event = this.event();
+
+    switch (this.policy.escalation) {
+      case 'CHECKPOINT':
+        if (!hooks.checkpoint) throw new ChannelError('Liveness policy requires a checkpoint hook');
+        await hooks.checkpoint(event);
+        break;
+      case 'FORCE_CLOSE':
+        if (!hooks.forceClose) throw new ChannelError('Liveness policy requires a forceClose hook');
+        await hooks.forceClose(event);
+        break;
+      case 'NONE':
+        break;
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import {
+  Address,
+  ChainId,
+  ChannelId,
+  ChannelParams,
+  ChannelState,
+  Fill,
+  TokenAmount,
+  TradingPair,
+  ChannelError,
+  CONSTANTS
+} from './types';
+import { computeFillDeltas, FillTerms } from './transitions';
+
+// ============================================================================
+// MULTI-ASSET CHANNELS
+// ============================================================================
+//
+// A channel holds a basket of tokens and may trade any of its pairs against
+// the same deposits. Fills are netted per pair for reporting and risk, and
+// balances are netted per token at settlement, so a WETH/USDC buy and a
+// WBTC/USDC sell only ever move the USDC difference on-chain.
+
+export interface NettedFill {
+  readonly fill: Fill;
+  readonly terms: FillTerms;
+}
+
+// Trader's net flow per pair: positive means received by the trader
+export interface PairNet {
+  readonly pair: TradingPair;
+  readonly baseDelta: bigint;
+  readonly quoteDelta: bigint;
+  readonly fillCount: number;
+}
+
+export interface TokenDelta {
+  readonly token: Address;
+  readonly delta: bigint;
+}
+
+export interface TokenSettlement {
+  readonly token: Address;
+  readonly traderDeposit: bigint;
+  readonly lpDeposit: bigint;
+  readonly traderBalance: bigint;
+  readonly lpBalance: bigint;
+  readonly traderNet: bigint; // traderBalance - traderDeposit
+  readonly lpNet: bigint; // lpBalance - lpDeposit
+}
+
+function sameAddress(a: Address, b: Address): boolean {
+  return a.value.toLowerCase() === b.value.toLowerCase();
+}
+
+function balanceOf(balances: readonly TokenAmount[], token: Address): bigint {
+  return balances
+    .filter(balance => sameAddress(balance.token, token))
+    .reduce((total, balance) => total + balance.amount, 0n);
+}
+
+// SettlementManager refuses larger baskets, so a state over one could never settle
+function assertBasketSize(params: ChannelParams): void {
+  if (params.tokens.length > CONSTANTS.MAX_TOKENS_PER_CHANNEL) {
+    throw new ChannelError('Too many tokens in channel', {
+      tokens: params.tokens.length,
+      max: CONSTANTS.MAX_TOKENS_PER_CHANNEL
+    });
+  }
+}
+
+export function channelDeposits(params: ChannelParams, owner: 'trader' | 'lp'): TokenAmount[] {
+  const amounts = owner === 'trader' ? params.traderDeposits : params.lpDeposits;
+  return params.tokens.map((token, i) => ({ token, amount: amounts[i] }));
+}
+
+/**
+ * Nonce-zero state for a freshly opened channel: every basket token is listed
+ * on both sides, including zero deposits, so later states keep a stable order.
+ */
+export function createInitialChannelState(
+  channelId: ChannelId,
+  params: ChannelParams,
+  timestamp: bigint
+): ChannelState {
+  assertBasketSize(params);
+  return {
+    channelId,
+    nonce: 0n,
+    trader: params.trader,
+    lp: params.lp,
+    traderBalances: channelDeposits(params, 'trader'),
+    lpBalances: channelDeposits(params, 'lp'),
+    timestamp,
+    chainId: params.chainId
+  };
+}
+
+// ============================================================================
+// NETTING
+// ============================================================================
+
+export function netFillsByPair(fills: readonly NettedFill[], chainId: ChainId): PairNet[] {
+  const nets: PairNet[] = [];
+
+  for (const { fill, terms } of fills) {
+    const deltas = computeFillDeltas(fill, terms, chainId);
+    const direction = terms.side === 'BUY' ? 1n : -1n;
+    const index = nets.findIndex(net =>
+      sameAddress(net.pair.baseToken, terms.baseToken) && sameAddress(net.pair.quoteToken, terms.quoteToken));
+    const current = index === -1
+      ? { pair: { baseToken: terms.baseToken, quoteToken: terms.quoteToken }, baseDelta: 0n, quoteDelta: 0n, fillCount: 0 }
+      : nets[index];
+
+    const next: PairNet = {
+      pair: current.pair,
+      baseDelta: current.baseDelta + direction * deltas.baseAmount,
+      quoteDelta: current.quoteDelta - direction * deltas.traderQuoteAmount,
+      fillCount: current.fillCount + 1
+    };
+    if (index === -1) nets.push(next);
+    else nets[index] = next;
+  }
+
+  return nets;
+}
+
+/** Collapses per-pair nets into one trader delta per token. */
+export function netPairsByToken(nets: readonly PairNet[]): TokenDelta[] {
+  const deltas: TokenDelta[] = [];
+  const add = (token: Address, delta: bigint) => {
+    const index = deltas.findIndex(entry => sameAddress(entry.token, token));
+    if (index === -1) deltas.push({ token, delta });
+    else deltas[index] = { token: deltas[index].token, delta: deltas[index].delta + delta };
+  };
+
+  for (const net of nets) {
+    add(net.pair.baseToken, net.baseDelta);
+    add(net.pair.quoteToken, net.quoteDelta);
+  }
+  return deltas;
+}
+
+/**
+ * Per-token settlement of `finalState` against the channel's deposits. Fails
+ * if the basket is too large, the state holds a token outside it or does not
+ * conserve a token's total, any of which SettlementManager would be unable to pay.
+ */
+export function computeSettlementNetting(params: ChannelParams, finalState: ChannelState): TokenSettlement[] {
+  assertBasketSize(params);
+  if (!sameAddress(params.trader, finalState.trader) || !sameAddress(params.lp, finalState.lp)) {
+    throw new ChannelError('Final state participants do not match channel', {
+      trader: finalState.trader.value,
+      lp: finalState.lp.value
+    });
+  }
+
+  const foreign = [...finalState.traderBalances, ...finalState.lpBalances]
+    .find(balance => balance.amount > 0n && !params.tokens.some(token => sameAddress(token, balance.token)));
+  if (foreign) {
+    throw new ChannelError('Final state holds a token outside the channel basket', { token: foreign.token.value });
+  }
+
+  return params.tokens.map((token, i) => {
+    const traderDeposit = params.traderDeposits[i];
+    const lpDeposit = params.lpDeposits[i];
+    const traderBalance = balanceOf(finalState.traderBalances, token);
+    const lpBalance = balanceOf(finalState.lpBalances, token);
+
+    if (traderBalance + lpBalance !== traderDeposit + lpDeposit) {
+      throw new ChannelError('Final state does not conserve token balance', {
+        token: token.value,
+        deposited: (traderDeposit + lpDeposit).toString(),
+        settled: (traderBalance + lpBalance).toString()
+      });
+    }
+
+    return {
+      token,
+      traderDeposit,
+      lpDeposit,
+      traderBalance,
+      lpBalance,
+      traderNet: traderBalance - traderDeposit,
+      lpNet: lpBalance - lpDeposit
+    };
+  });
+}
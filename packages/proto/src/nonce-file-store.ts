@@ -0,0 +1,85 @@
+/// <reference types="node" />
+import { appendFile, readFile, truncate } from 'fs/promises';
+import { ConsumedEntry, NonceStore, ReplayError } from './nonces';
+
+// ============================================================================
+// FILE-BACKED NONCE STORE
+// ============================================================================
+//
+// Node-only, so it is not re-exported from the package index (which is also
+// bundled for the browser). Import it directly:
+//
+//   import { FileNonceStore } from '@photonx/proto/dist/nonce-file-store';
+//
+// Entries are appended as JSON lines. Only the last line can be cut short by a
+// crash mid-write; load() truncates it away (its reservation never reached the
+// handler) so the next append starts on a fresh line. A bad line anywhere else
+// means the log itself is damaged, and load() refuses to guess.
+
+function parseLine(line: string): ConsumedEntry | undefined {
+  try {
+    const raw = JSON.parse(line);
+    if (!raw || typeof raw !== 'object' || !Array.isArray(raw.ids)) return undefined;
+    return {
+      stream: raw.stream ?? undefined,
+      nonce: raw.nonce !== undefined ? BigInt(raw.nonce) : undefined,
+      ids: raw.ids,
+      ...(raw.released === true && { released: true })
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+export class FileNonceStore implements NonceStore {
+  constructor(private readonly path: string) {}
+
+  async load(): Promise<ConsumedEntry[]> {
+    let contents: string;
+    try {
+      contents = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const lines = contents.split('\n');
+    const lastLine = lines.map(line => line.trim() !== '').lastIndexOf(true);
+    const entries: ConsumedEntry[] = [];
+    let offset = 0; // Characters before the current line
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const entry = line.trim() ? parseLine(line) : undefined;
+      if (entry) {
+        entries.push(entry);
+      } else if (line.trim() && i === lastLine) {
+        await truncate(this.path, Buffer.byteLength(contents.slice(0, offset), 'utf8'));
+        return entries;
+      } else if (line.trim()) {
+        throw new ReplayError(`Corrupt nonce log entry on line ${i + 1}`, {
+          reason: 'CORRUPT_LOG',
+          path: this.path,
+          line: i + 1
+        });
+      }
+      offset += line.length + 1;
+    }
+
+    // A complete entry whose newline was lost still needs one before the next append
+    if (contents.length > 0 && !contents.endsWith('\n')) {
+      await appendFile(this.path, '\n', 'utf8');
+    }
+    return entries;
+  }
+
+  async append(entry: ConsumedEntry): Promise<void> {
+    const line = JSON.stringify({
+      stream: entry.stream,
+      nonce: entry.nonce?.toString(),
+      ids: entry.ids,
+      ...(entry.released && { released: true })
+    });
+    await appendFile(this.path, line + '\n', 'utf8');
+  }
+}
@@ -0,0 +1,251 @@
+import { PhotonXError } from './types';
+import type { Envelope } from './envelope';
+
+// ============================================================================
+// REPLAY PROTECTION TYPES
+// ============================================================================
+//
+// Every accepted message advances a nonce stream and may consume single-use
+// identifiers (quoteId, fillId). Consumption is written to a NonceStore as an
+// append-only log, so a restarted process replays the log and keeps rejecting
+// anything it accepted before the restart. A key is logged before its message
+// is handled and released only if handling fails, so a crash mid-handling can
+// never let the same message run twice.
+
+export interface ReplayKey {
+  readonly stream?: string; // Nonce sequence advanced by the message
+  readonly nonce?: bigint;
+  readonly contiguous?: boolean; // Nonce must be exactly last + 1 rather than merely greater
+  readonly ids: readonly string[]; // Identifiers that may only ever be used once
+}
+
+export interface ConsumedEntry {
+  readonly stream?: string;
+  readonly nonce?: bigint;
+  readonly ids: readonly string[];
+  readonly released?: boolean; // Undoes the latest earlier entry for the same key
+}
+
+export interface NonceStore {
+  load(): Promise<ConsumedEntry[]>;
+  append(entry: ConsumedEntry): Promise<void>;
+}
+
+export type ReplayErrorReason =
+  | 'STALE_NONCE'
+  | 'NONCE_GAP'
+  | 'DUPLICATE_ID'
+  | 'IN_FLIGHT'
+  | 'NOT_LOADED'
+  | 'CORRUPT_LOG';
+
+export class ReplayError extends PhotonXError {
+  constructor(message: string, details?: any) {
+    super(message, 'REPLAY_ERROR', details);
+  }
+}
+
+// ============================================================================
+// STREAMS
+// ============================================================================
+
+/** Stream of co-signed channel state nonces (FILL, CANCEL, REPLACE). */
+export function channelStream(channelId: string): string {
+  return `channel:${channelId}`;
+}
+
+/** Per-sender stream for messages that do not advance channel state. */
+export function senderStream(channelId: string, sender: string, type: string): string {
+  return `sender:${channelId}:${sender.toLowerCase()}:${type}`;
+}
+
+/**
+ * Replay key for an authenticated envelope, or undefined for messages whose
+ * replay is already prevented on-chain (CHECKPOINT, SETTLEMENT).
+ */
+export function replayKeyOf(envelope: Envelope): ReplayKey | undefined {
+  switch (envelope.type) {
+    case 'QUOTE_REQUEST':
+    case 'HEARTBEAT': {
+      const { channelId, nonce } = envelope.payload;
+      return { stream: senderStream(channelId.value, envelope.sender.value, envelope.type), nonce, ids: [] };
+    }
+    case 'QUOTE':
+      return { ids: [`quote:${envelope.payload.quoteId}`] };
+    case 'FILL': {
+      const { channelId, nonce, fillId } = envelope.payload;
+      return { stream: channelStream(channelId.value), nonce, contiguous: true, ids: [`fill:${fillId}`] };
+    }
+    case 'CANCEL':
+    case 'REPLACE': {
+      const { channelId, nonce } = envelope.payload;
+      return { stream: channelStream(channelId.value), nonce, contiguous: true, ids: [] };
+    }
+    default:
+      return undefined;
+  }
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+export class InMemoryNonceStore implements NonceStore {
+  private readonly entries: ConsumedEntry[] = [];
+
+  async load(): Promise<ConsumedEntry[]> {
+    return [...this.entries];
+  }
+
+  async append(entry: ConsumedEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+}
+
+// ============================================================================
+// NONCE MANAGER
+// ============================================================================
+
+function sameKey(a: ConsumedEntry, b: ConsumedEntry): boolean {
+  return a.stream === b.stream && a.nonce === b.nonce && a.ids.join('\n') === b.ids.join('\n');
+}
+
+/**
+ * Tracks the last nonce per stream and every consumed identifier. Channel
+ * streams start at nonce 0 (the opening state), so the first channel message
+ * must carry nonce 1; sender streams only need strictly increasing nonces.
+ */
+export class NonceManager {
+  private readonly lastNonces = new Map<string, bigint>();
+  private readonly consumedIds = new Set<string>();
+  private readonly pendingStreams = new Set<string>();
+  private readonly pendingIds = new Set<string>();
+  private loaded = false;
+
+  constructor(private readonly store: NonceStore = new InMemoryNonceStore()) {}
+
+  /** Rebuilds state from the store; call once before the first check. */
+  async load(): Promise<void> {
+    const consumed: ConsumedEntry[] = [];
+    for (const entry of await this.store.load()) {
+      if (!entry.released) {
+        consumed.push(entry);
+        continue;
+      }
+      for (let i = consumed.length - 1; i >= 0; i--) {
+        if (sameKey(consumed[i], entry)) {
+          consumed.splice(i, 1);
+          break;
+        }
+      }
+    }
+    consumed.forEach(entry => this.commit(entry));
+    this.loaded = true;
+  }
+
+  lastNonce(stream: string): bigint | undefined {
+    return this.lastNonces.get(stream);
+  }
+
+  isConsumed(id: string): boolean {
+    return this.consumedIds.has(id);
+  }
+
+  check(key: ReplayKey): void {
+    if (!this.loaded) {
+      throw new ReplayError('Nonce manager used before load()', { reason: 'NOT_LOADED' });
+    }
+
+    for (const id of key.ids) {
+      if (this.consumedIds.has(id)) {
+        throw new ReplayError(`Identifier already used: ${id}`, { reason: 'DUPLICATE_ID', id });
+      }
+      if (this.pendingIds.has(id)) {
+        throw new ReplayError(`Identifier is being processed: ${id}`, { reason: 'IN_FLIGHT', id });
+      }
+    }
+
+    if (key.stream === undefined || key.nonce === undefined) return;
+
+    if (this.pendingStreams.has(key.stream)) {
+      throw new ReplayError('Another message on this stream is being processed', {
+        reason: 'IN_FLIGHT',
+        stream: key.stream
+      });
+    }
+
+    const last = this.lastNonces.get(key.stream);
+    if (key.contiguous) {
+      const expected = (last ?? 0n) + 1n;
+      if (key.nonce !== expected) {
+        throw new ReplayError(key.nonce < expected ? 'Nonce already used' : 'Nonce skips ahead', {
+          reason: key.nonce < expected ? 'STALE_NONCE' : 'NONCE_GAP',
+          stream: key.stream,
+          expected: expected.toString(),
+          received: key.nonce.toString()
+        });
+      }
+    } else if (last !== undefined && key.nonce <= last) {
+      throw new ReplayError('Nonce already used', {
+        reason: 'STALE_NONCE',
+        stream: key.stream,
+        last: last.toString(),
+        received: key.nonce.toString()
+      });
+    }
+  }
+
+  async consume(key: ReplayKey): Promise<void> {
+    await this.guard(key, async () => undefined);
+  }
+
+  /**
+   * Runs `action` only if `key` is fresh. The key is persisted before `action`
+   * starts, so a crash while it runs leaves the key consumed; if `action`
+   * throws, a release is appended and the key can be used again. While
+   * `action` runs, a concurrent duplicate is rejected as IN_FLIGHT.
+   */
+  async guard<T>(key: ReplayKey, action: () => Promise<T> | T): Promise<T> {
+    this.check(key);
+
+    const stream = key.stream !== undefined && key.nonce !== undefined ? key.stream : undefined;
+    if (stream !== undefined) this.pendingStreams.add(stream);
+    key.ids.forEach(id => this.pendingIds.add(id));
+
+    const entry: ConsumedEntry = { stream, nonce: stream !== undefined ? key.nonce : undefined, ids: [...key.ids] };
+    try {
+      await this.store.append(entry);
+      let result: T;
+      try {
+        result = await action();
+      } catch (error) {
+        await this.release(entry);
+        throw error;
+      }
+      this.commit(entry);
+      return result;
+    } finally {
+      if (stream !== undefined) this.pendingStreams.delete(stream);
+      key.ids.forEach(id => this.pendingIds.delete(id));
+    }
+  }
+
+  private async release(entry: ConsumedEntry): Promise<void> {
+    try {
+      await this.store.append({ ...entry, released: true });
+    } catch {
+      // The reservation stands in the store, so it must stand here too
+      this.commit(entry);
+    }
+  }
+
+  private commit(entry: ConsumedEntry): void {
+    if (entry.stream !== undefined && entry.nonce !== undefined) {
+      const last = this.lastNonces.get(entry.stream);
+      if (last === undefined || entry.nonce > last) {
+        this.lastNonces.set(entry.stream, entry.nonce);
+      }
+    }
+    entry.ids.forEach(id => this.consumedIds.add(id));
+  }
+}
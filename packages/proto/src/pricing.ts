@@ -0,0 +1,141 @@
+import { OrderSide, Quote, QuoteRequest, QuoteError, ValidationError, CONSTANTS } from './types';
+
+// ============================================================================
+// FIXED-POINT PRICING
+// ============================================================================
+//
+// `Quote.price` is quote-token units per whole base token, scaled by 1e18
+// (2000 USDC per WETH is 2000e18 regardless of token decimals). Every
+// conversion to raw token amounts goes through here so the UI, LP engine and
+// state transitions agree to the last wei.
+
+export type RoundingMode = 'DOWN' | 'UP';
+
+// Which side of the trade receives the rounding remainder
+export type RoundingFavour = 'LP' | 'TRADER';
+
+export interface NotionalParams {
+  readonly quantity: bigint; // Raw base-token amount
+  readonly price: bigint; // 1e18-scaled quote per base
+  readonly baseDecimals: number;
+  readonly quoteDecimals: number;
+}
+
+export interface FillAmounts {
+  readonly baseAmount: bigint;
+  readonly notional: bigint; // Raw quote-token amount before fees
+  readonly fee: bigint;
+  readonly traderQuoteAmount: bigint; // BUY: paid by trader, SELL: received by trader
+}
+
+const BPS = BigInt(CONSTANTS.BPS_PRECISION);
+
+export function mulDiv(a: bigint, b: bigint, denominator: bigint, rounding: RoundingMode = 'DOWN'): bigint {
+  if (denominator <= 0n) {
+    throw new ValidationError('Division by non-positive denominator', { denominator: denominator.toString() });
+  }
+  if (a < 0n || b < 0n) {
+    throw new ValidationError('mulDiv operands must be non-negative', { a: a.toString(), b: b.toString() });
+  }
+  const product = a * b;
+  const quotient = product / denominator;
+  return rounding === 'UP' && product % denominator !== 0n ? quotient + 1n : quotient;
+}
+
+/**
+ * Rounding direction for an amount flowing from `payer`: rounding up favours
+ * whoever receives it, rounding down favours whoever pays it.
+ */
+export function roundingFor(favour: RoundingFavour, payer: 'LP' | 'TRADER'): RoundingMode {
+  return favour === payer ? 'DOWN' : 'UP';
+}
+
+export function computeNotional(params: NotionalParams, rounding: RoundingMode = 'DOWN'): bigint {
+  const numerator = 10n ** BigInt(params.quoteDecimals);
+  const denominator = 10n ** BigInt(params.baseDecimals) * CONSTANTS.PRICE_PRECISION;
+  return mulDiv(params.quantity * params.price, numerator, denominator, rounding);
+}
+
+export function applyFeeBps(amount: bigint, feeBps: number, rounding: RoundingMode = 'DOWN'): bigint {
+  if (!Number.isInteger(feeBps) || feeBps < 0 || feeBps > CONSTANTS.BPS_PRECISION) {
+    throw new ValidationError(`Invalid fee: ${feeBps} bps`, { feeBps });
+  }
+  return mulDiv(amount, BigInt(feeBps), BPS, rounding);
+}
+
+/**
+ * Quote-token amounts for a fill. The LP fee is paid by the trader in the
+ * quote token: a BUY costs notional + fee, a SELL yields notional - fee.
+ */
+export function computeFillAmounts(
+  side: OrderSide,
+  params: NotionalParams,
+  lpFeeBps: number,
+  favour: RoundingFavour = 'LP'
+): FillAmounts {
+  // BUY: trader pays quote tokens; SELL: LP pays quote tokens
+  const payer = side === 'BUY' ? 'TRADER' : 'LP';
+  const notional = computeNotional(params, roundingFor(favour, payer));
+  const fee = applyFeeBps(notional, lpFeeBps, roundingFor(favour, 'TRADER'));
+  const traderQuoteAmount = side === 'BUY' ? notional + fee : notional - fee;
+
+  return { baseAmount: params.quantity, notional, fee, traderQuoteAmount };
+}
+
+/**
+ * Price the trader effectively pays (BUY) or receives (SELL) per base token
+ * once the LP fee is included, still 1e18-scaled.
+ */
+export function effectivePrice(side: OrderSide, price: bigint, lpFeeBps: number): bigint {
+  const fee = BigInt(lpFeeBps);
+  return side === 'BUY'
+    ? mulDiv(price, BPS + fee, BPS, 'UP')
+    : mulDiv(price, BPS - fee, BPS, 'DOWN');
+}
+
+// ============================================================================
+// SLIPPAGE GUARD
+// ============================================================================
+
+/**
+ * Signed slippage of `price` against `referencePrice` from the trader's point
+ * of view, in bps: positive is worse for the trader, negative is improvement.
+ */
+export function calculateSlippageBps(side: OrderSide, price: bigint, referencePrice: bigint): number {
+  if (referencePrice <= 0n) {
+    throw new ValidationError('Reference price must be positive', { referencePrice: referencePrice.toString() });
+  }
+  const diff = side === 'BUY' ? price - referencePrice : referencePrice - price;
+  const magnitude = mulDiv(diff < 0n ? -diff : diff, BPS, referencePrice, 'UP');
+  return Number(diff < 0n ? -magnitude : magnitude);
+}
+
+/**
+ * Rejects a quote that does not answer `request` or whose fee-inclusive price
+ * is further from `referencePrice` than `request.maxSlippageBps` allows.
+ */
+export function assertWithinSlippage(request: QuoteRequest, quote: Quote, referencePrice: bigint): void {
+  if (quote.side !== request.side) {
+    throw new QuoteError('Quote side does not match request', { requested: request.side, quoted: quote.side });
+  }
+  if (quote.quantity > request.quantity) {
+    throw new QuoteError('Quote quantity exceeds request', {
+      requested: request.quantity.toString(),
+      quoted: quote.quantity.toString()
+    });
+  }
+
+  const slippageBps = calculateSlippageBps(
+    request.side,
+    effectivePrice(quote.side, quote.price, quote.lpFeeBps),
+    referencePrice
+  );
+  if (slippageBps > request.maxSlippageBps) {
+    throw new QuoteError('Quote exceeds maximum slippage', {
+      slippageBps,
+      maxSlippageBps: request.maxSlippageBps,
+      price: quote.price.toString(),
+      referencePrice: referencePrice.toString()
+    });
+  }
+}
@@ -0,0 +1,207 @@
+import { ChannelState, Fill, Quote, QuoteStatus, FillError, QuoteError } from './types';
+import { applyFill, FillTerms } from './transitions';
+
+// ============================================================================
+// PARTIAL FILL TRACKING
+// ============================================================================
+//
+// A firm quote may be taken in several fills. Each signed Fill states the
+// quantity left on the quote after it, so either party can replay the fills
+// for a quoteId and arrive at the same remaining quantity and status.
+
+export interface QuoteFillState {
+  readonly quote: Quote;
+  readonly filledQuantity: bigint;
+  readonly remainingQuantity: bigint;
+  readonly status: QuoteStatus;
+  readonly fillIds: readonly string[];
+}
+
+export interface PartialFillResult {
+  readonly channelState: ChannelState;
+  readonly quoteState: QuoteFillState;
+}
+
+const CLOSED_STATUSES: readonly QuoteStatus[] = ['FILLED', 'CANCELLED', 'EXPIRED'];
+
+export function openQuoteFillState(quote: Quote): QuoteFillState {
+  return {
+    quote,
+    filledQuantity: 0n,
+    remainingQuantity: quote.quantity,
+    status: 'QUOTED',
+    fillIds: []
+  };
+}
+
+/**
+ * Remaining quantity a fill of `quantity` must declare, rejecting fills
+ * that would take more than is left on the quote.
+ */
+export function computeRemainingQuantity(state: QuoteFillState, quantity: bigint): bigint {
+  if (quantity <= 0n) {
+    throw new FillError('Fill quantity must be positive', { quantity: quantity.toString() });
+  }
+  if (quantity > state.remainingQuantity) {
+    throw new FillError('Fill exceeds remaining quote quantity', {
+      quoteId: state.quote.quoteId,
+      quantity: quantity.toString(),
+      remainingQuantity: state.remainingQuantity.toString()
+    });
+  }
+  return state.remainingQuantity - quantity;
+}
+
+export function recordPartialFill(state: QuoteFillState, fill: Fill): QuoteFillState {
+  const { quote } = state;
+
+  if (fill.quoteId !== quote.quoteId || fill.channelId.value !== quote.channelId.value) {
+    throw new FillError('Fill does not reference this quote', {
+      quoteId: quote.quoteId,
+      fillQuoteId: fill.quoteId
+    });
+  }
+  if (CLOSED_STATUSES.includes(state.status)) {
+    throw new QuoteError(`Quote is ${state.status.toLowerCase()}`, {
+      quoteId: quote.quoteId,
+      status: state.status
+    });
+  }
+  if (state.fillIds.includes(fill.fillId)) {
+    throw new FillError('Fill already recorded', { quoteId: quote.quoteId, fillId: fill.fillId });
+  }
+  if (fill.lp.value.toLowerCase() !== quote.lp.value.toLowerCase()) {
+    throw new FillError('Fill LP does not match quote', { quoteLp: quote.lp.value, fillLp: fill.lp.value });
+  }
+  if (fill.price !== quote.price) {
+    throw new FillError('Fill price does not match quote', {
+      quotePrice: quote.price.toString(),
+      fillPrice: fill.price.toString()
+    });
+  }
+  if (fill.timestamp > quote.expiryTimestamp) {
+    throw new QuoteError('Quote expired before fill', {
+      quoteId: quote.quoteId,
+      expiryTimestamp: quote.expiryTimestamp.toString(),
+      fillTimestamp: fill.timestamp.toString()
+    });
+  }
+
+  const remainingQuantity = computeRemainingQuantity(state, fill.quantity);
+  if (fill.remainingQuantity !== remainingQuantity) {
+    throw new FillError('Fill remaining quantity is inconsistent with prior fills', {
+      quoteId: quote.quoteId,
+      expected: remainingQuantity.toString(),
+      received: fill.remainingQuantity.toString()
+    });
+  }
+
+  return {
+    quote,
+    filledQuantity: state.filledQuantity + fill.quantity,
+    remainingQuantity,
+    status: remainingQuantity === 0n ? 'FILLED' : 'PARTIALLY_FILLED',
+    fillIds: [...state.fillIds, fill.fillId]
+  };
+}
+
+export function cancelQuoteFillState(state: QuoteFillState): QuoteFillState {
+  if (CLOSED_STATUSES.includes(state.status)) {
+    throw new QuoteError(`Quote is ${state.status.toLowerCase()}`, {
+      quoteId: state.quote.quoteId,
+      status: state.status
+    });
+  }
+  return { ...state, status: 'CANCELLED' };
+}
+
+/**
+ * Validates `fill` against the quote's fill history and applies its balance
+ * deltas to the channel. Neither input is modified; both results are new.
+ */
+export function applyPartialFill(
+  channelState: ChannelState,
+  quoteState: QuoteFillState,
+  fill: Fill,
+  terms: FillTerms
+): PartialFillResult {
+  if (terms.side !== quoteState.quote.side) {
+    throw new FillError('Fill side does not match quote', {
+      quoteSide: quoteState.quote.side,
+      fillSide: terms.side
+    });
+  }
+  if (terms.lpFeeBps !== quoteState.quote.lpFeeBps) {
+    throw new FillError('Fill fee does not match quote', {
+      quoteFeeBps: quoteState.quote.lpFeeBps,
+      fillFeeBps: terms.lpFeeBps
+    });
+  }
+
+  const nextQuoteState = recordPartialFill(quoteState, fill);
+  return {
+    channelState: applyFill(channelState, fill, terms),
+    quoteState: nextQuoteState
+  };
+}
+
+// ============================================================================
+// QUOTE BOOK
+// ============================================================================
+
+/**
+ * Fill state for every live quote on a channel. `expire` takes the current
+ * time explicitly so the book itself stays deterministic.
+ */
+export class QuoteBook {
+  private readonly quotes = new Map<string, QuoteFillState>();
+
+  track(quote: Quote): QuoteFillState {
+    if (this.quotes.has(quote.quoteId)) {
+      throw new QuoteError('Quote already tracked', { quoteId: quote.quoteId });
+    }
+    const state = openQuoteFillState(quote);
+    this.quotes.set(quote.quoteId, state);
+    return state;
+  }
+
+  get(quoteId: string): QuoteFillState | undefined {
+    return this.quotes.get(quoteId);
+  }
+
+  remaining(quoteId: string): bigint {
+    return this.require(quoteId).remainingQuantity;
+  }
+
+  apply(channelState: ChannelState, fill: Fill, terms: FillTerms): ChannelState {
+    const result = applyPartialFill(channelState, this.require(fill.quoteId), fill, terms);
+    this.quotes.set(fill.quoteId, result.quoteState);
+    return result.channelState;
+  }
+
+  cancel(quoteId: string): QuoteFillState {
+    const state = cancelQuoteFillState(this.require(quoteId));
+    this.quotes.set(quoteId, state);
+    return state;
+  }
+
+  expire(now: bigint): QuoteFillState[] {
+    const expired: QuoteFillState[] = [];
+    this.quotes.forEach((state, quoteId) => {
+      if (!CLOSED_STATUSES.includes(state.status) && now > state.quote.expiryTimestamp) {
+        const next: QuoteFillState = { ...state, status: 'EXPIRED' };
+        this.quotes.set(quoteId, next);
+        expired.push(next);
+      }
+    });
+    return expired;
+  }
+
+  private require(quoteId: string): QuoteFillState {
+    const state = this.quotes.get(quoteId);
+    if (!state) {
+      throw new QuoteError('Unknown quote', { quoteId });
+    }
+    return state;
+  }
+}
@@ -0,0 +1,267 @@
+import { Signer, TypedDataDomain } from 'ethers';
+import {
+  Address,
+  ChannelId,
+  SessionAuthorization,
+  SessionAuthorizationSchema,
+  PhotonXError,
+  CONSTANTS
+} from './types';
+import {
+  EIP712_TYPES,
+  selectTypes,
+  computeStructHash,
+  computeMessageHash,
+  serializeSessionAuthorization,
+  validateSignature,
+  verifySignature,
+  SignatureProvider
+} from './eip712';
+import { WireSignedSessionAuthorizationSchema, decodeWith } from './wire';
+import { FillDeltas, FillTerms } from './transitions';
+import { Clock, systemClock } from './time';
+
+// ============================================================================
+// SESSION KEY TYPES
+// ============================================================================
+//
+// A participant's main wallet signs one SessionAuthorization per channel,
+// naming an ephemeral delegate key. The delegate then signs envelopes and
+// channel states, and verifiers accept its signature in place of the owner's
+// while the authorization is in scope. The signed authorization travels with
+// whatever it authorizes, so it can be checked without shared state; only
+// revocation and the notional cap need a SessionKeyLedger.
+
+export interface SignedSessionAuthorization {
+  readonly authorization: SessionAuthorization;
+  readonly signature: string; // Owner's EIP-712 signature
+}
+
+export interface SessionAuthorizationParams {
+  readonly owner: Address;
+  readonly delegate: Address;
+  readonly channelId: ChannelId;
+  readonly notionalToken: Address;
+  readonly maxNotional: bigint;
+  readonly ttlMs?: number; // Defaults to SESSION_KEY_TTL_MS
+  readonly nonce?: bigint;
+}
+
+// What a delegated signature is being checked against
+export interface SessionScope {
+  readonly channelId: ChannelId;
+  readonly owners: readonly Address[]; // Addresses the delegate may stand in for
+  readonly delegate?: Address; // Key that produced the signature, when known
+  readonly at: bigint; // Envelope receipt time, or the signed state's timestamp
+}
+
+export type SessionKeyErrorReason =
+  | 'INVALID_AUTHORIZATION'
+  | 'EXPIRED'
+  | 'SCOPE_MISMATCH'
+  | 'NOTIONAL_EXCEEDED'
+  | 'REVOKED';
+
+export class SessionKeyError extends PhotonXError {
+  constructor(message: string, details?: any) {
+    super(message, 'SESSION_KEY_ERROR', details);
+  }
+}
+
+function sessionKeyError(
+  reason: SessionKeyErrorReason,
+  message: string,
+  details: Record<string, any> = {}
+): SessionKeyError {
+  return new SessionKeyError(message, { reason, ...details });
+}
+
+function sameAddress(a: Address, b: Address): boolean {
+  return a.value.toLowerCase() === b.value.toLowerCase();
+}
+
+// ============================================================================
+// AUTHORIZATION SIGNING
+// ============================================================================
+
+export function createSessionAuthorization(
+  params: SessionAuthorizationParams,
+  clock: Clock = systemClock
+): SessionAuthorization {
+  return decodeWith(
+    SessionAuthorizationSchema,
+    {
+      owner: params.owner,
+      delegate: params.delegate,
+      channelId: params.channelId,
+      notionalToken: params.notionalToken,
+      maxNotional: params.maxNotional,
+      expiry: clock.now() + BigInt(params.ttlMs ?? CONSTANTS.SESSION_KEY_TTL_MS),
+      nonce: params.nonce ?? 0n
+    },
+    'SessionAuthorization'
+  );
+}
+
+/** Identifies an authorization independently of the domain it was signed under. */
+export function computeSessionAuthorizationId(authorization: SessionAuthorization): string {
+  return computeStructHash(EIP712_TYPES, 'SessionAuthorization', serializeSessionAuthorization(authorization));
+}
+
+// The digest the owner's wallet signs
+export function computeSessionAuthorizationHash(
+  authorization: SessionAuthorization,
+  domain: TypedDataDomain
+): string {
+  return computeMessageHash(
+    domain,
+    EIP712_TYPES,
+    'SessionAuthorization',
+    serializeSessionAuthorization(authorization)
+  );
+}
+
+export async function signSessionAuthorization(
+  authorization: SessionAuthorization,
+  owner: Pick<Signer, 'getAddress' | 'signTypedData'>,
+  domain: TypedDataDomain
+): Promise<SignedSessionAuthorization> {
+  const address = await owner.getAddress();
+  if (!sameAddress({ value: address }, authorization.owner)) {
+    throw sessionKeyError('INVALID_AUTHORIZATION', 'Session authorization must be signed by its owner', {
+      owner: authorization.owner.value,
+      signer: address
+    });
+  }
+
+  const signature = await owner.signTypedData(
+    domain,
+    selectTypes(EIP712_TYPES, 'SessionAuthorization'),
+    serializeSessionAuthorization(authorization)
+  );
+  return { authorization, signature };
+}
+
+export function serializeSignedSessionAuthorization(signed: SignedSessionAuthorization): Record<string, any> {
+  return {
+    authorization: serializeSessionAuthorization(signed.authorization),
+    signature: signed.signature
+  };
+}
+
+export function deserializeSignedSessionAuthorization(data: unknown): SignedSessionAuthorization {
+  return decodeWith(WireSignedSessionAuthorizationSchema, data, 'SignedSessionAuthorization');
+}
+
+// ============================================================================
+// AUTHORIZATION VERIFICATION
+// ============================================================================
+
+/** Synchronous owner signature check; EOA owners only. */
+export function validateSessionAuthorization(signed: SignedSessionAuthorization, domain: TypedDataDomain): boolean {
+  const hash = computeSessionAuthorizationHash(signed.authorization, domain);
+  return validateSignature(signed.signature, signed.authorization.owner.value, hash);
+}
+
+/** Like `validateSessionAuthorization`, but accepts EIP-1271 owners when a provider is given. */
+export async function verifySessionAuthorization(
+  signed: SignedSessionAuthorization,
+  domain: TypedDataDomain,
+  provider?: SignatureProvider
+): Promise<boolean> {
+  const hash = computeSessionAuthorizationHash(signed.authorization, domain);
+  return verifySignature(signed.signature, signed.authorization.owner.value, hash, provider);
+}
+
+export function assertSessionScope(authorization: SessionAuthorization, scope: SessionScope): void {
+  if (scope.delegate && !sameAddress(scope.delegate, authorization.delegate)) {
+    throw sessionKeyError('SCOPE_MISMATCH', 'Signer is not the authorized delegate', {
+      delegate: authorization.delegate.value,
+      signer: scope.delegate.value
+    });
+  }
+  if (!scope.owners.some(owner => sameAddress(owner, authorization.owner))) {
+    throw sessionKeyError('SCOPE_MISMATCH', 'Session owner may not sign this message', {
+      owner: authorization.owner.value,
+      allowed: scope.owners.map(owner => owner.value)
+    });
+  }
+  if (authorization.channelId.value !== scope.channelId.value) {
+    throw sessionKeyError('SCOPE_MISMATCH', 'Session authorization is for a different channel', {
+      expected: scope.channelId.value,
+      received: authorization.channelId.value
+    });
+  }
+  if (scope.at > authorization.expiry) {
+    throw sessionKeyError('EXPIRED', 'Session authorization has expired', {
+      expiry: authorization.expiry.toString(),
+      at: scope.at.toString()
+    });
+  }
+}
+
+// ============================================================================
+// SESSION KEY LEDGER
+// ============================================================================
+
+export class SessionKeyLedger {
+  private readonly spent = new Map<string, bigint>();
+  private readonly revoked = new Set<string>();
+
+  isRevoked(authorization: SessionAuthorization): boolean {
+    return this.revoked.has(computeSessionAuthorizationId(authorization));
+  }
+
+  revoke(authorization: SessionAuthorization): void {
+    this.revoked.add(computeSessionAuthorizationId(authorization));
+  }
+
+  spentNotional(authorization: SessionAuthorization): bigint {
+    return this.spent.get(computeSessionAuthorizationId(authorization)) ?? 0n;
+  }
+
+  remainingNotional(authorization: SessionAuthorization): bigint {
+    return authorization.maxNotional - this.spentNotional(authorization);
+  }
+
+  assertActive(authorization: SessionAuthorization): void {
+    if (this.isRevoked(authorization)) {
+      throw sessionKeyError('REVOKED', 'Session authorization has been revoked', {
+        delegate: authorization.delegate.value
+      });
+    }
+  }
+
+  /**
+   * Counts a delegated fill's notional against the authorization's cap and
+   * returns what is left. The cap is only enforced in `notionalToken`.
+   */
+  charge(authorization: SessionAuthorization, terms: FillTerms, deltas: FillDeltas): bigint {
+    this.assertActive(authorization);
+    if (!sameAddress(terms.quoteToken, authorization.notionalToken)) {
+      throw sessionKeyError('SCOPE_MISMATCH', 'Fill is not quoted in the session notional token', {
+        notionalToken: authorization.notionalToken.value,
+        quoteToken: terms.quoteToken.value
+      });
+    }
+
+    const spent = this.spentNotional(authorization) + deltas.quoteAmount;
+    if (spent > authorization.maxNotional) {
+      throw sessionKeyError('NOTIONAL_EXCEEDED', 'Fill exceeds the session notional cap', {
+        maxNotional: authorization.maxNotional.toString(),
+        spent: spent.toString()
+      });
+    }
+
+    this.spent.set(computeSessionAuthorizationId(authorization), spent);
+    return authorization.maxNotional - spent;
+  }
+
+  /** Gives back what `charge` counted for a fill that was not applied after all. */
+  refund(authorization: SessionAuthorization, deltas: FillDeltas): bigint {
+    const remaining = this.spentNotional(authorization) - deltas.quoteAmount;
+    const spent = remaining > 0n ? remaining : 0n;
+    this.spent.set(computeSessionAuthorizationId(authorization), spent);
+    return authorization.maxNotional - spent;
+  }
+}
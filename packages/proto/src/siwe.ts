@@ -0,0 +1,271 @@
+import { Signer, getAddress, hashMessage, hexlify, randomBytes } from 'ethers';
+import { z } from 'zod';
+import { AddressSchema, PhotonXError } from './types';
+import { verifySignature, SignatureProvider } from './eip712';
+import { decodeWith } from './wire';
+import { Clock, systemClock } from './time';
+
+// ============================================================================
+// SIWE TYPES
+// ============================================================================
+//
+// Sign-In with Ethereum (EIP-4361). The wallet personal-signs a plain-text
+// message naming the site, the account and a server-issued nonce; the server
+// parses the exact text it was given and checks the signature over it, so
+// formatting only has to be right on the signing side.
+
+export const SiweMessageSchema = z.object({
+  domain: z.string().regex(/^[^\s/]+$/, 'Expected an RFC 3986 authority, e.g. app.photonx.io'),
+  address: AddressSchema,
+  statement: z.string().regex(/^[^\n]*$/).optional(),
+  uri: z.string().url(),
+  version: z.literal('1'),
+  chainId: z.number().int().positive(),
+  nonce: z.string().regex(/^[a-zA-Z0-9]{8,}$/),
+  issuedAt: z.bigint().positive(),
+  expirationTime: z.bigint().positive().optional(),
+  notBefore: z.bigint().positive().optional(),
+  requestId: z.string().regex(/^[^\n]*$/).optional(),
+  resources: z.array(z.string().url()).optional()
+}).readonly();
+
+export type SiweMessage = z.infer<typeof SiweMessageSchema>;
+
+export interface SiweMessageParams {
+  readonly domain: string;
+  readonly address: string;
+  readonly uri: string;
+  readonly chainId: number;
+  readonly nonce: string;
+  readonly statement?: string;
+  readonly ttlMs?: number; // Sets expirationTime
+  readonly requestId?: string;
+  readonly resources?: string[];
+}
+
+export interface SiweExpectations {
+  readonly domains: readonly string[]; // Hosts allowed to request a sign-in
+  readonly nonce?: string;
+  readonly chainIds?: readonly number[];
+}
+
+export type SiweErrorReason =
+  | 'MALFORMED_MESSAGE'
+  | 'DOMAIN_MISMATCH'
+  | 'CHAIN_MISMATCH'
+  | 'NONCE_MISMATCH'
+  | 'EXPIRED'
+  | 'NOT_YET_VALID'
+  | 'INVALID_SIGNATURE';
+
+export class SiweError extends PhotonXError {
+  constructor(message: string, details?: any) {
+    super(message, 'SIWE_ERROR', details);
+  }
+}
+
+function siweError(reason: SiweErrorReason, message: string, details?: Record<string, unknown>): SiweError {
+  return new SiweError(message, { reason, ...details });
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+/** 32 hex characters from a CSPRNG; comfortably above the 8-character minimum. */
+export function generateSiweNonce(): string {
+  return hexlify(randomBytes(16)).slice(2);
+}
+
+// ============================================================================
+// MESSAGE ENCODING
+// ============================================================================
+
+export function createSiweMessage(params: SiweMessageParams, clock: Clock = systemClock): SiweMessage {
+  const now = clock.now();
+  return decodeWith(
+    SiweMessageSchema,
+    {
+      domain: params.domain,
+      address: { value: params.address.toLowerCase() },
+      statement: params.statement,
+      uri: params.uri,
+      version: '1',
+      chainId: params.chainId,
+      nonce: params.nonce,
+      issuedAt: now,
+      expirationTime: params.ttlMs === undefined ? undefined : now + BigInt(params.ttlMs),
+      requestId: params.requestId,
+      resources: params.resources
+    },
+    'SiweMessage'
+  );
+}
+
+function toIso(timestamp: bigint): string {
+  return new Date(Number(timestamp)).toISOString();
+}
+
+/** The exact EIP-4361 text the wallet signs. */
+export function formatSiweMessage(message: SiweMessage): string {
+  const lines = [
+    `${message.domain}${HEADER_SUFFIX}`,
+    getAddress(message.address.value), // EIP-4361 requires the EIP-55 checksum form
+    '',
+    ...(message.statement !== undefined ? [message.statement, ''] : ['']),
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${toIso(message.issuedAt)}`
+  ];
+  if (message.expirationTime !== undefined) lines.push(`Expiration Time: ${toIso(message.expirationTime)}`);
+  if (message.notBefore !== undefined) lines.push(`Not Before: ${toIso(message.notBefore)}`);
+  if (message.requestId !== undefined) lines.push(`Request ID: ${message.requestId}`);
+  if (message.resources?.length) {
+    lines.push('Resources:', ...message.resources.map(resource => `- ${resource}`));
+  }
+  return lines.join('\n');
+}
+
+export function parseSiweMessage(text: string): SiweMessage {
+  const malformed = (detail: string) =>
+    siweError('MALFORMED_MESSAGE', `Malformed SIWE message: ${detail}`);
+
+  const lines = text.split('\n');
+  if (!lines[0]?.endsWith(HEADER_SUFFIX)) throw malformed('missing header');
+  // The optional scheme prefix is not part of the domain
+  const domain = lines[0].slice(0, -HEADER_SUFFIX.length).replace(/^[a-z][a-z0-9+.-]*:\/\//i, '');
+
+  const address = lines[1] ?? '';
+  let checksummed: string;
+  try {
+    checksummed = getAddress(address);
+  } catch {
+    throw malformed('invalid address');
+  }
+  if (checksummed !== address) throw malformed('address is not EIP-55 checksummed');
+  if (lines[2] !== '') throw malformed('expected a blank line after the address');
+
+  let index = 3;
+  let statement: string | undefined;
+  if (lines[index] !== '') {
+    statement = lines[index];
+    index++;
+    if (lines[index] !== '') throw malformed('expected a blank line after the statement');
+  }
+  index++;
+
+  const field = (label: string, required: boolean): string | undefined => {
+    const prefix = `${label}: `;
+    if (lines[index]?.startsWith(prefix)) return lines[index++].slice(prefix.length);
+    if (required) throw malformed(`missing ${label}`);
+    return undefined;
+  };
+  const time = (label: string, required: boolean): bigint | undefined => {
+    const value = field(label, required);
+    if (value === undefined) return undefined;
+    const ms = Date.parse(value);
+    if (Number.isNaN(ms)) throw malformed(`invalid ${label}`);
+    return BigInt(ms);
+  };
+
+  const uri = field('URI', true);
+  const version = field('Version', true);
+  const chainId = field('Chain ID', true);
+  const nonce = field('Nonce', true);
+  const issuedAt = time('Issued At', true);
+  const expirationTime = time('Expiration Time', false);
+  const notBefore = time('Not Before', false);
+  const requestId = field('Request ID', false);
+
+  let resources: string[] | undefined;
+  if (lines[index] === 'Resources:') {
+    resources = [];
+    for (index++; lines[index]?.startsWith('- '); index++) {
+      resources.push(lines[index].slice(2));
+    }
+  }
+  if (index !== lines.length) throw malformed(`unexpected line ${index + 1}`);
+
+  try {
+    return decodeWith(
+      SiweMessageSchema,
+      {
+        domain,
+        address: { value: address.toLowerCase() },
+        statement,
+        uri,
+        version,
+        chainId: /^\d+$/.test(chainId!) ? Number(chainId) : NaN,
+        nonce,
+        issuedAt,
+        expirationTime,
+        notBefore,
+        requestId,
+        resources
+      },
+      'SiweMessage'
+    );
+  } catch (error) {
+    throw siweError('MALFORMED_MESSAGE', 'Malformed SIWE message', {
+      issues: error instanceof PhotonXError ? error.details?.issues : undefined
+    });
+  }
+}
+
+// ============================================================================
+// SIGNING AND VERIFICATION
+// ============================================================================
+
+export async function signSiweMessage(
+  message: SiweMessage,
+  signer: Pick<Signer, 'getAddress' | 'signMessage'>
+): Promise<{ message: string; signature: string }> {
+  const text = formatSiweMessage(message);
+  return { message: text, signature: await signer.signMessage(text) };
+}
+
+/**
+ * Parses `text` and checks it against `expected`, its validity window and the
+ * signature (EIP-1271 capable when a provider is given). Nonce freshness is
+ * the caller's job: only the issuer knows which nonces are outstanding.
+ */
+export async function verifySiweMessage(
+  text: string,
+  signature: string,
+  expected: SiweExpectations,
+  options: { provider?: SignatureProvider; clock?: Clock } = {}
+): Promise<SiweMessage> {
+  const message = parseSiweMessage(text);
+  const now = (options.clock ?? systemClock).now();
+
+  if (!expected.domains.includes(message.domain)) {
+    throw siweError('DOMAIN_MISMATCH', `Sign-in requested for an unexpected domain: ${message.domain}`, {
+      domain: message.domain
+    });
+  }
+  if (expected.chainIds && !expected.chainIds.includes(message.chainId)) {
+    throw siweError('CHAIN_MISMATCH', `Sign-in for unsupported chain ${message.chainId}`, {
+      chainId: message.chainId
+    });
+  }
+  if (expected.nonce !== undefined && message.nonce !== expected.nonce) {
+    throw siweError('NONCE_MISMATCH', 'Sign-in nonce does not match', { nonce: message.nonce });
+  }
+  if (message.expirationTime !== undefined && message.expirationTime <= now) {
+    throw siweError('EXPIRED', 'Sign-in message has expired', {
+      expirationTime: message.expirationTime.toString()
+    });
+  }
+  if (message.notBefore !== undefined && message.notBefore > now) {
+    throw siweError('NOT_YET_VALID', 'Sign-in message is not valid yet', {
+      notBefore: message.notBefore.toString()
+    });
+  }
+
+  if (!(await verifySignature(signature, message.address.value, hashMessage(text), options.provider))) {
+    throw siweError('INVALID_SIGNATURE', 'Invalid signature on sign-in message', {
+      address: message.address.value
+    });
+  }
+  return message;
+}
@@ -0,0 +1,306 @@
+import { z } from 'zod';
+import {
+  Address,
+  AddressSchema,
+  ChannelId,
+  ChannelIdSchema,
+  Fill,
+  PhotonXError,
+  Quote,
+  SignatureSchema,
+  CONSTANTS
+} from './types';
+import { serializeFill, serializeQuote } from './eip712';
+import { decodeWith, deserializeFill, deserializeQuote } from './wire';
+import { EnvelopeOf, deserializeEnvelope, serializeEnvelope } from './envelope';
+
+// ============================================================================
+// SOCKET FRAME TYPES
+// ============================================================================
+//
+// JSON frames exchanged over the coordinator's WebSocket. Clients SUBSCRIBE
+// to topics and get an ACK; every change published on a topic arrives as an
+// EVENT carrying the proto message it concerns. REQUEST frames mirror the
+// HTTP API and are answered by a RESPONSE or ERROR with the same `id`.
+// Either side may PING and the other answers PONG with the same timestamp.
+
+export type SocketTopicKind = 'QUOTES' | 'FILLS' | 'CHANNEL' | 'MARKET';
+
+export interface SocketTopic {
+  readonly kind: SocketTopicKind;
+  // A channel id, or a participant address for every channel it is on;
+  // MARKET topics are keyed by pair, e.g. "ETH/USDC"
+  readonly key: string;
+}
+
+export type SocketEvent =
+  | { readonly type: 'QUOTE'; readonly quote: Quote; readonly signature: string; readonly auctionId?: string }
+  | { readonly type: 'FILL'; readonly fill: Fill; readonly traderSignature: string; readonly lpSignature: string }
+  | {
+    readonly type: 'CHANNEL_STATE';
+    readonly channelId: ChannelId;
+    readonly trader: Address;
+    readonly lp: Address;
+    readonly nonce: bigint; // Nonce of the last fill applied
+    readonly lastFillId: string;
+    readonly updatedAt: bigint;
+  }
+  | { readonly type: 'MARKET_DATA'; readonly pair: string; readonly price: bigint; readonly timestamp: bigint }
+  // The LP's signed liveness beat; the trader verifies it like any other envelope
+  | { readonly type: 'HEARTBEAT'; readonly envelope: EnvelopeOf<'HEARTBEAT'> };
+
+export interface SocketErrorBody {
+  readonly code: string;
+  readonly message: string;
+  readonly details?: any;
+}
+
+export type SocketFrame =
+  | { readonly op: 'SUBSCRIBE'; readonly id: string; readonly topics: readonly string[] }
+  | { readonly op: 'UNSUBSCRIBE'; readonly id: string; readonly topics: readonly string[] }
+  | { readonly op: 'ACK'; readonly id: string; readonly topics?: readonly string[] }
+  | { readonly op: 'REQUEST'; readonly id: string; readonly method: string; readonly params?: unknown }
+  | { readonly op: 'RESPONSE'; readonly id: string; readonly result: unknown }
+  | { readonly op: 'ERROR'; readonly id?: string; readonly error: SocketErrorBody }
+  | { readonly op: 'EVENT'; readonly topic: string; readonly seq: number; readonly event: SocketEvent }
+  | { readonly op: 'PING'; readonly timestamp: bigint }
+  | { readonly op: 'PONG'; readonly timestamp: bigint };
+
+export type SocketFrameOf<O extends SocketFrame['op']> = Extract<SocketFrame, { op: O }>;
+
+export type SocketErrorReason =
+  | 'MALFORMED_FRAME'
+  | 'INVALID_TOPIC'
+  | 'UNKNOWN_METHOD'
+  | 'TIMEOUT'
+  | 'DISCONNECTED';
+
+export class SocketError extends PhotonXError {
+  constructor(message: string, details?: any) {
+    super(message, 'SOCKET_ERROR', details);
+  }
+}
+
+function socketError(reason: SocketErrorReason, message: string, details?: Record<string, unknown>): SocketError {
+  return new SocketError(message, { reason, ...details });
+}
+
+export interface ReconnectPolicy {
+  readonly initialDelayMs: number;
+  readonly maxDelayMs: number;
+  readonly multiplier: number;
+  readonly jitter: number; // Fraction of the delay randomized either way
+}
+
+export interface SocketPolicy {
+  readonly heartbeatIntervalMs: number;
+  readonly heartbeatTimeoutMs: number; // Silence after which the connection is treated as dead
+  readonly requestTimeoutMs: number;
+  readonly reconnect: ReconnectPolicy;
+}
+
+export const DEFAULT_SOCKET_POLICY: SocketPolicy = {
+  heartbeatIntervalMs: CONSTANTS.HEARTBEAT_INTERVAL_MS,
+  heartbeatTimeoutMs: CONSTANTS.HEARTBEAT_INTERVAL_MS * 3,
+  requestTimeoutMs: 10_000,
+  reconnect: {
+    initialDelayMs: 500,
+    maxDelayMs: 30_000,
+    multiplier: 2,
+    jitter: 0.2
+  }
+};
+
+/** Delay before reconnect attempt `attempt` (0-based): exponential, capped, jittered. */
+export function reconnectDelay(
+  attempt: number,
+  policy: ReconnectPolicy = DEFAULT_SOCKET_POLICY.reconnect,
+  random: () => number = Math.random
+): number {
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(policy.multiplier, attempt));
+  const spread = base * policy.jitter;
+  return Math.max(0, Math.round(base - spread + random() * spread * 2));
+}
+
+// ============================================================================
+// TOPICS
+// ============================================================================
+
+const TOPIC_PATTERN = /^(quotes|fills|channel|market):(.+)$/;
+const PAIR_PATTERN = /^[A-Z0-9]+\/[A-Z0-9]+$/;
+
+/** Canonical string form, which is what SUBSCRIBE and EVENT frames carry. */
+export function formatTopic(topic: SocketTopic): string {
+  const key = topic.kind === 'MARKET' ? topic.key.toUpperCase() : topic.key.toLowerCase();
+  return `${topic.kind.toLowerCase()}:${key}`;
+}
+
+export function parseTopic(value: string): SocketTopic {
+  const match = TOPIC_PATTERN.exec(value);
+  if (!match) {
+    throw socketError('INVALID_TOPIC', `Invalid topic: ${value}`, { topic: value });
+  }
+
+  const kind = match[1].toUpperCase() as SocketTopicKind;
+  const key = kind === 'MARKET' ? match[2].toUpperCase() : match[2].toLowerCase();
+  const valid = kind === 'MARKET'
+    ? PAIR_PATTERN.test(key)
+    : AddressSchema.safeParse({ value: key }).success || ChannelIdSchema.safeParse({ value: key }).success;
+  if (!valid) {
+    throw socketError('INVALID_TOPIC', `Invalid ${kind.toLowerCase()} topic key: ${match[2]}`, { topic: value });
+  }
+  return { kind, key };
+}
+
+/** Every topic a channel-scoped event is published on: the channel and both participants. */
+export function participantTopics(
+  kind: Exclude<SocketTopicKind, 'MARKET'>,
+  channel: { readonly channelId: ChannelId; readonly trader: Address; readonly lp: Address }
+): string[] {
+  return [channel.channelId.value, channel.trader.value, channel.lp.value].map(key => formatTopic({ kind, key }));
+}
+
+// ============================================================================
+// EVENT ENCODING
+// ============================================================================
+
+export function serializeSocketEvent(event: SocketEvent): Record<string, any> {
+  switch (event.type) {
+    case 'QUOTE':
+      return {
+        type: event.type,
+        quote: serializeQuote(event.quote),
+        signature: event.signature,
+        ...(event.auctionId && { auctionId: event.auctionId })
+      };
+    case 'FILL':
+      return {
+        type: event.type,
+        fill: serializeFill(event.fill),
+        traderSignature: event.traderSignature,
+        lpSignature: event.lpSignature
+      };
+    case 'CHANNEL_STATE':
+      return {
+        type: event.type,
+        channelId: event.channelId.value,
+        trader: event.trader.value,
+        lp: event.lp.value,
+        nonce: event.nonce.toString(),
+        lastFillId: event.lastFillId,
+        updatedAt: event.updatedAt.toString()
+      };
+    case 'MARKET_DATA':
+      return {
+        type: event.type,
+        pair: event.pair,
+        price: event.price.toString(),
+        timestamp: event.timestamp.toString()
+      };
+    case 'HEARTBEAT':
+      return { type: event.type, envelope: serializeEnvelope(event.envelope) };
+  }
+}
+
+const WireBigInt = z.string().regex(/^\d+$/).transform(value => BigInt(value));
+const WireAddress = z.string().regex(/^0x[a-fA-F0-9]{40}$/).transform(value => ({ value: value.toLowerCase() }));
+
+const WireSocketEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('QUOTE'),
+    quote: z.unknown().transform(deserializeQuote),
+    signature: SignatureSchema,
+    auctionId: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('FILL'),
+    fill: z.unknown().transform(deserializeFill),
+    traderSignature: SignatureSchema,
+    lpSignature: SignatureSchema
+  }),
+  z.object({
+    type: z.literal('CHANNEL_STATE'),
+    channelId: z.string().transform(value => ({ value })).pipe(ChannelIdSchema),
+    trader: WireAddress,
+    lp: WireAddress,
+    nonce: WireBigInt,
+    lastFillId: z.string().uuid(),
+    updatedAt: WireBigInt
+  }),
+  z.object({
+    type: z.literal('MARKET_DATA'),
+    pair: z.string().regex(PAIR_PATTERN),
+    price: WireBigInt,
+    timestamp: WireBigInt
+  }),
+  z.object({
+    type: z.literal('HEARTBEAT'),
+    envelope: z.unknown().transform(deserializeEnvelope).refine(envelope => envelope.type === 'HEARTBEAT', {
+      message: 'Expected a HEARTBEAT envelope'
+    })
+  })
+]);
+
+export function deserializeSocketEvent(data: unknown): SocketEvent {
+  return decodeWith(WireSocketEventSchema, data, 'SocketEvent') as SocketEvent;
+}
+
+// ============================================================================
+// FRAME ENCODING
+// ============================================================================
+
+export function serializeSocketFrame(frame: SocketFrame): Record<string, any> {
+  switch (frame.op) {
+    case 'EVENT':
+      return { op: frame.op, topic: frame.topic, seq: frame.seq, event: serializeSocketEvent(frame.event) };
+    case 'PING':
+    case 'PONG':
+      return { op: frame.op, timestamp: frame.timestamp.toString() };
+    default:
+      return { ...frame };
+  }
+}
+
+const FrameId = z.string().min(1).max(64);
+const Topics = z.array(z.string()).min(1).max(100);
+
+const WireSocketFrameSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('SUBSCRIBE'), id: FrameId, topics: Topics }),
+  z.object({ op: z.literal('UNSUBSCRIBE'), id: FrameId, topics: Topics }),
+  z.object({ op: z.literal('ACK'), id: FrameId, topics: z.array(z.string()).optional() }),
+  z.object({ op: z.literal('REQUEST'), id: FrameId, method: z.string().min(1), params: z.unknown().optional() }),
+  z.object({ op: z.literal('RESPONSE'), id: FrameId, result: z.unknown() }),
+  z.object({
+    op: z.literal('ERROR'),
+    id: FrameId.optional(),
+    error: z.object({ code: z.string(), message: z.string(), details: z.any().optional() })
+  }),
+  z.object({ op: z.literal('EVENT'), topic: z.string(), seq: z.number().int().nonnegative(), event: z.unknown() }),
+  z.object({ op: z.literal('PING'), timestamp: WireBigInt }),
+  z.object({ op: z.literal('PONG'), timestamp: WireBigInt })
+]);
+
+/** Parses a frame from its JSON text or already-parsed object. */
+export function deserializeSocketFrame(data: unknown): SocketFrame {
+  let raw = data;
+  if (typeof data === 'string') {
+    try {
+      raw = JSON.parse(data);
+    } catch {
+      throw socketError('MALFORMED_FRAME', 'Socket frame is not valid JSON');
+    }
+  }
+
+  const parsed = WireSocketFrameSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw socketError('MALFORMED_FRAME', 'Malformed socket frame', {
+      issues: parsed.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+    });
+  }
+
+  const frame = parsed.data;
+  if (frame.op === 'EVENT') {
+    return { ...frame, event: deserializeSocketEvent(frame.event) };
+  }
+  return frame as SocketFrame;
+}
@@ -0,0 +1,206 @@
+import { z } from 'zod';
+import { CONSTANTS } from './types';
+import { decodeWith } from './wire';
+
+// ============================================================================
+// CLOCKS
+// ============================================================================
+//
+// All protocol timestamps are Unix milliseconds. Peers never share a clock, so
+// every wall-clock comparison allows for skew, and clients correct their clock
+// with an offset estimated from the coordinator (see TIME SYNC below).
+
+export interface Clock {
+  now(): bigint;
+}
+
+export const systemClock: Clock = {
+  now: () => BigInt(Date.now())
+};
+
+// Message freshness: how old (or how far in the future) a signed timestamp may be
+export interface FreshnessPolicy {
+  readonly maxAgeMs: number;
+  readonly maxSkewMs: number;
+}
+
+// Quote expiry: how long after `expiryTimestamp` a fill is still accepted
+export interface ExpiryPolicy {
+  readonly graceMs: number;
+}
+
+export const DEFAULT_FRESHNESS_POLICY: FreshnessPolicy = {
+  maxAgeMs: CONSTANTS.QUOTE_EXPIRY_MS,
+  maxSkewMs: CONSTANTS.MAX_CLOCK_SKEW_MS
+};
+
+// Quotes are firm prices, so the LP only absorbs a small amount of skew
+export const DEFAULT_EXPIRY_POLICY: ExpiryPolicy = {
+  graceMs: 1_000
+};
+
+export function isFresh(
+  timestamp: bigint,
+  now: bigint,
+  policy: FreshnessPolicy = DEFAULT_FRESHNESS_POLICY
+): boolean {
+  const age = Number(now - timestamp);
+  return age >= -policy.maxSkewMs && age <= policy.maxAgeMs + policy.maxSkewMs;
+}
+
+export function isQuoteExpired(
+  expiryTimestamp: bigint,
+  now: bigint,
+  policy: ExpiryPolicy = DEFAULT_EXPIRY_POLICY
+): boolean {
+  return now > expiryTimestamp + BigInt(policy.graceMs);
+}
+
+/** Milliseconds left before `expiryTimestamp`, never negative. */
+export function remainingMs(expiryTimestamp: bigint, now: bigint): number {
+  return Math.max(0, Number(expiryTimestamp - now));
+}
+
+// ============================================================================
+// TIME SYNC
+// ============================================================================
+//
+// One NTP-style round trip: the client stamps t0 on send, the coordinator
+// stamps t1 on receipt and t2 on reply, the client stamps t3 on receipt.
+//   offset     = ((t1 - t0) + (t2 - t3)) / 2
+//   round trip = (t3 - t0) - (t2 - t1)
+
+const TimestampSchema = z.bigint().nonnegative();
+
+export const TimeSyncRequestSchema = z.object({
+  type: z.literal('TIME_SYNC_REQUEST'),
+  clientSendTime: TimestampSchema
+}).readonly();
+
+export const TimeSyncResponseSchema = z.object({
+  type: z.literal('TIME_SYNC_RESPONSE'),
+  clientSendTime: TimestampSchema,
+  serverReceiveTime: TimestampSchema,
+  serverSendTime: TimestampSchema
+}).refine(response => response.serverSendTime >= response.serverReceiveTime, {
+  message: 'serverSendTime precedes serverReceiveTime',
+  path: ['serverSendTime']
+}).readonly();
+
+export type TimeSyncRequest = z.infer<typeof TimeSyncRequestSchema>;
+
+export type TimeSyncResponse = z.infer<typeof TimeSyncResponseSchema>;
+
+export interface TimeSyncSample {
+  readonly offsetMs: number; // Add to the local clock to get coordinator time
+  readonly roundTripMs: number;
+}
+
+const WireTimestampSchema = z.string().regex(/^\d+$/).transform(value => BigInt(value));
+
+const WireTimeSyncRequestSchema = z
+  .object({
+    type: z.literal('TIME_SYNC_REQUEST'),
+    clientSendTime: WireTimestampSchema
+  })
+  .pipe(TimeSyncRequestSchema);
+
+const WireTimeSyncResponseSchema = z
+  .object({
+    type: z.literal('TIME_SYNC_RESPONSE'),
+    clientSendTime: WireTimestampSchema,
+    serverReceiveTime: WireTimestampSchema,
+    serverSendTime: WireTimestampSchema
+  })
+  .pipe(TimeSyncResponseSchema);
+
+export function createTimeSyncRequest(clock: Clock = systemClock): TimeSyncRequest {
+  return { type: 'TIME_SYNC_REQUEST', clientSendTime: clock.now() };
+}
+
+export function createTimeSyncResponse(
+  request: TimeSyncRequest,
+  serverReceiveTime: bigint,
+  clock: Clock = systemClock
+): TimeSyncResponse {
+  return {
+    type: 'TIME_SYNC_RESPONSE',
+    clientSendTime: request.clientSendTime,
+    serverReceiveTime,
+    serverSendTime: clock.now()
+  };
+}
+
+export function serializeTimeSyncRequest(request: TimeSyncRequest): Record<string, any> {
+  return { type: request.type, clientSendTime: request.clientSendTime.toString() };
+}
+
+export function serializeTimeSyncResponse(response: TimeSyncResponse): Record<string, any> {
+  return {
+    type: response.type,
+    clientSendTime: response.clientSendTime.toString(),
+    serverReceiveTime: response.serverReceiveTime.toString(),
+    serverSendTime: response.serverSendTime.toString()
+  };
+}
+
+export function deserializeTimeSyncRequest(data: unknown): TimeSyncRequest {
+  return decodeWith(WireTimeSyncRequestSchema, data, 'TimeSyncRequest');
+}
+
+export function deserializeTimeSyncResponse(data: unknown): TimeSyncResponse {
+  return decodeWith(WireTimeSyncResponseSchema, data, 'TimeSyncResponse');
+}
+
+export function computeTimeSyncSample(response: TimeSyncResponse, clientReceiveTime: bigint): TimeSyncSample {
+  const t0 = response.clientSendTime;
+  const t1 = response.serverReceiveTime;
+  const t2 = response.serverSendTime;
+  const t3 = clientReceiveTime;
+
+  return {
+    offsetMs: Number((t1 - t0) + (t2 - t3)) / 2,
+    roundTripMs: Math.max(0, Number((t3 - t0) - (t2 - t1)))
+  };
+}
+
+/**
+ * Local clock corrected by the offset from the lowest-latency recent sample;
+ * a short round trip bounds the offset error most tightly.
+ */
+export class SyncedClock implements Clock {
+  private samples: TimeSyncSample[] = [];
+
+  constructor(
+    private readonly base: Clock = systemClock,
+    private readonly maxSamples: number = 8
+  ) {}
+
+  get offsetMs(): number {
+    if (this.samples.length === 0) return 0;
+    return this.samples.reduce((best, sample) => (sample.roundTripMs < best.roundTripMs ? sample : best)).offsetMs;
+  }
+
+  get synced(): boolean {
+    return this.samples.length > 0;
+  }
+
+  now(): bigint {
+    return this.base.now() + BigInt(Math.round(this.offsetMs));
+  }
+
+  /** Records a completed exchange; `clientReceiveTime` must come from the base clock. */
+  addResponse(response: TimeSyncResponse, clientReceiveTime: bigint = this.base.now()): TimeSyncSample {
+    const sample = computeTimeSyncSample(response, clientReceiveTime);
+    this.samples = [...this.samples, sample].slice(-this.maxSamples);
+    return sample;
+  }
+
+  createRequest(): TimeSyncRequest {
+    return createTimeSyncRequest(this.base);
+  }
+
+  reset(): void {
+    this.samples = [];
+  }
+}
@@ -0,0 +1,150 @@
+import { Address, ChainId, TokenAmount, ValidationError } from './types';
+
+// ============================================================================
+// FIXED-POINT UNIT CONVERSION
+// ============================================================================
+
+/**
+ * Formats a raw integer amount with `decimals` implied decimal places.
+ * `maxFractionDigits` truncates (never rounds up) for display.
+ */
+export function formatFixed(value: bigint, decimals: number, maxFractionDigits: number = decimals): string {
+  const negative = value < 0n;
+  const absolute = negative ? -value : value;
+  const divisor = 10n ** BigInt(decimals);
+  const whole = absolute / divisor;
+  const fraction = (absolute % divisor)
+    .toString()
+    .padStart(decimals, '0')
+    .slice(0, Math.min(decimals, maxFractionDigits))
+    .replace(/0+$/, '');
+
+  const sign = negative && (whole !== 0n || fraction !== '') ? '-' : '';
+  return fraction ? `${sign}${whole}.${fraction}` : `${sign}${whole}`;
+}
+
+/**
+ * Parses a decimal string into a raw integer amount. Rejects inputs with more
+ * fractional digits than the token supports instead of silently truncating.
+ */
+export function parseFixed(value: string, decimals: number): bigint {
+  const trimmed = value.trim();
+  const match = /^(-)?(\d*)(?:\.(\d*))?$/.exec(trimmed);
+  if (!match || (match[2] === '' && (match[3] ?? '') === '')) {
+    throw new ValidationError(`Invalid decimal amount: ${value}`, { value });
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  if (fraction.length > decimals) {
+    throw new ValidationError(`Amount ${value} has more than ${decimals} decimal places`, { value, decimals });
+  }
+
+  const raw = BigInt(whole || '0') * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0');
+  return sign ? -raw : raw;
+}
+
+// ============================================================================
+// TOKEN REGISTRY
+// ============================================================================
+
+export interface TokenInfo {
+  readonly chainId: number;
+  readonly address: string;
+  readonly symbol: string;
+  readonly decimals: number;
+  readonly displayDecimals: number;
+}
+
+function tokenKey(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+/**
+ * Token metadata keyed by (chainId, address). Every amount shown to a user or
+ * parsed from user input should resolve its decimals here rather than assume 18.
+ */
+export class TokenRegistry {
+  private readonly tokens = new Map<string, TokenInfo>();
+
+  constructor(tokens: readonly TokenInfo[] = []) {
+    tokens.forEach(token => this.register(token));
+  }
+
+  register(token: TokenInfo): void {
+    if (!Number.isInteger(token.decimals) || token.decimals < 0 || token.decimals > 77) {
+      throw new ValidationError(`Invalid decimals for ${token.symbol}: ${token.decimals}`, { token });
+    }
+    this.tokens.set(tokenKey(token.chainId, token.address), {
+      ...token,
+      address: token.address.toLowerCase(),
+      displayDecimals: Math.min(token.displayDecimals, token.decimals)
+    });
+  }
+
+  find(chainId: number | ChainId, token: string | Address): TokenInfo | undefined {
+    const id = typeof chainId === 'number' ? chainId : chainId.value;
+    const address = typeof token === 'string' ? token : token.value;
+    return this.tokens.get(tokenKey(id, address));
+  }
+
+  get(chainId: number | ChainId, token: string | Address): TokenInfo {
+    const info = this.find(chainId, token);
+    if (!info) {
+      throw new ValidationError('Unknown token', {
+        chainId: typeof chainId === 'number' ? chainId : chainId.value,
+        token: typeof token === 'string' ? token : token.value
+      });
+    }
+    return info;
+  }
+
+  findBySymbol(chainId: number | ChainId, symbol: string): TokenInfo | undefined {
+    const id = typeof chainId === 'number' ? chainId : chainId.value;
+    const wanted = symbol.toUpperCase();
+    return this.list(id).find(token => token.symbol.toUpperCase() === wanted);
+  }
+
+  list(chainId?: number): TokenInfo[] {
+    const all = Array.from(this.tokens.values());
+    return chainId === undefined ? all : all.filter(token => token.chainId === chainId);
+  }
+
+  decimals(chainId: number | ChainId, token: string | Address): number {
+    return this.get(chainId, token).decimals;
+  }
+
+  // Full precision unless `precision` is given; 'display' uses the token's display precision
+  format(chainId: number | ChainId, amount: TokenAmount, precision?: number | 'display'): string {
+    const info = this.get(chainId, amount.token);
+    const digits = precision === 'display' ? info.displayDecimals : precision ?? info.decimals;
+    return formatFixed(amount.amount, info.decimals, digits);
+  }
+
+  parse(chainId: number | ChainId, token: string | Address, value: string): TokenAmount {
+    const info = this.get(chainId, token);
+    return {
+      token: { value: info.address },
+      amount: parseFixed(value, info.decimals)
+    };
+  }
+}
+
+export const DEFAULT_TOKENS: readonly TokenInfo[] = [
+  // Ethereum
+  { chainId: 1, address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', symbol: 'USDC', decimals: 6, displayDecimals: 2 },
+  { chainId: 1, address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', symbol: 'WETH', decimals: 18, displayDecimals: 4 },
+  { chainId: 1, address: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599', symbol: 'WBTC', decimals: 8, displayDecimals: 6 },
+  // Polygon
+  { chainId: 137, address: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174', symbol: 'USDC', decimals: 6, displayDecimals: 2 },
+  { chainId: 137, address: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619', symbol: 'WETH', decimals: 18, displayDecimals: 4 },
+  { chainId: 137, address: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', symbol: 'WMATIC', decimals: 18, displayDecimals: 2 },
+  // Arbitrum
+  { chainId: 42161, address: '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8', symbol: 'USDC', decimals: 6, displayDecimals: 2 },
+  { chainId: 42161, address: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1', symbol: 'WETH', decimals: 18, displayDecimals: 4 },
+  { chainId: 42161, address: '0x912CE59144191C1204E64559FE8253a0e49E6548', symbol: 'ARB', decimals: 18, displayDecimals: 2 },
+  // Base
+  { chainId: 8453, address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', symbol: 'USDC', decimals: 6, displayDecimals: 2 },
+  { chainId: 8453, address: '0x4200000000000000000000000000000000000006', symbol: 'WETH', decimals: 18, displayDecimals: 4 }
+];
+
+export const tokenRegistry = new TokenRegistry(DEFAULT_TOKENS);
@@ -0,0 +1,220 @@
+import {
+  Address,
+  ChannelState,
+  ChannelId,
+  Fill,
+  Cancel,
+  Replace,
+  OrderSide,
+  TokenAmount,
+  TradingPair,
+  ChannelError,
+  FillError,
+  ChainId,
+  CONSTANTS
+} from './types';
+import { validateNonceSequence } from './eip712';
+import { computeFillAmounts, RoundingFavour } from './pricing';
+import { tokenRegistry } from './tokens';
+
+// ============================================================================
+// STATE TRANSITION ENGINE
+// ============================================================================
+//
+// Pure functions turning one co-signed ChannelState into the next. Both the
+// trader and the LP run the exact same code before signing, so nothing here
+// may depend on wall-clock time, randomness or mutable input.
+
+export interface FillTerms {
+  readonly side: OrderSide; // Trader's side of the trade
+  readonly baseToken: Address;
+  readonly quoteToken: Address;
+  readonly lpFeeBps: number;
+  // Resolved from the token registry when omitted
+  readonly baseDecimals?: number;
+  readonly quoteDecimals?: number;
+  readonly rounding?: RoundingFavour; // Defaults to the LP's favour
+  // Pairs the channel was opened for; any pair is accepted when omitted
+  readonly pairs?: readonly TradingPair[];
+}
+
+export interface FillDeltas {
+  readonly baseAmount: bigint;
+  readonly quoteAmount: bigint; // Notional before fees
+  readonly fee: bigint;
+  readonly traderQuoteAmount: bigint; // BUY: paid by trader, SELL: received by trader
+}
+
+function sameAddress(a: Address, b: Address): boolean {
+  return a.value.toLowerCase() === b.value.toLowerCase();
+}
+
+function sameChannel(a: ChannelId, b: ChannelId): boolean {
+  return a.value === b.value;
+}
+
+function adjustBalance(
+  balances: TokenAmount[],
+  token: Address,
+  delta: bigint,
+  owner: 'trader' | 'lp'
+): TokenAmount[] {
+  const index = balances.findIndex(balance => sameAddress(balance.token, token));
+  const current = index === -1 ? 0n : balances[index].amount;
+  const next = current + delta;
+
+  if (next < 0n) {
+    throw new FillError(`Insufficient ${owner} balance`, {
+      token: token.value,
+      available: current.toString(),
+      required: (-delta).toString()
+    });
+  }
+
+  if (index === -1) {
+    return delta === 0n ? balances : [...balances, { token, amount: next }];
+  }
+
+  return balances.map((balance, i) => (i === index ? { token: balance.token, amount: next } : balance));
+}
+
+function assertSequence(
+  state: ChannelState,
+  message: { channelId: ChannelId; nonce: bigint; timestamp: bigint }
+): void {
+  if (!sameChannel(state.channelId, message.channelId)) {
+    throw new ChannelError('Channel ID mismatch', {
+      expected: state.channelId.value,
+      received: message.channelId.value
+    });
+  }
+  if (!validateNonceSequence(state.nonce, message.nonce)) {
+    throw new ChannelError('Invalid nonce sequence', {
+      currentNonce: state.nonce.toString(),
+      receivedNonce: message.nonce.toString()
+    });
+  }
+  if (message.timestamp < state.timestamp) {
+    throw new ChannelError('Message timestamp precedes channel state', {
+      stateTimestamp: state.timestamp.toString(),
+      messageTimestamp: message.timestamp.toString()
+    });
+  }
+}
+
+function assertTrader(state: ChannelState, trader: Address): void {
+  if (!sameAddress(state.trader, trader)) {
+    throw new ChannelError('Trader is not a participant of this channel', { trader: trader.value });
+  }
+}
+
+function resolveDecimals(chainId: ChainId, token: Address, decimals: number | undefined): number {
+  if (decimals !== undefined) return decimals;
+
+  const info = tokenRegistry.find(chainId, token);
+  if (!info) {
+    throw new FillError('Token decimals unknown; pass them in the fill terms', {
+      chainId: chainId.value,
+      token: token.value
+    });
+  }
+  return info.decimals;
+}
+
+export function computeFillDeltas(fill: Fill, terms: FillTerms, chainId: ChainId): FillDeltas {
+  const amounts = computeFillAmounts(
+    terms.side,
+    {
+      quantity: fill.quantity,
+      price: fill.price,
+      baseDecimals: resolveDecimals(chainId, terms.baseToken, terms.baseDecimals),
+      quoteDecimals: resolveDecimals(chainId, terms.quoteToken, terms.quoteDecimals)
+    },
+    terms.lpFeeBps,
+    terms.rounding ?? 'LP'
+  );
+
+  return {
+    baseAmount: amounts.baseAmount,
+    quoteAmount: amounts.notional,
+    fee: amounts.fee,
+    traderQuoteAmount: amounts.traderQuoteAmount
+  };
+}
+
+/**
+ * Applies a fill at `fill.price`. The LP fee is always paid by the trader in
+ * the quote token: a BUY costs notional + fee, a SELL yields notional - fee.
+ * Amounts are rounded by the pricing module, in the LP's favour by default.
+ */
+export function applyFill(state: ChannelState, fill: Fill, terms: FillTerms): ChannelState {
+  assertSequence(state, fill);
+  assertTrader(state, fill.trader);
+
+  if (!sameAddress(state.lp, fill.lp)) {
+    throw new FillError('LP is not a participant of this channel', { lp: fill.lp.value });
+  }
+  if (fill.quantity <= 0n || fill.price <= 0n) {
+    throw new FillError('Fill quantity and price must be positive', {
+      quantity: fill.quantity.toString(),
+      price: fill.price.toString()
+    });
+  }
+  if (terms.lpFeeBps < 0 || terms.lpFeeBps > CONSTANTS.MAX_FEE_BPS) {
+    throw new FillError(`LP fee out of range: ${terms.lpFeeBps} bps`, { lpFeeBps: terms.lpFeeBps });
+  }
+  if (sameAddress(terms.baseToken, terms.quoteToken)) {
+    throw new FillError('Base and quote tokens must differ', { token: terms.baseToken.value });
+  }
+  if (terms.pairs && !terms.pairs.some(pair =>
+    sameAddress(pair.baseToken, terms.baseToken) && sameAddress(pair.quoteToken, terms.quoteToken))) {
+    throw new FillError('Pair is not tradable in this channel', {
+      baseToken: terms.baseToken.value,
+      quoteToken: terms.quoteToken.value
+    });
+  }
+
+  const { baseAmount, quoteAmount, traderQuoteAmount } = computeFillDeltas(fill, terms, state.chainId);
+  if (quoteAmount === 0n) {
+    throw new FillError('Fill notional rounds to zero', { quantity: fill.quantity.toString() });
+  }
+
+  const direction = terms.side === 'BUY' ? 1n : -1n;
+  const traderQuoteDelta = terms.side === 'BUY' ? -traderQuoteAmount : traderQuoteAmount;
+
+  let traderBalances = adjustBalance(state.traderBalances, terms.baseToken, direction * baseAmount, 'trader');
+  traderBalances = adjustBalance(traderBalances, terms.quoteToken, traderQuoteDelta, 'trader');
+
+  let lpBalances = adjustBalance(state.lpBalances, terms.baseToken, -direction * baseAmount, 'lp');
+  lpBalances = adjustBalance(lpBalances, terms.quoteToken, -traderQuoteDelta, 'lp');
+
+  return {
+    ...state,
+    nonce: fill.nonce,
+    traderBalances,
+    lpBalances,
+    timestamp: fill.timestamp
+  };
+}
+
+export function applyCancel(state: ChannelState, cancel: Cancel): ChannelState {
+  assertSequence(state, cancel);
+  assertTrader(state, cancel.trader);
+
+  return { ...state, nonce: cancel.nonce, timestamp: cancel.timestamp };
+}
+
+export function applyReplace(state: ChannelState, replace: Replace): ChannelState {
+  assertSequence(state, replace);
+  assertTrader(state, replace.trader);
+
+  const request = replace.newQuoteRequest;
+  if (!sameChannel(state.channelId, request.channelId) || !sameAddress(state.trader, request.trader)) {
+    throw new ChannelError('Replacement quote request does not belong to this channel', {
+      channelId: request.channelId.value,
+      trader: request.trader.value
+    });
+  }
+
+  return { ...state, nonce: replace.nonce, timestamp: replace.timestamp };
+}
@@ -3,153 +3,68 @@ import { z } from 'zod';
 // ============================================================================
 // CORE TYPES
 // ============================================================================
+//
+// Protocol message and settlement types are derived from the Zod schemas
+// further down, so runtime validation and static types cannot drift apart.
 
-export interface Address {
-  readonly value: string;
-}
+export type Address = z.infer<typeof AddressSchema>;
 
-export interface ChainId {
-  readonly value: number;
-}
+export type ChainId = z.infer<typeof ChainIdSchema>;
 
-export interface TokenAmount {
-  readonly token: Address;
-  readonly amount: bigint;
-}
+export type TokenAmount = z.infer<typeof TokenAmountSchema>;
 
-export interface ChannelId {
-  readonly value: string;
-}
+export type ChannelId = z.infer<typeof ChannelIdSchema>;
 
 // ============================================================================
 // CHANNEL STATE TYPES
 // ============================================================================
 
-export interface ChannelState {
-  readonly channelId: ChannelId;
-  readonly nonce: bigint;
-  readonly trader: Address;
-  readonly lp: Address;
-  readonly traderBalances: TokenAmount[];
-  readonly lpBalances: TokenAmount[];
-  readonly timestamp: bigint;
-  readonly chainId: ChainId;
-}
+export type ChannelState = z.infer<typeof ChannelStateSchema>;
 
-export interface ChannelParams {
-  readonly trader: Address;
-  readonly lp: Address;
-  readonly tokenIn: Address;
-  readonly tokenOut: Address;
-  readonly traderDeposit: bigint;
-  readonly lpDeposit: bigint;
-  readonly chainId: ChainId;
-  readonly timeout: bigint;
-}
+export type ChannelParams = z.infer<typeof ChannelParamsSchema>;
+
+// A base/quote pair the channel's LP quotes against the shared deposits
+export type TradingPair = z.infer<typeof TradingPairSchema>;
 
 // ============================================================================
 // MESSAGE TYPES
 // ============================================================================
 
-export interface QuoteRequest {
-  readonly channelId: ChannelId;
-  readonly nonce: bigint;
-  readonly side: 'BUY' | 'SELL';
-  readonly baseToken: Address;
-  readonly quoteToken: Address;
-  readonly quantity: bigint;
-  readonly maxSlippageBps: number;
-  readonly timestamp: bigint;
-  readonly trader: Address;
-}
+export type QuoteRequest = z.infer<typeof QuoteRequestSchema>;
 
-export interface Quote {
-  readonly channelId: ChannelId;
-  readonly quoteId: string;
-  readonly requestNonce: bigint;
-  readonly price: bigint; // Price in quote token per base token (scaled by 1e18)
-  readonly quantity: bigint;
-  readonly side: 'BUY' | 'SELL';
-  readonly expiryTimestamp: bigint;
-  readonly lpFeeBps: number;
-  readonly timestamp: bigint;
-  readonly lp: Address;
-}
+// Quote.price is quote token per base token, scaled by 1e18
+export type Quote = z.infer<typeof QuoteSchema>;
 
-export interface Fill {
-  readonly channelId: ChannelId;
-  readonly quoteId: string;
-  readonly fillId: string;
-  readonly nonce: bigint;
-  readonly quantity: bigint;
-  readonly price: bigint;
-  readonly timestamp: bigint;
-  readonly trader: Address;
-  readonly lp: Address;
-}
+export type Fill = z.infer<typeof FillSchema>;
 
-export interface Cancel {
-  readonly channelId: ChannelId;
-  readonly quoteId: string;
-  readonly nonce: bigint;
-  readonly timestamp: bigint;
-  readonly trader: Address;
-}
+export type Cancel = z.infer<typeof CancelSchema>;
 
-export interface Replace {
-  readonly channelId: ChannelId;
-  readonly originalQuoteId: string;
-  readonly newQuoteRequest: QuoteRequest;
-  readonly nonce: bigint;
-  readonly timestamp: bigint;
-  readonly trader: Address;
-}
+export type Replace = z.infer<typeof ReplaceSchema>;
 
-export interface Heartbeat {
-  readonly channelId: ChannelId;
-  readonly nonce: bigint;
-  readonly timestamp: bigint;
-  readonly sender: Address;
-}
+export type Heartbeat = z.infer<typeof HeartbeatSchema>;
 
 // ============================================================================
 // SETTLEMENT TYPES
 // ============================================================================
 
-export interface SettlementRequest {
-  readonly channelId: ChannelId;
-  readonly finalState: ChannelState;
-  readonly traderSignature: string;
-  readonly lpSignature: string;
-}
+export type SettlementRequest = z.infer<typeof SettlementRequestSchema>;
 
-export interface CheckpointRequest {
-  readonly channelId: ChannelId;
-  readonly state: ChannelState;
-  readonly traderSignature: string;
-  readonly lpSignature: string;
-}
+export type CheckpointRequest = z.infer<typeof CheckpointRequestSchema>;
 
-export interface DisputeChallenge {
-  readonly channelId: ChannelId;
-  readonly challengeState: ChannelState;
-  readonly challengerSignature: string;
-  readonly counterpartySignature: string;
-}
+export type DisputeChallenge = z.infer<typeof DisputeChallengeSchema>;
+
+// ============================================================================
+// SESSION TYPES
+// ============================================================================
+
+// Signed by `owner` to let the ephemeral `delegate` key act for it on one channel
+export type SessionAuthorization = z.infer<typeof SessionAuthorizationSchema>;
 
 // ============================================================================
 // API TYPES
 // ============================================================================
 
-export interface OpenChannelRequest {
-  readonly trader: Address;
-  readonly lp: Address;
-  readonly tokenIn: Address;
-  readonly tokenOut: Address;
-  readonly traderDeposit: bigint;
-  readonly lpDeposit: bigint;
-  readonly chainId: ChainId;
-}
+export type OpenChannelRequest = z.infer<typeof OpenChannelRequestSchema>;
 
 export interface OpenChannelResponse {
   readonly channelId: ChannelId;
@@ -174,15 +89,7 @@ export interface FillResponse {
 // RISK MANAGEMENT TYPES
 // ============================================================================
 
-export interface RiskParams {
-  readonly lp: Address;
-  readonly pair: string;
-  readonly maxNotional: bigint;
-  readonly maxExposure: bigint;
-  readonly spreadBps: number;
-  readonly maxOrderSize: bigint;
-  readonly dailyVolumeLimit: bigint;
-}
+export type RiskParams = z.infer<typeof RiskParamsSchema>;
 
 export interface InventoryState {
   readonly lp: Address;
@@ -241,83 +148,317 @@ export interface TradingMetrics {
 // ZOD VALIDATION SCHEMAS
 // ============================================================================
 
+function sameAddress(a: { value: string }, b: { value: string }): boolean {
+  return a.value.toLowerCase() === b.value.toLowerCase();
+}
+
+function hasUniqueTokens(tokens: readonly { value: string }[]): boolean {
+  return new Set(tokens.map(token => token.value.toLowerCase())).size === tokens.length;
+}
+
+function pairsWithinBasket(
+  pairs: readonly { baseToken: { value: string }; quoteToken: { value: string } }[],
+  tokens: readonly { value: string }[]
+): boolean {
+  const inBasket = (token: { value: string }) => tokens.some(candidate => sameAddress(candidate, token));
+  return pairs.every(pair => inBasket(pair.baseToken) && inBasket(pair.quoteToken));
+}
+
+// Solidity integer ranges. Nonces and timestamps are capped at 64 bits so
+// the binary codec can pack them; amounts and prices get the full uint256.
+const MAX_UINT64 = (1n << 64n) - 1n;
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+export const Uint64Schema = z.bigint().nonnegative().max(MAX_UINT64);
+
+export const Uint256Schema = z.bigint().nonnegative().max(MAX_UINT256);
+
 export const AddressSchema = z.object({
   value: z.string().regex(/^0x[a-fA-F0-9]{40}$/)
-});
+}).readonly();
 
 export const ChainIdSchema = z.object({
-  value: z.number().positive()
-});
+  value: z.number().int().positive()
+}).readonly();
 
 export const TokenAmountSchema = z.object({
   token: AddressSchema,
-  amount: z.bigint().nonnegative()
-});
+  amount: Uint256Schema
+}).readonly();
 
+// One entry per channel token at most
+const BalancesSchema = z.array(TokenAmountSchema).refine(
+  balances => balances.length <= CONSTANTS.MAX_TOKENS_PER_CHANNEL,
+  { message: 'Too many token balances' }
+);
+
+// Channel IDs are keccak256 digests derived from the channel parameters (see
+// createChannelId); UUIDs are still accepted for channels opened before that.
 export const ChannelIdSchema = z.object({
-  value: z.string().uuid()
-});
+  value: z.union([z.string().regex(/^0x[0-9a-f]{64}$/), z.string().uuid()])
+}).readonly();
+
+export const SignatureSchema = z.string().regex(/^0x([a-fA-F0-9]{2})*$/);
+
+export const OrderSideSchema = z.enum(['BUY', 'SELL']);
+
+export const BpsSchema = z.number().int().min(0).max(10000);
+
+export const ChannelStateSchema = z.object({
+  channelId: ChannelIdSchema,
+  nonce: Uint64Schema,
+  trader: AddressSchema,
+  lp: AddressSchema,
+  traderBalances: BalancesSchema,
+  lpBalances: BalancesSchema,
+  timestamp: Uint64Schema,
+  chainId: ChainIdSchema
+}).refine(state => !sameAddress(state.trader, state.lp), {
+  message: 'Trader and LP must differ',
+  path: ['lp']
+}).readonly();
+
+export const TradingPairSchema = z.object({
+  baseToken: AddressSchema,
+  quoteToken: AddressSchema
+}).refine(pair => !sameAddress(pair.baseToken, pair.quoteToken), {
+  message: 'Base and quote tokens must differ',
+  path: ['quoteToken']
+}).readonly();
+
+// `tokens`, `traderDeposits` and `lpDeposits` are index-aligned, exactly as
+// passed to SettlementManager.openChannel.
+export const ChannelParamsSchema = z.object({
+  trader: AddressSchema,
+  lp: AddressSchema,
+  tokens: z.array(AddressSchema).min(1),
+  traderDeposits: z.array(z.bigint().nonnegative()),
+  lpDeposits: z.array(z.bigint().nonnegative()),
+  pairs: z.array(TradingPairSchema).min(1),
+  chainId: ChainIdSchema,
+  timeout: z.bigint().positive(),
+  openNonce: z.bigint().nonnegative() // Channels previously opened by this trader/LP pair
+}).refine(params => !sameAddress(params.trader, params.lp), {
+  message: 'Trader and LP must differ',
+  path: ['lp']
+}).refine(params => params.tokens.length <= CONSTANTS.MAX_TOKENS_PER_CHANNEL, {
+  message: 'Too many tokens in channel',
+  path: ['tokens']
+}).refine(params => hasUniqueTokens(params.tokens), {
+  message: 'Channel tokens must be unique',
+  path: ['tokens']
+}).refine(params => params.traderDeposits.length === params.tokens.length
+  && params.lpDeposits.length === params.tokens.length, {
+  message: 'Deposit arrays must match tokens',
+  path: ['traderDeposits']
+}).refine(params => pairsWithinBasket(params.pairs, params.tokens), {
+  message: 'Trading pairs must only use channel tokens',
+  path: ['pairs']
+}).readonly();
 
 export const QuoteRequestSchema = z.object({
   channelId: ChannelIdSchema,
-  nonce: z.bigint().nonnegative(),
-  side: z.enum(['BUY', 'SELL']),
+  nonce: Uint64Schema,
+  side: OrderSideSchema,
   baseToken: AddressSchema,
   quoteToken: AddressSchema,
-  quantity: z.bigint().positive(),
-  maxSlippageBps: z.number().min(0).max(10000),
-  timestamp: z.bigint().positive(),
+  quantity: Uint256Schema.positive(),
+  maxSlippageBps: BpsSchema,
+  timestamp: Uint64Schema.positive(),
   trader: AddressSchema
-});
+}).refine(request => !sameAddress(request.baseToken, request.quoteToken), {
+  message: 'Base and quote tokens must differ',
+  path: ['quoteToken']
+}).readonly();
 
 export const QuoteSchema = z.object({
   channelId: ChannelIdSchema,
   quoteId: z.string().uuid(),
-  requestNonce: z.bigint().nonnegative(),
-  price: z.bigint().positive(),
-  quantity: z.bigint().positive(),
-  side: z.enum(['BUY', 'SELL']),
-  expiryTimestamp: z.bigint().positive(),
-  lpFeeBps: z.number().min(0).max(10000),
-  timestamp: z.bigint().positive(),
+  requestNonce: Uint64Schema,
+  price: Uint256Schema.positive(),
+  quantity: Uint256Schema.positive(),
+  side: OrderSideSchema,
+  expiryTimestamp: Uint64Schema.positive(),
+  lpFeeBps: BpsSchema,
+  timestamp: Uint64Schema.positive(),
   lp: AddressSchema
-});
+}).refine(quote => quote.expiryTimestamp > quote.timestamp, {
+  message: 'expiryTimestamp must be after timestamp',
+  path: ['expiryTimestamp']
+}).readonly();
 
 export const FillSchema = z.object({
   channelId: ChannelIdSchema,
   quoteId: z.string().uuid(),
   fillId: z.string().uuid(),
-  nonce: z.bigint().nonnegative(),
-  quantity: z.bigint().positive(),
-  price: z.bigint().positive(),
-  timestamp: z.bigint().positive(),
+  nonce: Uint64Schema,
+  quantity: Uint256Schema.positive(),
+  remainingQuantity: Uint256Schema, // Left on the quote after this fill
+  price: Uint256Schema.positive(),
+  timestamp: Uint64Schema.positive(),
   trader: AddressSchema,
   lp: AddressSchema
-});
+}).refine(fill => !sameAddress(fill.trader, fill.lp), {
+  message: 'Trader and LP must differ',
+  path: ['lp']
+}).readonly();
+
+export const CancelSchema = z.object({
+  channelId: ChannelIdSchema,
+  quoteId: z.string().uuid(),
+  nonce: Uint64Schema,
+  timestamp: Uint64Schema.positive(),
+  trader: AddressSchema
+}).readonly();
+
+export const ReplaceSchema = z.object({
+  channelId: ChannelIdSchema,
+  originalQuoteId: z.string().uuid(),
+  newQuoteRequest: QuoteRequestSchema,
+  nonce: Uint64Schema,
+  timestamp: Uint64Schema.positive(),
+  trader: AddressSchema
+}).refine(replace => replace.newQuoteRequest.channelId.value === replace.channelId.value, {
+  message: 'Replacement request must target the same channel',
+  path: ['newQuoteRequest', 'channelId']
+}).refine(replace => sameAddress(replace.newQuoteRequest.trader, replace.trader), {
+  message: 'Replacement request must come from the same trader',
+  path: ['newQuoteRequest', 'trader']
+}).readonly();
+
+export const HeartbeatSchema = z.object({
+  channelId: ChannelIdSchema,
+  nonce: Uint64Schema,
+  timestamp: Uint64Schema.positive(),
+  sender: AddressSchema
+}).readonly();
+
+export const SettlementRequestSchema = z.object({
+  channelId: ChannelIdSchema,
+  finalState: ChannelStateSchema,
+  traderSignature: SignatureSchema,
+  lpSignature: SignatureSchema
+}).refine(request => request.finalState.channelId.value === request.channelId.value, {
+  message: 'Final state belongs to a different channel',
+  path: ['finalState', 'channelId']
+}).readonly();
+
+export const CheckpointRequestSchema = z.object({
+  channelId: ChannelIdSchema,
+  state: ChannelStateSchema,
+  traderSignature: SignatureSchema,
+  lpSignature: SignatureSchema
+}).refine(request => request.state.channelId.value === request.channelId.value, {
+  message: 'Checkpoint state belongs to a different channel',
+  path: ['state', 'channelId']
+}).readonly();
+
+// `maxNotional` caps the summed fill notional, in raw `notionalToken` units
+export const SessionAuthorizationSchema = z.object({
+  owner: AddressSchema,
+  delegate: AddressSchema,
+  channelId: ChannelIdSchema,
+  notionalToken: AddressSchema,
+  maxNotional: Uint256Schema.positive(),
+  expiry: Uint64Schema.positive(),
+  nonce: Uint64Schema
+}).refine(authorization => !sameAddress(authorization.owner, authorization.delegate), {
+  message: 'Delegate must differ from the owner',
+  path: ['delegate']
+}).readonly();
+
+// The owner's EIP-712 signature over `authorization`, next to whatever its delegate signed
+export const SignedSessionAuthorizationSchema = z.object({
+  authorization: SessionAuthorizationSchema,
+  signature: SignatureSchema
+}).readonly();
+
+// An authorization is set when that side's session key signed the state
+export const DisputeChallengeSchema = z.object({
+  channelId: ChannelIdSchema,
+  challengeState: ChannelStateSchema,
+  challengerSignature: SignatureSchema,
+  counterpartySignature: SignatureSchema,
+  challengerAuthorization: SignedSessionAuthorizationSchema.optional(),
+  counterpartyAuthorization: SignedSessionAuthorizationSchema.optional()
+}).refine(challenge => challenge.challengeState.channelId.value === challenge.channelId.value, {
+  message: 'Challenge state belongs to a different channel',
+  path: ['challengeState', 'channelId']
+}).readonly();
+
+export const OpenChannelRequestSchema = z.object({
+  trader: AddressSchema,
+  lp: AddressSchema,
+  tokens: z.array(AddressSchema).min(1),
+  traderDeposits: z.array(z.bigint().nonnegative()),
+  lpDeposits: z.array(z.bigint().nonnegative()),
+  pairs: z.array(TradingPairSchema).min(1),
+  chainId: ChainIdSchema
+}).refine(request => !sameAddress(request.trader, request.lp), {
+  message: 'Trader and LP must differ',
+  path: ['lp']
+}).refine(request => request.tokens.length <= CONSTANTS.MAX_TOKENS_PER_CHANNEL, {
+  message: 'Too many tokens in channel',
+  path: ['tokens']
+}).refine(request => hasUniqueTokens(request.tokens), {
+  message: 'Channel tokens must be unique',
+  path: ['tokens']
+}).refine(request => request.traderDeposits.length === request.tokens.length
+  && request.lpDeposits.length === request.tokens.length, {
+  message: 'Deposit arrays must match tokens',
+  path: ['traderDeposits']
+}).refine(request => [...request.traderDeposits, ...request.lpDeposits].some(amount => amount > 0n), {
+  message: 'At least one side must deposit',
+  path: ['traderDeposits']
+}).refine(request => pairsWithinBasket(request.pairs, request.tokens), {
+  message: 'Trading pairs must only use channel tokens',
+  path: ['pairs']
+}).readonly();
+
+export const RiskParamsSchema = z.object({
+  lp: AddressSchema,
+  pair: z.string().regex(/^[A-Za-z0-9]+\/[A-Za-z0-9]+$/),
+  maxNotional: z.bigint().positive(),
+  maxExposure: z.bigint().positive(),
+  spreadBps: BpsSchema,
+  maxOrderSize: z.bigint().positive(),
+  dailyVolumeLimit: z.bigint().positive()
+}).refine(params => params.maxOrderSize <= params.maxNotional, {
+  message: 'maxOrderSize cannot exceed maxNotional',
+  path: ['maxOrderSize']
+}).readonly();
 
 // ============================================================================
 // UTILITY TYPES
 // ============================================================================
 
-export type MessageType = 
-  | 'QUOTE_REQUEST'
-  | 'QUOTE'
-  | 'FILL'
-  | 'CANCEL'
-  | 'REPLACE'
-  | 'HEARTBEAT'
-  | 'CHECKPOINT'
-  | 'SETTLEMENT';
-
-export type ChannelStatus = 
-  | 'OPENING'
-  | 'ACTIVE'
-  | 'CHECKPOINTING'
-  | 'SETTLING'
-  | 'CLOSED'
-  | 'DISPUTED';
-
-export type OrderSide = 'BUY' | 'SELL';
+export const MessageTypeSchema = z.enum([
+  'QUOTE_REQUEST',
+  'QUOTE',
+  'FILL',
+  'CANCEL',
+  'REPLACE',
+  'HEARTBEAT',
+  'CHECKPOINT',
+  'SETTLEMENT'
+]);
+
+export type MessageType = z.infer<typeof MessageTypeSchema>;
+
+// Allowed moves between these live in channel-status.ts
+export const ChannelStatusSchema = z.enum([
+  'OPENING',
+  'ACTIVE',
+  'CHECKPOINTING',
+  'SETTLING',
+  'CLOSED',
+  'DISPUTED',
+  'DEGRADED' // Off-chain only: counterparty stopped sending heartbeats
+]);
+
+export type ChannelStatus = z.infer<typeof ChannelStatusSchema>;
+
+export type OrderSide = z.infer<typeof OrderSideSchema>;
 
 export type QuoteStatus = 
   | 'PENDING'
@@ -372,6 +513,12 @@ export class ValidationError extends PhotonXError {
   }
 }
 
+export class MessageError extends PhotonXError {
+  constructor(message: string, details?: any) {
+    super(message, 'MESSAGE_ERROR', details);
+  }
+}
+
 // ============================================================================
 // CONSTANTS
 // ============================================================================
@@ -382,12 +529,15 @@ export const CONSTANTS = {
   HEARTBEAT_INTERVAL_MS: 10_000, // 10 seconds
   CHANNEL_TIMEOUT_MS: 3600_000, // 1 hour
   DISPUTE_WINDOW_MS: 86400_000, // 24 hours
+  MAX_CLOCK_SKEW_MS: 5_000, // Tolerated disagreement between peer clocks
+  SESSION_KEY_TTL_MS: 86400_000, // 24 hours
   
   // Limits
   MAX_SLIPPAGE_BPS: 1000, // 10%
   MAX_FEE_BPS: 500, // 5%
   MIN_TRADE_SIZE: BigInt(1e15), // 0.001 tokens (assuming 18 decimals)
   MAX_TRADE_SIZE: BigInt(1e24), // 1M tokens
+  MAX_TOKENS_PER_CHANNEL: 10, // Matches SettlementManager
   
   // Precision
   PRICE_PRECISION: BigInt(1e18),
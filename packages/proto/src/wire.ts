@@ -0,0 +1,279 @@
+import { z } from 'zod';
+import {
+  QuoteRequest,
+  Quote,
+  Fill,
+  Cancel,
+  Replace,
+  Heartbeat,
+  ChannelState,
+  SettlementRequest,
+  CheckpointRequest,
+  DisputeChallenge,
+  SessionAuthorization,
+  QuoteRequestSchema,
+  QuoteSchema,
+  FillSchema,
+  CancelSchema,
+  ReplaceSchema,
+  HeartbeatSchema,
+  ChannelStateSchema,
+  SettlementRequestSchema,
+  CheckpointRequestSchema,
+  DisputeChallengeSchema,
+  SessionAuthorizationSchema,
+  SignedSessionAuthorizationSchema,
+  ValidationError
+} from './types';
+
+// ============================================================================
+// WIRE SCHEMAS
+// ============================================================================
+//
+// Mirror the shapes produced by the serialize* helpers in eip712.ts: bigints
+// and small integers travel as decimal strings, addresses and IDs as bare
+// strings. Each schema decodes back into the typed protocol object.
+
+const WireUintSchema = z
+  .string()
+  .regex(/^(0|[1-9]\d*)$/, 'Expected an unsigned decimal integer string')
+  .transform(value => BigInt(value));
+
+const WireSmallUintSchema = z
+  .string()
+  .regex(/^(0|[1-9]\d{0,14})$/, 'Expected an unsigned decimal integer string')
+  .transform(value => Number(value));
+
+const WireAddressSchema = z
+  .string()
+  .regex(/^0x[a-fA-F0-9]{40}$/, 'Expected a 20-byte hex address')
+  .transform(value => ({ value }));
+
+const WireChannelIdSchema = z.string().min(1).transform(value => ({ value }));
+
+const WireChainIdSchema = WireSmallUintSchema.transform(value => ({ value }));
+
+const WireSignatureSchema = z.string().regex(/^0x([a-fA-F0-9]{2})*$/, 'Expected a hex-encoded signature');
+
+const WireSideSchema = z.enum(['BUY', 'SELL']);
+
+const WireTokenAmountSchema = z.object({
+  token: WireAddressSchema,
+  amount: WireUintSchema
+});
+
+export const WireQuoteRequestSchema = z
+  .object({
+    channelId: WireChannelIdSchema,
+    nonce: WireUintSchema,
+    side: WireSideSchema,
+    baseToken: WireAddressSchema,
+    quoteToken: WireAddressSchema,
+    quantity: WireUintSchema,
+    maxSlippageBps: WireSmallUintSchema,
+    timestamp: WireUintSchema,
+    trader: WireAddressSchema
+  })
+  .pipe(QuoteRequestSchema);
+
+export const WireQuoteSchema = z
+  .object({
+    channelId: WireChannelIdSchema,
+    quoteId: z.string(),
+    requestNonce: WireUintSchema,
+    price: WireUintSchema,
+    quantity: WireUintSchema,
+    side: WireSideSchema,
+    expiryTimestamp: WireUintSchema,
+    lpFeeBps: WireSmallUintSchema,
+    timestamp: WireUintSchema,
+    lp: WireAddressSchema
+  })
+  .pipe(QuoteSchema);
+
+export const WireFillSchema = z
+  .object({
+    channelId: WireChannelIdSchema,
+    quoteId: z.string(),
+    fillId: z.string(),
+    nonce: WireUintSchema,
+    quantity: WireUintSchema,
+    remainingQuantity: WireUintSchema,
+    price: WireUintSchema,
+    timestamp: WireUintSchema,
+    trader: WireAddressSchema,
+    lp: WireAddressSchema
+  })
+  .pipe(FillSchema);
+
+export const WireCancelSchema = z
+  .object({
+    channelId: WireChannelIdSchema,
+    quoteId: z.string().min(1),
+    nonce: WireUintSchema,
+    timestamp: WireUintSchema,
+    trader: WireAddressSchema
+  })
+  .pipe(CancelSchema);
+
+export const WireReplaceSchema = z
+  .object({
+    channelId: WireChannelIdSchema,
+    originalQuoteId: z.string().min(1),
+    newQuoteRequest: WireQuoteRequestSchema,
+    nonce: WireUintSchema,
+    timestamp: WireUintSchema,
+    trader: WireAddressSchema
+  })
+  .pipe(ReplaceSchema);
+
+export const WireHeartbeatSchema = z
+  .object({
+    channelId: WireChannelIdSchema,
+    nonce: WireUintSchema,
+    timestamp: WireUintSchema,
+    sender: WireAddressSchema
+  })
+  .pipe(HeartbeatSchema);
+
+export const WireChannelStateSchema = z
+  .object({
+    channelId: WireChannelIdSchema,
+    nonce: WireUintSchema,
+    trader: WireAddressSchema,
+    lp: WireAddressSchema,
+    traderBalances: z.array(WireTokenAmountSchema),
+    lpBalances: z.array(WireTokenAmountSchema),
+    timestamp: WireUintSchema,
+    chainId: WireChainIdSchema
+  })
+  .pipe(ChannelStateSchema);
+
+export const WireSettlementRequestSchema = z
+  .object({
+    channelId: WireChannelIdSchema,
+    finalState: WireChannelStateSchema,
+    traderSignature: WireSignatureSchema,
+    lpSignature: WireSignatureSchema
+  })
+  .pipe(SettlementRequestSchema);
+
+export const WireCheckpointRequestSchema = z
+  .object({
+    channelId: WireChannelIdSchema,
+    state: WireChannelStateSchema,
+    traderSignature: WireSignatureSchema,
+    lpSignature: WireSignatureSchema
+  })
+  .pipe(CheckpointRequestSchema);
+
+export const WireSessionAuthorizationSchema = z
+  .object({
+    owner: WireAddressSchema,
+    delegate: WireAddressSchema,
+    channelId: WireChannelIdSchema,
+    notionalToken: WireAddressSchema,
+    maxNotional: WireUintSchema,
+    expiry: WireUintSchema,
+    nonce: WireUintSchema
+  })
+  .pipe(SessionAuthorizationSchema);
+
+export const WireSignedSessionAuthorizationSchema = z
+  .object({
+    authorization: WireSessionAuthorizationSchema,
+    signature: WireSignatureSchema
+  })
+  .pipe(SignedSessionAuthorizationSchema);
+
+// serializeDisputeChallenge fills a missing authorization with an unsigned
+// placeholder, since the contract's struct cannot be left out
+const WireChallengeAuthorizationSchema = z
+  .union([
+    z.object({ signature: z.literal('0x') }).transform(() => undefined),
+    WireSignedSessionAuthorizationSchema
+  ])
+  .optional();
+
+export const WireDisputeChallengeSchema = z
+  .object({
+    channelId: WireChannelIdSchema,
+    challengeState: WireChannelStateSchema,
+    challengerSignature: WireSignatureSchema,
+    counterpartySignature: WireSignatureSchema,
+    challengerAuthorization: WireChallengeAuthorizationSchema,
+    counterpartyAuthorization: WireChallengeAuthorizationSchema
+  })
+  .pipe(DisputeChallengeSchema);
+
+// ============================================================================
+// DESERIALIZATION HELPERS
+// ============================================================================
+
+export interface ValidationIssue {
+  readonly path: string;
+  readonly code: string;
+  readonly message: string;
+}
+
+export function toValidationIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path.join('.'),
+    code: issue.code,
+    message: issue.message
+  }));
+}
+
+export function decodeWith<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown, typeName: string): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issues = toValidationIssues(result.error);
+    const summary = issues.map(issue => `${issue.path || '<root>'}: ${issue.message}`).join('; ');
+    throw new ValidationError(`Invalid ${typeName}: ${summary}`, { typeName, issues });
+  }
+  return result.data;
+}
+
+export function deserializeQuoteRequest(data: unknown): QuoteRequest {
+  return decodeWith(WireQuoteRequestSchema, data, 'QuoteRequest');
+}
+
+export function deserializeQuote(data: unknown): Quote {
+  return decodeWith(WireQuoteSchema, data, 'Quote');
+}
+
+export function deserializeFill(data: unknown): Fill {
+  return decodeWith(WireFillSchema, data, 'Fill');
+}
+
+export function deserializeCancel(data: unknown): Cancel {
+  return decodeWith(WireCancelSchema, data, 'Cancel');
+}
+
+export function deserializeReplace(data: unknown): Replace {
+  return decodeWith(WireReplaceSchema, data, 'Replace');
+}
+
+export function deserializeHeartbeat(data: unknown): Heartbeat {
+  return decodeWith(WireHeartbeatSchema, data, 'Heartbeat');
+}
+
+export function deserializeChannelState(data: unknown): ChannelState {
+  return decodeWith(WireChannelStateSchema, data, 'ChannelState');
+}
+
+export function deserializeSettlementRequest(data: unknown): SettlementRequest {
+  return decodeWith(WireSettlementRequestSchema, data, 'SettlementRequest');
+}
+
+export function deserializeCheckpointRequest(data: unknown): CheckpointRequest {
+  return decodeWith(WireCheckpointRequestSchema, data, 'CheckpointRequest');
+}
+
+export function deserializeDisputeChallenge(data: unknown): DisputeChallenge {
+  return decodeWith(WireDisputeChallengeSchema, data, 'DisputeChallenge');
+}
+
+export function deserializeSessionAuthorization(data: unknown): SessionAuthorization {
+  return decodeWith(WireSessionAuthorizationSchema, data, 'SessionAuthorization');
+}
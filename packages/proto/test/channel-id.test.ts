@@ -0,0 +1,53 @@
+import { ChannelIdParams, createChannelId, verifyChannelId } from '../src';
+import { USDC, WETH, address, lpWallet, traderWallet } from './fixtures';
+
+// keccak256(abi.encode(trader, lp, [WETH, USDC], 1, 0)), laid out word by word:
+// trader | lp | offset 0xa0 | chainId | openNonce | length 2 | WETH | USDC
+const VECTOR = '0x29d9e5dbc917b3df8cae1321adec7e8d988411b0d235b71b7207462e3f181a2a';
+
+function params(overrides: Partial<ChannelIdParams> = {}): ChannelIdParams {
+  return {
+    trader: address(traderWallet.address),
+    lp: address(lpWallet.address),
+    tokens: [address(WETH), address(USDC)],
+    chainId: { value: 1 },
+    openNonce: 0n,
+    ...overrides
+  };
+}
+
+describe('createChannelId', () => {
+  it('matches keccak256(abi.encode(trader, lp, tokens, chainId, openNonce))', () => {
+    expect(createChannelId(params()).value).toBe(VECTOR);
+  });
+
+  it('ignores address case', () => {
+    const upper = (value: string) => ({ value: '0x' + value.slice(2).toUpperCase() });
+    expect(createChannelId(params({
+      trader: { value: traderWallet.address },
+      lp: upper(lpWallet.address),
+      tokens: [upper(WETH), upper(USDC)]
+    })).value).toBe(VECTOR);
+  });
+
+  it('follows the token order passed to openChannel', () => {
+    expect(createChannelId(params({ tokens: [address(USDC), address(WETH)] })).value).not.toBe(VECTOR);
+  });
+});
+
+describe('verifyChannelId', () => {
+  it('accepts the parameters the ID was derived from', () => {
+    expect(verifyChannelId({ value: VECTOR }, params())).toBe(true);
+  });
+
+  it('rejects any altered parameter', () => {
+    const altered: Partial<ChannelIdParams>[] = [
+      { trader: address(lpWallet.address), lp: address(traderWallet.address) },
+      { tokens: [address(WETH)] },
+      { tokens: [address(USDC), address(WETH)] },
+      { chainId: { value: 137 } },
+      { openNonce: 1n }
+    ];
+    altered.forEach(overrides => expect(verifyChannelId({ value: VECTOR }, params(overrides))).toBe(false));
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  CHANNEL_STATUS_MESSAGES,
+  ChannelStateMachine,
+  ChannelStatus,
+  ChannelTransitionEvent,
+  acceptsMessage,
+  canTransition
+} from '../src';
+import { CHANNEL_ID } from './fixtures';
+
+// Messages that move the co-signed channel state (and its nonce)
+const STATE_CHANGES = ['FILL', 'CANCEL', 'REPLACE'] as const;
+
+describe('channel status rules', () => {
+  it('freezes the channel state while a checkpoint is in flight', () => {
+    STATE_CHANGES.forEach(type => expect(acceptsMessage('CHECKPOINTING', type)).toBe(false));
+    expect(acceptsMessage('CHECKPOINTING', 'CHECKPOINT')).toBe(true);
+    expect(acceptsMessage('CHECKPOINTING', 'HEARTBEAT')).toBe(true);
+  });
+
+  it('only lets a degraded channel shed risk', () => {
+    expect(acceptsMessage('DEGRADED', 'CANCEL')).toBe(true);
+    expect(acceptsMessage('DEGRADED', 'FILL')).toBe(false);
+    expect(acceptsMessage('DEGRADED', 'QUOTE')).toBe(false);
+  });
+
+  it('accepts nothing once disputed or closed', () => {
+    expect(CHANNEL_STATUS_MESSAGES.DISPUTED).toEqual([]);
+    expect(CHANNEL_STATUS_MESSAGES.CLOSED).toEqual([]);
+    expect(canTransition('CLOSED', 'ACTIVE')).toBe(false);
+  });
+});
+
+describe('ChannelStateMachine', () => {
+  const channelId = { value: CHANNEL_ID };
+
+  it('follows the transition table and notifies listeners', () => {
+    const machine = new ChannelStateMachine(channelId, { clock: { now: () => 5n } });
+    const events: ChannelTransitionEvent[] = [];
+    machine.onTransition(event => events.push(event));
+
+    machine.transition('ACTIVE', 'opened');
+    expect(() => machine.transition('OPENING')).toThrow('Invalid channel status transition: ACTIVE -> OPENING');
+    expect(machine.status).toBe('ACTIVE');
+    expect(events).toEqual([{ channelId, from: 'OPENING', to: 'ACTIVE', reason: 'opened', at: 5n }]);
+  });
+
+  it('lets guards refuse a transition', () => {
+    const machine = new ChannelStateMachine(channelId, {
+      initial: 'ACTIVE',
+      guards: { SETTLING: () => 'checkpoint pending' }
+    });
+    expect(machine.can('SETTLING')).toBe(false);
+    expect(() => machine.transition('SETTLING')).toThrow('Channel status transition refused');
+    expect(machine.status).toBe('ACTIVE');
+  });
+
+  it('gates messages on the current status', () => {
+    const machine = new ChannelStateMachine(channelId, { initial: 'ACTIVE' });
+    expect(machine.accepts('FILL')).toBe(true);
+    machine.transition('CHECKPOINTING');
+    expect(() => machine.assertAccepts('CANCEL')).toThrow('CANCEL not accepted while channel is CHECKPOINTING');
+
+    const statuses: ChannelStatus[] = ['ACTIVE', 'SETTLING', 'CLOSED'];
+    statuses.forEach(status => machine.transition(status));
+    expect(machine.isClosed).toBe(true);
+  });
+});
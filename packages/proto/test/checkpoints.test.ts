@@ -0,0 +1,120 @@
+import {
+  CONSTANTS,
+  ChannelStatus,
+  CheckpointIntent,
+  CheckpointPolicy,
+  CheckpointPolicyEngine,
+  Clock,
+  FillDeltas,
+  FillTerms,
+  ValidationError,
+  parseCheckpointPolicy
+} from '../src';
+import { CHANNEL_ID, USDC, WETH, address, channelState } from './fixtures';
+
+const START = 1_700_000_000_000n;
+const channelId = { value: CHANNEL_ID };
+const terms: FillTerms = { side: 'BUY', baseToken: address(WETH), quoteToken: address(USDC), lpFeeBps: 5 };
+
+function deltas(quoteAmount: bigint): FillDeltas {
+  return { baseAmount: 1n, quoteAmount, fee: 0n, traderQuoteAmount: quoteAmount };
+}
+
+function setup(policy: CheckpointPolicy, status?: ChannelStatus) {
+  const clock = { time: START, now() { return this.time; } } as Clock & { time: bigint };
+  const intents: CheckpointIntent[] = [];
+  const engine = new CheckpointPolicyEngine({
+    policy,
+    clock,
+    onIntent: intent => intents.push(intent),
+    channelStatus: () => status
+  });
+  engine.track(channelState());
+  return { clock, engine, intents };
+}
+
+describe('checkpoint policy', () => {
+  it('parses JSON policies with decimal string thresholds', () => {
+    const policy = parseCheckpointPolicy({
+      rules: [{ type: 'UNSETTLED_NOTIONAL', token: USDC, threshold: '5000000000' }]
+    });
+    expect(policy.rules[0]).toEqual({ type: 'UNSETTLED_NOTIONAL', token: { value: USDC }, threshold: 5_000_000_000n });
+    expect(policy.retryAfterMs).toBe(60_000);
+    expect(() => parseCheckpointPolicy({ rules: [] })).toThrow(ValidationError);
+    expect(() => parseCheckpointPolicy({ rules: [{ type: 'FILL_COUNT', fills: 0 }] })).toThrow(ValidationError);
+  });
+
+  it('fires on fill count and resets once checkpointed', () => {
+    const { engine, intents } = setup({ rules: [{ type: 'FILL_COUNT', fills: 2 }], retryAfterMs: 1_000 });
+    expect(engine.recordFill(channelState({ nonce: 1n }), terms, deltas(1n))).toBeUndefined();
+    const intent = engine.recordFill(channelState({ nonce: 2n }), terms, deltas(1n));
+    expect(intent?.state.nonce).toBe(2n);
+    expect(intents).toHaveLength(1);
+
+    engine.markCheckpointed(channelId, 2n);
+    expect(engine.status(channelId)).toMatchObject({ lastCheckpointNonce: 2n, fillsSinceCheckpoint: 0 });
+    expect(engine.evaluate(channelId)).toBeUndefined();
+  });
+
+  it('sums unsettled notional per token', () => {
+    const { engine } = setup({
+      rules: [{ type: 'UNSETTLED_NOTIONAL', token: address(USDC), threshold: 100n }],
+      retryAfterMs: 1_000
+    });
+    expect(engine.recordFill(channelState({ nonce: 1n }), terms, deltas(60n))).toBeUndefined();
+    expect(engine.recordFill(channelState({ nonce: 2n }), terms, deltas(40n))?.triggers[0].detail)
+      .toBe(`100 unsettled in ${USDC}`);
+  });
+
+  it('holds an intent for retryAfterMs before re-emitting it', () => {
+    const { clock, engine, intents } = setup({ rules: [{ type: 'FILL_COUNT', fills: 1 }], retryAfterMs: 1_000 });
+    engine.recordFill(channelState({ nonce: 1n }), terms, deltas(1n));
+    clock.time += 999n;
+    expect(engine.evaluate(channelId)).toBeUndefined();
+    clock.time += 1n;
+    expect(engine.evaluate(channelId)).toBeDefined();
+    expect(intents).toHaveLength(2);
+  });
+
+  it('restarts the channel timeout when a checkpoint lands', () => {
+    const margin = 5 * 60_000;
+    const { clock, engine } = setup({ rules: [{ type: 'TIMEOUT', marginMs: margin }], retryAfterMs: 1_000 });
+    const timeout = BigInt(CONSTANTS.CHANNEL_TIMEOUT_MS);
+    expect(engine.status(channelId)?.timeoutAt).toBe(START + timeout);
+
+    engine.recordState(channelState({ nonce: 1n }));
+    clock.time = START + timeout - BigInt(margin);
+    expect(engine.evaluate(channelId)?.triggers[0].rule.type).toBe('TIMEOUT');
+
+    engine.markCheckpointed(channelId, 1n);
+    expect(engine.status(channelId)?.timeoutAt).toBe(clock.time + timeout);
+
+    // Activity right after the checkpoint is nowhere near the new timeout
+    engine.recordState(channelState({ nonce: 2n }));
+    expect(engine.evaluate(channelId)).toBeUndefined();
+
+    engine.markCheckpointed(channelId, 2n, clock.time, 42n);
+    expect(engine.status(channelId)?.timeoutAt).toBe(42n);
+  });
+
+  it('ignores stale confirmations and keeps counters for states past the checkpoint', () => {
+    const { engine } = setup({ rules: [{ type: 'FILL_COUNT', fills: 10 }], retryAfterMs: 1_000 });
+    engine.recordFill(channelState({ nonce: 1n }), terms, deltas(1n));
+    engine.recordFill(channelState({ nonce: 2n }), terms, deltas(1n));
+    engine.markCheckpointed(channelId, 1n);
+    expect(engine.status(channelId)).toMatchObject({ lastCheckpointNonce: 1n, fillsSinceCheckpoint: 2 });
+
+    engine.markCheckpointed(channelId, 0n, 5n);
+    expect(engine.status(channelId)?.lastCheckpointNonce).toBe(1n);
+  });
+
+  it('holds intents while the channel status refuses checkpoints', () => {
+    const { engine } = setup({ rules: [{ type: 'FILL_COUNT', fills: 1 }], retryAfterMs: 1_000 }, 'SETTLING');
+    expect(engine.recordFill(channelState({ nonce: 1n }), terms, deltas(1n))).toBeUndefined();
+  });
+
+  it('refuses untracked channels', () => {
+    const { engine } = setup({ rules: [{ type: 'FILL_COUNT', fills: 1 }], retryAfterMs: 1_000 });
+    expect(() => engine.evaluate({ value: '0x' + 'cd'.repeat(32) })).toThrow('not tracked');
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  BINARY_SCHEMA_VERSION,
+  Envelope,
+  ValidationError,
+  binaryCodec,
+  createDomain,
+  jsonCodec,
+  signEnvelope,
+  signSessionAuthorization
+} from '../src';
+import {
+  CHANNEL_ID,
+  SETTLEMENT,
+  USDC,
+  address,
+  channelState,
+  delegateWallet,
+  fill,
+  lpWallet,
+  quote,
+  traderWallet
+} from './fixtures';
+
+const domain = createDomain(1, SETTLEMENT);
+const codecs = [jsonCodec, binaryCodec];
+const MAX_UINT64 = (1n << 64n) - 1n;
+
+// Codecs don't verify signatures, so a fixed one keeps encodings comparable byte for byte
+function unsigned(envelope: Omit<Envelope, 'version' | 'signature'>): Envelope {
+  return { version: '1.0.0', signature: '0x' + '00'.repeat(65), ...envelope } as Envelope;
+}
+
+describe('wire codecs', () => {
+  it('round-trip signed envelopes', async () => {
+    const authorization = await signSessionAuthorization({
+      owner: address(traderWallet.address),
+      delegate: address(delegateWallet.address),
+      channelId: { value: CHANNEL_ID },
+      notionalToken: address(USDC),
+      maxNotional: 10n ** 12n,
+      expiry: 1_700_086_400_000n,
+      nonce: 0n
+    }, traderWallet, domain);
+    const state = channelState({ nonce: 4n });
+    const envelopes: Envelope[] = [
+      await signEnvelope('QUOTE', quote(), lpWallet, domain),
+      await signEnvelope('FILL', fill({ remainingQuantity: 3n }), traderWallet, domain),
+      await signEnvelope('FILL', fill(), delegateWallet, domain, authorization),
+      await signEnvelope('CHECKPOINT', {
+        channelId: state.channelId,
+        state,
+        traderSignature: '0x' + '01'.repeat(65),
+        lpSignature: '0x' + '02'.repeat(65)
+      }, lpWallet, domain)
+    ];
+
+    codecs.forEach(codec => envelopes.forEach(envelope => {
+      expect(codec.decode(codec.encode(envelope))).toEqual(envelope);
+    }));
+  });
+
+  it('carry full uint256 amounts and uint64 nonces in both codecs', () => {
+    const max = (1n << 256n) - 1n;
+    const envelope = unsigned({
+      type: 'FILL',
+      sender: address(traderWallet.address),
+      payload: fill({ quantity: max, price: max, remainingQuantity: 1n << 200n, nonce: MAX_UINT64 })
+    });
+    codecs.forEach(codec => expect(codec.decode(codec.encode(envelope))).toEqual(envelope));
+  });
+
+  it('reject the same out-of-range values in both codecs', () => {
+    const tooBig = [
+      fill({ nonce: MAX_UINT64 + 1n }),
+      fill({ timestamp: MAX_UINT64 + 1n }),
+      fill({ quantity: 1n << 256n })
+    ];
+    tooBig.forEach(payload => {
+      const envelope = unsigned({ type: 'FILL', sender: address(traderWallet.address), payload });
+      expect(() => binaryCodec.encode(envelope)).toThrow(ValidationError);
+      expect(() => jsonCodec.decode(jsonCodec.encode(envelope))).toThrow(ValidationError);
+    });
+  });
+
+  it('validate the envelope around the payload in both codecs', () => {
+    const envelope = unsigned({ type: 'FILL', sender: address(traderWallet.address), payload: fill() });
+    const selfDelegated = {
+      ...envelope,
+      authorization: {
+        authorization: {
+          owner: address(traderWallet.address),
+          delegate: address(traderWallet.address),
+          channelId: { value: CHANNEL_ID },
+          notionalToken: address(USDC),
+          maxNotional: 10n ** 12n,
+          expiry: 1_700_086_400_000n,
+          nonce: 0n
+        },
+        signature: '0x' + '00'.repeat(65)
+      }
+    };
+
+    codecs.forEach(codec => {
+      expect(() => codec.decode(codec.encode({ ...envelope, version: '' }))).toThrow('Malformed message envelope');
+      expect(() => codec.decode(codec.encode(selfDelegated))).toThrow('Delegate must differ from the owner');
+    });
+  });
+
+  it('rejects an unknown side byte', () => {
+    const encode = (side: 'BUY' | 'SELL') => binaryCodec.encode(
+      unsigned({ type: 'QUOTE', sender: address(lpWallet.address), payload: quote({ side }) })
+    );
+    const buy = encode('BUY');
+    const sell = encode('SELL');
+    const offset = buy.findIndex((byte, i) => byte !== sell[i]);
+    expect(buy.filter((byte, i) => byte !== sell[i])).toHaveLength(1);
+
+    const corrupt = Uint8Array.from(buy);
+    corrupt[offset] = 7;
+    expect(() => binaryCodec.decode(corrupt)).toThrow('Unknown order side byte: 7');
+  });
+
+  it('rejects truncated, padded and foreign binary frames', () => {
+    const encoded = binaryCodec.encode(
+      unsigned({ type: 'FILL', sender: address(traderWallet.address), payload: fill() })
+    );
+    expect(() => binaryCodec.decode(encoded.slice(0, -1))).toThrow('Truncated binary message');
+    expect(() => binaryCodec.decode(Uint8Array.from([...encoded, 0]))).toThrow('Trailing bytes');
+
+    const foreign = Uint8Array.from(encoded);
+    foreign[0] = BINARY_SCHEMA_VERSION + 1;
+    expect(() => binaryCodec.decode(foreign)).toThrow('Unsupported binary schema version');
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => jsonCodec.decode(new TextEncoder().encode('{'))).toThrow('Envelope is not valid JSON');
+  });
+});
@@ -0,0 +1,146 @@
+import { Wallet } from 'ethers';
+import {
+  ChannelState,
+  SignedChannelState,
+  StateHistory,
+  checkStateSignatures,
+  computeChannelStateHash,
+  createDomain,
+  deserializeDisputeChallenge,
+  serializeDisputeChallenge,
+  signSessionAuthorization
+} from '../src';
+import { CHANNEL_ID, SETTLEMENT, USDC, address, channelState, delegateWallet, lpWallet, traderWallet } from './fixtures';
+
+const domain = createDomain(1, SETTLEMENT);
+const trader = address(traderWallet.address);
+const lp = address(lpWallet.address);
+
+function sign(wallet: Wallet, state: ChannelState): string {
+  return wallet.signingKey.sign(computeChannelStateHash(state)).serialized;
+}
+
+function cosigned(nonce: bigint): SignedChannelState {
+  const state = channelState({ nonce, timestamp: 1_700_000_000_000n + nonce });
+  return { state, traderSignature: sign(traderWallet, state), lpSignature: sign(lpWallet, state) };
+}
+
+async function delegateSigned(nonce: bigint, scope: { expiry?: bigint; channelId?: string } = {}): Promise<SignedChannelState> {
+  const state = channelState({ nonce, timestamp: 1_700_000_000_000n + nonce });
+  const traderAuthorization = await signSessionAuthorization({
+    owner: trader,
+    delegate: address(delegateWallet.address),
+    channelId: { value: scope.channelId ?? CHANNEL_ID },
+    notionalToken: address(USDC),
+    maxNotional: 10n ** 12n,
+    expiry: scope.expiry ?? 1_700_086_400_000n,
+    nonce: 0n
+  }, traderWallet, domain);
+  return { state, traderSignature: sign(delegateWallet, state), lpSignature: sign(lpWallet, state), traderAuthorization };
+}
+
+function forged(nonce: bigint): SignedChannelState {
+  const signed = cosigned(nonce);
+  return { ...signed, lpSignature: signed.traderSignature };
+}
+
+describe('dispute evidence', () => {
+  it('accepts states both participants signed', () => {
+    expect(checkStateSignatures(cosigned(1n))).toBeUndefined();
+  });
+
+  it('names the side whose signature fails', () => {
+    const signed = cosigned(1n);
+    expect(checkStateSignatures({ ...signed, traderSignature: signed.lpSignature })).toBe('INVALID_TRADER_SIGNATURE');
+    expect(checkStateSignatures({ ...signed, lpSignature: signed.traderSignature })).toBe('INVALID_LP_SIGNATURE');
+    expect(checkStateSignatures({ ...signed, state: { ...signed.state, nonce: 2n } })).toBe('INVALID_TRADER_SIGNATURE');
+  });
+
+  it('accepts a state signed by an authorized session key', async () => {
+    const signed = await delegateSigned(1n);
+    expect(checkStateSignatures(signed, domain)).toBeUndefined();
+    // Without the domain the authorization itself cannot be checked
+    expect(checkStateSignatures(signed)).toBe('INVALID_TRADER_SIGNATURE');
+  });
+
+  it('rejects session key signatures outside the authorization', async () => {
+    // Expired before the state was signed, or for another channel
+    expect(checkStateSignatures(await delegateSigned(1n, { expiry: 1_700_000_000_000n }), domain))
+      .toBe('INVALID_TRADER_SIGNATURE');
+    expect(checkStateSignatures(await delegateSigned(1n, { channelId: '0x' + 'cd'.repeat(32) }), domain))
+      .toBe('INVALID_TRADER_SIGNATURE');
+
+    // The trader's authorization cannot vouch for a signature in the LP's place
+    const signed = await delegateSigned(1n);
+    const { traderAuthorization } = signed;
+    expect(checkStateSignatures({ ...cosigned(1n), lpSignature: signed.traderSignature, lpAuthorization: traderAuthorization }, domain))
+      .toBe('INVALID_LP_SIGNATURE');
+
+    // Nor does it hold under another contract's domain
+    expect(checkStateSignatures(signed, createDomain(1, '0x' + '99'.repeat(20)))).toBe('INVALID_TRADER_SIGNATURE');
+  });
+
+  it('challenges with the newest state the contract will accept', async () => {
+    const history = new StateHistory({ value: CHANNEL_ID }, [cosigned(1n), await delegateSigned(2n)], domain);
+    history.record(forged(3n));
+
+    const evidence = history.buildEvidence(1n, trader);
+    expect(evidence.status).toBe('CHALLENGE');
+    if (evidence.status !== 'CHALLENGE') return;
+    expect(evidence.evidence.state.nonce).toBe(2n);
+    expect(evidence.rejected).toEqual([{ nonce: 3n, reason: 'INVALID_LP_SIGNATURE' }]);
+    expect(evidence.challenge).toMatchObject({
+      challengerSignature: evidence.evidence.traderSignature,
+      counterpartySignature: evidence.evidence.lpSignature,
+      challengerAuthorization: evidence.evidence.traderAuthorization,
+      counterpartyAuthorization: undefined
+    });
+  });
+
+  it('carries the trader authorization as the counterparty one when the LP challenges', async () => {
+    const history = new StateHistory({ value: CHANNEL_ID }, [await delegateSigned(2n)], domain);
+    const evidence = history.buildEvidence(1n, lp);
+    if (evidence.status !== 'CHALLENGE') throw new Error('Expected a challenge');
+    expect(evidence.challenge.challengerSignature).toBe(evidence.evidence.lpSignature);
+    expect(evidence.challenge.challengerAuthorization).toBeUndefined();
+    expect(evidence.challenge.counterpartyAuthorization).toEqual(evidence.evidence.traderAuthorization);
+  });
+
+  it('encodes missing authorizations as unsigned placeholders for the contract', async () => {
+    const evidence = new StateHistory({ value: CHANNEL_ID }, [await delegateSigned(2n)], domain).buildEvidence(1n, trader);
+    if (evidence.status !== 'CHALLENGE') throw new Error('Expected a challenge');
+
+    const wire = JSON.parse(JSON.stringify(serializeDisputeChallenge(evidence.challenge)));
+    expect(wire.counterpartyAuthorization.signature).toBe('0x');
+    expect(wire.counterpartyAuthorization.authorization.owner).toBe('0x' + '00'.repeat(20));
+    expect(deserializeDisputeChallenge(wire)).toEqual({ ...evidence.challenge, counterpartyAuthorization: undefined });
+  });
+
+  it('reports when nothing beats the closed nonce', () => {
+    const history = new StateHistory({ value: CHANNEL_ID }, [cosigned(1n), forged(2n)], domain);
+    expect(history.buildEvidence(1n, trader)).toEqual({
+      status: 'NO_BETTER_STATE',
+      closedNonce: 1n,
+      latestNonce: 2n,
+      rejected: [{ nonce: 2n, reason: 'INVALID_LP_SIGNATURE' }]
+    });
+  });
+
+  it('replaces an invalid copy of a state with a valid one, but never the reverse', async () => {
+    const history = new StateHistory({ value: CHANNEL_ID }, [forged(2n)], domain);
+    history.record(await delegateSigned(2n));
+    expect(history.buildEvidence(1n, trader).status).toBe('CHALLENGE');
+
+    history.record(forged(2n));
+    expect(history.get(2n)?.traderAuthorization).toBeDefined();
+  });
+
+  it('refuses conflicting states, foreign channels and outside challengers', () => {
+    const history = new StateHistory({ value: CHANNEL_ID }, [cosigned(1n)]);
+    const conflicting = channelState({ nonce: 1n, timestamp: 5n });
+    expect(() => history.record({ ...cosigned(1n), state: conflicting })).toThrow('Conflicting states');
+    expect(() => history.record({ ...cosigned(2n), state: channelState({ channelId: { value: '0x' + 'cd'.repeat(32) } }) }))
+      .toThrow('different channel');
+    expect(() => history.buildEvidence(0n, address(delegateWallet.address))).toThrow('not a channel participant');
+  });
+});
@@ -0,0 +1,85 @@
+import { AbiCoder, TypedDataEncoder, concat, id, keccak256, recoverAddress } from 'ethers';
+import {
+  EIP712_TYPES,
+  computeChannelStateDigest,
+  computeChannelStateHash,
+  computeMessageHash,
+  createDomain,
+  selectTypes,
+  serializeChannelState
+} from '../src';
+import { SETTLEMENT, channelState, lpWallet, traderWallet } from './fixtures';
+
+const abi = AbiCoder.defaultAbiCoder();
+
+const TOKEN_AMOUNT_TYPE = 'TokenAmount(address token,uint256 amount)';
+const CHANNEL_STATE_TYPE =
+  'ChannelState(string channelId,uint256 nonce,address trader,address lp,TokenAmount[] traderBalances,' +
+  'TokenAmount[] lpBalances,uint256 timestamp,uint256 chainId)' + TOKEN_AMOUNT_TYPE;
+
+// encodeData by hand, straight from the EIP-712 spec
+function hashBalances(balances: { token: { value: string }; amount: bigint }[]): string {
+  return keccak256(concat(balances.map(balance =>
+    keccak256(abi.encode(['bytes32', 'address', 'uint256'], [id(TOKEN_AMOUNT_TYPE), balance.token.value, balance.amount])))));
+}
+
+describe('EIP-712 hashing', () => {
+  it('hashes ChannelState exactly as the spec (and SettlementManager) encode it', () => {
+    const state = channelState({ nonce: 7n });
+    const expected = keccak256(abi.encode(
+      ['bytes32', 'bytes32', 'uint256', 'address', 'address', 'bytes32', 'bytes32', 'uint256', 'uint256'],
+      [
+        id(CHANNEL_STATE_TYPE),
+        id(state.channelId.value),
+        state.nonce,
+        state.trader.value,
+        state.lp.value,
+        hashBalances([...state.traderBalances]),
+        hashBalances([...state.lpBalances]),
+        state.timestamp,
+        state.chainId.value
+      ]
+    ));
+
+    expect(computeChannelStateHash(state)).toBe(expected);
+  });
+
+  it('binds the digest to the domain', () => {
+    const state = channelState();
+    const digest = computeChannelStateDigest(state, SETTLEMENT);
+    const domainSeparator = TypedDataEncoder.hashDomain(createDomain(1, SETTLEMENT));
+
+    expect(digest).toBe(keccak256(concat(['0x1901', domainSeparator, computeChannelStateHash(state)])));
+    expect(computeChannelStateDigest(state, '0x' + '00'.repeat(19) + '01')).not.toBe(digest);
+    expect(computeChannelStateDigest({ ...state, chainId: { value: 137 } }, SETTLEMENT)).not.toBe(digest);
+  });
+
+  it('changes with every signed field', () => {
+    const base = computeChannelStateHash(channelState());
+    expect(computeChannelStateHash(channelState({ nonce: 1n }))).not.toBe(base);
+    expect(computeChannelStateHash(channelState({ timestamp: 1n }))).not.toBe(base);
+    expect(computeChannelStateHash(channelState({ traderBalances: [] }))).not.toBe(base);
+  });
+
+  it('matches what a wallet signs with eth_signTypedData_v4', async () => {
+    const state = channelState();
+    const types = selectTypes(EIP712_TYPES, 'ChannelState');
+    const signature = await traderWallet.signTypedData(createDomain(1, SETTLEMENT), types, serializeChannelState(state));
+
+    expect(recoverAddress(computeChannelStateDigest(state, SETTLEMENT), signature)).toBe(traderWallet.address);
+    expect(recoverAddress(computeChannelStateDigest(state, SETTLEMENT), signature)).not.toBe(lpWallet.address);
+  });
+
+  it('selects only the types reachable from the primary type', () => {
+    expect(Object.keys(selectTypes(EIP712_TYPES, 'ChannelState')).sort()).toEqual(['ChannelState', 'TokenAmount']);
+    expect(Object.keys(selectTypes(EIP712_TYPES, 'Replace')).sort()).toEqual(['QuoteRequest', 'Replace']);
+    expect(() => selectTypes(EIP712_TYPES, 'Nope')).toThrow('Unknown EIP-712 primary type');
+  });
+
+  it('hashes messages under their own primary type', () => {
+    const domain = createDomain(1, SETTLEMENT);
+    const heartbeat = { channelId: 'x', nonce: '1', timestamp: '2', sender: traderWallet.address };
+    expect(computeMessageHash(domain, EIP712_TYPES, 'Heartbeat', heartbeat))
+      .toBe(TypedDataEncoder.hash(domain, { Heartbeat: EIP712_TYPES.Heartbeat }, heartbeat));
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  Envelope,
+  FillTerms,
+  Heartbeat,
+  MessageRouter,
+  MessageRouterOptions,
+  NonceManager,
+  SessionKeyLedger,
+  createDomain,
+  createSessionAuthorization,
+  serializeEnvelope,
+  signEnvelope,
+  signSessionAuthorization,
+  verifyEnvelope
+} from '../src';
+import { CHANNEL_ID, SETTLEMENT, USDC, WETH, address, delegateWallet, fill, lpWallet, traderWallet } from './fixtures';
+
+const domain = createDomain(1, SETTLEMENT);
+const clock = { now: () => 1_700_000_001_000n };
+
+function heartbeat(overrides: Partial<Heartbeat> = {}): Heartbeat {
+  return {
+    channelId: { value: CHANNEL_ID },
+    nonce: 1n,
+    timestamp: 1_700_000_000_000n,
+    sender: address(traderWallet.address),
+    ...overrides
+  };
+}
+
+async function wire(envelope: Promise<Envelope>): Promise<Record<string, any>> {
+  return serializeEnvelope(await envelope);
+}
+
+function router(overrides: Partial<MessageRouterOptions> = {}): MessageRouter {
+  return new MessageRouter({ domain, clock, ...overrides });
+}
+
+describe('signEnvelope and verifyEnvelope', () => {
+  it('accepts an envelope signed by one of the payload signers', async () => {
+    await expect(verifyEnvelope(await signEnvelope('FILL', fill(), traderWallet, domain), domain)).resolves.toBeUndefined();
+    await expect(verifyEnvelope(await signEnvelope('FILL', fill(), lpWallet, domain), domain)).resolves.toBeUndefined();
+  });
+
+  it('rejects a sender that may not sign the message', async () => {
+    // Heartbeats are signed by the participant they name, not its counterparty
+    const envelope = await signEnvelope('HEARTBEAT', heartbeat(), lpWallet, domain);
+    await expect(verifyEnvelope(envelope, domain)).rejects.toMatchObject({
+      code: 'MESSAGE_ERROR',
+      details: { reason: 'UNAUTHORIZED_SENDER' }
+    });
+  });
+
+  it('rejects a signature that does not cover the payload or sender', async () => {
+    const envelope = await signEnvelope('FILL', fill(), traderWallet, domain);
+
+    await expect(verifyEnvelope({ ...envelope, payload: { ...envelope.payload, quantity: 1n } }, domain))
+      .rejects.toMatchObject({ details: { reason: 'INVALID_SIGNATURE' } });
+    await expect(verifyEnvelope({ ...envelope, sender: address(lpWallet.address) }, domain))
+      .rejects.toMatchObject({ details: { reason: 'INVALID_SIGNATURE' } });
+    await expect(verifyEnvelope(envelope, createDomain(137, SETTLEMENT)))
+      .rejects.toMatchObject({ details: { reason: 'INVALID_SIGNATURE' } });
+    await expect(verifyEnvelope({ ...envelope, signature: '0x' }, domain))
+      .rejects.toMatchObject({ details: { reason: 'MISSING_SIGNATURE' } });
+  });
+});
+
+describe('MessageRouter', () => {
+  it('dispatches each message to the handler for its type', async () => {
+    const onFill = jest.fn().mockReturnValue('filled');
+    const onHeartbeat = jest.fn().mockReturnValue('alive');
+    const messages = router().on('FILL', onFill).on('HEARTBEAT', onHeartbeat);
+
+    await expect(messages.dispatch(await wire(signEnvelope('FILL', fill(), traderWallet, domain)))).resolves.toBe('filled');
+    await expect(messages.dispatch(await wire(signEnvelope('HEARTBEAT', heartbeat(), traderWallet, domain))))
+      .resolves.toBe('alive');
+    expect(onFill).toHaveBeenCalledWith(expect.objectContaining({ type: 'FILL' }));
+    expect(onHeartbeat).toHaveBeenCalledWith(expect.objectContaining({ type: 'HEARTBEAT' }));
+  });
+
+  it('rejects unknown message types and types without a handler', async () => {
+    const messages = router().on('FILL', jest.fn());
+    const envelope = await wire(signEnvelope('HEARTBEAT', heartbeat(), traderWallet, domain));
+
+    await expect(messages.dispatch({ ...envelope, type: 'TRANSFER' })).rejects.toMatchObject({
+      details: { reason: 'UNKNOWN_MESSAGE_TYPE' }
+    });
+    await expect(messages.dispatch(envelope)).rejects.toMatchObject({ details: { reason: 'NO_HANDLER' } });
+  });
+
+  it('rejects unsupported protocol versions and malformed envelopes', async () => {
+    const messages = router().on('FILL', jest.fn());
+    const envelope = await wire(signEnvelope('FILL', fill(), traderWallet, domain));
+
+    await expect(messages.dispatch({ ...envelope, version: '0.9.0' })).rejects.toMatchObject({
+      details: { reason: 'UNSUPPORTED_VERSION' }
+    });
+    await expect(messages.dispatch({ ...envelope, sender: 'trader' })).rejects.toMatchObject({
+      details: { reason: 'MALFORMED_ENVELOPE' }
+    });
+  });
+
+  it('only hands a channel the messages its status accepts', async () => {
+    let status: 'ACTIVE' | 'CHECKPOINTING' = 'CHECKPOINTING';
+    const onFill = jest.fn();
+    const onHeartbeat = jest.fn();
+    const messages = router({ channelStatus: () => status }).on('FILL', onFill).on('HEARTBEAT', onHeartbeat);
+    const envelope = await wire(signEnvelope('FILL', fill(), traderWallet, domain));
+
+    await expect(messages.dispatch(envelope)).rejects.toMatchObject({ code: 'CHANNEL_ERROR' });
+    await messages.dispatch(await wire(signEnvelope('HEARTBEAT', heartbeat(), traderWallet, domain)));
+    expect(onFill).not.toHaveBeenCalled();
+    expect(onHeartbeat).toHaveBeenCalledTimes(1);
+
+    status = 'ACTIVE';
+    await messages.dispatch(envelope);
+    expect(onFill).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a message whose nonce was already used', async () => {
+    const nonces = new NonceManager();
+    await nonces.load();
+    const onFill = jest.fn();
+    const messages = router({ nonces }).on('FILL', onFill);
+
+    await messages.dispatch(await wire(signEnvelope('FILL', fill({ nonce: 1n }), traderWallet, domain)));
+    await expect(messages.dispatch(await wire(signEnvelope('FILL', fill({ nonce: 1n }), lpWallet, domain))))
+      .rejects.toMatchObject({ code: 'REPLAY_ERROR', details: { reason: 'STALE_NONCE' } });
+    expect(onFill).toHaveBeenCalledTimes(1);
+  });
+
+  it('refunds the session charge and releases the nonce when the handler fails', async () => {
+    const terms: FillTerms = {
+      side: 'BUY',
+      baseToken: address(WETH),
+      quoteToken: address(USDC),
+      lpFeeBps: 5,
+      baseDecimals: 18,
+      quoteDecimals: 6
+    };
+    const authorization = createSessionAuthorization({
+      owner: address(traderWallet.address),
+      delegate: address(delegateWallet.address),
+      channelId: { value: CHANNEL_ID },
+      notionalToken: address(USDC),
+      maxNotional: 10_000n * 10n ** 6n
+    }, clock);
+    const signed = await signSessionAuthorization(authorization, traderWallet, domain);
+    const nonces = new NonceManager();
+    await nonces.load();
+    const sessionKeys = new SessionKeyLedger();
+    const onFill = jest.fn().mockRejectedValueOnce(new Error('countersign failed'));
+    const messages = router({ nonces, sessionKeys, fillTerms: () => terms }).on('FILL', onFill);
+    const envelope = await wire(signEnvelope('FILL', fill(), delegateWallet, domain, signed));
+
+    await expect(messages.dispatch(envelope)).rejects.toThrow('countersign failed');
+    expect(sessionKeys.spentNotional(authorization)).toBe(0n);
+
+    await messages.dispatch(envelope);
+    expect(sessionKeys.spentNotional(authorization)).toBe(1_000n * 10n ** 6n);
+  });
+});
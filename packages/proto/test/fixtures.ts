@@ -0,0 +1,79 @@
+import { Wallet } from 'ethers';
+import { Address, ChannelState, Fill, Quote } from '../src';
+
+// Deterministic keys so failures reproduce; never fund these
+export const traderWallet = new Wallet('0x' + '11'.repeat(32));
+export const lpWallet = new Wallet('0x' + '22'.repeat(32));
+export const delegateWallet = new Wallet('0x' + '33'.repeat(32));
+
+export const SETTLEMENT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+export const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+export const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+export const CHANNEL_ID = '0x' + 'ab'.repeat(32);
+
+export function address(value: string): Address {
+  return { value: value.toLowerCase() };
+}
+
+export function channelState(overrides: Partial<ChannelState> = {}): ChannelState {
+  return {
+    channelId: { value: CHANNEL_ID },
+    nonce: 0n,
+    trader: address(traderWallet.address),
+    lp: address(lpWallet.address),
+    traderBalances: [
+      { token: address(WETH), amount: 10n ** 18n },
+      { token: address(USDC), amount: 4_000n * 10n ** 6n }
+    ],
+    lpBalances: [
+      { token: address(WETH), amount: 2n * 10n ** 18n },
+      { token: address(USDC), amount: 4_000n * 10n ** 6n }
+    ],
+    timestamp: 1_700_000_000_000n,
+    chainId: { value: 1 },
+    ...overrides
+  };
+}
+
+export const QUOTE_ID = '6f1c2a34-5b6d-4e7f-8a9b-0c1d2e3f4a5b';
+
+// 2000 USDC per WETH, 1e18-scaled
+export const PRICE = 2_000n * 10n ** 18n;
+
+export function quote(overrides: Partial<Quote> = {}): Quote {
+  return {
+    channelId: { value: CHANNEL_ID },
+    quoteId: QUOTE_ID,
+    requestNonce: 1n,
+    price: PRICE,
+    quantity: 10n ** 18n,
+    side: 'BUY',
+    expiryTimestamp: 1_700_000_030_000n,
+    lpFeeBps: 5,
+    timestamp: 1_700_000_000_000n,
+    lp: address(lpWallet.address),
+    ...overrides
+  };
+}
+
+let fillCounter = 0;
+
+export function fillId(): string {
+  return `00000000-0000-4000-8000-${(++fillCounter).toString().padStart(12, '0')}`;
+}
+
+export function fill(overrides: Partial<Fill> = {}): Fill {
+  return {
+    channelId: { value: CHANNEL_ID },
+    quoteId: QUOTE_ID,
+    fillId: fillId(),
+    nonce: 1n,
+    quantity: 10n ** 18n / 2n,
+    remainingQuantity: 0n,
+    price: PRICE,
+    timestamp: 1_700_000_001_000n,
+    trader: address(traderWallet.address),
+    lp: address(lpWallet.address),
+    ...overrides
+  };
+}
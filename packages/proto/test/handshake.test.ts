@@ -0,0 +1,66 @@
+import { HelloOptions, createHello, deserializeHello, negotiateSession, serializeHello } from '../src';
+import { lpWallet, traderWallet } from './fixtures';
+
+function hellos(local: Omit<HelloOptions, 'peer'>, remote: Omit<HelloOptions, 'peer'>) {
+  return [
+    createHello({ peer: traderWallet.address, timestamp: 1n, ...local }),
+    createHello({ peer: lpWallet.address, timestamp: 1n, ...remote })
+  ] as const;
+}
+
+describe('negotiateSession', () => {
+  it('agrees on the newest shared version, first shared codec and shared chains from either side', () => {
+    const [local, remote] = hellos(
+      { protocolVersions: ['1.0.0', '1.2.0', '1.10.0'], codecs: ['json', 'binary'], chainIds: [8453, 1, 137] },
+      { protocolVersions: ['1.2.0', '1.10.0', '2.0.0'], codecs: ['binary', 'json'], chainIds: [1, 8453, 42161] }
+    );
+    const expected = { protocolVersion: '1.10.0', codec: 'binary', chainIds: [1, 8453] };
+
+    expect(negotiateSession(local, remote)).toEqual(expected);
+    expect(negotiateSession(remote, local)).toEqual(expected);
+  });
+
+  it('falls back to the first codec both peers support', () => {
+    const [local, remote] = hellos({ codecs: ['json'] }, { codecs: ['binary', 'json'] });
+    expect(negotiateSession(local, remote).codec).toBe('json');
+  });
+
+  it('rejects peers with no protocol version in common', () => {
+    const [local, remote] = hellos({ protocolVersions: ['1.0.0'] }, { protocolVersions: ['2.0.0'] });
+    expect(() => negotiateSession(local, remote)).toThrow(expect.objectContaining({
+      code: 'HANDSHAKE_ERROR',
+      details: expect.objectContaining({ reason: 'NO_COMMON_PROTOCOL_VERSION' })
+    }));
+  });
+
+  it('rejects peers with no codec in common', () => {
+    const [local, remote] = hellos({ codecs: ['json'] }, { codecs: ['binary'] });
+    expect(() => negotiateSession(local, remote)).toThrow(expect.objectContaining({
+      details: expect.objectContaining({ reason: 'NO_COMMON_CODEC' })
+    }));
+  });
+
+  it('rejects peers on different chains', () => {
+    const [local, remote] = hellos({ chainIds: [1] }, { chainIds: [137] });
+    expect(() => negotiateSession(local, remote)).toThrow(expect.objectContaining({
+      details: expect.objectContaining({ reason: 'NO_COMMON_CHAIN' })
+    }));
+  });
+
+  it('rejects a different EIP-712 domain version', () => {
+    const [local, remote] = hellos({}, {});
+    expect(() => negotiateSession(local, { ...remote, eip712DomainVersion: '2' })).toThrow(expect.objectContaining({
+      details: expect.objectContaining({ reason: 'DOMAIN_VERSION_MISMATCH' })
+    }));
+  });
+});
+
+describe('HELLO encoding', () => {
+  it('round-trips and rejects unknown codecs', () => {
+    const [hello] = hellos({}, {});
+    expect(deserializeHello(JSON.parse(JSON.stringify(serializeHello(hello))))).toEqual(hello);
+    expect(() => deserializeHello({ ...serializeHello(hello), codecs: ['protobuf'] })).toThrow(expect.objectContaining({
+      details: expect.objectContaining({ reason: 'MALFORMED_HELLO' })
+    }));
+  });
+});
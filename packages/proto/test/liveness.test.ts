@@ -0,0 +1,240 @@
+import {
+  ChannelStateMachine,
+  Clock,
+  EnvelopeOf,
+  LivenessEvent,
+  LivenessHooks,
+  LivenessMonitor,
+  LivenessPolicy,
+  Scheduler,
+  createDomain,
+  deserializeSocketEvent,
+  serializeSocketEvent,
+  verifyEnvelope
+} from '../src';
+import { CHANNEL_ID, SETTLEMENT, address, lpWallet, traderWallet } from './fixtures';
+
+const INTERVAL = 1_000;
+const policy: LivenessPolicy = { intervalMs: INTERVAL, degradeAfterMissed: 2, escalateAfterMissed: 4, escalation: 'CHECKPOINT' };
+
+class ManualClock implements Clock {
+  constructor(public time = 1_700_000_000_000n) {}
+  now(): bigint {
+    return this.time;
+  }
+  advance(ms: number): void {
+    this.time += BigInt(ms);
+  }
+}
+
+const manualScheduler: Scheduler = { setInterval: () => 1, clearInterval: () => undefined };
+
+function heartbeat(nonce: bigint) {
+  return {
+    channelId: { value: CHANNEL_ID },
+    nonce,
+    timestamp: 1_700_000_000_000n,
+    sender: address(lpWallet.address)
+  };
+}
+
+function setup(
+  hooks: Partial<LivenessHooks> = {},
+  overrides: Partial<LivenessPolicy> = {},
+  channel?: ChannelStateMachine
+) {
+  const clock = new ManualClock();
+  const sent: EnvelopeOf<'HEARTBEAT'>[] = [];
+  const statuses: LivenessEvent[] = [];
+  const errors: unknown[] = [];
+  const monitor = new LivenessMonitor({
+    channelId: { value: CHANNEL_ID },
+    signer: traderWallet,
+    counterparty: address(lpWallet.address),
+    domain: createDomain(1, SETTLEMENT),
+    policy: { ...policy, ...overrides },
+    clock,
+    scheduler: manualScheduler,
+    channel,
+    hooks: {
+      send: envelope => sent.push(envelope),
+      onStatusChange: event => statuses.push(event),
+      onError: error => errors.push(error),
+      checkpoint: async () => undefined,
+      ...hooks
+    }
+  });
+  return { clock, monitor, sent, statuses, errors };
+}
+
+describe('LivenessMonitor', () => {
+  it('signs heartbeats with increasing nonces', async () => {
+    const { monitor, sent } = setup();
+    await monitor.beat();
+    await monitor.beat();
+    expect(sent.map(envelope => envelope.payload.nonce)).toEqual([1n, 2n]);
+    expect(sent[0].sender.value).toBe(traderWallet.address.toLowerCase());
+  });
+
+  it('degrades, escalates and recovers on the local clock', async () => {
+    const checkpoint = jest.fn(async () => undefined);
+    const { clock, monitor, statuses } = setup({ checkpoint });
+
+    clock.advance(2 * INTERVAL - 1);
+    expect(await monitor.check()).toBe('LIVE');
+    clock.advance(1);
+    expect(await monitor.check()).toBe('DEGRADED');
+    expect(statuses[0]).toMatchObject({ status: 'DEGRADED', channelStatus: 'DEGRADED', missedIntervals: 2 });
+
+    clock.advance(2 * INTERVAL);
+    expect(await monitor.check()).toBe('ESCALATED');
+    expect(checkpoint).toHaveBeenCalledTimes(1);
+    expect(await monitor.check()).toBe('ESCALATED');
+    expect(checkpoint).toHaveBeenCalledTimes(1);
+
+    expect(monitor.observe(heartbeat(1n))).toBe(true);
+    expect(monitor.status).toBe('LIVE');
+  });
+
+  it('retries a failed escalation on the next check', async () => {
+    const checkpoint = jest.fn()
+      .mockRejectedValueOnce(new Error('chain unavailable'))
+      .mockResolvedValueOnce(undefined);
+    const { clock, monitor } = setup({ checkpoint });
+
+    clock.advance(4 * INTERVAL);
+    await expect(monitor.check()).rejects.toThrow('chain unavailable');
+    expect(monitor.status).toBe('DEGRADED');
+    expect(await monitor.check()).toBe('ESCALATED');
+  });
+
+  it('stays force-closed when the counterparty returns', async () => {
+    const { clock, monitor } = setup({ forceClose: async () => undefined }, { escalation: 'FORCE_CLOSE' });
+    clock.advance(4 * INTERVAL);
+    expect(await monitor.check()).toBe('ESCALATED');
+    monitor.markSeen();
+    expect(monitor.status).toBe('ESCALATED');
+  });
+
+  it('ignores stale heartbeats and other senders or channels', () => {
+    const { monitor } = setup();
+    expect(monitor.observe(heartbeat(5n))).toBe(true);
+    expect(monitor.observe(heartbeat(5n))).toBe(false);
+    expect(monitor.observe({ ...heartbeat(6n), sender: address(traderWallet.address) })).toBe(false);
+    expect(monitor.observe({ ...heartbeat(6n), channelId: { value: '0x' + 'cd'.repeat(32) } })).toBe(false);
+  });
+
+  it('still checks the counterparty when sending a heartbeat fails', async () => {
+    const { clock, monitor, errors } = setup({
+      send: () => {
+        throw new Error('socket closed');
+      }
+    });
+    clock.advance(2 * INTERVAL);
+    await monitor.tick();
+
+    expect(errors).toEqual([new Error('socket closed')]);
+    expect(monitor.status).toBe('DEGRADED');
+  });
+
+  describe('with a channel state machine', () => {
+    const activeChannel = () => new ChannelStateMachine({ value: CHANNEL_ID }, { initial: 'ACTIVE' });
+
+    it('moves the channel between ACTIVE and DEGRADED', async () => {
+      const channel = activeChannel();
+      const { clock, monitor } = setup({}, {}, channel);
+
+      clock.advance(2 * INTERVAL);
+      await monitor.check();
+      expect(channel.status).toBe('DEGRADED');
+
+      monitor.observe(heartbeat(1n));
+      expect(channel.status).toBe('ACTIVE');
+    });
+
+    it('leaves statuses it does not own alone', async () => {
+      const channel = activeChannel();
+      channel.transition('SETTLING');
+      const { clock, monitor } = setup({}, {}, channel);
+
+      clock.advance(2 * INTERVAL);
+      expect(await monitor.check()).toBe('DEGRADED');
+      expect(channel.status).toBe('SETTLING');
+    });
+
+    it('holds a force-close while a checkpoint is in flight', async () => {
+      const forceClose = jest.fn(async () => undefined);
+      const channel = activeChannel();
+      const { clock, monitor } = setup({ forceClose }, { escalation: 'FORCE_CLOSE' }, channel);
+      channel.transition('CHECKPOINTING');
+
+      clock.advance(4 * INTERVAL);
+      expect(await monitor.check()).toBe('DEGRADED');
+      expect(forceClose).not.toHaveBeenCalled();
+
+      channel.transition('ACTIVE');
+      expect(await monitor.check()).toBe('ESCALATED');
+      expect(forceClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not checkpoint a channel that is settling', async () => {
+      const checkpoint = jest.fn(async () => undefined);
+      const channel = activeChannel();
+      channel.transition('SETTLING');
+      const { clock, monitor } = setup({ checkpoint }, {}, channel);
+
+      clock.advance(4 * INTERVAL);
+      expect(await monitor.check()).toBe('DEGRADED');
+      expect(checkpoint).not.toHaveBeenCalled();
+    });
+
+    it('stops heartbeating once the channel no longer accepts them', async () => {
+      const channel = activeChannel();
+      const { clock, monitor, sent, statuses } = setup({}, {}, channel);
+      channel.transition('DISPUTED');
+
+      await expect(monitor.beat()).rejects.toThrow('HEARTBEAT not accepted while channel is DISPUTED');
+      clock.advance(4 * INTERVAL);
+      await monitor.tick();
+      expect(sent).toHaveLength(0);
+      expect(statuses).toHaveLength(0);
+      expect(monitor.observe(heartbeat(1n))).toBe(false);
+    });
+  });
+
+  it('rejects a policy that escalates before degrading', () => {
+    expect(() => setup({}, { degradeAfterMissed: 5, escalateAfterMissed: 4 })).toThrow('escalateAfterMissed');
+  });
+
+  it('runs on the runtime timers by default', () => {
+    jest.useFakeTimers();
+    try {
+      const send = jest.fn();
+      const monitor = new LivenessMonitor({
+        channelId: { value: CHANNEL_ID },
+        signer: traderWallet,
+        counterparty: address(lpWallet.address),
+        domain: createDomain(1, SETTLEMENT),
+        policy,
+        hooks: { send }
+      });
+      monitor.start();
+      expect(jest.getTimerCount()).toBe(1);
+      monitor.stop();
+      expect(jest.getTimerCount()).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('sends heartbeats that survive a socket HEARTBEAT event', async () => {
+    const { monitor } = setup();
+    const envelope = await monitor.beat();
+    const wire = JSON.parse(JSON.stringify(serializeSocketEvent({ type: 'HEARTBEAT', envelope })));
+
+    const event = deserializeSocketEvent(wire);
+    expect(event).toEqual({ type: 'HEARTBEAT', envelope });
+    await expect(verifyEnvelope(envelope, createDomain(1, SETTLEMENT))).resolves.toBeUndefined();
+    expect(() => deserializeSocketEvent({ ...wire, envelope: { ...wire.envelope, type: 'CANCEL' } })).toThrow();
+  });
+});
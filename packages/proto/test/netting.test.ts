@@ -0,0 +1,132 @@
+import {
+  CONSTANTS,
+  ChannelParams,
+  ChannelState,
+  FillError,
+  FillTerms,
+  NettedFill,
+  applyFill,
+  computeSettlementNetting,
+  createInitialChannelState,
+  netFillsByPair,
+  netPairsByToken
+} from '../src';
+import { CHANNEL_ID, USDC, WETH, address, fill, lpWallet, traderWallet } from './fixtures';
+
+const WBTC = '0x2260fac5e5542a773aa44fbcfedf7c193bc2c599';
+const ETH = 10n ** 18n;
+const BTC = 10n ** 8n;
+const DOLLAR = 10n ** 6n;
+
+const wethUsdc = { baseToken: address(WETH), quoteToken: address(USDC) };
+const wbtcUsdc = { baseToken: address(WBTC), quoteToken: address(USDC) };
+
+function params(overrides: Partial<ChannelParams> = {}): ChannelParams {
+  return {
+    trader: address(traderWallet.address),
+    lp: address(lpWallet.address),
+    tokens: [address(WETH), address(WBTC), address(USDC)],
+    traderDeposits: [0n, BTC, 10_000n * DOLLAR],
+    lpDeposits: [5n * ETH, BTC, 10_000n * DOLLAR],
+    pairs: [wethUsdc, wbtcUsdc],
+    chainId: { value: 1 },
+    timeout: 86_400n,
+    openNonce: 0n,
+    ...overrides
+  };
+}
+
+function terms(pair: typeof wethUsdc, side: 'BUY' | 'SELL'): FillTerms {
+  return {
+    side,
+    ...pair,
+    lpFeeBps: 5,
+    baseDecimals: pair === wbtcUsdc ? 8 : 18,
+    quoteDecimals: 6,
+    pairs: params().pairs
+  };
+}
+
+// Buy 1 WETH at 2000, sell 0.1 WBTC at 30000, sell 0.5 WETH at 2000; 5 bps fees
+const fills: NettedFill[] = [
+  { fill: fill({ nonce: 1n, quantity: ETH, price: 2_000n * ETH }), terms: terms(wethUsdc, 'BUY') },
+  { fill: fill({ nonce: 2n, quantity: BTC / 10n, price: 30_000n * ETH }), terms: terms(wbtcUsdc, 'SELL') },
+  { fill: fill({ nonce: 3n, quantity: ETH / 2n, price: 2_000n * ETH }), terms: terms(wethUsdc, 'SELL') }
+];
+
+function trade(): ChannelState {
+  return fills.reduce(
+    (state, { fill, terms }) => applyFill(state, fill, terms),
+    createInitialChannelState({ value: CHANNEL_ID }, params(), 1_700_000_000_000n)
+  );
+}
+
+describe('netFillsByPair', () => {
+  it('nets fills per pair across the basket', () => {
+    expect(netFillsByPair(fills, { value: 1 })).toEqual([
+      // +1 - 0.5 WETH; -2001 + 999.5 USDC
+      { pair: wethUsdc, baseDelta: ETH / 2n, quoteDelta: -1_001_500_000n, fillCount: 2 },
+      // -0.1 WBTC; +2998.5 USDC
+      { pair: wbtcUsdc, baseDelta: -BTC / 10n, quoteDelta: 2_998_500_000n, fillCount: 1 }
+    ]);
+  });
+});
+
+describe('netPairsByToken', () => {
+  it('collapses the shared quote token into one delta', () => {
+    expect(netPairsByToken(netFillsByPair(fills, { value: 1 }))).toEqual([
+      { token: address(WETH), delta: ETH / 2n },
+      { token: address(USDC), delta: 1_997n * DOLLAR },
+      { token: address(WBTC), delta: -BTC / 10n }
+    ]);
+  });
+});
+
+describe('computeSettlementNetting', () => {
+  it('settles each token by the same amount the pair nets predict', () => {
+    const settlement = computeSettlementNetting(params(), trade());
+    const deltas = netPairsByToken(netFillsByPair(fills, { value: 1 }));
+
+    expect(settlement.map(entry => entry.token)).toEqual(params().tokens);
+    settlement.forEach(entry => {
+      const delta = deltas.find(candidate => candidate.token.value === entry.token.value)!.delta;
+      expect(entry.traderNet).toBe(delta);
+      expect(entry.lpNet).toBe(-delta);
+    });
+  });
+
+  it('rejects a basket above MAX_TOKENS_PER_CHANNEL', () => {
+    const extra = Array.from({ length: CONSTANTS.MAX_TOKENS_PER_CHANNEL - 2 }, (_, i) =>
+      address('0x' + (i + 1).toString(16).padStart(40, '0')));
+    const oversized = params({
+      tokens: [...params().tokens, ...extra],
+      traderDeposits: [...params().traderDeposits, ...extra.map(() => 0n)],
+      lpDeposits: [...params().lpDeposits, ...extra.map(() => 0n)]
+    });
+
+    expect(() => createInitialChannelState({ value: CHANNEL_ID }, oversized, 1n)).toThrow('Too many tokens in channel');
+    expect(() => computeSettlementNetting(oversized, trade())).toThrow('Too many tokens in channel');
+  });
+
+  it('rejects a final state holding a token outside the channel', () => {
+    const state = trade();
+    const foreign = { token: address('0x' + 'de'.repeat(20)), amount: 1n };
+    expect(() => computeSettlementNetting(params(), { ...state, traderBalances: [...state.traderBalances, foreign] }))
+      .toThrow('Final state holds a token outside the channel basket');
+  });
+
+  it('rejects a final state that does not conserve a token', () => {
+    const state = trade();
+    const inflated = state.lpBalances.map(entry => ({ ...entry, amount: entry.amount + 1n }));
+    expect(() => computeSettlementNetting(params(), { ...state, lpBalances: inflated }))
+      .toThrow('Final state does not conserve token balance');
+  });
+});
+
+describe('multi-asset fills', () => {
+  it('rejects a pair the channel does not trade', () => {
+    const state = createInitialChannelState({ value: CHANNEL_ID }, params(), 1_700_000_000_000n);
+    const wethWbtc = { baseToken: address(WETH), quoteToken: address(WBTC) };
+    expect(() => applyFill(state, fill(), { ...terms(wethUsdc, 'BUY'), ...wethWbtc })).toThrow(FillError);
+  });
+});
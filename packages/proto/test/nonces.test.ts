@@ -0,0 +1,154 @@
+import { appendFile, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConsumedEntry, InMemoryNonceStore, NonceManager, NonceStore, ReplayError, channelStream } from '../src';
+import { FileNonceStore } from '../src/nonce-file-store';
+
+const stream = channelStream('0x' + 'ab'.repeat(32));
+
+function fillKey(nonce: bigint, fillId = `fill:${nonce}`) {
+  return { stream, nonce, contiguous: true, ids: [fillId] };
+}
+
+async function loaded(store: NonceStore = new InMemoryNonceStore()): Promise<NonceManager> {
+  const manager = new NonceManager(store);
+  await manager.load();
+  return manager;
+}
+
+async function reason(promise: Promise<unknown>): Promise<string | undefined> {
+  try {
+    await promise;
+  } catch (error) {
+    return (error as ReplayError).details?.reason;
+  }
+  return undefined;
+}
+
+describe('NonceManager', () => {
+  it('requires load() and contiguous channel nonces', async () => {
+    expect(() => new NonceManager().check(fillKey(1n))).toThrow('used before load()');
+
+    const manager = await loaded();
+    await manager.consume(fillKey(1n));
+    expect(await reason(manager.consume(fillKey(1n, 'fill:other')))).toBe('STALE_NONCE');
+    expect(await reason(manager.consume(fillKey(3n)))).toBe('NONCE_GAP');
+    expect(await reason(manager.consume({ ids: ['fill:1'] }))).toBe('DUPLICATE_ID');
+    expect(manager.lastNonce(stream)).toBe(1n);
+  });
+
+  it('persists the key before running the action', async () => {
+    const store = new InMemoryNonceStore();
+    const manager = await loaded(store);
+    let persisted: ConsumedEntry[] = [];
+
+    await manager.guard(fillKey(1n), async () => {
+      persisted = await store.load();
+    });
+    expect(persisted).toEqual([{ stream, nonce: 1n, ids: ['fill:1'] }]);
+  });
+
+  it('keeps a key consumed when the process dies mid-action', async () => {
+    const store = new InMemoryNonceStore();
+    const manager = await loaded(store);
+    let finish: () => void = () => undefined;
+    void manager.guard(fillKey(1n), () => new Promise<void>(resolve => { finish = resolve; }));
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(await reason(manager.consume(fillKey(1n, 'fill:1b')))).toBe('IN_FLIGHT');
+
+    // A fresh manager on the same store stands in for a restart before `finish`
+    const restarted = await loaded(store);
+    expect(await reason(restarted.consume(fillKey(1n)))).toBe('DUPLICATE_ID');
+    expect(restarted.lastNonce(stream)).toBe(1n);
+    finish();
+  });
+
+  it('releases the key when the action throws, also across restarts', async () => {
+    const store = new InMemoryNonceStore();
+    const manager = await loaded(store);
+
+    await expect(manager.guard(fillKey(1n), () => {
+      throw new Error('handler failed');
+    })).rejects.toThrow('handler failed');
+    expect(manager.lastNonce(stream)).toBeUndefined();
+    expect(manager.isConsumed('fill:1')).toBe(false);
+
+    const restarted = await loaded(store);
+    await restarted.consume(fillKey(1n));
+    expect(restarted.lastNonce(stream)).toBe(1n);
+  });
+
+  it('runs nothing if the reservation cannot be written', async () => {
+    const manager = await loaded({
+      load: async () => [],
+      append: async () => {
+        throw new Error('disk full');
+      }
+    });
+    const action = jest.fn();
+    await expect(manager.guard(fillKey(1n), action)).rejects.toThrow('disk full');
+    expect(action).not.toHaveBeenCalled();
+    expect(manager.isConsumed('fill:1')).toBe(false);
+  });
+});
+
+describe('FileNonceStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'nonces-'));
+    path = join(dir, 'nonces.log');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips entries, releases included', async () => {
+    const store = new FileNonceStore(path);
+    expect(await store.load()).toEqual([]);
+
+    await store.append({ stream, nonce: 1n, ids: ['fill:1'] });
+    await store.append({ stream, nonce: 2n, ids: ['fill:2'] });
+    await store.append({ stream, nonce: 2n, ids: ['fill:2'], released: true });
+    expect(await store.load()).toEqual([
+      { stream, nonce: 1n, ids: ['fill:1'] },
+      { stream, nonce: 2n, ids: ['fill:2'] },
+      { stream, nonce: 2n, ids: ['fill:2'], released: true }
+    ]);
+
+    const manager = await loaded(store);
+    expect(manager.lastNonce(stream)).toBe(1n);
+  });
+
+  it('truncates a torn tail so the next append starts a clean line', async () => {
+    const store = new FileNonceStore(path);
+    await store.append({ stream, nonce: 1n, ids: ['fill:1'] });
+    await appendFile(path, '{"stream":"channel:0xab', 'utf8');
+
+    expect(await store.load()).toEqual([{ stream, nonce: 1n, ids: ['fill:1'] }]);
+    await store.append({ stream, nonce: 2n, ids: ['fill:2'] });
+    expect(await store.load()).toHaveLength(2);
+  });
+
+  it('restores a lost trailing newline after a complete entry', async () => {
+    await writeFile(path, JSON.stringify({ stream, nonce: '1', ids: ['fill:1'] }), 'utf8');
+    const store = new FileNonceStore(path);
+
+    expect(await store.load()).toHaveLength(1);
+    await store.append({ stream, nonce: 2n, ids: ['fill:2'] });
+    expect(await store.load()).toHaveLength(2);
+  });
+
+  it('refuses a log with a corrupt entry before the last line', async () => {
+    const good = JSON.stringify({ stream, nonce: '1', ids: ['fill:1'] });
+    await writeFile(path, `${good}\nnot json\n${good}\n`, 'utf8');
+
+    await expect(new FileNonceStore(path).load()).rejects.toMatchObject({
+      details: { reason: 'CORRUPT_LOG', line: 2 }
+    });
+    expect(await readFile(path, 'utf8')).toContain('not json');
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  FillError,
+  FillTerms,
+  QuoteBook,
+  QuoteError,
+  applyPartialFill,
+  cancelQuoteFillState,
+  computeRemainingQuantity,
+  openQuoteFillState,
+  recordPartialFill
+} from '../src';
+import { USDC, WETH, address, channelState, fill, quote } from './fixtures';
+
+const terms: FillTerms = {
+  side: 'BUY',
+  baseToken: address(WETH),
+  quoteToken: address(USDC),
+  lpFeeBps: 5,
+  baseDecimals: 18,
+  quoteDecimals: 6
+};
+
+const QUARTER = 10n ** 18n / 4n;
+
+describe('partial fills', () => {
+  it('tracks remaining quantity and status across fills', () => {
+    let state = openQuoteFillState(quote());
+    expect(state).toMatchObject({ remainingQuantity: 10n ** 18n, status: 'QUOTED' });
+
+    state = recordPartialFill(state, fill({ quantity: QUARTER, remainingQuantity: 3n * QUARTER }));
+    expect(state).toMatchObject({ filledQuantity: QUARTER, status: 'PARTIALLY_FILLED' });
+
+    state = recordPartialFill(state, fill({ nonce: 2n, quantity: 3n * QUARTER, remainingQuantity: 0n }));
+    expect(state).toMatchObject({ filledQuantity: 10n ** 18n, remainingQuantity: 0n, status: 'FILLED' });
+    expect(state.fillIds).toHaveLength(2);
+
+    expect(() => recordPartialFill(state, fill({ nonce: 3n, quantity: 1n }))).toThrow('Quote is filled');
+  });
+
+  it('rejects fills that overdraw the quote or misstate what is left', () => {
+    const state = openQuoteFillState(quote());
+    expect(computeRemainingQuantity(state, QUARTER)).toBe(3n * QUARTER);
+    expect(() => computeRemainingQuantity(state, 0n)).toThrow('must be positive');
+    expect(() => computeRemainingQuantity(state, 10n ** 18n + 1n)).toThrow('exceeds remaining');
+    expect(() => recordPartialFill(state, fill({ quantity: QUARTER, remainingQuantity: 0n })))
+      .toThrow('inconsistent with prior fills');
+  });
+
+  it('rejects replays and fills that do not match the quote', () => {
+    const first = fill({ quantity: QUARTER, remainingQuantity: 3n * QUARTER });
+    const state = recordPartialFill(openQuoteFillState(quote()), first);
+    const next = { quantity: QUARTER, remainingQuantity: 2n * QUARTER };
+
+    expect(() => recordPartialFill(state, { ...first, ...next })).toThrow('Fill already recorded');
+    expect(() => recordPartialFill(state, fill({ ...next, quoteId: '00000000-0000-4000-8000-ffffffffffff' })))
+      .toThrow('does not reference this quote');
+    expect(() => recordPartialFill(state, fill({ ...next, price: 1n }))).toThrow('price does not match');
+    expect(() => recordPartialFill(state, fill({ ...next, lp: address(WETH) }))).toThrow('LP does not match');
+    expect(() => recordPartialFill(state, fill({ ...next, timestamp: 1_700_000_030_001n })))
+      .toThrow(QuoteError);
+  });
+
+  it('applies balances only for fills the quote accepts', () => {
+    const result = applyPartialFill(
+      channelState(),
+      openQuoteFillState(quote()),
+      fill({ quantity: QUARTER, remainingQuantity: 3n * QUARTER }),
+      terms
+    );
+    expect(result.channelState.nonce).toBe(1n);
+    expect(result.quoteState.status).toBe('PARTIALLY_FILLED');
+
+    const mismatched = fill({ quantity: QUARTER, remainingQuantity: 3n * QUARTER });
+    expect(() => applyPartialFill(channelState(), openQuoteFillState(quote()), mismatched, { ...terms, side: 'SELL' }))
+      .toThrow(FillError);
+    expect(() => applyPartialFill(channelState(), openQuoteFillState(quote()), mismatched, { ...terms, lpFeeBps: 0 }))
+      .toThrow('fee does not match');
+  });
+
+  it('cannot fill or cancel a cancelled quote', () => {
+    const cancelled = cancelQuoteFillState(openQuoteFillState(quote()));
+    expect(cancelled.status).toBe('CANCELLED');
+    expect(() => cancelQuoteFillState(cancelled)).toThrow('Quote is cancelled');
+    expect(() => recordPartialFill(cancelled, fill())).toThrow('Quote is cancelled');
+  });
+});
+
+describe('QuoteBook', () => {
+  it('chains channel state through successive partial fills', () => {
+    const book = new QuoteBook();
+    book.track(quote());
+    expect(() => book.track(quote())).toThrow('Quote already tracked');
+
+    const once = book.apply(channelState(), fill({ quantity: QUARTER, remainingQuantity: 3n * QUARTER }), terms);
+    const twice = book.apply(once, fill({ nonce: 2n, quantity: QUARTER, remainingQuantity: 2n * QUARTER }), terms);
+    expect(twice.nonce).toBe(2n);
+    expect(book.remaining(quote().quoteId)).toBe(2n * QUARTER);
+  });
+
+  it('leaves the book untouched when a fill is rejected', () => {
+    const book = new QuoteBook();
+    book.track(quote());
+    expect(() => book.apply(channelState(), fill({ quantity: 2n * 10n ** 18n }), terms)).toThrow(FillError);
+    expect(book.get(quote().quoteId)?.status).toBe('QUOTED');
+  });
+
+  it('expires only open quotes past their expiry', () => {
+    const book = new QuoteBook();
+    book.track(quote());
+    book.track(quote({ quoteId: '00000000-0000-4000-8000-aaaaaaaaaaaa', expiryTimestamp: 1_700_000_090_000n }));
+
+    expect(book.expire(1_700_000_030_000n)).toHaveLength(0);
+    const expired = book.expire(1_700_000_030_001n);
+    expect(expired.map(state => state.quote.quoteId)).toEqual([quote().quoteId]);
+    expect(book.expire(1_700_000_030_001n)).toHaveLength(0);
+    expect(() => book.remaining('missing')).toThrow('Unknown quote');
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  QuoteError,
+  ValidationError,
+  applyFeeBps,
+  assertWithinSlippage,
+  calculateSlippageBps,
+  computeFillAmounts,
+  computeNotional,
+  effectivePrice,
+  mulDiv,
+  roundingFor
+} from '../src';
+import { CHANNEL_ID, PRICE, USDC, WETH, address, quote, traderWallet } from './fixtures';
+
+const ETH_USDC = { baseDecimals: 18, quoteDecimals: 6 };
+
+describe('fixed-point pricing', () => {
+  it('rounds mulDiv in the requested direction only when inexact', () => {
+    expect(mulDiv(10n, 1n, 3n)).toBe(3n);
+    expect(mulDiv(10n, 1n, 3n, 'UP')).toBe(4n);
+    expect(mulDiv(9n, 1n, 3n, 'UP')).toBe(3n);
+    expect(() => mulDiv(1n, 1n, 0n)).toThrow(ValidationError);
+    expect(() => mulDiv(-1n, 1n, 1n)).toThrow('non-negative');
+  });
+
+  it('rounds against whoever the remainder does not favour', () => {
+    expect(roundingFor('LP', 'TRADER')).toBe('UP');
+    expect(roundingFor('LP', 'LP')).toBe('DOWN');
+    expect(roundingFor('TRADER', 'TRADER')).toBe('DOWN');
+  });
+
+  it('scales notional across token decimals', () => {
+    expect(computeNotional({ quantity: 10n ** 18n, price: PRICE, ...ETH_USDC })).toBe(2_000_000_000n);
+    // 1 wei of WETH is worth 2e-12 USDC: zero rounding down, one unit rounding up
+    expect(computeNotional({ quantity: 1n, price: PRICE, ...ETH_USDC })).toBe(0n);
+    expect(computeNotional({ quantity: 1n, price: PRICE, ...ETH_USDC }, 'UP')).toBe(1n);
+    // 8-decimal base: 0.5 WBTC at 43250 USDC
+    expect(computeNotional({ quantity: 50_000_000n, price: 43_250n * 10n ** 18n, baseDecimals: 8, quoteDecimals: 6 }))
+      .toBe(21_625_000_000n);
+  });
+
+  it('validates and applies fees', () => {
+    expect(applyFeeBps(1_000_000n, 5)).toBe(500n);
+    expect(applyFeeBps(1_001n, 5)).toBe(0n);
+    expect(applyFeeBps(1_001n, 5, 'UP')).toBe(1n);
+    expect(() => applyFeeBps(1n, 1.5)).toThrow('Invalid fee');
+    expect(() => applyFeeBps(1n, 10_001)).toThrow('Invalid fee');
+  });
+
+  it('charges the fee on top of a BUY and out of a SELL', () => {
+    const params = { quantity: 10n ** 18n / 3n, price: PRICE, ...ETH_USDC };
+    const buy = computeFillAmounts('BUY', params, 5);
+    const sell = computeFillAmounts('SELL', params, 5);
+
+    // 666.666666666... USDC: the trader pays the rounded-up notional and fee
+    expect(buy).toMatchObject({ notional: 666_666_667n, fee: 333_334n, traderQuoteAmount: 667_000_001n });
+    expect(sell).toMatchObject({ notional: 666_666_666n, fee: 333_334n, traderQuoteAmount: 666_333_332n });
+
+    const traderFavoured = computeFillAmounts('BUY', params, 5, 'TRADER');
+    expect(traderFavoured.traderQuoteAmount).toBeLessThan(buy.traderQuoteAmount);
+  });
+
+  it('folds the fee into an effective price', () => {
+    expect(effectivePrice('BUY', PRICE, 5)).toBe(2_001n * 10n ** 18n);
+    expect(effectivePrice('SELL', PRICE, 5)).toBe(1_999n * 10n ** 18n);
+    expect(effectivePrice('BUY', 3n, 1)).toBe(4n); // 3.0003 rounds up for the LP
+  });
+});
+
+describe('slippage guard', () => {
+  const request = {
+    channelId: { value: CHANNEL_ID },
+    nonce: 1n,
+    side: 'BUY' as const,
+    baseToken: address(WETH),
+    quoteToken: address(USDC),
+    quantity: 10n ** 18n,
+    maxSlippageBps: 10,
+    timestamp: 1_700_000_000_000n,
+    trader: address(traderWallet.address)
+  };
+
+  it('signs slippage from the trader’s point of view', () => {
+    expect(calculateSlippageBps('BUY', 2_002n * 10n ** 18n, PRICE)).toBe(10);
+    expect(calculateSlippageBps('SELL', 2_002n * 10n ** 18n, PRICE)).toBe(-10);
+    expect(() => calculateSlippageBps('BUY', PRICE, 0n)).toThrow('Reference price must be positive');
+  });
+
+  it('accepts a quote whose fee-inclusive price is within the limit', () => {
+    // 2000 + 5 bps fee = 2001: 5 bps from the reference
+    expect(() => assertWithinSlippage(request, quote(), PRICE)).not.toThrow();
+  });
+
+  it('rejects quotes beyond the limit, on the wrong side or oversized', () => {
+    expect(() => assertWithinSlippage(request, quote({ price: 2_002n * 10n ** 18n }), PRICE))
+      .toThrow('Quote exceeds maximum slippage');
+    expect(() => assertWithinSlippage(request, quote({ side: 'SELL' }), PRICE)).toThrow(QuoteError);
+    expect(() => assertWithinSlippage(request, quote({ quantity: 2n * 10n ** 18n }), PRICE))
+      .toThrow('Quote quantity exceeds request');
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  FillTerms,
+  MessageRouter,
+  MessageRouterOptions,
+  NonceManager,
+  SessionKeyLedger,
+  createDomain,
+  createSessionAuthorization,
+  serializeEnvelope,
+  signEnvelope,
+  signSessionAuthorization
+} from '../src';
+import { CHANNEL_ID, SETTLEMENT, USDC, WETH, address, delegateWallet, fill, traderWallet } from './fixtures';
+
+const domain = createDomain(1, SETTLEMENT);
+const clock = { now: () => 1_700_000_001_000n };
+
+// 0.5 WETH at 2000 USDC is 1000 USDC of notional per fill
+const terms: FillTerms = {
+  side: 'BUY',
+  baseToken: address(WETH),
+  quoteToken: address(USDC),
+  lpFeeBps: 5,
+  baseDecimals: 18,
+  quoteDecimals: 6
+};
+const NOTIONAL = 1_000n * 10n ** 6n;
+
+async function delegatedFill(maxNotional = 1_500n * 10n ** 6n) {
+  const authorization = createSessionAuthorization(
+    {
+      owner: address(traderWallet.address),
+      delegate: address(delegateWallet.address),
+      channelId: { value: CHANNEL_ID },
+      notionalToken: address(USDC),
+      maxNotional
+    },
+    clock
+  );
+  const signed = await signSessionAuthorization(authorization, traderWallet, domain);
+  const envelope = (nonce: bigint) => signEnvelope('FILL', fill({ nonce }), delegateWallet, domain, signed)
+    .then(serializeEnvelope);
+  return { authorization, envelope };
+}
+
+function router(ledger: SessionKeyLedger, overrides: Partial<MessageRouterOptions> = {}, handler = jest.fn()) {
+  return new MessageRouter({ domain, clock, sessionKeys: ledger, fillTerms: () => terms, ...overrides })
+    .on('FILL', handler);
+}
+
+describe('MessageRouter session key charging', () => {
+  it('charges delegated fills and rejects the one that exceeds the cap', async () => {
+    const ledger = new SessionKeyLedger();
+    const handler = jest.fn();
+    const { authorization, envelope } = await delegatedFill();
+    const fills = router(ledger, {}, handler);
+
+    await fills.dispatch(await envelope(1n));
+    expect(ledger.spentNotional(authorization)).toBe(NOTIONAL);
+
+    await expect(fills.dispatch(await envelope(2n))).rejects.toMatchObject({
+      code: 'SESSION_KEY_ERROR',
+      details: { reason: 'NOTIONAL_EXCEEDED' }
+    });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(ledger.spentNotional(authorization)).toBe(NOTIONAL);
+  });
+
+  it('refunds the charge when the handler fails', async () => {
+    const ledger = new SessionKeyLedger();
+    const { authorization, envelope } = await delegatedFill();
+    const fills = router(ledger, {}, jest.fn().mockRejectedValue(new Error('countersign failed')));
+
+    await expect(fills.dispatch(await envelope(1n))).rejects.toThrow('countersign failed');
+    expect(ledger.spentNotional(authorization)).toBe(0n);
+  });
+
+  it('rejects delegated fills it cannot price', async () => {
+    const handler = jest.fn();
+    const { envelope } = await delegatedFill();
+    const fills = router(new SessionKeyLedger(), { fillTerms: () => undefined }, handler);
+
+    await expect(fills.dispatch(await envelope(1n))).rejects.toMatchObject({
+      code: 'MESSAGE_ERROR',
+      details: { reason: 'UNAUTHORIZED_SENDER' }
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('rejects fills from a revoked session key', async () => {
+    const ledger = new SessionKeyLedger();
+    const { authorization, envelope } = await delegatedFill();
+    ledger.revoke(authorization);
+
+    await expect(router(ledger).dispatch(await envelope(1n))).rejects.toMatchObject({
+      details: { reason: 'REVOKED' }
+    });
+  });
+
+  it('does not charge fills the owner signed directly', async () => {
+    const ledger = new SessionKeyLedger();
+    const handler = jest.fn();
+    const envelope = await signEnvelope('FILL', fill(), traderWallet, domain);
+
+    await router(ledger, { fillTerms: undefined }, handler).dispatch(serializeEnvelope(envelope));
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('MessageRouter.dispatchTo', () => {
+  it('runs the given handler inside the replay guard', async () => {
+    const nonces = new NonceManager();
+    await nonces.load();
+    const registered = jest.fn();
+    const handler = jest.fn().mockResolvedValue('applied');
+    const envelope = serializeEnvelope(await signEnvelope('FILL', fill(), traderWallet, domain));
+    const fills = router(new SessionKeyLedger(), { nonces }, registered);
+
+    await expect(fills.dispatchTo('FILL', envelope, handler)).resolves.toBe('applied');
+    await expect(fills.dispatchTo('FILL', envelope, handler)).rejects.toMatchObject({ code: 'REPLAY_ERROR' });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(registered).not.toHaveBeenCalled();
+  });
+
+  it('rejects messages of another type', async () => {
+    const handler = jest.fn();
+    const envelope = serializeEnvelope(await signEnvelope('FILL', fill(), traderWallet, domain));
+
+    await expect(router(new SessionKeyLedger()).dispatchTo('CANCEL', envelope, handler)).rejects.toMatchObject({
+      details: { reason: 'NO_HANDLER' }
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,90 @@
+import { Signature, toBeHex } from 'ethers';
+import {
+  EIP1271_MAGIC_VALUE,
+  SignatureProvider,
+  computeChannelStateDigest,
+  recoverSigner,
+  validateSignature,
+  verifySignature
+} from '../src';
+import { SETTLEMENT, channelState, lpWallet, traderWallet } from './fixtures';
+
+const SECP256K1_ORDER = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+const SAFE = '0x' + '5a'.repeat(20);
+
+const digest = computeChannelStateDigest(channelState(), SETTLEMENT);
+
+function signDigest(): string {
+  return traderWallet.signingKey.sign(digest).serialized;
+}
+
+// The same signature with s mirrored into the upper half order; ecrecover still accepts it
+function malleate(signature: string): string {
+  const { r, s, v } = Signature.from(signature);
+  return r + toBeHex(SECP256K1_ORDER - BigInt(s), 32).slice(2) + (v === 27 ? '1c' : '1b');
+}
+
+function provider(code: string, call: () => Promise<string>): SignatureProvider & { calls: number } {
+  const stub: SignatureProvider & { calls: number } = {
+    calls: 0,
+    getCode: async () => code,
+    call: async () => {
+      stub.calls++;
+      return call();
+    }
+  };
+  return stub;
+}
+
+describe('signature recovery', () => {
+  it('recovers the signer as a lowercase address', () => {
+    expect(recoverSigner(digest, signDigest())).toBe(traderWallet.address.toLowerCase());
+  });
+
+  it('validates against the expected signer regardless of case', () => {
+    expect(validateSignature(signDigest(), traderWallet.address.toUpperCase().replace('0X', '0x'), digest)).toBe(true);
+    expect(validateSignature(signDigest(), lpWallet.address, digest)).toBe(false);
+  });
+
+  it('rejects high-s (malleable) signatures', () => {
+    expect(() => recoverSigner(digest, malleate(signDigest()))).toThrow('Non-canonical signature');
+    expect(validateSignature(malleate(signDigest()), traderWallet.address, digest)).toBe(false);
+  });
+
+  it('rejects malformed inputs instead of recovering garbage', () => {
+    expect(() => recoverSigner('0x1234', signDigest())).toThrow('Message hash must be 32 bytes');
+    expect(() => recoverSigner(digest, signDigest().slice(0, -2))).toThrow('Signature must be 65 bytes');
+    expect(() => recoverSigner(digest, signDigest().slice(0, -2) + '05')).toThrow('Invalid signature recovery id');
+    expect(validateSignature('0xdeadbeef', traderWallet.address, digest)).toBe(false);
+  });
+});
+
+describe('EIP-1271 verification', () => {
+  it('accepts EOA signatures without touching the provider', async () => {
+    const stub = provider('0x', async () => EIP1271_MAGIC_VALUE);
+    await expect(verifySignature(signDigest(), traderWallet.address, digest, stub)).resolves.toBe(true);
+    expect(stub.calls).toBe(0);
+  });
+
+  it('accepts a contract signer that returns the magic value', async () => {
+    const stub = provider('0x6080', async () => EIP1271_MAGIC_VALUE + '0'.repeat(56));
+    await expect(verifySignature('0x' + '00'.repeat(65), SAFE, digest, stub)).resolves.toBe(true);
+    expect(stub.calls).toBe(1);
+  });
+
+  it('rejects a contract signer that returns anything else or reverts', async () => {
+    const wrong = provider('0x6080', async () => '0xffffffff' + '0'.repeat(56));
+    const reverts = provider('0x6080', async () => {
+      throw new Error('execution reverted');
+    });
+    await expect(verifySignature('0x00', SAFE, digest, wrong)).resolves.toBe(false);
+    await expect(verifySignature('0x00', SAFE, digest, reverts)).resolves.toBe(false);
+  });
+
+  it('does not fall back for accounts without code or without a provider', async () => {
+    const eoa = provider('0x', async () => EIP1271_MAGIC_VALUE);
+    await expect(verifySignature('0x00', SAFE, digest, eoa)).resolves.toBe(false);
+    expect(eoa.calls).toBe(0);
+    await expect(verifySignature('0x00', SAFE, digest)).resolves.toBe(false);
+  });
+});
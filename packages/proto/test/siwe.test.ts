@@ -0,0 +1,106 @@
+import {
+  SiweMessage,
+  createSiweMessage,
+  formatSiweMessage,
+  generateSiweNonce,
+  parseSiweMessage,
+  signSiweMessage,
+  verifySiweMessage
+} from '../src';
+import { lpWallet, traderWallet } from './fixtures';
+
+const NOW = 1_700_000_000_000n;
+const clock = { now: () => NOW };
+const DOMAIN = 'app.photonx.io';
+const NONCE = 'a1b2c3d4e5f60718';
+
+function message(overrides: Partial<SiweMessage> = {}): SiweMessage {
+  return {
+    ...createSiweMessage({
+      domain: DOMAIN,
+      address: traderWallet.address,
+      uri: `https://${DOMAIN}`,
+      chainId: 1,
+      nonce: NONCE,
+      statement: 'Sign in to PhotonX.',
+      ttlMs: 5 * 60_000
+    }, clock),
+    ...overrides
+  };
+}
+
+async function rejection(signed: Promise<{ message: string; signature: string }>, expected = {}, at = NOW) {
+  const { message: text, signature } = await signed;
+  return verifySiweMessage(text, signature, { domains: [DOMAIN], ...expected }, { clock: { now: () => at } })
+    .then(() => undefined, error => error.details?.reason);
+}
+
+describe('SIWE message format', () => {
+  it('round-trips every field through the EIP-4361 text', () => {
+    const full = message({
+      notBefore: NOW - 1_000n,
+      requestId: 'req-7',
+      resources: ['https://app.photonx.io/terms', 'ipfs://bafybeigdyrzt']
+    });
+    const text = formatSiweMessage(full);
+    expect(text.split('\n').slice(0, 2)).toEqual([
+      `${DOMAIN} wants you to sign in with your Ethereum account:`,
+      traderWallet.address
+    ]);
+    expect(parseSiweMessage(text)).toEqual(full);
+
+    const minimal = message({ statement: undefined, expirationTime: undefined });
+    expect(parseSiweMessage(formatSiweMessage(minimal))).toEqual(minimal);
+  });
+
+  it('rejects messages that are not exactly EIP-4361', () => {
+    const text = formatSiweMessage(message());
+    const lowercased = text.replace(traderWallet.address, traderWallet.address.toLowerCase());
+    expect(() => parseSiweMessage(lowercased)).toThrow('address is not EIP-55 checksummed');
+    expect(() => parseSiweMessage(text.replace(/^Nonce: .*$/m, ''))).toThrow('Malformed SIWE message');
+    expect(() => parseSiweMessage(`${text}\ntrailing`)).toThrow('unexpected line');
+  });
+
+  it('generates nonces the message schema accepts', () => {
+    const nonce = generateSiweNonce();
+    expect(nonce).toMatch(/^[a-f0-9]{32}$/);
+    expect(nonce).not.toBe(generateSiweNonce());
+  });
+});
+
+describe('verifySiweMessage', () => {
+  it('returns the parsed message for a valid sign-in', async () => {
+    const { message: text, signature } = await signSiweMessage(message(), traderWallet);
+    const verified = await verifySiweMessage(text, signature, { domains: [DOMAIN], nonce: NONCE, chainIds: [1] }, { clock });
+    expect(verified.address.value).toBe(traderWallet.address.toLowerCase());
+  });
+
+  it('rejects a message for another domain or chain', async () => {
+    expect(await rejection(signSiweMessage(message({ domain: 'evil.example' }), traderWallet))).toBe('DOMAIN_MISMATCH');
+    expect(await rejection(signSiweMessage(message({ chainId: 137 }), traderWallet), { chainIds: [1] }))
+      .toBe('CHAIN_MISMATCH');
+  });
+
+  it('rejects a nonce other than the one issued', async () => {
+    expect(await rejection(signSiweMessage(message(), traderWallet), { nonce: 'ffffffffffffffff' })).toBe('NONCE_MISMATCH');
+  });
+
+  it('only accepts messages inside their validity window', async () => {
+    const signed = () => signSiweMessage(message({ notBefore: NOW + 1_000n }), traderWallet);
+    expect(await rejection(signed())).toBe('NOT_YET_VALID');
+    expect(await rejection(signed(), {}, NOW + 1_000n)).toBeUndefined();
+    // Expiry is exclusive
+    expect(await rejection(signed(), {}, NOW + 5n * 60_000n)).toBe('EXPIRED');
+  });
+
+  it('rejects a signature from an address other than the one named', async () => {
+    const text = formatSiweMessage(message());
+    expect(await rejection(Promise.resolve({ message: text, signature: await lpWallet.signMessage(text) })))
+      .toBe('INVALID_SIGNATURE');
+
+    // Or over different text than was signed
+    const { signature } = await signSiweMessage(message(), traderWallet);
+    const edited = text.replace('Sign in to PhotonX.', 'Sign in to PhotonX!');
+    expect(await rejection(Promise.resolve({ message: edited, signature }))).toBe('INVALID_SIGNATURE');
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  CONSTANTS,
+  DEFAULT_EXPIRY_POLICY,
+  SyncedClock,
+  TimeSyncResponse,
+  computeTimeSyncSample,
+  createTimeSyncResponse,
+  deserializeTimeSyncResponse,
+  isFresh,
+  isQuoteExpired,
+  serializeTimeSyncResponse,
+  validateTimestamp
+} from '../src';
+
+const NOW = 1_700_000_000_000n;
+const MAX_AGE = BigInt(CONSTANTS.QUOTE_EXPIRY_MS);
+const SKEW = BigInt(CONSTANTS.MAX_CLOCK_SKEW_MS);
+
+// Client 500 ms behind the coordinator, 50 ms each way, 10 ms on the server
+function exchange(offset = 500n, oneWay = 50n, t0 = 1_000n): [TimeSyncResponse, bigint] {
+  const t1 = t0 + oneWay + offset;
+  const t2 = t1 + 10n;
+  return [
+    { type: 'TIME_SYNC_RESPONSE', clientSendTime: t0, serverReceiveTime: t1, serverSendTime: t2 },
+    t2 - offset + oneWay
+  ];
+}
+
+describe('time sync', () => {
+  it('estimates the offset and round trip from one NTP-style exchange', () => {
+    expect(computeTimeSyncSample(...exchange())).toEqual({ offsetMs: 500, roundTripMs: 100 });
+    expect(computeTimeSyncSample(...exchange(-250n, 20n))).toEqual({ offsetMs: -250, roundTripMs: 40 });
+  });
+
+  it('corrects the local clock with the lowest-latency sample', () => {
+    const clock = new SyncedClock({ now: () => NOW });
+    expect(clock.synced).toBe(false);
+    expect(clock.now()).toBe(NOW);
+
+    clock.addResponse(...exchange(500n, 50n));
+    clock.addResponse(...exchange(900n, 400n)); // Slow and skewed by the queueing
+    expect(clock.offsetMs).toBe(500);
+    expect(clock.now()).toBe(NOW + 500n);
+
+    clock.reset();
+    expect(clock.now()).toBe(NOW);
+  });
+
+  it('forgets samples beyond its window', () => {
+    const clock = new SyncedClock({ now: () => NOW }, 2);
+    clock.addResponse(...exchange(100n, 5n));
+    clock.addResponse(...exchange(300n, 50n));
+    clock.addResponse(...exchange(200n, 40n));
+    expect(clock.offsetMs).toBe(200);
+  });
+
+  it('round-trips the exchange over the wire', () => {
+    const response = createTimeSyncResponse({ type: 'TIME_SYNC_REQUEST', clientSendTime: 1n }, 5n, { now: () => 6n });
+    expect(deserializeTimeSyncResponse(JSON.parse(JSON.stringify(serializeTimeSyncResponse(response)))))
+      .toEqual(response);
+    expect(() => deserializeTimeSyncResponse({ ...serializeTimeSyncResponse(response), serverSendTime: '4' }))
+      .toThrow('serverSendTime precedes serverReceiveTime');
+  });
+});
+
+describe('message freshness', () => {
+  it('accepts timestamps up to the skew in the future and max age plus skew in the past', () => {
+    expect(isFresh(NOW + SKEW, NOW)).toBe(true);
+    expect(isFresh(NOW + SKEW + 1n, NOW)).toBe(false);
+    expect(isFresh(NOW - MAX_AGE - SKEW, NOW)).toBe(true);
+    expect(isFresh(NOW - MAX_AGE - SKEW - 1n, NOW)).toBe(false);
+  });
+
+  it('applies the same bounds in validateTimestamp against the given clock', () => {
+    const clock = { now: () => NOW };
+    expect(validateTimestamp(NOW + SKEW, undefined, undefined, clock)).toBe(true);
+    expect(validateTimestamp(NOW + SKEW + 1n, undefined, undefined, clock)).toBe(false);
+    expect(validateTimestamp(NOW - 1_100n, 1_000, 100, clock)).toBe(true);
+    expect(validateTimestamp(NOW - 1_101n, 1_000, 100, clock)).toBe(false);
+    expect(validateTimestamp(NOW + 101n, 1_000, 100, clock)).toBe(false);
+  });
+});
+
+describe('quote expiry', () => {
+  const grace = BigInt(DEFAULT_EXPIRY_POLICY.graceMs);
+
+  it('allows only the grace period past expiryTimestamp', () => {
+    expect(isQuoteExpired(NOW, NOW + grace)).toBe(false);
+    expect(isQuoteExpired(NOW, NOW + grace + 1n)).toBe(true);
+    expect(isQuoteExpired(NOW, NOW + 1n, { graceMs: 0 })).toBe(true);
+  });
+
+  it('is judged apart from message freshness', () => {
+    // A fresh fill cannot revive a quote that already expired...
+    const expiry = NOW - grace - 1n;
+    expect(isFresh(NOW, NOW)).toBe(true);
+    expect(isQuoteExpired(expiry, NOW)).toBe(true);
+
+    // ...and a long-lived quote stays firm after its own timestamp went stale
+    const issuedAt = NOW - MAX_AGE - SKEW - 1n;
+    expect(isFresh(issuedAt, NOW)).toBe(false);
+    expect(isQuoteExpired(issuedAt + 5n * 60_000n, NOW)).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import { ChannelError, FillError, FillTerms, applyCancel, applyFill, applyReplace } from '../src';
+import { CHANNEL_ID, USDC, WETH, address, channelState, fill, traderWallet } from './fixtures';
+
+const terms: FillTerms = {
+  side: 'BUY',
+  baseToken: address(WETH),
+  quoteToken: address(USDC),
+  lpFeeBps: 5,
+  baseDecimals: 18,
+  quoteDecimals: 6
+};
+
+function balance(balances: readonly { token: { value: string }; amount: bigint }[], token: string): bigint {
+  return balances.find(entry => entry.token.value === token)!.amount;
+}
+
+describe('applyFill', () => {
+  it('moves base and fee-inclusive quote amounts between the parties', () => {
+    const next = applyFill(channelState(), fill(), terms);
+
+    // 0.5 WETH at 2000 = 1000 USDC, plus a 5 bps fee of 0.5 USDC
+    expect(balance(next.traderBalances, WETH)).toBe(15n * 10n ** 17n);
+    expect(balance(next.traderBalances, USDC)).toBe(2_999_500_000n);
+    expect(balance(next.lpBalances, WETH)).toBe(15n * 10n ** 17n);
+    expect(balance(next.lpBalances, USDC)).toBe(5_000_500_000n);
+    expect(next.nonce).toBe(1n);
+    expect(next.timestamp).toBe(fill().timestamp);
+  });
+
+  it('charges the fee on sells too, out of the proceeds', () => {
+    const next = applyFill(channelState(), fill(), { ...terms, side: 'SELL' });
+    expect(balance(next.traderBalances, WETH)).toBe(5n * 10n ** 17n);
+    expect(balance(next.traderBalances, USDC)).toBe(4_999_500_000n);
+  });
+
+  it('conserves every token across both parties', () => {
+    const before = channelState();
+    const after = applyFill(before, fill(), terms);
+    [WETH, USDC].forEach(token => {
+      expect(balance(after.traderBalances, token) + balance(after.lpBalances, token))
+        .toBe(balance(before.traderBalances, token) + balance(before.lpBalances, token));
+    });
+  });
+
+  it('is deterministic and leaves its input untouched', () => {
+    const state = channelState();
+    const snapshot = JSON.stringify(state, (_key, value) => (typeof value === 'bigint' ? value.toString() : value));
+    const message = fill();
+    expect(applyFill(state, message, terms)).toEqual(applyFill(state, message, terms));
+    expect(JSON.stringify(state, (_key, value) => (typeof value === 'bigint' ? value.toString() : value))).toBe(snapshot);
+  });
+
+  it('refuses to overdraw either party', () => {
+    expect(() => applyFill(channelState(), fill({ quantity: 3n * 10n ** 18n }), terms)).toThrow(FillError);
+    expect(() => applyFill(channelState(), fill({ quantity: 3n * 10n ** 18n }), terms)).toThrow('Insufficient trader balance');
+    expect(() => applyFill(channelState(), fill({ quantity: 3n * 10n ** 18n }), { ...terms, side: 'SELL' }))
+      .toThrow('Insufficient trader balance');
+  });
+
+  it('requires the next nonce on the same channel', () => {
+    expect(() => applyFill(channelState(), fill({ nonce: 2n }), terms)).toThrow('Invalid nonce sequence');
+    expect(() => applyFill(channelState({ nonce: 1n }), fill({ nonce: 1n }), terms)).toThrow(ChannelError);
+    expect(() => applyFill(channelState(), fill({ channelId: { value: '0x' + 'cd'.repeat(32) } }), terms))
+      .toThrow('Channel ID mismatch');
+    expect(() => applyFill(channelState(), fill({ timestamp: 1n }), terms)).toThrow('precedes channel state');
+  });
+
+  it('rejects fills for other participants, pairs or fees', () => {
+    expect(() => applyFill(channelState(), fill({ trader: address('0x' + '99'.repeat(20)) }), terms))
+      .toThrow('Trader is not a participant');
+    expect(() => applyFill(channelState(), fill(), { ...terms, lpFeeBps: 10_000 })).toThrow('LP fee out of range');
+    expect(() => applyFill(channelState(), fill(), {
+      ...terms,
+      pairs: [{ baseToken: address(USDC), quoteToken: address(WETH) }]
+    })).toThrow('Pair is not tradable');
+  });
+
+  it('rejects fills whose notional rounds to zero', () => {
+    // Rounded in the LP's favour: a dust BUY still costs 1 unit, a dust SELL yields nothing
+    expect(() => applyFill(channelState(), fill({ quantity: 1n }), { ...terms, side: 'SELL' })).toThrow('rounds to zero');
+  });
+});
+
+describe('applyCancel and applyReplace', () => {
+  const base = { channelId: { value: CHANNEL_ID }, nonce: 1n, timestamp: 1_700_000_001_000n, trader: address(traderWallet.address) };
+
+  it('advance the nonce without touching balances', () => {
+    const state = channelState();
+    const next = applyCancel(state, { ...base, quoteId: fill().quoteId });
+    expect(next.nonce).toBe(1n);
+    expect(next.traderBalances).toEqual(state.traderBalances);
+  });
+
+  it('reject replacements for another channel', () => {
+    const request = {
+      channelId: { value: '0x' + 'cd'.repeat(32) },
+      nonce: 1n,
+      side: 'BUY' as const,
+      baseToken: address(WETH),
+      quoteToken: address(USDC),
+      quantity: 1n,
+      maxSlippageBps: 50,
+      timestamp: 1n,
+      trader: address(traderWallet.address)
+    };
+    expect(() => applyReplace(channelState(), { ...base, originalQuoteId: fill().quoteId, newQuoteRequest: request }))
+      .toThrow('does not belong to this channel');
+  });
+});
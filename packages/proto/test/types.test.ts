@@ -0,0 +1,101 @@
+import {
+  CONSTANTS,
+  ChannelParams,
+  ChannelParamsSchema,
+  ChannelStateSchema,
+  FillSchema,
+  QuoteSchema,
+  SessionAuthorizationSchema,
+  Uint256Schema,
+  Uint64Schema
+} from '../src';
+import { CHANNEL_ID, USDC, WETH, address, channelState, delegateWallet, fill, lpWallet, quote, traderWallet } from './fixtures';
+
+function params(overrides: Partial<ChannelParams> = {}): ChannelParams {
+  return {
+    trader: address(traderWallet.address),
+    lp: address(lpWallet.address),
+    tokens: [address(WETH), address(USDC)],
+    traderDeposits: [0n, 4_000n * 10n ** 6n],
+    lpDeposits: [2n * 10n ** 18n, 0n],
+    pairs: [{ baseToken: address(WETH), quoteToken: address(USDC) }],
+    chainId: { value: 1 },
+    timeout: 86_400n,
+    openNonce: 0n,
+    ...overrides
+  };
+}
+
+describe('integer bounds', () => {
+  it('accepts the full uint64 range and nothing past it', () => {
+    expect(Uint64Schema.safeParse(0n).success).toBe(true);
+    expect(Uint64Schema.safeParse((1n << 64n) - 1n).success).toBe(true);
+    expect(Uint64Schema.safeParse(1n << 64n).success).toBe(false);
+    expect(Uint64Schema.safeParse(-1n).success).toBe(false);
+  });
+
+  it('accepts the full uint256 range and nothing past it', () => {
+    expect(Uint256Schema.safeParse((1n << 256n) - 1n).success).toBe(true);
+    expect(Uint256Schema.safeParse(1n << 256n).success).toBe(false);
+    expect(Uint256Schema.safeParse(-1n).success).toBe(false);
+  });
+
+  it('applies the bounds inside messages', () => {
+    expect(FillSchema.safeParse(fill({ nonce: 1n << 64n })).success).toBe(false);
+    expect(FillSchema.safeParse(fill({ quantity: 1n << 256n })).success).toBe(false);
+    expect(ChannelStateSchema.safeParse(channelState({ timestamp: 1n << 64n })).success).toBe(false);
+  });
+});
+
+describe('cross-field refinements', () => {
+  it('rejects a trader that is also the LP, whatever the address case', () => {
+    const lpAsTrader = { value: lpWallet.address.toUpperCase().replace('0X', '0x') };
+    expect(ChannelStateSchema.safeParse(channelState({ trader: lpAsTrader })).success).toBe(false);
+    expect(FillSchema.safeParse(fill({ trader: lpAsTrader })).success).toBe(false);
+    expect(ChannelParamsSchema.safeParse(params({ trader: lpAsTrader })).success).toBe(false);
+  });
+
+  it('rejects quotes that expire at or before they are issued', () => {
+    expect(QuoteSchema.safeParse(quote()).success).toBe(true);
+    expect(QuoteSchema.safeParse(quote({ expiryTimestamp: quote().timestamp })).success).toBe(false);
+    expect(QuoteSchema.safeParse(quote({ expiryTimestamp: quote().timestamp - 1n })).success).toBe(false);
+  });
+
+  it('rejects a session key delegated to its own owner', () => {
+    const authorization = {
+      owner: address(traderWallet.address),
+      delegate: address(delegateWallet.address),
+      channelId: { value: CHANNEL_ID },
+      notionalToken: address(USDC),
+      maxNotional: 10n ** 9n,
+      expiry: 1_700_086_400_000n,
+      nonce: 0n
+    };
+    expect(SessionAuthorizationSchema.safeParse(authorization).success).toBe(true);
+    expect(SessionAuthorizationSchema.safeParse({ ...authorization, delegate: authorization.owner }).success).toBe(false);
+  });
+
+  it('rejects channel parameters outside the token basket', () => {
+    const tooMany = [address(WETH), address(USDC), ...Array.from({ length: CONSTANTS.MAX_TOKENS_PER_CHANNEL - 1 }, (_, i) =>
+      address('0x' + (i + 1).toString(16).padStart(40, '0')))];
+    expect(ChannelParamsSchema.safeParse(params()).success).toBe(true);
+    expect(ChannelParamsSchema.safeParse(params({
+      tokens: tooMany,
+      traderDeposits: tooMany.map(() => 0n),
+      lpDeposits: tooMany.map(() => 1n)
+    })).success).toBe(false);
+    expect(ChannelParamsSchema.safeParse(params({ tokens: [address(WETH), address(WETH)] })).success).toBe(false);
+    expect(ChannelParamsSchema.safeParse(params({ traderDeposits: [0n] })).success).toBe(false);
+    expect(ChannelParamsSchema.safeParse(params({
+      pairs: [{ baseToken: address(WETH), quoteToken: address(lpWallet.address) }]
+    })).success).toBe(false);
+  });
+
+  it('caps channel state balances at one per channel token', () => {
+    const balances = Array.from({ length: CONSTANTS.MAX_TOKENS_PER_CHANNEL + 1 }, () => ({
+      token: address(WETH),
+      amount: 1n
+    }));
+    expect(ChannelStateSchema.safeParse(channelState({ lpBalances: balances })).success).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  ValidationError,
+  deserializeCancel,
+  deserializeChannelState,
+  deserializeFill,
+  deserializeHeartbeat,
+  deserializeQuote,
+  deserializeQuoteRequest,
+  deserializeReplace,
+  deserializeSessionAuthorization,
+  deserializeSettlementRequest,
+  serializeCancel,
+  serializeChannelState,
+  serializeFill,
+  serializeHeartbeat,
+  serializeQuote,
+  serializeQuoteRequest,
+  serializeReplace,
+  serializeSessionAuthorization,
+  serializeSettlementRequest
+} from '../src';
+import {
+  CHANNEL_ID,
+  QUOTE_ID,
+  USDC,
+  WETH,
+  address,
+  channelState,
+  delegateWallet,
+  fill,
+  quote,
+  traderWallet
+} from './fixtures';
+
+const request = {
+  channelId: { value: CHANNEL_ID },
+  nonce: 3n,
+  side: 'SELL' as const,
+  baseToken: address(WETH),
+  quoteToken: address(USDC),
+  quantity: 10n ** 18n,
+  maxSlippageBps: 50,
+  timestamp: 1_700_000_000_000n,
+  trader: address(traderWallet.address)
+};
+
+// Through JSON text, as it travels
+function roundTrip<T>(value: T, serialize: (value: T) => unknown, deserialize: (data: unknown) => T): T {
+  return deserialize(JSON.parse(JSON.stringify(serialize(value))));
+}
+
+describe('wire codec', () => {
+  it('round-trips every message type losslessly', () => {
+    const base = { channelId: { value: CHANNEL_ID }, nonce: 2n, timestamp: 1_700_000_000_000n };
+    const cases: [unknown, (value: any) => unknown, (data: unknown) => unknown][] = [
+      [request, serializeQuoteRequest, deserializeQuoteRequest],
+      [quote(), serializeQuote, deserializeQuote],
+      [fill({ remainingQuantity: 5n }), serializeFill, deserializeFill],
+      [{ ...base, quoteId: QUOTE_ID, trader: address(traderWallet.address) }, serializeCancel, deserializeCancel],
+      [{ ...base, originalQuoteId: QUOTE_ID, newQuoteRequest: request, trader: address(traderWallet.address) },
+        serializeReplace, deserializeReplace],
+      [{ ...base, sender: address(traderWallet.address) }, serializeHeartbeat, deserializeHeartbeat],
+      [channelState({ nonce: 9n }), serializeChannelState, deserializeChannelState],
+      [{ channelId: { value: CHANNEL_ID }, finalState: channelState(), traderSignature: '0x01', lpSignature: '0x02' },
+        serializeSettlementRequest, deserializeSettlementRequest],
+      [{
+        owner: address(traderWallet.address),
+        delegate: address(delegateWallet.address),
+        channelId: { value: CHANNEL_ID },
+        notionalToken: address(USDC),
+        maxNotional: 10n ** 12n,
+        expiry: 1_700_086_400_000n,
+        nonce: 0n
+      }, serializeSessionAuthorization, deserializeSessionAuthorization]
+    ];
+
+    cases.forEach(([value, serialize, deserialize]) => {
+      expect(roundTrip(value, serialize, deserialize)).toEqual(value);
+    });
+  });
+
+  it('keeps amounts beyond 2^53 exact', () => {
+    const big = (1n << 200n) + 1n;
+    expect(roundTrip(fill({ quantity: big, price: big }), serializeFill, deserializeFill).quantity).toBe(big);
+  });
+
+  it('rejects malformed fields with a ValidationError naming the path', () => {
+    const wire = serializeFill(fill());
+    const attempts = [
+      { ...wire, nonce: '-1' },
+      { ...wire, nonce: '1.5' },
+      { ...wire, quantity: 1000 },
+      { ...wire, trader: '0x1234' },
+      { ...wire, fillId: 'not-a-uuid' },
+      { ...wire, quantity: '0' }
+    ];
+    attempts.forEach(data => expect(() => deserializeFill(data)).toThrow(ValidationError));
+
+    try {
+      deserializeFill({ ...wire, nonce: 'abc' });
+    } catch (error) {
+      expect((error as ValidationError).details.issues[0].path).toBe('nonce');
+    }
+  });
+
+  it('enforces cross-field rules from the protocol schemas', () => {
+    expect(() => deserializeFill({ ...serializeFill(fill()), lp: traderWallet.address })).toThrow('Trader and LP must differ');
+    expect(() => deserializeQuote({ ...serializeQuote(quote()), expiryTimestamp: '1' })).toThrow('expiryTimestamp');
+  });
+});